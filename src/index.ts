@@ -4,14 +4,38 @@ import cookieParser from "cookie-parser";
 import "dotenv/config";
 import { registerRoutes } from "./routes";
 import { testConnection } from "./db";
+import { startInvitationSweep } from "./lib/invitations";
+import { backfillMemberships } from "./lib/memberships";
+import { backfillDefaultRoles } from "./lib/permissions";
+import { backfillPlans, purgeQuotaReservations } from "./lib/plans";
+import { backfillClientsStripe, startSubscriptionSync } from "./lib/abonnements";
+import { backfillCodesParrainage } from "./lib/promotions";
+import { getMailTransport } from "./lib/mail";
 
 // Log startup
 console.log("🚀 Starting Onlytrack Backend...");
 console.log("NODE_ENV:", process.env.NODE_ENV);
 console.log("PORT:", process.env.PORT);
 
+// Transport d'emails vérifié au démarrage: en production sans SMTP, le serveur ne démarre pas
+console.log("MAIL_TRANSPORT:", getMailTransport().nom);
+
 const app = express();
 
+/**
+ * Valeur de "trust proxy" depuis TRUST_PROXY: nombre de proxys, true/false,
+ * ou adresses/sous-réseaux de confiance ("loopback", "10.0.0.0/8,127.0.0.1")
+ */
+function trustProxy(valeur: string | undefined): boolean | number | string {
+  if (!valeur) return false;
+  if (valeur === "true" || valeur === "false") return valeur === "true";
+  if (/^\d+$/.test(valeur)) return Number(valeur);
+  return valeur;
+}
+
+// Derrière un reverse proxy, req.ip doit être l'IP du client (compteurs anti brute-force, sessions)
+app.set("trust proxy", trustProxy(process.env.TRUST_PROXY));
+
 // CORS configuration - allow all origins
 app.use(cors({
   origin: true, // Allow all origins
@@ -21,6 +45,8 @@ app.use(cors({
 }));
 
 app.use(cookieParser());
+// Webhook Stripe: corps brut conservé pour vérifier la signature (avant express.json)
+app.use("/api/stripe/webhook", express.raw({ type: "application/json" }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -42,12 +68,25 @@ app.use((req, res, next) => {
     const isConnected = await testConnection();
     if (!isConnected) {
       console.error("⚠️ Database connection failed, but server will continue...");
+    } else {
+      await backfillMemberships();
+      await backfillDefaultRoles();
+      await backfillPlans();
+      await purgeQuotaReservations();
+      await backfillClientsStripe();
+      await backfillCodesParrainage();
+
+      // Réconciliation périodique des abonnements (après la migration des customers Stripe)
+      startSubscriptionSync();
     }
   } catch (error) {
     console.error("⚠️ Database connection test error:", error);
   }
 })();
 
+// Expiration périodique des invitations en attente
+startInvitationSweep();
+
 // Register all API routes
 const server = registerRoutes(app);
 
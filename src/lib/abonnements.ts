@@ -0,0 +1,313 @@
+// ==========================================
+// ABONNEMENTS STRIPE
+// État local de l'abonnement d'une agence (customer, abonnement, échéances)
+// et réconciliation périodique avec Stripe
+// ==========================================
+
+import type Stripe from "stripe";
+import { db } from "../db";
+import { agences, utilisateurs, membresAgence, type Agence } from "../schema";
+import { eq, and, or, lt, like, isNull, isNotNull, inArray, sql } from "drizzle-orm";
+import { stripe, idStripe } from "./stripe";
+import { sendBillingNotice, APP_URL, type Langue } from "./mail";
+import type { MailTemplates } from "./mail-templates";
+import { PLANS_PAYANTS, isPlanPayant, type Plan, type PlanPayant } from "./plans";
+import { planDepuisAbonnement } from "./catalogue";
+
+export const STATUTS_ABONNEMENT = ["actif", "suspendu", "annule", "expire"] as const;
+export type StatutAbonnement = (typeof STATUTS_ABONNEMENT)[number];
+
+// Statut local de chaque statut Stripe
+// "expire": période terminée sans paiement (impayé, essai fini sans moyen de paiement)
+const STATUTS_STRIPE: Record<Stripe.Subscription.Status, StatutAbonnement> = {
+  active: "actif",
+  trialing: "actif",
+  past_due: "suspendu",
+  incomplete: "suspendu",
+  unpaid: "expire",
+  paused: "expire",
+  canceled: "annule",
+  incomplete_expired: "annule",
+};
+
+const SYNC_INTERVAL_MS = 60 * 60 * 1000;
+
+type TemplateFacturation =
+  | "abonnementActive"
+  | "paiementEchoue"
+  | "abonnementAnnule"
+  | "finEssai"
+  | "abonnementExpire";
+
+// Champs de l'agence tenus à jour depuis Stripe
+export interface EtatAbonnement {
+  plan: Plan;
+  statutAbonnement: StatutAbonnement;
+  idClientStripe: string | null;
+  idAbonnementStripe: string;
+  dateExpirationAbonnement: Date | null;
+  dateFinEssai: Date | null;
+}
+
+/**
+ * Envoie une notification de facturation à tous les owners d'une agence
+ * @param donnees - Variables du template en plus du nom de l'agence et du lien vers l'application
+ */
+export async function notifierOwners<K extends TemplateFacturation>(
+  agenceId: string,
+  template: K,
+  donnees: Partial<MailTemplates[K]> = {},
+) {
+  const [agence] = await db
+    .select({ nom: agences.nom })
+    .from(agences)
+    .where(eq(agences.id, agenceId))
+    .limit(1);
+
+  const owners = await db
+    .select({ email: utilisateurs.email, langue: utilisateurs.langue })
+    .from(membresAgence)
+    .innerJoin(utilisateurs, eq(membresAgence.utilisateurId, utilisateurs.id))
+    .where(
+      and(
+        eq(membresAgence.agenceId, agenceId),
+        eq(membresAgence.role, "owner"),
+        eq(membresAgence.actif, true),
+        eq(utilisateurs.actif, true),
+      ),
+    );
+
+  const agenceNom = agence?.nom || "OnlyTrack";
+  for (const owner of owners) {
+    await sendBillingNotice(
+      owner.email,
+      template,
+      { agenceNom, lien: APP_URL, ...donnees } as MailTemplates[K],
+      owner.langue as Langue,
+    );
+  }
+}
+
+/**
+ * État local correspondant à un abonnement Stripe
+ * Un abonnement annulé ou expiré repasse l'agence au plan gratuit
+ * @param planParDefaut - Plan retenu si les prix de l'abonnement sont hors catalogue
+ */
+export function etatAbonnement(
+  abonnement: Stripe.Subscription,
+  planParDefaut: PlanPayant,
+): EtatAbonnement {
+  const statutAbonnement = STATUTS_STRIPE[abonnement.status];
+  const termine = statutAbonnement === "annule" || statutAbonnement === "expire";
+
+  // Fin de période portée par chaque élément de l'abonnement
+  const finsPeriode = abonnement.items.data.map((item) => item.current_period_end);
+
+  return {
+    plan: termine ? "free" : (planDepuisAbonnement(abonnement)?.plan ?? planParDefaut),
+    statutAbonnement,
+    idClientStripe: idStripe(abonnement.customer),
+    idAbonnementStripe: abonnement.id,
+    dateExpirationAbonnement:
+      finsPeriode.length > 0 ? new Date(Math.max(...finsPeriode) * 1000) : null,
+    dateFinEssai: abonnement.trial_end ? new Date(abonnement.trial_end * 1000) : null,
+  };
+}
+
+/**
+ * Valeurs à enregistrer pour un état d'abonnement
+ * Le délai de grâce démarre au premier passage en impayé et s'arrête à la régularisation
+ */
+export function valeursEtat<E extends { statutAbonnement: StatutAbonnement }>(etat: E) {
+  return {
+    ...etat,
+    dateEchecPaiement:
+      etat.statutAbonnement === "suspendu"
+        ? sql`COALESCE(${agences.dateEchecPaiement}, NOW())`
+        : null,
+  };
+}
+
+/**
+ * Abonnement le plus pertinent d'un customer: celui en cours, sinon le plus récent
+ */
+async function findLatestSubscription(
+  clientStripe: string,
+): Promise<Stripe.Subscription | null> {
+  const abonnements = await stripe.subscriptions.list({
+    customer: clientStripe,
+    status: "all",
+    limit: 10,
+  });
+
+  return (
+    abonnements.data.find((a) => ["active", "trialing", "past_due"].includes(a.status)) ??
+    abonnements.data[0] ??
+    null
+  );
+}
+
+/**
+ * Relit l'abonnement de l'agence chez Stripe et met à jour son état local
+ * Sans customer lié, il est retrouvé par les métadonnées posées à sa création (webhook manqué)
+ * @returns Le nouvel état, null si l'agence n'a aucun abonnement Stripe
+ */
+export async function reconcileSubscription(agence: Agence): Promise<EtatAbonnement | null> {
+  let clientStripe = agence.idClientStripe;
+
+  if (!clientStripe) {
+    const clients = await stripe.customers.search({
+      query: `metadata['agenceId']:'${agence.id}'`,
+      limit: 1,
+    });
+    clientStripe = clients.data[0]?.id ?? null;
+  }
+
+  if (!clientStripe) {
+    return null;
+  }
+
+  const abonnement = await findLatestSubscription(clientStripe);
+
+  if (!abonnement) {
+    if (clientStripe !== agence.idClientStripe) {
+      await db
+        .update(agences)
+        .set({ idClientStripe: clientStripe })
+        .where(eq(agences.id, agence.id));
+    }
+    return null;
+  }
+
+  const etat = etatAbonnement(abonnement, isPlanPayant(agence.plan) ? agence.plan : "pro");
+
+  // État lu à l'instant: les événements webhook antérieurs encore en route sont obsolètes
+  await db
+    .update(agences)
+    .set({ ...valeursEtat(etat), dateEvenementStripe: new Date() })
+    .where(eq(agences.id, agence.id));
+
+  return etat;
+}
+
+/**
+ * Repasse au plan gratuit une agence dont l'abonnement a expiré sans paiement
+ */
+async function expirerAbonnement(agenceId: string): Promise<void> {
+  await db
+    .update(agences)
+    .set({ plan: "free", statutAbonnement: "expire", dateEchecPaiement: null })
+    .where(eq(agences.id, agenceId));
+
+  console.log(`⌛ Agence ${agenceId} abonnement expiré - retour au plan gratuit`);
+  await notifierOwners(agenceId, "abonnementExpire");
+}
+
+/**
+ * Réconcilie les agences sur un plan payant dont la période est échue
+ * (ou inconnue, pour les agences liées à Stripe avant le suivi des échéances)
+ * Celles restées sans paiement après relecture de Stripe repassent au plan gratuit
+ * @returns Nombre d'agences réconciliées et d'agences repassées au plan gratuit
+ */
+export async function reconcileSubscriptions(): Promise<{
+  reconciliees: number;
+  expirees: number;
+}> {
+  const maintenant = new Date();
+  const aVerifier = await db
+    .select()
+    .from(agences)
+    .where(
+      and(
+        inArray(agences.plan, [...PLANS_PAYANTS]),
+        or(
+          lt(agences.dateExpirationAbonnement, maintenant),
+          and(isNull(agences.dateExpirationAbonnement), isNotNull(agences.idClientStripe)),
+        ),
+      ),
+    );
+
+  let reconciliees = 0;
+  let expirees = 0;
+
+  for (const agence of aVerifier) {
+    try {
+      const etat = await reconcileSubscription(agence);
+      reconciliees++;
+
+      if (etat?.statutAbonnement === "expire" && agence.statutAbonnement !== "expire") {
+        console.log(`⌛ Agence ${agence.id} abonnement expiré chez Stripe`);
+        await notifierOwners(agence.id, "abonnementExpire");
+        expirees++;
+        continue;
+      }
+
+      // Période échue sans renouvellement payé (ou sans abonnement Stripe)
+      const plan = etat ? etat.plan : agence.plan;
+      const fin = etat ? etat.dateExpirationAbonnement : agence.dateExpirationAbonnement;
+      const payee = etat?.statutAbonnement === "actif";
+
+      if (isPlanPayant(plan) && fin && fin < maintenant && !payee) {
+        await expirerAbonnement(agence.id);
+        expirees++;
+      }
+    } catch (error) {
+      console.error(`Erreur réconciliation abonnement agence ${agence.id}:`, error);
+    }
+  }
+
+  return { reconciliees, expirees };
+}
+
+/**
+ * Sépare le customer Stripe de l'abonnement: idAbonnementStripe contenait l'ID du customer
+ * L'abonnement lui-même est retrouvé à la réconciliation suivante
+ * Appelé au démarrage du serveur
+ */
+export async function backfillClientsStripe(): Promise<void> {
+  try {
+    await db
+      .update(agences)
+      .set({ idClientStripe: sql`${agences.idAbonnementStripe}` })
+      .where(and(isNull(agences.idClientStripe), like(agences.idAbonnementStripe, "cus_%")));
+
+    const [resultat] = await db
+      .update(agences)
+      .set({ idAbonnementStripe: null })
+      .where(
+        and(
+          like(agences.idAbonnementStripe, "cus_%"),
+          eq(agences.idClientStripe, agences.idAbonnementStripe),
+        ),
+      );
+
+    if (resultat.affectedRows > 0) {
+      console.log(`✅ ${resultat.affectedRows} customer(s) Stripe déplacé(s) vers id_client_stripe`);
+    }
+  } catch (error) {
+    console.error("Erreur migration des customers Stripe:", error);
+  }
+}
+
+/**
+ * Lance la réconciliation périodique des abonnements avec Stripe
+ */
+export function startSubscriptionSync(): NodeJS.Timeout {
+  const sync = async () => {
+    try {
+      const { reconciliees, expirees } = await reconcileSubscriptions();
+      if (reconciliees > 0) {
+        console.log(
+          `💳 ${reconciliees} abonnement(s) réconcilié(s), ${expirees} repassé(s) au plan gratuit`,
+        );
+      }
+    } catch (error) {
+      console.error("Erreur réconciliation des abonnements:", error);
+    }
+  };
+
+  const timer = setInterval(sync, SYNC_INTERVAL_MS);
+  timer.unref();
+  void sync();
+  return timer;
+}
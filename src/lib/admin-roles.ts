@@ -0,0 +1,66 @@
+// ==========================================
+// RÔLES ADMIN
+// Rôles des super-admins et permissions "<ressource>:read|write" de l'administration
+// ==========================================
+
+import { db } from "../db";
+import { superAdmins } from "../schema";
+import { eq, and, sql } from "drizzle-orm";
+import { hasPermission, TOUTES_PERMISSIONS } from "./permissions";
+
+// support: consultation et impersonation
+// facturation: consultation et changements de plan / d'abonnement
+// admin: accès complet, dont la gestion des admins
+export const ROLES_ADMIN = ["support", "facturation", "admin"] as const;
+export type RoleAdmin = (typeof ROLES_ADMIN)[number];
+
+// Ressources de l'administration
+export const RESSOURCES_ADMIN = [
+  "agences", // Fiche agence (hors plan et abonnement), agences de démo
+  "facturation", // Plan et statut d'abonnement des agences
+  "utilisateurs",
+  "acces-temporaires",
+  "securite", // Tentatives échouées et journal d'audit
+  "impersonation",
+  "admins",
+] as const;
+
+export type RessourceAdmin = (typeof RESSOURCES_ADMIN)[number];
+export type PermissionAdmin = `${RessourceAdmin}:${"read" | "write"}`;
+
+// Consultation de toute l'administration, sauf la liste des admins
+const LECTURE_ADMIN: PermissionAdmin[] = RESSOURCES_ADMIN.filter(
+  (ressource) => ressource !== "admins",
+).map((ressource) => `${ressource}:read` as PermissionAdmin);
+
+export const PERMISSIONS_ROLES_ADMIN: Record<RoleAdmin, string[]> = {
+  support: [...LECTURE_ADMIN, "impersonation:write"],
+  facturation: [...LECTURE_ADMIN, "facturation:write"],
+  admin: [TOUTES_PERMISSIONS],
+};
+
+/**
+ * Permissions d'un admin selon son rôle (un rôle inconnu n'accorde rien)
+ */
+export function getAdminPermissions(role: string): string[] {
+  return PERMISSIONS_ROLES_ADMIN[role as RoleAdmin] ?? [];
+}
+
+/**
+ * Vérifie qu'un admin dispose de la permission demandée
+ */
+export function adminHasPermission(admin: { role: string }, requise: PermissionAdmin): boolean {
+  return hasPermission(getAdminPermissions(admin.role), requise);
+}
+
+/**
+ * Nombre d'admins complets actifs (au moins un doit toujours subsister)
+ */
+export async function countFullAdmins(): Promise<number> {
+  const [resultat] = await db
+    .select({ nombre: sql<number>`COUNT(*)` })
+    .from(superAdmins)
+    .where(and(eq(superAdmins.role, "admin"), eq(superAdmins.actif, true)));
+
+  return Number(resultat?.nombre ?? 0);
+}
@@ -0,0 +1,266 @@
+// ==========================================
+// CYCLE DE VIE DES AGENCES
+// Statuts (active, suspendue, archivée) et suppression définitive des données d'une agence
+// ==========================================
+
+import { db } from "../db";
+import {
+  agences,
+  utilisateurs,
+  membresAgence,
+  rolesAgence,
+  invitations,
+  sessions,
+  codesRecuperation,
+  accesTemporaires,
+  actionsDemoBloquees,
+  compteursUsage,
+  reservationsQuotas,
+  tentativesEchouees,
+  impersonations,
+  journalImpersonations,
+  clesApi,
+  modeles,
+  etapesOnboarding,
+  affilies,
+  analytics,
+  postsAnalytics,
+  transactions,
+  candidatsDm,
+  scriptsDm,
+  inspirations,
+  procedures,
+  taches,
+  equipe,
+  evenementsStripe,
+  facturesStripe,
+  paiementsStripe,
+  utilisationsCodesPromo,
+  parrainages,
+  type Agence,
+} from "../schema";
+import { eq, and, ne, inArray, sql, type SQL } from "drizzle-orm";
+import type { MySqlColumn, MySqlTable } from "drizzle-orm/mysql-core";
+
+export const STATUTS_AGENCE = ["active", "suspendue", "archivee"] as const;
+export type StatutAgence = (typeof STATUTS_AGENCE)[number];
+
+// Tables portant un agenceId, supprimées lors de la purge (ordre de suppression)
+const TABLES_AGENCE: { nom: string; table: MySqlTable; agenceId: MySqlColumn }[] = [
+  { nom: "taches", table: taches, agenceId: taches.agenceId },
+  { nom: "procedures", table: procedures, agenceId: procedures.agenceId },
+  { nom: "inspirations", table: inspirations, agenceId: inspirations.agenceId },
+  { nom: "scriptsDm", table: scriptsDm, agenceId: scriptsDm.agenceId },
+  { nom: "candidatsDm", table: candidatsDm, agenceId: candidatsDm.agenceId },
+  { nom: "transactions", table: transactions, agenceId: transactions.agenceId },
+  { nom: "postsAnalytics", table: postsAnalytics, agenceId: postsAnalytics.agenceId },
+  { nom: "analytics", table: analytics, agenceId: analytics.agenceId },
+  { nom: "affilies", table: affilies, agenceId: affilies.agenceId },
+  { nom: "etapesOnboarding", table: etapesOnboarding, agenceId: etapesOnboarding.agenceId },
+  { nom: "modeles", table: modeles, agenceId: modeles.agenceId },
+  { nom: "equipe", table: equipe, agenceId: equipe.agenceId },
+  { nom: "clesApi", table: clesApi, agenceId: clesApi.agenceId },
+  { nom: "impersonations", table: impersonations, agenceId: impersonations.agenceId },
+  { nom: "actionsDemoBloquees", table: actionsDemoBloquees, agenceId: actionsDemoBloquees.agenceId },
+  { nom: "accesTemporaires", table: accesTemporaires, agenceId: accesTemporaires.agenceId },
+  { nom: "compteursUsage", table: compteursUsage, agenceId: compteursUsage.agenceId },
+  { nom: "reservationsQuotas", table: reservationsQuotas, agenceId: reservationsQuotas.agenceId },
+  { nom: "evenementsStripe", table: evenementsStripe, agenceId: evenementsStripe.agenceId },
+  { nom: "paiementsStripe", table: paiementsStripe, agenceId: paiementsStripe.agenceId },
+  { nom: "facturesStripe", table: facturesStripe, agenceId: facturesStripe.agenceId },
+  { nom: "utilisationsCodesPromo", table: utilisationsCodesPromo, agenceId: utilisationsCodesPromo.agenceId },
+  { nom: "parrainagesFilleul", table: parrainages, agenceId: parrainages.filleulId },
+  { nom: "parrainagesParrain", table: parrainages, agenceId: parrainages.parrainId },
+  { nom: "tentativesEchouees", table: tentativesEchouees, agenceId: tentativesEchouees.agenceId },
+  { nom: "sessions", table: sessions, agenceId: sessions.agenceId },
+  { nom: "invitations", table: invitations, agenceId: invitations.agenceId },
+  { nom: "membresAgence", table: membresAgence, agenceId: membresAgence.agenceId },
+  { nom: "rolesAgence", table: rolesAgence, agenceId: rolesAgence.agenceId },
+];
+
+/**
+ * Change le statut d'une agence
+ * Hors statut "active", toutes ses sessions (utilisateurs, démo, impersonations) sont révoquées
+ */
+export async function setStatutAgence(
+  agenceId: string,
+  statut: StatutAgence,
+  motif: string | null = null,
+): Promise<void> {
+  await db
+    .update(agences)
+    .set({ statut, motifStatut: motif, dateStatut: new Date() })
+    .where(eq(agences.id, agenceId));
+
+  if (statut !== "active") {
+    const accesIds = db
+      .select({ id: accesTemporaires.id })
+      .from(accesTemporaires)
+      .where(eq(accesTemporaires.agenceId, agenceId));
+
+    await db.delete(sessions).where(eq(sessions.agenceId, agenceId));
+    await db
+      .delete(sessions)
+      .where(and(eq(sessions.typeCompte, "demo"), inArray(sessions.utilisateurId, accesIds)));
+  }
+}
+
+export interface RapportPurge {
+  agence: Pick<Agence, "id" | "nom" | "statut">;
+  lignes: Record<string, number>; // Nombre de lignes supprimées par table
+  utilisateursSupprimes: string[]; // Comptes membres uniquement de cette agence
+  utilisateursConserves: string[]; // Comptes membres d'autres agences (seule l'appartenance est supprimée)
+  total: number;
+}
+
+/**
+ * Comptes rattachés à l'agence, répartis entre ceux supprimés avec elle
+ * et ceux qui restent membres d'une autre agence
+ */
+async function repartirUtilisateurs(agenceId: string) {
+  const membres = await db
+    .select({ utilisateurId: membresAgence.utilisateurId })
+    .from(membresAgence)
+    .where(eq(membresAgence.agenceId, agenceId));
+
+  const parDefaut = await db
+    .select({ utilisateurId: utilisateurs.id })
+    .from(utilisateurs)
+    .where(eq(utilisateurs.agenceId, agenceId));
+
+  const ids = [
+    ...new Set([...membres, ...parDefaut].map((m) => m.utilisateurId)),
+  ];
+  if (ids.length === 0) {
+    return { supprimes: [], conserves: [] };
+  }
+
+  const ailleurs = await db
+    .selectDistinct({ utilisateurId: membresAgence.utilisateurId })
+    .from(membresAgence)
+    .where(
+      and(
+        inArray(membresAgence.utilisateurId, ids),
+        ne(membresAgence.agenceId, agenceId),
+      ),
+    );
+
+  const conserves = ailleurs.map((m) => m.utilisateurId);
+  return {
+    supprimes: ids.filter((id) => !conserves.includes(id)),
+    conserves,
+  };
+}
+
+async function compterLignes(table: MySqlTable, condition: SQL) {
+  const [resultat] = await db
+    .select({ nombre: sql<number>`COUNT(*)` })
+    .from(table)
+    .where(condition);
+
+  return Number(resultat?.nombre ?? 0);
+}
+
+/**
+ * Rapport de purge: tout ce qui serait supprimé avec l'agence (aucune écriture)
+ */
+export async function planPurge(agence: Agence): Promise<RapportPurge> {
+  const lignes: Record<string, number> = {};
+
+  for (const { nom, table, agenceId } of TABLES_AGENCE) {
+    lignes[nom] = await compterLignes(table, eq(agenceId, agence.id));
+  }
+
+  const impersonationIds = db
+    .select({ id: impersonations.id })
+    .from(impersonations)
+    .where(eq(impersonations.agenceId, agence.id));
+  lignes.journalImpersonations = await compterLignes(
+    journalImpersonations,
+    inArray(journalImpersonations.impersonationId, impersonationIds),
+  );
+
+  const { supprimes, conserves } = await repartirUtilisateurs(agence.id);
+  lignes.utilisateurs = supprimes.length;
+  lignes.agences = 1;
+
+  return {
+    agence: { id: agence.id, nom: agence.nom, statut: agence.statut },
+    lignes,
+    utilisateursSupprimes: supprimes,
+    utilisateursConserves: conserves,
+    total: Object.values(lignes).reduce((somme, n) => somme + n, 0),
+  };
+}
+
+/**
+ * Supprime définitivement l'agence et toutes ses données (transaction unique)
+ * Les comptes membres d'autres agences sont conservés et basculés sur l'une d'elles
+ */
+export async function purgeAgence(agence: Agence): Promise<RapportPurge> {
+  const rapport = await planPurge(agence);
+  const { utilisateursSupprimes, utilisateursConserves } = rapport;
+
+  await db.transaction(async (tx) => {
+    // Sessions démo (portées par l'accès) et journal des impersonations
+    const accesIds = tx
+      .select({ id: accesTemporaires.id })
+      .from(accesTemporaires)
+      .where(eq(accesTemporaires.agenceId, agence.id));
+    await tx
+      .delete(sessions)
+      .where(and(eq(sessions.typeCompte, "demo"), inArray(sessions.utilisateurId, accesIds)));
+
+    const impersonationIds = tx
+      .select({ id: impersonations.id })
+      .from(impersonations)
+      .where(eq(impersonations.agenceId, agence.id));
+    await tx
+      .delete(journalImpersonations)
+      .where(inArray(journalImpersonations.impersonationId, impersonationIds));
+
+    if (utilisateursSupprimes.length > 0) {
+      await tx
+        .delete(sessions)
+        .where(inArray(sessions.utilisateurId, utilisateursSupprimes));
+      await tx
+        .delete(codesRecuperation)
+        .where(
+          and(
+            eq(codesRecuperation.typeCompte, "utilisateur"),
+            inArray(codesRecuperation.compteId, utilisateursSupprimes),
+          ),
+        );
+      await tx.delete(clesApi).where(inArray(clesApi.utilisateurId, utilisateursSupprimes));
+      await tx.delete(utilisateurs).where(inArray(utilisateurs.id, utilisateursSupprimes));
+    }
+
+    // Agence par défaut des comptes conservés: leur plus ancienne autre appartenance
+    for (const utilisateurId of utilisateursConserves) {
+      const [autre] = await tx
+        .select()
+        .from(membresAgence)
+        .where(
+          and(
+            eq(membresAgence.utilisateurId, utilisateurId),
+            ne(membresAgence.agenceId, agence.id),
+          ),
+        )
+        .orderBy(membresAgence.dateCreation)
+        .limit(1);
+
+      await tx
+        .update(utilisateurs)
+        .set({ agenceId: autre.agenceId, role: autre.role })
+        .where(and(eq(utilisateurs.id, utilisateurId), eq(utilisateurs.agenceId, agence.id)));
+    }
+
+    for (const { table, agenceId } of TABLES_AGENCE) {
+      await tx.delete(table).where(eq(agenceId, agence.id));
+    }
+
+    await tx.delete(agences).where(eq(agences.id, agence.id));
+  });
+
+  return rapport;
+}
@@ -0,0 +1,93 @@
+// ==========================================
+// CLÉS API
+// Génération, vérification et permissions des clés d'accès programmatique
+// ==========================================
+
+import type { Request } from "express";
+import { db } from "../db";
+import { clesApi, type CleApi } from "../schema";
+import { eq, and, isNull } from "drizzle-orm";
+import { generateToken, hashToken } from "./auth";
+import { RESSOURCES_DONNEES } from "./permissions";
+
+// Préfixe reconnaissable des clés (distingue une clé API d'un JWT dans l'en-tête Authorization)
+export const API_KEY_PREFIX = "otk_";
+
+// Ressources accessibles par clé API: les ressources de données uniquement
+// Les routes de compte, d'équipe, de facturation et d'administration restent réservées aux sessions
+export const RESSOURCES_API = RESSOURCES_DONNEES;
+
+export type RessourceApi = (typeof RESSOURCES_API)[number];
+export type PermissionApi = `${RessourceApi}:${"read" | "write"}`;
+
+// Toutes les permissions possibles ("transactions:read", "transactions:write", ...)
+export const PERMISSIONS_API = RESSOURCES_API.flatMap((ressource) => [
+  `${ressource}:read` as PermissionApi,
+  `${ressource}:write` as PermissionApi,
+]);
+
+/**
+ * Génère une nouvelle clé API
+ * @returns Clé en clair (affichée une seule fois), son préfixe d'affichage et son hash
+ */
+export function generateApiKey(): {
+  cle: string;
+  prefixe: string;
+  cleHash: string;
+} {
+  const cle = `${API_KEY_PREFIX}${generateToken()}`;
+  return {
+    cle,
+    prefixe: cle.slice(0, API_KEY_PREFIX.length + 8),
+    cleHash: hashToken(cle),
+  };
+}
+
+/**
+ * Retrouve une clé active (non révoquée, non expirée) à partir de sa valeur en clair
+ */
+export async function findActiveApiKey(cle: string): Promise<CleApi | null> {
+  if (!cle.startsWith(API_KEY_PREFIX)) {
+    return null;
+  }
+
+  const [cleApi] = await db
+    .select()
+    .from(clesApi)
+    .where(and(eq(clesApi.cleHash, hashToken(cle)), isNull(clesApi.dateRevocation)))
+    .limit(1);
+
+  if (!cleApi || (cleApi.dateExpiration && cleApi.dateExpiration < new Date())) {
+    return null;
+  }
+
+  return cleApi;
+}
+
+/**
+ * Permission nécessaire pour la requête: ressource = point de montage, lecture = GET/HEAD
+ * @returns null si la route n'est pas accessible par clé API
+ */
+export function permissionRequise(req: Request): PermissionApi | null {
+  const ressource = req.baseUrl.replace(/^\/api\//, "").split("/")[0];
+  if (!(RESSOURCES_API as readonly string[]).includes(ressource)) {
+    return null;
+  }
+
+  const action = req.method === "GET" || req.method === "HEAD" ? "read" : "write";
+  return `${ressource}:${action}` as PermissionApi;
+}
+
+/**
+ * Enregistre la dernière utilisation d'une clé
+ */
+export async function touchApiKey(id: string, ip: string | null): Promise<void> {
+  try {
+    await db
+      .update(clesApi)
+      .set({ derniereUtilisation: new Date(), derniereIp: ip })
+      .where(eq(clesApi.id, id));
+  } catch (error) {
+    console.error("Erreur mise à jour utilisation clé API:", error);
+  }
+}
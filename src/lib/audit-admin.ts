@@ -0,0 +1,106 @@
+// ==========================================
+// AUDIT ADMIN
+// Journal append-only des modifications faites par les super-admins
+// ==========================================
+
+import type { Request } from "express";
+import { db } from "../db";
+import { auditAdmin } from "../schema";
+
+export type TypeCibleAudit =
+  | "agence"
+  | "utilisateur"
+  | "admin"
+  | "acces_temporaire"
+  | "impersonation"
+  | "evenement_stripe"
+  | "code_promo";
+
+export const TYPES_CIBLE_AUDIT: TypeCibleAudit[] = [
+  "agence",
+  "utilisateur",
+  "admin",
+  "acces_temporaire",
+  "impersonation",
+  "evenement_stripe",
+  "code_promo",
+];
+
+// Champs jamais recopiés dans le journal (seul le fait qu'ils ont changé est conservé)
+const CHAMPS_MASQUES = [
+  "motDePasse",
+  "motDePasseHash",
+  "totpSecret",
+  "token",
+  "tokenVerification",
+  "tokenResetPassword",
+  "tokenChangementEmail",
+];
+
+function valeurJournal(champ: string, valeur: unknown): unknown {
+  if (valeur === undefined) return null;
+  if (CHAMPS_MASQUES.includes(champ)) return valeur === null ? null : "[masqué]";
+  return valeur;
+}
+
+function identiques(a: unknown, b: unknown): boolean {
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Différence entre deux états d'une cible: seuls les champs modifiés sont conservés
+ * Un état null correspond à une création (avant) ou une suppression (après)
+ */
+export function diffAudit(
+  avant: Record<string, unknown> | null,
+  apres: Record<string, unknown> | null,
+): { avant: Record<string, unknown> | null; apres: Record<string, unknown> | null } {
+  const champs = new Set([...Object.keys(avant ?? {}), ...Object.keys(apres ?? {})]);
+  const diffAvant: Record<string, unknown> = {};
+  const diffApres: Record<string, unknown> = {};
+
+  for (const champ of champs) {
+    const valeurAvant = avant?.[champ];
+    const valeurApres = apres?.[champ];
+
+    if (avant && apres && identiques(valeurAvant, valeurApres)) continue;
+
+    // Un secret remplacé par un autre reste visible comme modifié
+    if (avant) diffAvant[champ] = valeurJournal(champ, valeurAvant);
+    if (apres) diffApres[champ] = valeurJournal(champ, valeurApres);
+  }
+
+  return { avant: avant ? diffAvant : null, apres: apres ? diffApres : null };
+}
+
+/**
+ * Enregistre une modification faite par l'admin connecté (req.admin)
+ * Le journal ne doit pas bloquer l'action: une erreur d'écriture est seulement loguée
+ */
+export async function logAdminAction(
+  req: Request,
+  action: string,
+  typeCible: TypeCibleAudit,
+  cibleId: string,
+  avant: Record<string, unknown> | null,
+  apres: Record<string, unknown> | null,
+): Promise<void> {
+  try {
+    const diff = diffAudit(avant, apres);
+
+    await db.insert(auditAdmin).values({
+      id: crypto.randomUUID(),
+      adminId: req.admin!.id,
+      action,
+      typeCible,
+      cibleId,
+      avant: diff.avant,
+      apres: diff.apres,
+      adresseIp: req.ip || null,
+      date: new Date(),
+    });
+  } catch (error) {
+    console.error("Erreur journal d'audit admin:", error);
+  }
+}
@@ -14,8 +14,8 @@ const SALT_ROUNDS = 12;
 const JWT_SECRET =
   process.env.JWT_SECRET || "secret-de-developpement-a-changer";
 
-// Durée de validité du JWT (7 jours)
-const JWT_EXPIRATION = "7d";
+// Durée de validité du JWT d'accès (15 minutes, renouvelé via refresh token)
+const JWT_EXPIRATION = "15m";
 
 // ==========================================
 // HASHING DE MOTS DE PASSE
@@ -102,17 +102,21 @@ export interface JWTPayload {
   userId: string;
   agenceId: string;
   role: "owner" | "member" | "model";
+  sessionId: string; // Session (famille de refresh tokens) à laquelle le token est lié
+  impersonationId?: string; // Présent si un super-admin agit en tant que cet utilisateur
 }
 
 /**
- * Génère un JWT pour un utilisateur
+ * Génère un JWT d'accès (courte durée) pour un utilisateur
  * @param payload - Données de l'utilisateur à inclure dans le token
+ * @param expiresIn - Durée de validité (15 minutes par défaut, en secondes sinon)
  * @returns JWT signé
  */
-export function generateJWT(payload: JWTPayload): string {
-  return jwt.sign(payload, JWT_SECRET, {
-    expiresIn: JWT_EXPIRATION,
-  });
+export function generateJWT(
+  payload: JWTPayload,
+  expiresIn: number | typeof JWT_EXPIRATION = JWT_EXPIRATION,
+): string {
+  return jwt.sign(payload, JWT_SECRET, { expiresIn });
 }
 
 /**
@@ -129,6 +133,53 @@ export function verifyJWT(token: string): JWTPayload | null {
   }
 }
 
+// ==========================================
+// CHALLENGE DOUBLE AUTHENTIFICATION
+// ==========================================
+
+// Durée de validité d'un challenge 2FA (entre mot de passe et code TOTP)
+const CHALLENGE_EXPIRATION = "10m";
+
+export interface ChallengePayload {
+  sub: string; // ID de l'utilisateur ou de l'admin
+  compte: "utilisateur" | "admin";
+  // "2fa" = code attendu, "2fa-setup" = configuration obligatoire avant connexion
+  etape: "2fa" | "2fa-setup";
+}
+
+/**
+ * Génère un token de challenge 2FA à courte durée de vie
+ * Émis après un mot de passe valide, échangé contre une session après le code TOTP
+ * @param payload - Compte concerné et étape attendue
+ * @returns JWT signé
+ */
+export function generateChallengeToken(payload: ChallengePayload): string {
+  return jwt.sign({ ...payload, type: "challenge" }, JWT_SECRET, {
+    expiresIn: CHALLENGE_EXPIRATION,
+  });
+}
+
+/**
+ * Vérifie un token de challenge 2FA
+ * @param token - Token de challenge
+ * @param compte - Type de compte attendu
+ * @returns Payload décodé ou null si invalide/expiré
+ */
+export function verifyChallengeToken(
+  token: string,
+  compte: ChallengePayload["compte"],
+): ChallengePayload | null {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as any;
+    if (decoded.type !== "challenge" || decoded.compte !== compte) {
+      return null;
+    }
+    return { sub: decoded.sub, compte: decoded.compte, etape: decoded.etape };
+  } catch (error) {
+    return null;
+  }
+}
+
 /**
  * Hash un token pour le stocker en base de données
  * (pour les sessions, on stocke pas le JWT en clair)
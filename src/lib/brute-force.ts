@@ -0,0 +1,345 @@
+// ==========================================
+// PROTECTION ANTI BRUTE-FORCE
+// Compteurs par IP et par compte, délais progressifs, verrouillage temporaire
+// ==========================================
+
+import type { Request, Response, NextFunction } from "express";
+import { db } from "../db";
+import { compteursTentatives, tentativesEchouees } from "../schema";
+import { eq, lt } from "drizzle-orm";
+
+export type PorteeTentative =
+  | "connexion"
+  | "2fa"
+  | "admin"
+  | "admin-2fa"
+  | "demo"
+  | "acces"
+  | "invitation"
+  | "reauthentification"
+  | "reinitialisation";
+
+interface Politique {
+  maxTentatives: number; // Échecs avant verrouillage
+  fenetreMs: number; // Fenêtre de comptage
+  verrouillageMs: number; // Durée du verrouillage
+  delaiApres: number; // Échecs avant d'appliquer un délai progressif
+}
+
+// Par compte: peu d'essais, le compte est la cible
+const POLITIQUE_COMPTE: Politique = {
+  maxTentatives: 5,
+  fenetreMs: 15 * 60 * 1000,
+  verrouillageMs: 15 * 60 * 1000,
+  delaiApres: 3,
+};
+
+// Par IP: plus tolérant (NAT, bureaux partagés), couvre aussi la devinette de tokens
+const POLITIQUE_IP: Politique = {
+  maxTentatives: 20,
+  fenetreMs: 15 * 60 * 1000,
+  verrouillageMs: 15 * 60 * 1000,
+  delaiApres: 10,
+};
+
+// Délai progressif maximum appliqué avant de répondre
+const DELAI_MAX_MS = 8000;
+
+// Fréquence de purge des compteurs expirés du store en mémoire
+const PURGE_INTERVAL_MS = 5 * 60 * 1000;
+
+// ==========================================
+// STORES DE COMPTEURS
+// ==========================================
+
+export interface CompteurTentatives {
+  nombre: number;
+  datePremiereTentative: Date;
+  verrouilleJusqua: Date | null;
+}
+
+/**
+ * Interface des stores de compteurs (mémoire ou base de données)
+ */
+export interface AttemptStore {
+  get(cle: string): Promise<CompteurTentatives | null>;
+  set(cle: string, compteur: CompteurTentatives, ttlMs: number): Promise<void>;
+  delete(cle: string): Promise<void>;
+}
+
+/**
+ * Store en mémoire (instance unique)
+ * Les compteurs expirés sont purgés périodiquement: des tentatives sur des emails
+ * aléatoires ne font pas grossir la table indéfiniment
+ */
+export class MemoryAttemptStore implements AttemptStore {
+  private compteurs = new Map<
+    string,
+    { compteur: CompteurTentatives; expiration: number }
+  >();
+
+  constructor() {
+    setInterval(() => this.purger(), PURGE_INTERVAL_MS).unref();
+  }
+
+  /**
+   * Supprime les compteurs expirés
+   * @returns Nombre de compteurs supprimés
+   */
+  purger(): number {
+    const maintenant = Date.now();
+    let supprimes = 0;
+    for (const [cle, entree] of this.compteurs) {
+      if (entree.expiration < maintenant) {
+        this.compteurs.delete(cle);
+        supprimes++;
+      }
+    }
+    return supprimes;
+  }
+
+  async get(cle: string) {
+    const entree = this.compteurs.get(cle);
+    if (!entree) return null;
+    if (entree.expiration < Date.now()) {
+      this.compteurs.delete(cle);
+      return null;
+    }
+    return entree.compteur;
+  }
+
+  async set(cle: string, compteur: CompteurTentatives, ttlMs: number) {
+    this.compteurs.set(cle, { compteur, expiration: Date.now() + ttlMs });
+  }
+
+  async delete(cle: string) {
+    this.compteurs.delete(cle);
+  }
+}
+
+/**
+ * Store en base de données (partagé entre instances)
+ */
+export class DbAttemptStore implements AttemptStore {
+  async get(cle: string) {
+    const [ligne] = await db
+      .select()
+      .from(compteursTentatives)
+      .where(eq(compteursTentatives.cle, cle))
+      .limit(1);
+
+    if (!ligne) return null;
+    if (ligne.dateExpiration < new Date()) {
+      await this.delete(cle);
+      return null;
+    }
+
+    return {
+      nombre: ligne.nombre,
+      datePremiereTentative: ligne.datePremiereTentative,
+      verrouilleJusqua: ligne.verrouilleJusqua,
+    };
+  }
+
+  async set(cle: string, compteur: CompteurTentatives, ttlMs: number) {
+    const valeurs = { ...compteur, dateExpiration: new Date(Date.now() + ttlMs) };
+    await db
+      .insert(compteursTentatives)
+      .values({ cle, ...valeurs })
+      .onDuplicateKeyUpdate({ set: valeurs });
+
+    // Nettoyage opportuniste des compteurs expirés
+    await db
+      .delete(compteursTentatives)
+      .where(lt(compteursTentatives.dateExpiration, new Date()));
+  }
+
+  async delete(cle: string) {
+    await db.delete(compteursTentatives).where(eq(compteursTentatives.cle, cle));
+  }
+}
+
+let store: AttemptStore | null = null;
+
+/**
+ * Retourne le store configuré (BRUTE_FORCE_STORE = "memory" | "db", mémoire par défaut)
+ */
+export function getAttemptStore(): AttemptStore {
+  if (!store) {
+    store =
+      process.env.BRUTE_FORCE_STORE === "db"
+        ? new DbAttemptStore()
+        : new MemoryAttemptStore();
+  }
+  return store;
+}
+
+/**
+ * Remplace le store utilisé (tests, scripts)
+ */
+export function setAttemptStore(nouveau: AttemptStore): void {
+  store = nouveau;
+}
+
+// ==========================================
+// LOGIQUE DE COMPTAGE
+// ==========================================
+
+function adresseIp(req: Request): string {
+  return req.ip || req.socket.remoteAddress || "inconnue";
+}
+
+function clesPour(
+  req: Request,
+  portee: PorteeTentative,
+  identifiant?: string | null,
+): Array<{ cle: string; politique: Politique }> {
+  const cles = [
+    { cle: `ip:${portee}:${adresseIp(req)}`, politique: POLITIQUE_IP },
+  ];
+  if (identifiant) {
+    cles.push({
+      cle: `compte:${portee}:${identifiant.toLowerCase()}`,
+      politique: POLITIQUE_COMPTE,
+    });
+  }
+  return cles;
+}
+
+function delaiProgressif(nombre: number, politique: Politique): number {
+  if (nombre < politique.delaiApres) return 0;
+  return Math.min(1000 * 2 ** (nombre - politique.delaiApres), DELAI_MAX_MS);
+}
+
+/**
+ * Middleware de protection: refuse si l'IP ou le compte est verrouillé,
+ * sinon applique un délai progressif selon le nombre d'échecs récents
+ * @param portee - Endpoint protégé (les compteurs sont séparés par portée)
+ * @param getIdentifiant - Extrait l'identifiant du compte visé (email, ID...), éventuellement
+ * depuis la base (compte désigné par un token)
+ */
+export function bruteForceGuard(
+  portee: PorteeTentative,
+  getIdentifiant?: (
+    req: Request,
+  ) => string | null | undefined | Promise<string | null | undefined>,
+) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const attemptStore = getAttemptStore();
+      const identifiant = await getIdentifiant?.(req);
+      let delai = 0;
+
+      for (const { cle, politique } of clesPour(req, portee, identifiant)) {
+        const compteur = await attemptStore.get(cle);
+        if (!compteur) continue;
+
+        if (compteur.verrouilleJusqua && compteur.verrouilleJusqua > new Date()) {
+          const retryAfter = Math.ceil(
+            (compteur.verrouilleJusqua.getTime() - Date.now()) / 1000,
+          );
+          res.set("Retry-After", String(retryAfter));
+          return res.status(429).json({
+            error: "Trop de tentatives échouées, réessayez plus tard",
+            retryAfter,
+          });
+        }
+
+        delai = Math.max(delai, delaiProgressif(compteur.nombre, politique));
+      }
+
+      if (delai > 0) {
+        await new Promise((resolve) => setTimeout(resolve, delai));
+      }
+
+      next();
+    } catch (error) {
+      // Le store ne doit jamais bloquer l'authentification
+      console.error("Erreur protection brute-force:", error);
+      next();
+    }
+  };
+}
+
+/**
+ * Enregistre un échec: incrémente les compteurs et journalise la tentative
+ * @param details.agenceId - Agence du compte visé, pour la rendre visible à ses owners
+ */
+export async function recordFailedAttempt(
+  req: Request,
+  portee: PorteeTentative,
+  identifiant: string | null,
+  details: { motif: string; agenceId?: string | null },
+): Promise<void> {
+  try {
+    const attemptStore = getAttemptStore();
+    const maintenant = new Date();
+    let verrouille = false;
+
+    for (const { cle, politique } of clesPour(req, portee, identifiant)) {
+      const existant = await attemptStore.get(cle);
+      const fenetreExpiree =
+        !existant ||
+        maintenant.getTime() - existant.datePremiereTentative.getTime() >
+          politique.fenetreMs;
+
+      const compteur: CompteurTentatives = fenetreExpiree
+        ? { nombre: 1, datePremiereTentative: maintenant, verrouilleJusqua: null }
+        : { ...existant!, nombre: existant!.nombre + 1 };
+
+      if (compteur.nombre >= politique.maxTentatives) {
+        compteur.verrouilleJusqua = new Date(
+          maintenant.getTime() + politique.verrouillageMs,
+        );
+        verrouille = true;
+      }
+
+      await attemptStore.set(
+        cle,
+        compteur,
+        politique.fenetreMs + politique.verrouillageMs,
+      );
+    }
+
+    await db.insert(tentativesEchouees).values({
+      id: crypto.randomUUID(),
+      portee,
+      identifiant,
+      agenceId: details.agenceId || null,
+      adresseIp: adresseIp(req),
+      userAgent: req.get("user-agent") || null,
+      motif: details.motif,
+      verrouille,
+      date: maintenant,
+    });
+
+    if (verrouille) {
+      console.warn(
+        `🔒 Verrouillage brute-force (${portee}) - IP ${adresseIp(req)}${identifiant ? `, compte ${identifiant}` : ""}`,
+      );
+    }
+  } catch (error) {
+    console.error("Erreur enregistrement tentative échouée:", error);
+  }
+}
+
+/**
+ * Réinitialise le compteur d'un compte après une authentification réussie
+ */
+export async function resetAttempts(
+  portee: PorteeTentative,
+  identifiant: string,
+): Promise<void> {
+  try {
+    await getAttemptStore().delete(`compte:${portee}:${identifiant.toLowerCase()}`);
+  } catch (error) {
+    console.error("Erreur réinitialisation tentatives:", error);
+  }
+}
+
+/**
+ * Tronque un token deviné pour le journal (on ne stocke jamais un token complet)
+ */
+export function tokenPourJournal(token: string): string {
+  return `${token.slice(0, 8)}…`;
+}
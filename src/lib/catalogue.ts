@@ -0,0 +1,297 @@
+// ==========================================
+// CATALOGUE TARIFAIRE
+// Prix des plans payants (mensuel / annuel), sièges inclus et sièges supplémentaires
+// Les prix Stripe correspondants sont retrouvés (ou créés) par leur lookup_key
+// ==========================================
+
+import type Stripe from "stripe";
+import { db } from "../db";
+import { agences, membresAgence, utilisateurs } from "../schema";
+import { eq, and, sql } from "drizzle-orm";
+import { stripe } from "./stripe";
+import { LIMITES_PLANS, PLANS_PAYANTS, isPlanPayant, type PlanPayant } from "./plans";
+
+export const PERIODICITES = ["mensuel", "annuel"] as const;
+export type Periodicite = (typeof PERIODICITES)[number];
+
+// Élément d'un abonnement: le plan lui-même ou les sièges au-delà de ceux inclus
+type TypePrix = "base" | "siege";
+
+export interface OffrePlan {
+  nom: string;
+  description: string;
+  prix: Record<Periodicite, number>; // En centimes d'euro
+  siegesInclus: number; // Membres actifs couverts par le prix du plan
+  prixSiege: Record<Periodicite, number>; // Par siège supplémentaire, en centimes
+}
+
+export const CATALOGUE: Record<PlanPayant, OffrePlan> = {
+  starter: {
+    nom: "Starter",
+    description: "Pour démarrer avec quelques modèles",
+    prix: { mensuel: 2900, annuel: 29000 },
+    siegesInclus: 3,
+    prixSiege: { mensuel: 900, annuel: 9000 },
+  },
+  pro: {
+    nom: "Pro",
+    description: "Pour les agences en croissance",
+    prix: { mensuel: 4900, annuel: 49000 },
+    siegesInclus: 5,
+    prixSiege: { mensuel: 800, annuel: 8000 },
+  },
+  agency: {
+    nom: "Agency",
+    description: "Pour les grandes équipes",
+    prix: { mensuel: 14900, annuel: 149000 },
+    siegesInclus: 15,
+    prixSiege: { mensuel: 600, annuel: 6000 },
+  },
+};
+
+// Période d'essai offerte à la première souscription
+export const JOURS_ESSAI = 3;
+
+const INTERVALLES: Record<Periodicite, Stripe.PriceCreateParams.Recurring.Interval> = {
+  mensuel: "month",
+  annuel: "year",
+};
+
+// Prix Stripe déjà résolus (lookup_key -> ID du prix)
+const prixResolus = new Map<string, string>();
+
+function lookupKey(plan: PlanPayant, periodicite: Periodicite, type: TypePrix): string {
+  return `onlytrack_${plan}_${periodicite}_${type}`;
+}
+
+/**
+ * Décode une lookup_key du catalogue
+ * @returns null si le prix n'appartient pas au catalogue
+ */
+function decoderLookupKey(
+  cle: string | null | undefined,
+): { plan: PlanPayant; periodicite: Periodicite; type: TypePrix } | null {
+  const [prefixe, plan, periodicite, type] = (cle ?? "").split("_");
+  if (
+    prefixe !== "onlytrack" ||
+    !isPlanPayant(plan) ||
+    !PERIODICITES.includes(periodicite as Periodicite) ||
+    (type !== "base" && type !== "siege")
+  ) {
+    return null;
+  }
+  return { plan, periodicite: periodicite as Periodicite, type };
+}
+
+/**
+ * ID du prix Stripe d'un élément du catalogue, créé au premier usage
+ */
+export async function getStripePrice(
+  plan: PlanPayant,
+  periodicite: Periodicite,
+  type: TypePrix,
+): Promise<string> {
+  const cle = lookupKey(plan, periodicite, type);
+  const enCache = prixResolus.get(cle);
+  if (enCache) return enCache;
+
+  const existants = await stripe.prices.list({ lookup_keys: [cle], active: true, limit: 1 });
+  let prixId = existants.data[0]?.id;
+
+  if (!prixId) {
+    const offre = CATALOGUE[plan];
+    const prix = await stripe.prices.create({
+      currency: "eur",
+      unit_amount: type === "base" ? offre.prix[periodicite] : offre.prixSiege[periodicite],
+      recurring: { interval: INTERVALLES[periodicite] },
+      lookup_key: cle,
+      product_data: {
+        name:
+          type === "base"
+            ? `OnlyTrack ${offre.nom}`
+            : `OnlyTrack ${offre.nom} - Siège supplémentaire`,
+      },
+      metadata: { planId: plan, periodicite, type },
+    });
+    prixId = prix.id;
+  }
+
+  prixResolus.set(cle, prixId);
+  return prixId;
+}
+
+/**
+ * Membres actifs de l'agence (comptes actifs), base de la facturation des sièges
+ */
+export async function countActiveSeats(agenceId: string): Promise<number> {
+  const [resultat] = await db
+    .select({ nombre: sql<number>`COUNT(*)` })
+    .from(membresAgence)
+    .innerJoin(utilisateurs, eq(membresAgence.utilisateurId, utilisateurs.id))
+    .where(
+      and(
+        eq(membresAgence.agenceId, agenceId),
+        eq(membresAgence.actif, true),
+        eq(utilisateurs.actif, true),
+      ),
+    );
+
+  return Number(resultat?.nombre ?? 0);
+}
+
+/**
+ * Sièges facturés en supplément du plan
+ */
+export function siegesSupplementaires(plan: PlanPayant, membresActifs: number): number {
+  return Math.max(0, membresActifs - CATALOGUE[plan].siegesInclus);
+}
+
+/**
+ * Plan et périodicité d'un abonnement Stripe d'après ses prix (null hors catalogue)
+ */
+export function planDepuisAbonnement(
+  abonnement: Stripe.Subscription,
+): { plan: PlanPayant; periodicite: Periodicite } | null {
+  for (const item of abonnement.items.data) {
+    const prix = decoderLookupKey(item.price.lookup_key);
+    if (prix?.type === "base") {
+      return { plan: prix.plan, periodicite: prix.periodicite };
+    }
+  }
+  return null;
+}
+
+/**
+ * Abonnement en cours (actif, en essai ou en retard de paiement) d'un customer Stripe
+ */
+export async function findActiveSubscription(
+  clientStripe: string,
+): Promise<Stripe.Subscription | null> {
+  const abonnements = await stripe.subscriptions.list({
+    customer: clientStripe,
+    status: "all",
+    limit: 10,
+  });
+
+  return (
+    abonnements.data.find((a) => ["active", "trialing", "past_due"].includes(a.status)) ??
+    null
+  );
+}
+
+/**
+ * Indique si un customer Stripe a déjà eu un abonnement (quel que soit son statut)
+ */
+export async function hasSubscriptionHistory(clientStripe: string): Promise<boolean> {
+  const abonnements = await stripe.subscriptions.list({
+    customer: clientStripe,
+    status: "all",
+    limit: 1,
+  });
+
+  return abonnements.data.length > 0;
+}
+
+/**
+ * Éléments d'abonnement pour un plan et un nombre de membres
+ * Avec un abonnement existant, ses éléments sont remplacés (ou retirés) pour une mise à jour avec prorata
+ */
+export async function lignesAbonnement(
+  plan: PlanPayant,
+  periodicite: Periodicite,
+  membresActifs: number,
+  existant: Stripe.Subscription | null = null,
+): Promise<Stripe.SubscriptionUpdateParams.Item[]> {
+  const items = existant?.items.data ?? [];
+  const itemBase = items.find((i) => decoderLookupKey(i.price.lookup_key)?.type === "base");
+  const itemSiege = items.find((i) => decoderLookupKey(i.price.lookup_key)?.type === "siege");
+  const sieges = siegesSupplementaires(plan, membresActifs);
+
+  const lignes: Stripe.SubscriptionUpdateParams.Item[] = [
+    {
+      ...(itemBase ? { id: itemBase.id } : {}),
+      price: await getStripePrice(plan, periodicite, "base"),
+      quantity: 1,
+    },
+  ];
+
+  if (sieges > 0) {
+    lignes.push({
+      ...(itemSiege ? { id: itemSiege.id } : {}),
+      price: await getStripePrice(plan, periodicite, "siege"),
+      quantity: sieges,
+    });
+  } else if (itemSiege) {
+    lignes.push({ id: itemSiege.id, deleted: true });
+  }
+
+  // Éléments hors catalogue (anciens prix): retirés lors d'un changement de plan
+  for (const item of items) {
+    if (item !== itemBase && item !== itemSiege) {
+      lignes.push({ id: item.id, deleted: true });
+    }
+  }
+
+  return lignes;
+}
+
+/**
+ * Aligne les sièges facturés sur le nombre de membres actifs (avec prorata)
+ * Appelé après l'ajout, la désactivation ou la réactivation d'un membre
+ * Sans abonnement payant en cours, rien n'est fait; une erreur Stripe est seulement loguée
+ */
+export async function syncSeats(agenceId: string): Promise<void> {
+  try {
+    const [agence] = await db
+      .select({ plan: agences.plan, idClientStripe: agences.idClientStripe })
+      .from(agences)
+      .where(eq(agences.id, agenceId))
+      .limit(1);
+
+    if (!agence?.idClientStripe || !isPlanPayant(agence.plan)) {
+      return;
+    }
+
+    const abonnement = await findActiveSubscription(agence.idClientStripe);
+    const souscrit = abonnement ? planDepuisAbonnement(abonnement) : null;
+    if (!abonnement || !souscrit) {
+      return;
+    }
+
+    const sieges = siegesSupplementaires(souscrit.plan, await countActiveSeats(agenceId));
+    const itemSiege = abonnement.items.data.find(
+      (i) => decoderLookupKey(i.price.lookup_key)?.type === "siege",
+    );
+    if ((itemSiege?.quantity ?? 0) === sieges) {
+      return;
+    }
+
+    await stripe.subscriptions.update(abonnement.id, {
+      items: [
+        sieges > 0
+          ? {
+              ...(itemSiege ? { id: itemSiege.id } : {}),
+              price: await getStripePrice(souscrit.plan, souscrit.periodicite, "siege"),
+              quantity: sieges,
+            }
+          : { id: itemSiege!.id, deleted: true },
+      ],
+      proration_behavior: "create_prorations",
+    });
+
+    console.log(`💺 Agence ${agenceId}: ${sieges} siège(s) supplémentaire(s) facturé(s)`);
+  } catch (error) {
+    console.error("Erreur synchronisation des sièges Stripe:", error);
+  }
+}
+
+/**
+ * Catalogue affiché: prix, sièges inclus et limites de chaque plan payant
+ */
+export function getCatalogue() {
+  return PLANS_PAYANTS.map((plan) => ({
+    id: plan,
+    ...CATALOGUE[plan],
+    limites: LIMITES_PLANS[plan],
+  }));
+}
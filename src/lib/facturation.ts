@@ -0,0 +1,309 @@
+// ==========================================
+// HISTORIQUE DE FACTURATION
+// Miroir local des factures et paiements Stripe (alimenté par les webhooks)
+// et rapport de revenus (MRR/ARR, churn, paiements échoués)
+// ==========================================
+
+import type Stripe from "stripe";
+import { db } from "../db";
+import { facturesStripe, paiementsStripe, type FactureStripe } from "../schema";
+import { eq, and, gt, gte, lte, lt, inArray, isNull, isNotNull, sql } from "drizzle-orm";
+import { stripe, idStripe } from "./stripe";
+
+const STATUTS_FACTURE: Record<Stripe.Invoice.Status, string> = {
+  draft: "brouillon",
+  open: "ouverte",
+  paid: "payee",
+  uncollectible: "irrecouvrable",
+  void: "annulee",
+};
+
+// Factures qui fixent le montant récurrent d'un abonnement (hors régularisations au prorata)
+const MOTIFS_RECURRENTS = ["subscription_create", "subscription_cycle"];
+
+const JOUR_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Recalcule le montant remboursé d'une facture à partir de ses paiements
+ */
+async function majRemboursementsFacture(factureId: string): Promise<void> {
+  const [resultat] = await db
+    .select({ total: sql<number>`COALESCE(SUM(${paiementsStripe.montantRembourse}), 0)` })
+    .from(paiementsStripe)
+    .where(eq(paiementsStripe.factureId, factureId));
+
+  await db
+    .update(facturesStripe)
+    .set({ montantRembourse: Number(resultat?.total ?? 0) })
+    .where(eq(facturesStripe.id, factureId));
+}
+
+/**
+ * Enregistre l'état d'une facture reçu par webhook
+ * Un événement plus ancien que le dernier appliqué à cette facture est ignoré
+ */
+export async function mirrorInvoice(
+  facture: Stripe.Invoice,
+  agenceId: string,
+  dateEvenement: Date,
+): Promise<void> {
+  const [existante] = await db
+    .select({
+      dateEvenementStripe: facturesStripe.dateEvenementStripe,
+      idPaiementStripe: facturesStripe.idPaiementStripe,
+    })
+    .from(facturesStripe)
+    .where(eq(facturesStripe.id, facture.id))
+    .limit(1);
+
+  if (existante && existante.dateEvenementStripe > dateEvenement) {
+    return;
+  }
+
+  // PaymentIntent de la facture payée: relie ses charges (et leurs remboursements) à la facture
+  let idPaiementStripe = existante?.idPaiementStripe ?? null;
+  if (!idPaiementStripe && facture.status === "paid" && facture.amount_paid > 0) {
+    const reglements = await stripe.invoicePayments.list({ invoice: facture.id, limit: 1 });
+    idPaiementStripe = idStripe(reglements.data[0]?.payment.payment_intent);
+  }
+
+  // Période de service: celle des lignes (la période de la facture elle-même est la précédente)
+  const periodes = facture.lines.data.map((ligne) => ligne.period);
+  const debut = periodes.length > 0 ? Math.min(...periodes.map((p) => p.start)) : facture.period_start;
+  const fin = periodes.length > 0 ? Math.max(...periodes.map((p) => p.end)) : facture.period_end;
+  const payeeLe = facture.status_transitions.paid_at;
+
+  const valeurs = {
+    agenceId,
+    abonnementStripe: idStripe(facture.parent?.subscription_details?.subscription),
+    idPaiementStripe,
+    numero: facture.number,
+    statut: STATUTS_FACTURE[facture.status ?? "draft"],
+    motif: facture.billing_reason,
+    devise: facture.currency,
+    montantTotal: facture.total,
+    montantPaye: facture.amount_paid,
+    tentativesPaiement: facture.attempt_count,
+    dateDebutPeriode: new Date(debut * 1000),
+    dateFinPeriode: new Date(fin * 1000),
+    dateFacture: new Date(facture.created * 1000),
+    datePaiement: payeeLe ? new Date(payeeLe * 1000) : null,
+    lienFacture: facture.hosted_invoice_url ?? null,
+    lienPdf: facture.invoice_pdf ?? null,
+    dateEvenementStripe: dateEvenement,
+  };
+
+  await db
+    .insert(facturesStripe)
+    .values({ id: facture.id, ...valeurs })
+    .onDuplicateKeyUpdate({ set: valeurs });
+
+  if (idPaiementStripe) {
+    await db
+      .update(paiementsStripe)
+      .set({ factureId: facture.id })
+      .where(
+        and(
+          eq(paiementsStripe.idPaiementStripe, idPaiementStripe),
+          isNull(paiementsStripe.factureId),
+        ),
+      );
+    await majRemboursementsFacture(facture.id);
+  }
+}
+
+/**
+ * Statut local d'une charge Stripe
+ */
+function statutPaiement(charge: Stripe.Charge): string {
+  if (charge.status === "failed") return "echoue";
+  if (charge.status === "pending") return "en_attente";
+  if (charge.refunded) return "rembourse";
+  if (charge.amount_refunded > 0) return "rembourse_partiel";
+  return "reussi";
+}
+
+/**
+ * Enregistre l'état d'une charge (paiement, échec, remboursement) reçu par webhook
+ * Un événement plus ancien que le dernier appliqué à cette charge est ignoré
+ */
+export async function mirrorCharge(
+  charge: Stripe.Charge,
+  agenceId: string,
+  dateEvenement: Date,
+): Promise<void> {
+  const [existant] = await db
+    .select({ dateEvenementStripe: paiementsStripe.dateEvenementStripe })
+    .from(paiementsStripe)
+    .where(eq(paiementsStripe.id, charge.id))
+    .limit(1);
+
+  if (existant && existant.dateEvenementStripe > dateEvenement) {
+    return;
+  }
+
+  const idPaiementStripe = idStripe(charge.payment_intent);
+  const [facture] = idPaiementStripe
+    ? await db
+        .select({ id: facturesStripe.id })
+        .from(facturesStripe)
+        .where(eq(facturesStripe.idPaiementStripe, idPaiementStripe))
+        .limit(1)
+    : [];
+
+  const valeurs = {
+    agenceId,
+    idPaiementStripe,
+    factureId: facture?.id ?? null,
+    statut: statutPaiement(charge),
+    devise: charge.currency,
+    montant: charge.amount,
+    montantRembourse: charge.amount_refunded,
+    motifEchec: charge.failure_message,
+    lienRecu: charge.receipt_url,
+    datePaiement: new Date(charge.created * 1000),
+    dateEvenementStripe: dateEvenement,
+  };
+
+  await db
+    .insert(paiementsStripe)
+    .values({ id: charge.id, ...valeurs })
+    .onDuplicateKeyUpdate({ set: valeurs });
+
+  if (facture) {
+    await majRemboursementsFacture(facture.id);
+  }
+}
+
+/**
+ * Montant mensuel d'une facture récurrente (net des remboursements), ramené à un mois
+ */
+function montantMensuel(
+  facture: Pick<FactureStripe, "montantPaye" | "montantRembourse" | "dateDebutPeriode" | "dateFinPeriode">,
+): number {
+  const jours = (facture.dateFinPeriode!.getTime() - facture.dateDebutPeriode!.getTime()) / JOUR_MS;
+  const mois = Math.max(1, Math.round(jours / 30));
+  return Math.round((facture.montantPaye - facture.montantRembourse) / mois);
+}
+
+/**
+ * MRR de chaque agence à une date: dernière facture récurrente payée dont la période couvre la date
+ * Un changement de plan en cours de période est pris en compte au renouvellement suivant
+ * @returns Montant mensuel en centimes par agence
+ */
+async function mrrParAgence(date: Date): Promise<Map<string, number>> {
+  const factures = await db
+    .select({
+      agenceId: facturesStripe.agenceId,
+      montantPaye: facturesStripe.montantPaye,
+      montantRembourse: facturesStripe.montantRembourse,
+      dateDebutPeriode: facturesStripe.dateDebutPeriode,
+      dateFinPeriode: facturesStripe.dateFinPeriode,
+    })
+    .from(facturesStripe)
+    .where(
+      and(
+        eq(facturesStripe.statut, "payee"),
+        isNotNull(facturesStripe.abonnementStripe),
+        inArray(facturesStripe.motif, MOTIFS_RECURRENTS),
+        lte(facturesStripe.dateDebutPeriode, date),
+        gt(facturesStripe.dateFinPeriode, date),
+      ),
+    )
+    .orderBy(facturesStripe.dateDebutPeriode);
+
+  const parAgence = new Map<string, number>();
+  for (const facture of factures) {
+    parAgence.set(facture.agenceId, montantMensuel(facture));
+  }
+  return parAgence;
+}
+
+function somme(valeurs: Iterable<number>): number {
+  let total = 0;
+  for (const valeur of valeurs) total += valeur;
+  return total;
+}
+
+/**
+ * MRR total à une date (centimes)
+ */
+export async function calculerMrr(date = new Date()): Promise<number> {
+  return somme((await mrrParAgence(date)).values());
+}
+
+export interface RapportRevenus {
+  periode: { debut: Date; fin: Date };
+  mrr: number; // Montants en centimes
+  arr: number;
+  agencesPayantes: number;
+  encaissements: { nombre: number; montant: number; rembourse: number; net: number };
+  churn: {
+    agencesDebut: number; // Agences payantes au début de la période
+    agencesPerdues: number; // Plus payantes à la fin (résiliation ou impayé)
+    taux: number;
+    mrrPerdu: number;
+  };
+  paiementsEchoues: {
+    nombre: number;
+    montant: number;
+    agences: number;
+    facturesImpayees: number; // Factures encore ouvertes après au moins une tentative
+    montantImpaye: number;
+  };
+}
+
+/**
+ * Rapport de revenus sur une période, calculé depuis le miroir local
+ */
+export async function rapportRevenus(debut: Date, fin: Date): Promise<RapportRevenus> {
+  const mrrDebut = await mrrParAgence(debut);
+  const mrrFin = await mrrParAgence(fin);
+  const mrr = somme(mrrFin.values());
+
+  const perdues = [...mrrDebut.keys()].filter((agenceId) => !mrrFin.has(agenceId));
+
+  const paiements = await db
+    .select({
+      agenceId: paiementsStripe.agenceId,
+      statut: paiementsStripe.statut,
+      montant: paiementsStripe.montant,
+      montantRembourse: paiementsStripe.montantRembourse,
+    })
+    .from(paiementsStripe)
+    .where(and(gte(paiementsStripe.datePaiement, debut), lt(paiementsStripe.datePaiement, fin)));
+
+  const encaisses = paiements.filter((p) =>
+    ["reussi", "rembourse", "rembourse_partiel"].includes(p.statut),
+  );
+  const echoues = paiements.filter((p) => p.statut === "echoue");
+
+  const impayees = await db
+    .select({ montantTotal: facturesStripe.montantTotal, montantPaye: facturesStripe.montantPaye })
+    .from(facturesStripe)
+    .where(and(eq(facturesStripe.statut, "ouverte"), gt(facturesStripe.tentativesPaiement, 0)));
+
+  const montant = somme(encaisses.map((p) => p.montant));
+  const rembourse = somme(encaisses.map((p) => p.montantRembourse));
+
+  return {
+    periode: { debut, fin },
+    mrr,
+    arr: mrr * 12,
+    agencesPayantes: mrrFin.size,
+    encaissements: { nombre: encaisses.length, montant, rembourse, net: montant - rembourse },
+    churn: {
+      agencesDebut: mrrDebut.size,
+      agencesPerdues: perdues.length,
+      taux: mrrDebut.size > 0 ? Math.round((perdues.length / mrrDebut.size) * 10000) / 10000 : 0,
+      mrrPerdu: somme(perdues.map((agenceId) => mrrDebut.get(agenceId)!)),
+    },
+    paiementsEchoues: {
+      nombre: echoues.length,
+      montant: somme(echoues.map((p) => p.montant)),
+      agences: new Set(echoues.map((p) => p.agenceId)).size,
+      facturesImpayees: impayees.length,
+      montantImpaye: somme(impayees.map((f) => f.montantTotal - f.montantPaye)),
+    },
+  };
+}
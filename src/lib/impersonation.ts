@@ -0,0 +1,88 @@
+// ==========================================
+// IMPERSONATION
+// Sessions de support ouvertes par un super-admin en tant qu'utilisateur d'une agence
+// ==========================================
+
+import type { Request } from "express";
+import { db } from "../db";
+import {
+  impersonations,
+  journalImpersonations,
+  sessions,
+  type Impersonation,
+} from "../schema";
+import { eq, and, gt, isNull } from "drizzle-orm";
+
+// Durée par défaut et durée maximale d'une impersonation
+export const IMPERSONATION_DUREE_DEFAUT_MIN = 30;
+export const IMPERSONATION_DUREE_MAX_MIN = 60;
+
+export type ActionImpersonation =
+  | "debut"
+  | "ecriture_activee"
+  | "requete"
+  | "requete_bloquee"
+  | "fin";
+
+/**
+ * Retrouve une impersonation en cours (non arrêtée, non expirée) liée à sa session
+ */
+export async function findActiveImpersonation(
+  impersonationId: string,
+  sessionId: string,
+): Promise<Impersonation | null> {
+  const [impersonation] = await db
+    .select()
+    .from(impersonations)
+    .where(
+      and(
+        eq(impersonations.id, impersonationId),
+        eq(impersonations.sessionId, sessionId),
+        isNull(impersonations.dateFin),
+        gt(impersonations.dateExpiration, new Date()),
+      ),
+    )
+    .limit(1);
+
+  return impersonation || null;
+}
+
+/**
+ * Enregistre une entrée du journal d'impersonation
+ * Avec une requête: méthode, chemin et IP de la requête sont enregistrés
+ */
+export async function logImpersonation(
+  impersonation: Pick<Impersonation, "id" | "adminId">,
+  action: ActionImpersonation,
+  req?: Request | null,
+  extra: { statutHttp?: number; details?: string } = {},
+): Promise<void> {
+  try {
+    await db.insert(journalImpersonations).values({
+      id: crypto.randomUUID(),
+      impersonationId: impersonation.id,
+      adminId: impersonation.adminId,
+      action,
+      methode: req?.method ?? null,
+      chemin: req ? req.originalUrl.split("?")[0].slice(0, 500) : null,
+      statutHttp: extra.statutHttp ?? null,
+      details: extra.details ?? null,
+      adresseIp: req?.ip || null,
+      date: new Date(),
+    });
+  } catch (error) {
+    console.error("Erreur journal impersonation:", error);
+  }
+}
+
+/**
+ * Arrête une impersonation: sa session est révoquée immédiatement
+ */
+export async function endImpersonation(impersonation: Impersonation): Promise<void> {
+  await db
+    .update(impersonations)
+    .set({ dateFin: new Date() })
+    .where(eq(impersonations.id, impersonation.id));
+
+  await db.delete(sessions).where(eq(sessions.id, impersonation.sessionId));
+}
@@ -0,0 +1,116 @@
+// ==========================================
+// INVITATIONS D'ÉQUIPE
+// Cycle de vie: en_attente -> accepte | expire | revoque
+// ==========================================
+
+import { db } from "../db";
+import { invitations, agences, type Invitation } from "../schema";
+import { eq, and, lt } from "drizzle-orm";
+import { generateToken, hashToken } from "./auth";
+import { sendInvitationEmail, APP_URL } from "./mail";
+
+// Durée de validité d'une invitation (48h)
+export const INVITATION_EXPIRATION_MS = 48 * 60 * 60 * 1000;
+
+// Fréquence du balayage des invitations expirées (1h)
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Génère un nouveau token d'invitation
+ * @returns Token en clair (pour l'email) et son hash (pour la base)
+ */
+export function generateInvitationToken(): { token: string; tokenHash: string } {
+  const token = generateToken();
+  return { token, tokenHash: hashToken(token) };
+}
+
+/**
+ * Lien d'acceptation envoyé à l'invité
+ */
+export function invitationLink(token: string): string {
+  return `${APP_URL}/invitation?token=${token}`;
+}
+
+/**
+ * Envoie (ou renvoie) l'email d'invitation
+ */
+export async function sendInvitation(
+  invitation: Invitation,
+  token: string,
+): Promise<void> {
+  const [agence] = await db
+    .select({ nom: agences.nom })
+    .from(agences)
+    .where(eq(agences.id, invitation.agenceId))
+    .limit(1);
+
+  await sendInvitationEmail(invitation.email, {
+    prenom: invitation.prenom || "",
+    agenceNom: agence?.nom || "OnlyTrack",
+    lien: invitationLink(token),
+    dureeHeures: INVITATION_EXPIRATION_MS / 3600000,
+  });
+}
+
+/**
+ * Retrouve une invitation en attente et non expirée à partir du token en clair
+ */
+export async function findPendingInvitation(
+  token: string,
+): Promise<Invitation | null> {
+  const [invitation] = await db
+    .select()
+    .from(invitations)
+    .where(
+      and(
+        eq(invitations.token, hashToken(token)),
+        eq(invitations.statut, "en_attente"),
+      ),
+    )
+    .limit(1);
+
+  if (!invitation || invitation.dateExpiration < new Date()) {
+    return null;
+  }
+
+  return invitation;
+}
+
+/**
+ * Marque comme expirées les invitations en attente dont la date est dépassée
+ * @returns Nombre d'invitations expirées
+ */
+export async function expireStaleInvitations(): Promise<number> {
+  const [result] = await db
+    .update(invitations)
+    .set({ statut: "expire" })
+    .where(
+      and(
+        eq(invitations.statut, "en_attente"),
+        lt(invitations.dateExpiration, new Date()),
+      ),
+    );
+
+  return result.affectedRows;
+}
+
+/**
+ * Lance le balayage périodique des invitations expirées
+ */
+export function startInvitationSweep(): NodeJS.Timeout {
+  const sweep = async () => {
+    try {
+      const count = await expireStaleInvitations();
+      if (count > 0) {
+        console.log(`⏰ ${count} invitation(s) marquée(s) comme expirée(s)`);
+      }
+    } catch (error) {
+      console.error("Erreur balayage invitations:", error);
+    }
+  };
+
+  const timer = setInterval(sweep, SWEEP_INTERVAL_MS);
+  timer.unref();
+  void sweep();
+  return timer;
+}
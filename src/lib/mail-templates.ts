@@ -0,0 +1,303 @@
+// ==========================================
+// TEMPLATES D'EMAILS TRANSACTIONNELS
+// Messages en français et en anglais
+// ==========================================
+
+export type Langue = "fr" | "en";
+
+export interface MailContenu {
+  sujet: string;
+  texte: string;
+  html: string;
+}
+
+// Données attendues par chaque template
+export interface MailTemplates {
+  verification: { prenom: string; lien: string };
+  invitation: {
+    prenom: string;
+    agenceNom: string;
+    lien: string;
+    dureeHeures: number;
+  };
+  reinitialisation: { prenom: string; lien: string; dureeMinutes: number };
+  changementEmail: { prenom: string; lien: string; dureeHeures: number };
+  alerteChangementEmail: { prenom: string; nouvelEmail: string };
+  motDePasseModifie: { prenom: string };
+  abonnementActive: { agenceNom: string };
+  paiementEchoue: { agenceNom: string; lien: string };
+  abonnementAnnule: { agenceNom: string };
+  finEssai: { agenceNom: string; dateFin: Date; lien: string };
+  abonnementExpire: { agenceNom: string; lien: string };
+}
+
+export type MailTemplateNom = keyof MailTemplates;
+
+/**
+ * Échappe les caractères HTML d'une valeur injectée dans un template
+ */
+function escapeHtml(valeur: string): string {
+  return valeur
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Construit le contenu texte + HTML à partir de paragraphes et d'un bouton optionnel
+ */
+function construire(
+  sujet: string,
+  paragraphes: string[],
+  bouton?: { libelle: string; lien: string },
+): MailContenu {
+  const texte = [
+    ...paragraphes,
+    ...(bouton ? [`${bouton.libelle} : ${bouton.lien}`] : []),
+    "— OnlyTrack",
+  ].join("\n\n");
+
+  const html = [
+    ...paragraphes.map((p) => `<p>${escapeHtml(p)}</p>`),
+    ...(bouton
+      ? [
+          `<p><a href="${escapeHtml(bouton.lien)}">${escapeHtml(bouton.libelle)}</a></p>`,
+        ]
+      : []),
+    "<p>— OnlyTrack</p>",
+  ].join("\n");
+
+  return { sujet, texte, html };
+}
+
+type Rendus = {
+  [K in MailTemplateNom]: Record<Langue, (data: MailTemplates[K]) => MailContenu>;
+};
+
+const templates: Rendus = {
+  verification: {
+    fr: ({ prenom, lien }) =>
+      construire(
+        "Vérifiez votre adresse email",
+        [
+          `Bonjour ${prenom},`,
+          "Bienvenue sur OnlyTrack ! Confirmez votre adresse email pour activer votre compte. Ce lien est valable 24 heures.",
+        ],
+        { libelle: "Vérifier mon email", lien },
+      ),
+    en: ({ prenom, lien }) =>
+      construire(
+        "Verify your email address",
+        [
+          `Hi ${prenom},`,
+          "Welcome to OnlyTrack! Please confirm your email address to activate your account. This link is valid for 24 hours.",
+        ],
+        { libelle: "Verify my email", lien },
+      ),
+  },
+
+  invitation: {
+    fr: ({ prenom, agenceNom, lien, dureeHeures }) =>
+      construire(
+        `Invitation à rejoindre ${agenceNom} sur OnlyTrack`,
+        [
+          `Bonjour${prenom ? ` ${prenom}` : ""},`,
+          `Vous avez été invité(e) à rejoindre l'agence ${agenceNom} sur OnlyTrack.`,
+          `Cliquez sur le lien ci-dessous pour choisir votre mot de passe. Ce lien est valable ${dureeHeures} heures.`,
+        ],
+        { libelle: "Rejoindre l'agence", lien },
+      ),
+    en: ({ prenom, agenceNom, lien, dureeHeures }) =>
+      construire(
+        `Invitation to join ${agenceNom} on OnlyTrack`,
+        [
+          `Hi${prenom ? ` ${prenom}` : ""},`,
+          `You have been invited to join the ${agenceNom} agency on OnlyTrack.`,
+          `Click the link below to choose your password. This link is valid for ${dureeHeures} hours.`,
+        ],
+        { libelle: "Join the agency", lien },
+      ),
+  },
+
+  reinitialisation: {
+    fr: ({ prenom, lien, dureeMinutes }) =>
+      construire(
+        "Réinitialisation de votre mot de passe",
+        [
+          `Bonjour ${prenom},`,
+          `Une demande de réinitialisation de mot de passe a été faite pour votre compte. Ce lien est valable ${dureeMinutes} minutes et ne peut être utilisé qu'une seule fois.`,
+          "Si vous n'êtes pas à l'origine de cette demande, ignorez cet email.",
+        ],
+        { libelle: "Choisir un nouveau mot de passe", lien },
+      ),
+    en: ({ prenom, lien, dureeMinutes }) =>
+      construire(
+        "Reset your password",
+        [
+          `Hi ${prenom},`,
+          `A password reset was requested for your account. This link is valid for ${dureeMinutes} minutes and can only be used once.`,
+          "If you did not request this, you can ignore this email.",
+        ],
+        { libelle: "Choose a new password", lien },
+      ),
+  },
+
+  changementEmail: {
+    fr: ({ prenom, lien, dureeHeures }) =>
+      construire(
+        "Confirmez votre nouvelle adresse email",
+        [
+          `Bonjour ${prenom},`,
+          `Confirmez cette adresse pour qu'elle devienne l'email de connexion de votre compte OnlyTrack. Ce lien est valable ${dureeHeures} heures.`,
+          "Si vous n'êtes pas à l'origine de cette demande, ignorez cet email.",
+        ],
+        { libelle: "Confirmer mon email", lien },
+      ),
+    en: ({ prenom, lien, dureeHeures }) =>
+      construire(
+        "Confirm your new email address",
+        [
+          `Hi ${prenom},`,
+          `Confirm this address to make it the login email of your OnlyTrack account. This link is valid for ${dureeHeures} hours.`,
+          "If you did not request this, you can ignore this email.",
+        ],
+        { libelle: "Confirm my email", lien },
+      ),
+  },
+
+  alerteChangementEmail: {
+    fr: ({ prenom, nouvelEmail }) =>
+      construire("Changement d'adresse email demandé", [
+        `Bonjour ${prenom},`,
+        `Une demande de changement de l'email de votre compte vers ${nouvelEmail} a été faite. Le changement ne sera effectif qu'après confirmation depuis la nouvelle adresse.`,
+        "Si vous n'êtes pas à l'origine de cette demande, changez votre mot de passe immédiatement.",
+      ]),
+    en: ({ prenom, nouvelEmail }) =>
+      construire("Email address change requested", [
+        `Hi ${prenom},`,
+        `A request was made to change your account email to ${nouvelEmail}. The change only takes effect once confirmed from the new address.`,
+        "If you did not request this, change your password immediately.",
+      ]),
+  },
+
+  motDePasseModifie: {
+    fr: ({ prenom }) =>
+      construire("Votre mot de passe a été modifié", [
+        `Bonjour ${prenom},`,
+        "Le mot de passe de votre compte OnlyTrack vient d'être modifié et vos autres sessions ont été déconnectées.",
+        "Si vous n'êtes pas à l'origine de ce changement, réinitialisez votre mot de passe immédiatement.",
+      ]),
+    en: ({ prenom }) =>
+      construire("Your password was changed", [
+        `Hi ${prenom},`,
+        "The password of your OnlyTrack account was just changed and your other sessions were signed out.",
+        "If you did not make this change, reset your password immediately.",
+      ]),
+  },
+
+  abonnementActive: {
+    fr: ({ agenceNom }) =>
+      construire("Votre abonnement Premium est actif", [
+        "Bonjour,",
+        `L'abonnement Premium de l'agence ${agenceNom} est maintenant actif. Merci pour votre confiance !`,
+      ]),
+    en: ({ agenceNom }) =>
+      construire("Your Premium subscription is active", [
+        "Hi,",
+        `The Premium subscription for ${agenceNom} is now active. Thank you for your trust!`,
+      ]),
+  },
+
+  paiementEchoue: {
+    fr: ({ agenceNom, lien }) =>
+      construire(
+        "Échec du paiement de votre abonnement",
+        [
+          "Bonjour,",
+          `Le dernier paiement de l'abonnement de l'agence ${agenceNom} a échoué. Mettez à jour votre moyen de paiement pour éviter la suspension du compte.`,
+        ],
+        { libelle: "Mettre à jour le paiement", lien },
+      ),
+    en: ({ agenceNom, lien }) =>
+      construire(
+        "Your subscription payment failed",
+        [
+          "Hi,",
+          `The latest subscription payment for ${agenceNom} failed. Please update your payment method to avoid account suspension.`,
+        ],
+        { libelle: "Update payment method", lien },
+      ),
+  },
+
+  abonnementAnnule: {
+    fr: ({ agenceNom }) =>
+      construire("Votre abonnement a été annulé", [
+        "Bonjour,",
+        `L'abonnement Premium de l'agence ${agenceNom} a été annulé. Vos données sont conservées et vous pouvez vous réabonner à tout moment.`,
+      ]),
+    en: ({ agenceNom }) =>
+      construire("Your subscription has been canceled", [
+        "Hi,",
+        `The Premium subscription for ${agenceNom} has been canceled. Your data is kept and you can subscribe again at any time.`,
+      ]),
+  },
+
+  finEssai: {
+    fr: ({ agenceNom, dateFin, lien }) =>
+      construire(
+        "Votre période d'essai se termine bientôt",
+        [
+          "Bonjour,",
+          `La période d'essai de l'agence ${agenceNom} se termine le ${dateFin.toLocaleDateString("fr-FR")}. Vérifiez votre moyen de paiement pour conserver votre plan sans interruption.`,
+        ],
+        { libelle: "Gérer mon abonnement", lien },
+      ),
+    en: ({ agenceNom, dateFin, lien }) =>
+      construire(
+        "Your trial is ending soon",
+        [
+          "Hi,",
+          `The trial for ${agenceNom} ends on ${dateFin.toLocaleDateString("en-US")}. Check your payment method to keep your plan without interruption.`,
+        ],
+        { libelle: "Manage my subscription", lien },
+      ),
+  },
+
+  abonnementExpire: {
+    fr: ({ agenceNom, lien }) =>
+      construire(
+        "Votre abonnement a expiré",
+        [
+          "Bonjour,",
+          `L'abonnement de l'agence ${agenceNom} a expiré faute de paiement et l'agence est repassée au plan gratuit. Vos données sont conservées.`,
+        ],
+        { libelle: "Choisir un plan", lien },
+      ),
+    en: ({ agenceNom, lien }) =>
+      construire(
+        "Your subscription has expired",
+        [
+          "Hi,",
+          `The subscription for ${agenceNom} expired without payment and the agency is back on the free plan. Your data is kept.`,
+        ],
+        { libelle: "Choose a plan", lien },
+      ),
+  },
+};
+
+/**
+ * Génère le contenu d'un email à partir de son template
+ * @param nom - Nom du template
+ * @param langue - Langue du message (fr par défaut)
+ * @param data - Variables du template
+ */
+export function renderTemplate<K extends MailTemplateNom>(
+  nom: K,
+  langue: Langue,
+  data: MailTemplates[K],
+): MailContenu {
+  const rendu = templates[nom][langue] ?? templates[nom].fr;
+  return rendu(data);
+}
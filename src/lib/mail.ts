@@ -0,0 +1,260 @@
+// ==========================================
+// SERVICE D'EMAILS TRANSACTIONNELS
+// Transports interchangeables (SMTP, boîte d'envoi locale) + envoi templaté
+// ==========================================
+
+import nodemailer from "nodemailer";
+import fs from "fs/promises";
+import path from "path";
+import {
+  renderTemplate,
+  type Langue,
+  type MailTemplates,
+  type MailTemplateNom,
+} from "./mail-templates";
+
+export type { Langue } from "./mail-templates";
+
+// Adresse d'expédition par défaut
+const MAIL_FROM = process.env.MAIL_FROM || "OnlyTrack <no-reply@onlytrack.io>";
+
+// URL publique de l'application (utilisée pour construire les liens des emails)
+export const APP_URL = process.env.APP_URL || "http://localhost:5000";
+
+// En mode dev, on peut afficher les liens/secrets dans les logs et les réponses
+export const isDevMode = process.env.NODE_ENV === "development";
+
+export interface MailMessage {
+  to: string;
+  from: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Interface commune à tous les transports d'email
+ */
+export interface MailTransport {
+  readonly nom: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+// ==========================================
+// TRANSPORTS
+// ==========================================
+
+/**
+ * Transport SMTP (production)
+ * Configuré via SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD, SMTP_SECURE
+ */
+export class SmtpTransport implements MailTransport {
+  readonly nom = "smtp";
+  private transporter: nodemailer.Transporter;
+
+  constructor() {
+    const port = parseInt(process.env.SMTP_PORT || "587", 10);
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE === "true" || port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+/**
+ * Transport "boîte d'envoi" (dev local et tests)
+ * Écrit chaque email dans un fichier JSON du dossier MAIL_OUTBOX_DIR
+ */
+export class OutboxTransport implements MailTransport {
+  readonly nom = "outbox";
+
+  constructor(
+    private readonly dossier: string = process.env.MAIL_OUTBOX_DIR ||
+      path.resolve("outbox"),
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.dossier, { recursive: true });
+    const fichier = path.join(
+      this.dossier,
+      `${Date.now()}-${crypto.randomUUID()}.json`,
+    );
+    await fs.writeFile(
+      fichier,
+      JSON.stringify({ ...message, date: new Date().toISOString() }, null, 2),
+    );
+  }
+}
+
+let transport: MailTransport | null = null;
+
+/**
+ * Retourne le transport configuré (MAIL_TRANSPORT = "smtp" | "outbox")
+ * Par défaut: SMTP si SMTP_HOST est défini, sinon boîte d'envoi locale (hors production)
+ * En production, les liens de vérification et de réinitialisation ne doivent jamais
+ * être écrits en clair sur le disque: sans SMTP configuré, une erreur est levée
+ */
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    const production = process.env.NODE_ENV === "production";
+    const choix =
+      process.env.MAIL_TRANSPORT ||
+      (process.env.SMTP_HOST || production ? "smtp" : "outbox");
+
+    if (production && (choix !== "smtp" || !process.env.SMTP_HOST)) {
+      throw new Error(
+        "Transport d'emails invalide en production: configurez SMTP_HOST (MAIL_TRANSPORT=smtp)",
+      );
+    }
+
+    transport = choix === "smtp" ? new SmtpTransport() : new OutboxTransport();
+  }
+  return transport;
+}
+
+/**
+ * Remplace le transport utilisé (tests, scripts)
+ */
+export function setMailTransport(nouveau: MailTransport): void {
+  transport = nouveau;
+}
+
+// ==========================================
+// ENVOI
+// ==========================================
+
+/**
+ * Envoie un email templaté
+ * Ne lève jamais d'erreur: un échec d'envoi est journalisé sans bloquer la requête
+ * @returns true si l'email a été remis au transport
+ */
+export async function sendTemplatedMail<K extends MailTemplateNom>(
+  to: string,
+  template: K,
+  data: MailTemplates[K],
+  langue: Langue = "fr",
+): Promise<boolean> {
+  const contenu = renderTemplate(template, langue, data);
+
+  try {
+    const mailTransport = getMailTransport();
+    await mailTransport.send({
+      to,
+      from: MAIL_FROM,
+      subject: contenu.sujet,
+      text: contenu.texte,
+      html: contenu.html,
+    });
+
+    if (isDevMode) {
+      console.log(`✉️  Email "${template}" envoyé à ${to} (${mailTransport.nom})`);
+    }
+    return true;
+  } catch (error: any) {
+    console.error(`Erreur envoi email "${template}":`, error.message);
+    return false;
+  }
+}
+
+/**
+ * Email de vérification d'adresse après inscription
+ */
+export function sendVerificationEmail(
+  to: string,
+  prenom: string,
+  token: string,
+  langue?: Langue,
+) {
+  return sendTemplatedMail(
+    to,
+    "verification",
+    { prenom, lien: `${APP_URL}/api/auth/verifier-email/${token}` },
+    langue,
+  );
+}
+
+/**
+ * Email d'invitation à rejoindre une agence
+ */
+export function sendInvitationEmail(
+  to: string,
+  data: MailTemplates["invitation"],
+  langue?: Langue,
+) {
+  return sendTemplatedMail(to, "invitation", data, langue);
+}
+
+/**
+ * Email contenant le lien de réinitialisation du mot de passe
+ */
+export function sendPasswordResetEmail(
+  to: string,
+  prenom: string,
+  token: string,
+  dureeMinutes: number,
+  langue?: Langue,
+) {
+  return sendTemplatedMail(
+    to,
+    "reinitialisation",
+    {
+      prenom,
+      lien: `${APP_URL}/reinitialiser-mot-de-passe?token=${token}`,
+      dureeMinutes,
+    },
+    langue,
+  );
+}
+
+/**
+ * Email de confirmation envoyé à la nouvelle adresse lors d'un changement d'email
+ */
+export function sendEmailChangeConfirmation(
+  to: string,
+  prenom: string,
+  token: string,
+  dureeHeures: number,
+  langue?: Langue,
+) {
+  return sendTemplatedMail(
+    to,
+    "changementEmail",
+    {
+      prenom,
+      lien: `${APP_URL}/api/auth/confirmer-email/${token}`,
+      dureeHeures,
+    },
+    langue,
+  );
+}
+
+/**
+ * Notifications de sécurité envoyées à l'adresse actuelle du compte
+ */
+export function sendSecurityNotice<
+  K extends "alerteChangementEmail" | "motDePasseModifie",
+>(to: string, template: K, data: MailTemplates[K], langue?: Langue) {
+  return sendTemplatedMail(to, template, data, langue);
+}
+
+/**
+ * Notification de facturation (activation, échec de paiement, annulation, fin d'essai, expiration)
+ */
+export function sendBillingNotice<
+  K extends
+    | "abonnementActive"
+    | "paiementEchoue"
+    | "abonnementAnnule"
+    | "finEssai"
+    | "abonnementExpire",
+>(to: string, template: K, data: MailTemplates[K], langue?: Langue) {
+  return sendTemplatedMail(to, template, data, langue);
+}
@@ -0,0 +1,193 @@
+// ==========================================
+// APPARTENANCES AUX AGENCES
+// Un utilisateur peut appartenir à plusieurs agences, avec un rôle par agence
+// ==========================================
+
+import { db } from "../db";
+import {
+  membresAgence,
+  agences,
+  utilisateurs,
+  type MembreAgence,
+  type Utilisateur,
+} from "../schema";
+import { eq, and, inArray, sql } from "drizzle-orm";
+
+export const ROLES_AGENCE = ["owner", "member", "model"] as const;
+export type RoleAgence = (typeof ROLES_AGENCE)[number];
+
+/**
+ * Agences accessibles: une agence suspendue ou archivée bloque toutes ses connexions
+ */
+function agencesActives() {
+  return db.select({ id: agences.id }).from(agences).where(eq(agences.statut, "active"));
+}
+
+/**
+ * Indique si une agence existe et est active (accès démo, clés d'agence)
+ */
+export async function isAgenceActive(agenceId: string): Promise<boolean> {
+  const [agence] = await db
+    .select({ statut: agences.statut })
+    .from(agences)
+    .where(eq(agences.id, agenceId))
+    .limit(1);
+
+  return agence?.statut === "active";
+}
+
+/**
+ * Retrouve l'appartenance active d'un utilisateur à une agence
+ * @returns null si l'utilisateur n'est pas (ou plus) membre de l'agence, s'il y a été désactivé
+ * ou si l'agence est suspendue ou archivée
+ */
+export async function findMembership(
+  utilisateurId: string,
+  agenceId: string,
+): Promise<MembreAgence | null> {
+  const [membre] = await db
+    .select()
+    .from(membresAgence)
+    .where(
+      and(
+        eq(membresAgence.utilisateurId, utilisateurId),
+        eq(membresAgence.agenceId, agenceId),
+        eq(membresAgence.actif, true),
+        inArray(membresAgence.agenceId, agencesActives()),
+      ),
+    )
+    .limit(1);
+
+  return membre || null;
+}
+
+/**
+ * Liste les agences (actives) d'un utilisateur avec son rôle dans chacune
+ */
+export async function listMemberships(utilisateurId: string) {
+  return db
+    .select({
+      agenceId: membresAgence.agenceId,
+      role: membresAgence.role,
+      nom: agences.nom,
+      plan: agences.plan,
+      dateAdhesion: membresAgence.dateCreation,
+    })
+    .from(membresAgence)
+    .innerJoin(agences, eq(membresAgence.agenceId, agences.id))
+    .where(
+      and(
+        eq(membresAgence.utilisateurId, utilisateurId),
+        eq(membresAgence.actif, true),
+        eq(agences.statut, "active"),
+      ),
+    )
+    .orderBy(membresAgence.dateCreation);
+}
+
+/**
+ * Ajoute un utilisateur à une agence (met à jour le rôle s'il en est déjà membre, le réactive s'il avait été désactivé)
+ * @param modeleId - Fiche modèle du compte, conservée uniquement pour le rôle "model"
+ */
+export async function addMembership(
+  utilisateurId: string,
+  agenceId: string,
+  role: RoleAgence,
+  modeleId: string | null = null,
+): Promise<void> {
+  const modele = role === "model" ? modeleId : null;
+
+  await db
+    .insert(membresAgence)
+    .values({
+      id: crypto.randomUUID(),
+      utilisateurId,
+      agenceId,
+      role,
+      modeleId: modele,
+      dateCreation: new Date(),
+    })
+    .onDuplicateKeyUpdate({
+      set: { role, modeleId: modele, actif: true, dateDesactivation: null },
+    });
+}
+
+/**
+ * Agence à ouvrir à la connexion: l'agence par défaut si l'utilisateur en est
+ * toujours membre, sinon sa plus ancienne appartenance active
+ * @returns null si l'utilisateur n'appartient plus à aucune agence
+ */
+export async function resolveDefaultMembership(
+  user: Utilisateur,
+): Promise<MembreAgence | null> {
+  const parDefaut = await findMembership(user.id, user.agenceId);
+  if (parDefaut) {
+    return parDefaut;
+  }
+
+  const [premiere] = await db
+    .select()
+    .from(membresAgence)
+    .where(
+      and(
+        eq(membresAgence.utilisateurId, user.id),
+        eq(membresAgence.actif, true),
+        inArray(membresAgence.agenceId, agencesActives()),
+      ),
+    )
+    .orderBy(membresAgence.dateCreation)
+    .limit(1);
+
+  return premiere || null;
+}
+
+/**
+ * Compte les owners actifs d'une agence
+ */
+export async function countOwners(agenceId: string): Promise<number> {
+  const [resultat] = await db
+    .select({ nombre: sql<number>`COUNT(*)` })
+    .from(membresAgence)
+    .where(
+      and(
+        eq(membresAgence.agenceId, agenceId),
+        eq(membresAgence.role, "owner"),
+        eq(membresAgence.actif, true),
+      ),
+    );
+
+  return Number(resultat?.nombre ?? 0);
+}
+
+/**
+ * Définit l'agence par défaut d'un utilisateur (ouverte à la prochaine connexion)
+ */
+export async function setDefaultAgence(
+  utilisateurId: string,
+  membre: MembreAgence,
+): Promise<void> {
+  await db
+    .update(utilisateurs)
+    .set({ agenceId: membre.agenceId, role: membre.role })
+    .where(eq(utilisateurs.id, utilisateurId));
+}
+
+/**
+ * Crée les appartenances manquantes à partir de utilisateurs.agenceId/role
+ * (comptes créés avant l'introduction des appartenances multiples)
+ */
+export async function backfillMemberships(): Promise<void> {
+  try {
+    await db.execute(sql`
+      INSERT IGNORE INTO membres_agence (id, utilisateur_id, agence_id, role, date_creation)
+      SELECT UUID(), u.id, u.agence_id, u.role, u.date_creation
+      FROM utilisateurs u
+      WHERE NOT EXISTS (
+        SELECT 1 FROM membres_agence m
+        WHERE m.utilisateur_id = u.id AND m.agence_id = u.agence_id
+      )
+    `);
+  } catch (error) {
+    console.error("Erreur initialisation des appartenances:", error);
+  }
+}
@@ -0,0 +1,189 @@
+// ==========================================
+// RÔLES ET PERMISSIONS
+// Catalogue des permissions, rôles par défaut et permissions effectives d'un membre
+// ==========================================
+
+import { db } from "../db";
+import { rolesAgence, agences, type MembreAgence } from "../schema";
+import { eq, and, sql } from "drizzle-orm";
+import type { RoleAgence } from "./memberships";
+
+// Ressources de données (= point de montage sous /api), accessibles aussi par clé API
+export const RESSOURCES_DONNEES = [
+  "dashboard",
+  "models",
+  "todos",
+  "onboarding-steps",
+  "affiliates",
+  "analytics",
+  "posts-analytics",
+  "transactions",
+  "dm-candidates",
+  "dm-scripts",
+  "inspirations",
+  "procedures",
+] as const;
+
+// Ressources de gestion de l'agence (sessions uniquement)
+export const RESSOURCES_GESTION = [
+  "equipe",
+  "acces-temporaires",
+  "facturation",
+] as const;
+
+export type Ressource =
+  | (typeof RESSOURCES_DONNEES)[number]
+  | (typeof RESSOURCES_GESTION)[number];
+export type Action = "read" | "write";
+export type Permission = `${Ressource}:${Action}`;
+
+// Toutes les permissions attribuables ("transactions:read", "transactions:write", ...)
+export const PERMISSIONS = [...RESSOURCES_DONNEES, ...RESSOURCES_GESTION].flatMap(
+  (ressource) => [`${ressource}:read`, `${ressource}:write`] as Permission[],
+);
+
+// Accorde toutes les permissions, y compris celles ajoutées plus tard
+export const TOUTES_PERMISSIONS = "*";
+
+const ACCES_COMPLET_DONNEES = RESSOURCES_DONNEES.flatMap(
+  (ressource) => [`${ressource}:read`, `${ressource}:write`] as Permission[],
+);
+
+/**
+ * Plafond des permissions d'un compte "model", quel que soit son rôle personnalisé:
+ * les données de sa fiche, sans écriture sur les finances ni sur les données communes de l'agence
+ * (les lectures sont restreintes à sa fiche par les routes)
+ */
+export const PERMISSIONS_MODELE: Permission[] = [
+  "models:read",
+  "analytics:read",
+  "transactions:read",
+  "procedures:read",
+  "posts-analytics:write",
+  "onboarding-steps:write",
+  "todos:write",
+  "inspirations:write",
+];
+
+/**
+ * Rôles créés pour chaque agence, reproduisant le comportement historique
+ * owner/member/model (modifiables par l'owner, sauf le rôle owner)
+ */
+export const ROLES_PAR_DEFAUT: Record<
+  RoleAgence,
+  { nom: string; description: string; permissions: string[] }
+> = {
+  owner: {
+    nom: "Owner",
+    description: "Accès complet à l'agence, à l'équipe et à la facturation",
+    permissions: [TOUTES_PERMISSIONS],
+  },
+  member: {
+    nom: "Membre",
+    description: "Gestion des données de l'agence",
+    permissions: [
+      ...ACCES_COMPLET_DONNEES,
+      "equipe:read",
+      "acces-temporaires:read",
+      "acces-temporaires:write",
+      "facturation:read",
+      "facturation:write",
+    ],
+  },
+  model: {
+    nom: "Modèle",
+    description: "Compte d'un créateur de contenu, limité à sa fiche modèle",
+    permissions: PERMISSIONS_MODELE,
+  },
+};
+
+/**
+ * Vérifie qu'un ensemble de permissions couvre la permission demandée
+ * ("*" couvre tout, l'écriture inclut la lecture)
+ */
+export function hasPermission(permissions: string[], requise: string): boolean {
+  if (permissions.includes(TOUTES_PERMISSIONS) || permissions.includes(requise)) {
+    return true;
+  }
+
+  const [ressource, action] = requise.split(":");
+  return action === "read" && permissions.includes(`${ressource}:write`);
+}
+
+/**
+ * Crée les rôles par défaut d'une agence (sans toucher aux rôles existants)
+ */
+export async function seedDefaultRoles(agenceId: string): Promise<void> {
+  for (const [code, role] of Object.entries(ROLES_PAR_DEFAUT)) {
+    await db
+      .insert(rolesAgence)
+      .values({
+        id: crypto.randomUUID(),
+        agenceId,
+        code,
+        nom: role.nom,
+        description: role.description,
+        permissions: role.permissions,
+        dateCreation: new Date(),
+      })
+      .onDuplicateKeyUpdate({ set: { code: sql`code` } });
+  }
+}
+
+/**
+ * Crée les rôles par défaut des agences qui n'en ont pas encore
+ * (agences créées avant l'introduction des rôles personnalisés)
+ */
+export async function backfillDefaultRoles(): Promise<void> {
+  try {
+    const sansRoles = await db
+      .select({ id: agences.id })
+      .from(agences)
+      .where(
+        sql`NOT EXISTS (SELECT 1 FROM roles_agence r WHERE r.agence_id = ${agences.id} AND r.code = 'owner')`,
+      );
+
+    for (const agence of sansRoles) {
+      await seedDefaultRoles(agence.id);
+    }
+  } catch (error) {
+    console.error("Erreur initialisation des rôles par défaut:", error);
+  }
+}
+
+/**
+ * Permissions effectives d'un membre: son rôle personnalisé s'il en a un,
+ * sinon le rôle par défaut correspondant à son rôle de base
+ */
+export async function getMemberPermissions(
+  membre: Pick<MembreAgence, "agenceId" | "role" | "roleId">,
+): Promise<string[]> {
+  // Le rôle owner garde toujours l'accès complet (impossible de s'enfermer dehors)
+  if (membre.role === "owner") {
+    return [TOUTES_PERMISSIONS];
+  }
+
+  const [role] = await db
+    .select({ permissions: rolesAgence.permissions })
+    .from(rolesAgence)
+    .where(
+      membre.roleId
+        ? and(eq(rolesAgence.id, membre.roleId), eq(rolesAgence.agenceId, membre.agenceId))
+        : and(eq(rolesAgence.agenceId, membre.agenceId), eq(rolesAgence.code, membre.role)),
+    )
+    .limit(1);
+
+  const permissions =
+    role?.permissions ??
+    ROLES_PAR_DEFAUT[membre.role as RoleAgence]?.permissions ??
+    [];
+
+  // Un compte modèle ne dépasse jamais son plafond (rôles créés avant le plafond, rôles personnalisés)
+  if (membre.role === "model") {
+    return PERMISSIONS.filter(
+      (p) => hasPermission(permissions, p) && hasPermission(PERMISSIONS_MODELE, p),
+    );
+  }
+
+  return permissions;
+}
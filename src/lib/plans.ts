@@ -0,0 +1,596 @@
+// ==========================================
+// PLANS ET QUOTAS
+// Limites de chaque plan, utilisation courante d'une agence et middlewares de contrôle
+// ==========================================
+
+import type { Request, Response, NextFunction } from "express";
+import { db } from "../db";
+import {
+  agences,
+  membresAgence,
+  invitations,
+  modeles,
+  accesTemporaires,
+  compteursUsage,
+  reservationsQuotas,
+} from "../schema";
+import { eq, and, or, gt, lt, isNull, sql } from "drizzle-orm";
+
+export const PLANS = ["free", "starter", "pro", "agency"] as const;
+export type Plan = (typeof PLANS)[number];
+
+// Plans souscrits via Stripe (tarifs: voir lib/catalogue.ts), du moins au plus complet
+export const PLANS_PAYANTS = ["starter", "pro", "agency"] as const;
+export type PlanPayant = (typeof PLANS_PAYANTS)[number];
+
+// Quotas comptés (null = illimité)
+export type Quota = "sieges" | "modeles" | "accesTemporaires" | "requetesIa";
+// Fonctionnalités premium (coûteuses): réservées aux plans payants en règle, voir requirePremium
+// Aucune route ne les sert encore: les fonctions IA (src/ai.ts) ne sont exposées par aucune route,
+// et il n'existe ni export ni statistique avancée (la saisie des posts et le dashboard restent ouverts à tous)
+// Une route qui en sert une doit porter requirePremium (et requireQuota("requetesIa") pour l'IA)
+export type Fonctionnalite = "ia" | "exports" | "analyticsAvances";
+
+// Délai pendant lequel un abonnement en échec de paiement garde son plan
+// Au-delà, l'agence repasse aux limites gratuites et en lecture seule
+export const DELAI_GRACE_JOURS = 7;
+
+const METHODES_LECTURE = ["GET", "HEAD", "OPTIONS"];
+
+// Au-delà, une réservation de quota compté est considérée abandonnée (arrêt en cours de requête)
+const DUREE_RESERVATION_QUOTA_MS = 5 * 60 * 1000;
+
+export interface LimitesPlan {
+  sieges: number | null; // Membres actifs + invitations en attente (plans payants: sièges supplémentaires facturés)
+  modeles: number | null;
+  accesTemporaires: number | null; // Liens actifs et non expirés
+  requetesIa: number | null; // Par mois calendaire
+  ia: boolean;
+  exports: boolean;
+  analyticsAvances: boolean; // Statistiques calculées au-delà du dashboard
+}
+
+export const LIMITES_PLANS: Record<Plan, LimitesPlan> = {
+  free: {
+    sieges: 3,
+    modeles: 3,
+    accesTemporaires: 1,
+    requetesIa: 0,
+    ia: false,
+    exports: false,
+    analyticsAvances: false,
+  },
+  starter: {
+    sieges: null,
+    modeles: 10,
+    accesTemporaires: 3,
+    requetesIa: 500,
+    ia: true,
+    exports: true,
+    analyticsAvances: true,
+  },
+  pro: {
+    sieges: null,
+    modeles: null,
+    accesTemporaires: null,
+    requetesIa: 2000,
+    ia: true,
+    exports: true,
+    analyticsAvances: true,
+  },
+  agency: {
+    sieges: null,
+    modeles: null,
+    accesTemporaires: null,
+    requetesIa: 10000,
+    ia: true,
+    exports: true,
+    analyticsAvances: true,
+  },
+};
+
+/**
+ * Indique si un plan est un plan payant du catalogue
+ */
+export function isPlanPayant(plan: string): plan is PlanPayant {
+  return (PLANS_PAYANTS as readonly string[]).includes(plan);
+}
+
+// État d'abonnement nécessaire au calcul des droits d'une agence
+interface EtatFacturation {
+  plan: string;
+  statutAbonnement: string | null;
+  dateEchecPaiement?: Date | null;
+}
+
+/**
+ * Fin du délai de grâce d'un abonnement suspendu pour impayé
+ * @returns null si l'abonnement n'est pas suspendu (ou suspendu sans date d'échec connue)
+ */
+export function finDelaiGrace(agence: EtatFacturation): Date | null {
+  if (agence.statutAbonnement !== "suspendu" || !agence.dateEchecPaiement) {
+    return null;
+  }
+  return new Date(agence.dateEchecPaiement.getTime() + DELAI_GRACE_JOURS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Agence suspendue pour impayé et dont le délai de grâce est écoulé
+ */
+export function isLectureSeule(agence: EtatFacturation): boolean {
+  if (agence.statutAbonnement !== "suspendu") return false;
+  const fin = finDelaiGrace(agence);
+  return !fin || fin <= new Date();
+}
+
+/**
+ * Plan dont l'agence bénéficie réellement: un abonnement payant annulé, expiré ou suspendu
+ * au-delà du délai de grâce retombe sur les limites du plan gratuit
+ */
+export function planEffectif(agence: EtatFacturation): Plan {
+  const actif =
+    !["suspendu", "annule", "expire"].includes(agence.statutAbonnement ?? "") ||
+    (agence.statutAbonnement === "suspendu" && !isLectureSeule(agence));
+  return isPlanPayant(agence.plan) && actif ? agence.plan : "free";
+}
+
+/**
+ * Plan payant immédiatement supérieur (null pour le plan le plus complet)
+ */
+export function planSuperieur(plan: Plan): PlanPayant | null {
+  if (!isPlanPayant(plan)) return PLANS_PAYANTS[0];
+  return PLANS_PAYANTS[PLANS_PAYANTS.indexOf(plan) + 1] ?? null;
+}
+
+/**
+ * Convertit l'ancien plan unique "premium" vers son équivalent du catalogue (pro, même tarif)
+ * Appelé au démarrage du serveur
+ */
+export async function backfillPlans(): Promise<void> {
+  try {
+    const [resultat] = await db
+      .update(agences)
+      .set({ plan: "pro" })
+      .where(eq(agences.plan, "premium"));
+
+    if (resultat.affectedRows > 0) {
+      console.log(`✅ ${resultat.affectedRows} agence(s) premium migrée(s) vers le plan pro`);
+    }
+  } catch (error) {
+    console.error("Erreur migration des plans premium:", error);
+  }
+}
+
+/**
+ * Plan effectif et limites d'une agence
+ * @returns null si l'agence n'existe pas
+ */
+export async function getEntitlements(
+  agenceId: string,
+): Promise<{ plan: Plan; limites: LimitesPlan } | null> {
+  const [agence] = await db
+    .select({
+      plan: agences.plan,
+      statutAbonnement: agences.statutAbonnement,
+      dateEchecPaiement: agences.dateEchecPaiement,
+    })
+    .from(agences)
+    .where(eq(agences.id, agenceId))
+    .limit(1);
+
+  if (!agence) {
+    return null;
+  }
+
+  const plan = planEffectif(agence);
+  return { plan, limites: LIMITES_PLANS[plan] };
+}
+
+/**
+ * Période de comptage des quotas mensuels ("AAAA-MM")
+ */
+function periodeCourante(): string {
+  return new Date().toISOString().slice(0, 7);
+}
+
+async function compter(requete: Promise<{ nombre: number }[]>): Promise<number> {
+  const [resultat] = await requete;
+  return Number(resultat?.nombre ?? 0);
+}
+
+/**
+ * Requêtes de comptage des éléments existants d'un quota compté
+ * (vide pour les quotas mensuels, comptabilisés dans compteurs_usage)
+ * @param executeur - Client ou transaction qui exécute les requêtes
+ */
+function requetesComptage(
+  agenceId: string,
+  quota: Quota,
+  executeur: Pick<typeof db, "select"> = db,
+) {
+  switch (quota) {
+    case "sieges":
+      return [
+        executeur
+          .select({ nombre: sql<number>`COUNT(*)` })
+          .from(membresAgence)
+          .where(
+            and(eq(membresAgence.agenceId, agenceId), eq(membresAgence.actif, true)),
+          ),
+        executeur
+          .select({ nombre: sql<number>`COUNT(*)` })
+          .from(invitations)
+          .where(
+            and(
+              eq(invitations.agenceId, agenceId),
+              eq(invitations.statut, "en_attente"),
+            ),
+          ),
+      ];
+
+    case "modeles":
+      return [
+        executeur
+          .select({ nombre: sql<number>`COUNT(*)` })
+          .from(modeles)
+          .where(eq(modeles.agenceId, agenceId)),
+      ];
+
+    case "accesTemporaires":
+      return [
+        executeur
+          .select({ nombre: sql<number>`COUNT(*)` })
+          .from(accesTemporaires)
+          .where(
+            and(
+              eq(accesTemporaires.agenceId, agenceId),
+              eq(accesTemporaires.actif, true),
+              or(
+                isNull(accesTemporaires.dateExpiration),
+                gt(accesTemporaires.dateExpiration, new Date()),
+              ),
+            ),
+          ),
+      ];
+
+    case "requetesIa":
+      return [];
+  }
+}
+
+/**
+ * Utilisation actuelle d'un quota par une agence
+ */
+export async function getUsage(agenceId: string, quota: Quota): Promise<number> {
+  if (quota === "requetesIa") {
+    return compter(
+      db
+        .select({ nombre: compteursUsage.nombre })
+        .from(compteursUsage)
+        .where(
+          and(
+            eq(compteursUsage.agenceId, agenceId),
+            eq(compteursUsage.quota, quota),
+            eq(compteursUsage.periode, periodeCourante()),
+          ),
+        ),
+    );
+  }
+
+  let total = 0;
+  for (const requete of requetesComptage(agenceId, quota)) {
+    total += await compter(requete);
+  }
+  return total;
+}
+
+/**
+ * Comptabilise une utilisation d'un quota mensuel
+ */
+export async function recordUsage(agenceId: string, quota: Quota): Promise<void> {
+  await db
+    .insert(compteursUsage)
+    .values({
+      id: crypto.randomUUID(),
+      agenceId,
+      quota,
+      periode: periodeCourante(),
+      nombre: 1,
+    })
+    .onDuplicateKeyUpdate({ set: { nombre: sql`nombre + 1` } });
+}
+
+/**
+ * Réserve une unité d'un quota mensuel par une mise à jour conditionnelle du compteur du mois:
+ * deux requêtes simultanées ne peuvent pas dépasser la limite
+ * @returns Période du compteur réservé, null si la limite est atteinte
+ */
+async function reserverQuotaMensuel(
+  agenceId: string,
+  quota: Quota,
+  limite: number,
+): Promise<string | null> {
+  const periode = periodeCourante();
+
+  await db
+    .insert(compteursUsage)
+    .ignore()
+    .values({ id: crypto.randomUUID(), agenceId, quota, periode, nombre: 0 });
+
+  const [resultat] = await db
+    .update(compteursUsage)
+    .set({ nombre: sql`${compteursUsage.nombre} + 1` })
+    .where(
+      and(
+        eq(compteursUsage.agenceId, agenceId),
+        eq(compteursUsage.quota, quota),
+        eq(compteursUsage.periode, periode),
+        lt(compteursUsage.nombre, limite),
+      ),
+    );
+
+  return resultat.affectedRows === 1 ? periode : null;
+}
+
+/**
+ * Réserve une unité d'un quota compté: une réservation horodatée s'ajoute aux éléments
+ * existants le temps de la création
+ * La ligne de l'agence est verrouillée avant le comptage: deux requêtes simultanées
+ * (quelle que soit l'instance) ne peuvent pas dépasser la limite
+ * @returns ID de la réservation, null si la limite est atteinte
+ */
+async function reserverQuotaCompte(
+  agenceId: string,
+  quota: Quota,
+  limite: number,
+): Promise<string | null> {
+  return db.transaction(async (tx) => {
+    await tx
+      .select({ id: agences.id })
+      .from(agences)
+      .where(eq(agences.id, agenceId))
+      .for("update");
+
+    // Réservations en cours (les plus anciennes ont été abandonnées)
+    let utilisation = await compter(
+      tx
+        .select({ nombre: sql<number>`COUNT(*)` })
+        .from(reservationsQuotas)
+        .where(
+          and(
+            eq(reservationsQuotas.agenceId, agenceId),
+            eq(reservationsQuotas.quota, quota),
+            gt(
+              reservationsQuotas.dateReservation,
+              new Date(Date.now() - DUREE_RESERVATION_QUOTA_MS),
+            ),
+          ),
+        ),
+    );
+    for (const requete of requetesComptage(agenceId, quota, tx)) {
+      utilisation += await compter(requete);
+    }
+
+    if (utilisation >= limite) {
+      return null;
+    }
+
+    const id = crypto.randomUUID();
+    await tx
+      .insert(reservationsQuotas)
+      .values({ id, agenceId, quota, dateReservation: new Date() });
+    return id;
+  });
+}
+
+/**
+ * Réserve une unité de quota avant le traitement de la requête
+ * @returns Réservation à rendre avec libererQuota, null si la limite est atteinte
+ */
+function reserverQuota(agenceId: string, quota: Quota, limite: number): Promise<string | null> {
+  return quota === "requetesIa"
+    ? reserverQuotaMensuel(agenceId, quota, limite)
+    : reserverQuotaCompte(agenceId, quota, limite);
+}
+
+/**
+ * Rend une unité de quota réservée
+ * @param reservation - Période du compteur (quota mensuel) ou ID de la réservation (quota compté)
+ */
+async function libererQuota(agenceId: string, quota: Quota, reservation: string): Promise<void> {
+  if (quota !== "requetesIa") {
+    await db.delete(reservationsQuotas).where(eq(reservationsQuotas.id, reservation));
+    return;
+  }
+
+  await db
+    .update(compteursUsage)
+    .set({ nombre: sql`GREATEST(${compteursUsage.nombre} - 1, 0)` })
+    .where(
+      and(
+        eq(compteursUsage.agenceId, agenceId),
+        eq(compteursUsage.quota, quota),
+        eq(compteursUsage.periode, reservation),
+      ),
+    );
+}
+
+/**
+ * Supprime les réservations de quotas abandonnées (arrêt d'une instance en cours de requête)
+ * Les réservations récentes, peut-être en cours sur une autre instance, sont conservées
+ * Appelé au démarrage du serveur
+ */
+export async function purgeQuotaReservations(): Promise<void> {
+  try {
+    await db
+      .delete(reservationsQuotas)
+      .where(
+        lt(
+          reservationsQuotas.dateReservation,
+          new Date(Date.now() - DUREE_RESERVATION_QUOTA_MS),
+        ),
+      );
+  } catch (error) {
+    console.error("Erreur purge des réservations de quotas:", error);
+  }
+}
+
+/**
+ * Middleware: refuse la création si le quota du plan est atteint
+ * L'unité est réservée avant le traitement puis, à la fin de la réponse:
+ * - quotas comptés: rendue (l'élément créé est désormais compté)
+ * - quotas mensuels (requetesIa): conservée si la requête a réussi, rendue sinon
+ * À utiliser APRÈS le middleware authenticate
+ * @param quota - Quota consommé par la route
+ */
+export function requireQuota(quota: Quota) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const agenceId = req.agenceId!;
+      const entitlements = await getEntitlements(agenceId);
+
+      if (!entitlements) {
+        return res.status(404).json({ error: "Agence non trouvée" });
+      }
+
+      const limite = entitlements.limites[quota];
+      const reservation =
+        limite !== null ? await reserverQuota(agenceId, quota, limite) : null;
+
+      if (limite !== null && !reservation) {
+        return res.status(403).json({
+          error: "Limite de votre plan atteinte",
+          quota,
+          limite,
+          utilisation: await getUsage(agenceId, quota),
+          plan: entitlements.plan,
+          upgradeRequis: planSuperieur(entitlements.plan) !== null,
+        });
+      }
+
+      let termine = false;
+      const terminer = () => {
+        if (termine) return;
+        termine = true;
+
+        const reussie = res.writableFinished && res.statusCode < 400;
+        const erreur = (error: unknown) => console.error("Erreur mise à jour du quota:", error);
+
+        if (reservation) {
+          if (quota !== "requetesIa" || !reussie) {
+            libererQuota(agenceId, quota, reservation).catch(erreur);
+          }
+        } else if (quota === "requetesIa" && reussie) {
+          // Quota illimité: l'utilisation reste suivie
+          recordUsage(agenceId, quota).catch(erreur);
+        }
+      };
+      res.on("finish", terminer);
+      res.on("close", terminer);
+
+      next();
+    } catch (error) {
+      console.error("Erreur vérification du quota:", error);
+      return res
+        .status(500)
+        .json({ error: "Erreur serveur lors de la vérification du plan" });
+    }
+  };
+}
+
+/**
+ * Middleware: réserve une fonctionnalité premium aux plans payants dont l'abonnement est en règle
+ * (actif, ou en échec de paiement pendant le délai de grâce)
+ * À utiliser APRÈS le middleware authenticate (IA: avec requireQuota("requetesIa"))
+ * @param fonctionnalite - Fonctionnalité premium servie par la route
+ */
+export function requirePremium(fonctionnalite: Fonctionnalite) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const [agence] = await db
+        .select({
+          plan: agences.plan,
+          statutAbonnement: agences.statutAbonnement,
+          dateEchecPaiement: agences.dateEchecPaiement,
+        })
+        .from(agences)
+        .where(eq(agences.id, req.agenceId!))
+        .limit(1);
+
+      if (!agence) {
+        return res.status(404).json({ error: "Agence non trouvée" });
+      }
+
+      const plan = planEffectif(agence);
+
+      if (!LIMITES_PLANS[plan][fonctionnalite]) {
+        // Plan payant souscrit mais impayé au-delà du délai de grâce
+        if (isPlanPayant(agence.plan) && isLectureSeule(agence)) {
+          return res.status(403).json({
+            error: "Abonnement suspendu - Régularisez le paiement pour utiliser cette fonctionnalité",
+            fonctionnalite,
+            statutAbonnement: agence.statutAbonnement,
+            paiementRequis: true,
+          });
+        }
+
+        return res.status(403).json({
+          error: "Fonctionnalité réservée aux plans payants",
+          fonctionnalite,
+          plan,
+          upgradeRequis: true,
+        });
+      }
+
+      next();
+    } catch (error) {
+      console.error("Erreur vérification de la fonctionnalité:", error);
+      return res
+        .status(500)
+        .json({ error: "Erreur serveur lors de la vérification du plan" });
+    }
+  };
+}
+
+/**
+ * Middleware: une agence suspendue pour impayé au-delà du délai de grâce passe en lecture seule
+ * Les routes de facturation (/api/stripe) n'utilisent pas ce middleware: le paiement reste possible
+ * À utiliser APRÈS le middleware authenticate
+ */
+export async function requireActiveSubscription(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  if (METHODES_LECTURE.includes(req.method)) {
+    return next();
+  }
+
+  try {
+    const [agence] = await db
+      .select({
+        plan: agences.plan,
+        statutAbonnement: agences.statutAbonnement,
+        dateEchecPaiement: agences.dateEchecPaiement,
+      })
+      .from(agences)
+      .where(eq(agences.id, req.agenceId!))
+      .limit(1);
+
+    if (agence && isLectureSeule(agence)) {
+      return res.status(403).json({
+        error: "Abonnement suspendu - Agence en lecture seule jusqu'au paiement",
+        lectureSeule: true,
+        statutAbonnement: agence.statutAbonnement,
+        paiementRequis: true,
+      });
+    }
+
+    next();
+  } catch (error) {
+    console.error("Erreur vérification de l'abonnement:", error);
+    return res
+      .status(500)
+      .json({ error: "Erreur serveur lors de la vérification de l'abonnement" });
+  }
+}
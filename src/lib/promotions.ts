@@ -0,0 +1,383 @@
+// ==========================================
+// CODES PROMO ET PARRAINAGE
+// Codes promo validés localement puis appliqués au checkout via un coupon Stripe,
+// parrainage entre agences récompensé par un crédit sur le compte Stripe du parrain
+// ==========================================
+
+import type Stripe from "stripe";
+import { db } from "../db";
+import {
+  agences,
+  codesPromo,
+  utilisationsCodesPromo,
+  parrainages,
+  type CodePromo,
+} from "../schema";
+import { eq, and, or, lt, isNull, sql } from "drizzle-orm";
+import { stripe } from "./stripe";
+import { isPlanPayant, type PlanPayant } from "./plans";
+import { CATALOGUE } from "./catalogue";
+
+export const TYPES_REMISE = ["pourcentage", "montant"] as const;
+export const DUREES_REMISE = ["unique", "mois", "permanente"] as const;
+export type DureeRemise = (typeof DUREES_REMISE)[number];
+
+const DUREES_STRIPE: Record<DureeRemise, Stripe.CouponCreateParams.Duration> = {
+  unique: "once",
+  mois: "repeating",
+  permanente: "forever",
+};
+
+// Durée de validité d'un checkout avec code promo (l'utilisation reste réservée jusque-là)
+export const DUREE_RESERVATION_CODE_PROMO_MS = 60 * 60 * 1000;
+
+// Sans caractères ambigus (0/O, 1/I/L) pour un code lu à voix haute ou recopié
+const ALPHABET_PARRAINAGE = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const LONGUEUR_CODE_PARRAINAGE = 8;
+
+/**
+ * Forme canonique d'un code saisi (promo ou parrainage)
+ */
+export function normaliserCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Vérifie qu'un code promo est utilisable par l'agence pour le plan choisi
+ * @returns Le code promo, ou le motif du refus
+ */
+export async function validatePromoCode(
+  code: string,
+  agenceId: string,
+  plan: PlanPayant,
+): Promise<{ codePromo: CodePromo } | { erreur: string }> {
+  const [codePromo] = await db
+    .select()
+    .from(codesPromo)
+    .where(eq(codesPromo.code, normaliserCode(code)))
+    .limit(1);
+
+  if (!codePromo || !codePromo.actif) {
+    return { erreur: "Code promo invalide" };
+  }
+
+  if (codePromo.dateExpiration && codePromo.dateExpiration < new Date()) {
+    return { erreur: "Ce code promo a expiré" };
+  }
+
+  if (codePromo.utilisationsMax !== null && codePromo.utilisations >= codePromo.utilisationsMax) {
+    return { erreur: "Ce code promo n'est plus disponible" };
+  }
+
+  if (codePromo.plansEligibles && !codePromo.plansEligibles.includes(plan)) {
+    return { erreur: "Ce code promo ne s'applique pas au plan choisi" };
+  }
+
+  // Une réservation de l'agence (checkout abandonné ou en cours) sera reprise
+  const [dejaUtilise] = await db
+    .select({ id: utilisationsCodesPromo.id })
+    .from(utilisationsCodesPromo)
+    .where(
+      and(
+        eq(utilisationsCodesPromo.codePromoId, codePromo.id),
+        eq(utilisationsCodesPromo.agenceId, agenceId),
+        eq(utilisationsCodesPromo.statut, "utilisee"),
+      ),
+    )
+    .limit(1);
+
+  if (dejaUtilise) {
+    return { erreur: "Ce code promo a déjà été utilisé par votre agence" };
+  }
+
+  return { codePromo };
+}
+
+/**
+ * ID du coupon Stripe correspondant au code promo, créé au premier usage
+ */
+export async function getStripeCoupon(codePromo: CodePromo): Promise<string> {
+  if (codePromo.couponStripe) {
+    return codePromo.couponStripe;
+  }
+
+  const coupon = await stripe.coupons.create({
+    name: codePromo.code,
+    duration: DUREES_STRIPE[codePromo.duree as DureeRemise],
+    ...(codePromo.duree === "mois" ? { duration_in_months: codePromo.dureeMois! } : {}),
+    ...(codePromo.typeRemise === "pourcentage"
+      ? { percent_off: codePromo.valeur }
+      : { amount_off: codePromo.valeur, currency: "eur" }),
+    metadata: { codePromoId: codePromo.id },
+  });
+
+  await db
+    .update(codesPromo)
+    .set({ couponStripe: coupon.id })
+    .where(eq(codesPromo.id, codePromo.id));
+
+  return coupon.id;
+}
+
+/**
+ * Réserve une utilisation du code promo pour le checkout de l'agence
+ * Le compteur n'est incrémenté que sous la limite (mise à jour conditionnelle):
+ * des checkouts simultanés ne peuvent pas dépasser utilisationsMax
+ * Une réservation existante de l'agence est reprise sans compter une seconde fois
+ * @returns La réservation, ou null si le code n'est plus disponible
+ */
+export async function reservePromoCode(
+  codePromo: CodePromo,
+  agenceId: string,
+): Promise<{ id: string; nouvelle: boolean } | null> {
+  const id = crypto.randomUUID();
+  const [insertion] = await db
+    .insert(utilisationsCodesPromo)
+    .ignore()
+    .values({ id, codePromoId: codePromo.id, agenceId, statut: "reservee", date: new Date() });
+
+  // 0 = ligne déjà présente pour cette agence
+  if (insertion.affectedRows === 0) {
+    const [existante] = await db
+      .select({ id: utilisationsCodesPromo.id, statut: utilisationsCodesPromo.statut })
+      .from(utilisationsCodesPromo)
+      .where(
+        and(
+          eq(utilisationsCodesPromo.codePromoId, codePromo.id),
+          eq(utilisationsCodesPromo.agenceId, agenceId),
+        ),
+      )
+      .limit(1);
+
+    return existante?.statut === "reservee" ? { id: existante.id, nouvelle: false } : null;
+  }
+
+  const [compte] = await db
+    .update(codesPromo)
+    .set({ utilisations: sql`${codesPromo.utilisations} + 1` })
+    .where(
+      and(
+        eq(codesPromo.id, codePromo.id),
+        or(
+          isNull(codesPromo.utilisationsMax),
+          lt(codesPromo.utilisations, codesPromo.utilisationsMax),
+        ),
+      ),
+    );
+
+  if (compte.affectedRows === 0) {
+    await db.delete(utilisationsCodesPromo).where(eq(utilisationsCodesPromo.id, id));
+    return null;
+  }
+
+  return { id, nouvelle: true };
+}
+
+/**
+ * Associe la réservation à la session Checkout créée (libérée si elle expire)
+ */
+export async function attachPromoReservation(
+  reservationId: string,
+  sessionCheckout: string,
+): Promise<void> {
+  await db
+    .update(utilisationsCodesPromo)
+    .set({ sessionCheckout })
+    .where(eq(utilisationsCodesPromo.id, reservationId));
+}
+
+/**
+ * Annule une réservation: checkout expiré ou jamais créé
+ * @param sessionCheckout - Session concernée (une réservation reprise par un checkout plus récent est conservée)
+ */
+export async function releasePromoCode(
+  codePromoId: string,
+  agenceId: string,
+  sessionCheckout: string | null = null,
+): Promise<void> {
+  const [suppression] = await db
+    .delete(utilisationsCodesPromo)
+    .where(
+      and(
+        eq(utilisationsCodesPromo.codePromoId, codePromoId),
+        eq(utilisationsCodesPromo.agenceId, agenceId),
+        eq(utilisationsCodesPromo.statut, "reservee"),
+        sessionCheckout
+          ? eq(utilisationsCodesPromo.sessionCheckout, sessionCheckout)
+          : isNull(utilisationsCodesPromo.sessionCheckout),
+      ),
+    );
+
+  if (suppression.affectedRows === 1) {
+    await db
+      .update(codesPromo)
+      .set({ utilisations: sql`GREATEST(${codesPromo.utilisations} - 1, 0)` })
+      .where(eq(codesPromo.id, codePromoId));
+  }
+}
+
+/**
+ * Confirme l'utilisation d'un code promo (checkout terminé)
+ * Une nouvelle livraison du même événement ne compte pas deux fois
+ */
+export async function recordPromoCodeUse(codePromoId: string, agenceId: string): Promise<void> {
+  const [confirmation] = await db
+    .update(utilisationsCodesPromo)
+    .set({ statut: "utilisee" })
+    .where(
+      and(
+        eq(utilisationsCodesPromo.codePromoId, codePromoId),
+        eq(utilisationsCodesPromo.agenceId, agenceId),
+      ),
+    );
+
+  // Lignes trouvées (FOUND_ROWS): la réservation existait et est déjà comptée
+  if (confirmation.affectedRows > 0) {
+    return;
+  }
+
+  // Sans réservation (checkout créé avant la réservation des codes): l'utilisation est comptée ici
+  const [insertion] = await db
+    .insert(utilisationsCodesPromo)
+    .ignore()
+    .values({ id: crypto.randomUUID(), codePromoId, agenceId, statut: "utilisee", date: new Date() });
+
+  if (insertion.affectedRows === 1) {
+    await db
+      .update(codesPromo)
+      .set({ utilisations: sql`${codesPromo.utilisations} + 1` })
+      .where(eq(codesPromo.id, codePromoId));
+  }
+}
+
+// ==========================================
+// PARRAINAGE
+// ==========================================
+
+/**
+ * Nouveau code de parrainage aléatoire
+ */
+export function genererCodeParrainage(): string {
+  const octets = crypto.getRandomValues(new Uint8Array(LONGUEUR_CODE_PARRAINAGE));
+  return Array.from(octets, (o) => ALPHABET_PARRAINAGE[o % ALPHABET_PARRAINAGE.length]).join("");
+}
+
+/**
+ * Agence (active) à qui appartient un code de parrainage
+ */
+export async function findReferrer(code: string): Promise<{ id: string } | null> {
+  const [parrain] = await db
+    .select({ id: agences.id })
+    .from(agences)
+    .where(and(eq(agences.codeParrainage, normaliserCode(code)), eq(agences.statut, "active")))
+    .limit(1);
+
+  return parrain ?? null;
+}
+
+/**
+ * Attribue un code de parrainage aux agences créées avant le programme
+ * Appelé au démarrage du serveur
+ */
+export async function backfillCodesParrainage(): Promise<void> {
+  try {
+    const sansCode = await db
+      .select({ id: agences.id })
+      .from(agences)
+      .where(isNull(agences.codeParrainage));
+
+    for (const agence of sansCode) {
+      await db
+        .update(agences)
+        .set({ codeParrainage: genererCodeParrainage() })
+        .where(eq(agences.id, agence.id));
+    }
+
+    if (sansCode.length > 0) {
+      console.log(`✅ ${sansCode.length} code(s) de parrainage attribué(s)`);
+    }
+  } catch (error) {
+    console.error("Erreur attribution des codes de parrainage:", error);
+  }
+}
+
+/**
+ * Récompense le parrain au premier paiement de l'agence parrainée:
+ * un mois de son plan (Starter s'il est en gratuit) crédité sur son compte Stripe,
+ * déduit automatiquement de ses prochaines factures
+ */
+export async function rewardReferral(filleulId: string, factureId: string): Promise<void> {
+  const [parrainage] = await db
+    .select()
+    .from(parrainages)
+    .where(and(eq(parrainages.filleulId, filleulId), eq(parrainages.statut, "en_attente")))
+    .limit(1);
+
+  if (!parrainage) {
+    return;
+  }
+
+  // Réservé avant l'appel Stripe: deux événements de paiement simultanés ne créditent qu'une fois
+  const [reserve] = await db
+    .update(parrainages)
+    .set({ statut: "recompense", factureId, dateRecompense: new Date() })
+    .where(and(eq(parrainages.id, parrainage.id), eq(parrainages.statut, "en_attente")));
+
+  if (reserve.affectedRows === 0) {
+    return;
+  }
+
+  try {
+    const [parrain] = await db
+      .select()
+      .from(agences)
+      .where(eq(agences.id, parrainage.parrainId))
+      .limit(1);
+
+    if (!parrain) {
+      return;
+    }
+
+    let clientStripe = parrain.idClientStripe;
+    if (!clientStripe) {
+      const client = await stripe.customers.create(
+        { name: parrain.nom, metadata: { agenceId: parrain.id } },
+        { idempotencyKey: `parrainage-client-${parrain.id}` },
+      );
+      clientStripe = client.id;
+
+      await db
+        .update(agences)
+        .set({ idClientStripe: clientStripe })
+        .where(eq(agences.id, parrain.id));
+    }
+
+    const montant = CATALOGUE[isPlanPayant(parrain.plan) ? parrain.plan : "starter"].prix.mensuel;
+
+    // Solde négatif = crédit en faveur du client
+    await stripe.customers.createBalanceTransaction(
+      clientStripe,
+      {
+        amount: -montant,
+        currency: "eur",
+        description: "Parrainage - un mois offert",
+        metadata: { parrainageId: parrainage.id, filleulId },
+      },
+      { idempotencyKey: `parrainage-${parrainage.id}` },
+    );
+
+    await db
+      .update(parrainages)
+      .set({ montantCredit: montant })
+      .where(eq(parrainages.id, parrainage.id));
+
+    console.log(`🎁 Agence ${parrain.id} créditée de ${montant / 100}€ (parrainage de ${filleulId})`);
+  } catch (error) {
+    // Remis en attente: la nouvelle livraison de l'événement retentera le crédit
+    await db
+      .update(parrainages)
+      .set({ statut: "en_attente", factureId: null, dateRecompense: null })
+      .where(eq(parrainages.id, parrainage.id));
+    throw error;
+  }
+}
@@ -0,0 +1,236 @@
+// ==========================================
+// SESSIONS ET REFRESH TOKENS
+// Création, rotation et révocation des sessions (utilisateurs, admins, démo, impersonation)
+// ==========================================
+
+import type { Request } from "express";
+import { db } from "../db";
+import { sessions, type Session } from "../schema";
+import { eq, and, gt } from "drizzle-orm";
+import { generateToken, hashToken } from "./auth";
+
+export type TypeSession = "utilisateur" | "admin" | "demo" | "impersonation";
+
+// Durée de vie des access tokens (JWT courts, non révocables par eux-mêmes)
+export const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000; // 15 minutes
+
+// Durée de vie absolue d'une famille de refresh tokens, par type de compte
+export const REFRESH_TOKEN_TTL_MS: Record<TypeSession, number> = {
+  utilisateur: 7 * 24 * 60 * 60 * 1000, // 7 jours
+  admin: 7 * 24 * 60 * 60 * 1000, // 7 jours
+  demo: 24 * 60 * 60 * 1000, // 24 heures
+  impersonation: 60 * 60 * 1000, // 1 heure (sans refresh token utilisé)
+};
+
+// Refresh tokens remplacés conservés par session pour reconnaître un rejeu
+const HISTORIQUE_TOKENS_MAX = 50;
+
+// Délai pendant lequel le token tout juste remplacé est refusé sans révoquer la famille
+// (plusieurs onglets qui rafraîchissent en même temps avec le même cookie)
+const DELAI_GRACE_ROTATION_MS = 30 * 1000;
+
+/**
+ * Résultat d'une rotation de refresh token
+ * - "ok": nouveau refresh token émis
+ * - "invalide": token inconnu, expiré, d'un autre type de compte, ou secret jamais émis
+ * - "reutilise": token déjà remplacé rejoué => vol présumé, famille révoquée
+ */
+export type RotationResult =
+  | { statut: "ok"; session: Session; refreshToken: string }
+  | { statut: "invalide" }
+  | { statut: "reutilise"; session: Session };
+
+/**
+ * Le refresh token porte l'ID de sa session (famille) + un secret aléatoire
+ * Format: "<sessionId>.<secret>"
+ */
+function buildRefreshToken(sessionId: string): string {
+  return `${sessionId}.${generateToken()}`;
+}
+
+function parseRefreshToken(refreshToken: string): string | null {
+  const [sessionId, secret] = refreshToken.split(".");
+  return sessionId && secret ? sessionId : null;
+}
+
+/**
+ * Crée une nouvelle session (famille de refresh tokens)
+ * @param compteId - ID de l'utilisateur, de l'admin ou de l'accès démo
+ * @param dateExpirationMax - Borne optionnelle (ex: expiration d'un lien démo)
+ * @param agenceId - Agence active de la session (comptes utilisateurs)
+ */
+export async function createSession(
+  req: Request,
+  compteId: string,
+  typeCompte: TypeSession,
+  dateExpirationMax?: Date | null,
+  agenceId?: string | null,
+): Promise<{ session: Session; refreshToken: string }> {
+  const id = crypto.randomUUID();
+  const refreshToken = buildRefreshToken(id);
+
+  let dateExpiration = new Date(Date.now() + REFRESH_TOKEN_TTL_MS[typeCompte]);
+  if (dateExpirationMax && dateExpirationMax < dateExpiration) {
+    dateExpiration = new Date(dateExpirationMax);
+  }
+
+  const session: Session = {
+    id,
+    utilisateurId: compteId,
+    typeCompte,
+    tokenHash: hashToken(refreshToken),
+    anciensTokensHash: null,
+    dateRotation: null,
+    agenceId: agenceId || null,
+    dateCreation: new Date(),
+    dateExpiration,
+    adresseIp: req.ip || null,
+    userAgent: req.get("user-agent") || null,
+  };
+
+  await db.insert(sessions).values(session);
+
+  return { session, refreshToken };
+}
+
+/**
+ * Échange un refresh token contre un nouveau (rotation)
+ * Le remplacement est conditionné au token courant: deux rotations simultanées
+ * du même token ne peuvent pas réussir toutes les deux, la perdante est refusée
+ * Un token déjà remplacé qui est présenté à nouveau révoque toute la famille (sauf le
+ * dernier remplacé, pendant le délai de grâce), un secret jamais émis est simplement refusé
+ */
+export async function rotateSession(
+  refreshToken: string,
+  typeCompte: TypeSession,
+): Promise<RotationResult> {
+  const sessionId = parseRefreshToken(refreshToken);
+  if (!sessionId) {
+    return { statut: "invalide" };
+  }
+
+  const [session] = await db
+    .select()
+    .from(sessions)
+    .where(
+      and(
+        eq(sessions.id, sessionId),
+        eq(sessions.typeCompte, typeCompte),
+        gt(sessions.dateExpiration, new Date()),
+      ),
+    )
+    .limit(1);
+
+  if (!session) {
+    return { statut: "invalide" };
+  }
+
+  const tokenHash = hashToken(refreshToken);
+
+  if (session.tokenHash === tokenHash) {
+    const nouveauRefreshToken = buildRefreshToken(session.id);
+    const anciensTokensHash = [...(session.anciensTokensHash ?? []), tokenHash].slice(
+      -HISTORIQUE_TOKENS_MAX,
+    );
+
+    const [resultat] = await db
+      .update(sessions)
+      .set({
+        tokenHash: hashToken(nouveauRefreshToken),
+        anciensTokensHash,
+        dateRotation: new Date(),
+      })
+      .where(and(eq(sessions.id, session.id), eq(sessions.tokenHash, tokenHash)));
+
+    if (resultat.affectedRows === 1) {
+      return { statut: "ok", session, refreshToken: nouveauRefreshToken };
+    }
+
+    // Rotation concurrente gagnée par une autre requête avec le même token: pas un rejeu
+    return { statut: "invalide" };
+  }
+
+  // Token remplacé à l'instant par une requête simultanée (autre onglet): refusé sans révoquer
+  const anciens = session.anciensTokensHash ?? [];
+  if (
+    anciens[anciens.length - 1] === tokenHash &&
+    session.dateRotation &&
+    Date.now() - session.dateRotation.getTime() < DELAI_GRACE_ROTATION_MS
+  ) {
+    return { statut: "invalide" };
+  }
+
+  if (anciens.includes(tokenHash)) {
+    return revokeFamily(session, typeCompte);
+  }
+
+  return { statut: "invalide" };
+}
+
+/**
+ * Révoque une famille dont un refresh token déjà remplacé a été rejoué
+ */
+async function revokeFamily(
+  session: Session,
+  typeCompte: TypeSession,
+): Promise<RotationResult> {
+  await db.delete(sessions).where(eq(sessions.id, session.id));
+  console.warn(
+    `🚨 Réutilisation de refresh token détectée (session ${session.id}, ${typeCompte} ${session.utilisateurId}) - famille révoquée`,
+  );
+  return { statut: "reutilise", session };
+}
+
+/**
+ * Vérifie qu'une session est toujours active (non révoquée, non expirée)
+ * Utilisé à chaque requête pour lier l'access token à sa session
+ */
+export async function findActiveSession(
+  sessionId: string,
+  compteId: string,
+  typeCompte: TypeSession,
+): Promise<Session | null> {
+  const [session] = await db
+    .select()
+    .from(sessions)
+    .where(
+      and(
+        eq(sessions.id, sessionId),
+        eq(sessions.utilisateurId, compteId),
+        eq(sessions.typeCompte, typeCompte),
+        gt(sessions.dateExpiration, new Date()),
+      ),
+    )
+    .limit(1);
+
+  return session || null;
+}
+
+/**
+ * Change l'agence active d'une session (sélecteur d'agence)
+ */
+export async function setSessionAgence(
+  sessionId: string,
+  agenceId: string,
+): Promise<void> {
+  await db.update(sessions).set({ agenceId }).where(eq(sessions.id, sessionId));
+}
+
+/**
+ * Révoque une session à partir de son refresh token (déconnexion)
+ */
+export async function revokeSessionByRefreshToken(
+  refreshToken: string,
+): Promise<void> {
+  const sessionId = parseRefreshToken(refreshToken);
+  if (sessionId) {
+    await db
+      .delete(sessions)
+      .where(
+        and(
+          eq(sessions.id, sessionId),
+          eq(sessions.tokenHash, hashToken(refreshToken)),
+        ),
+      );
+  }
+}
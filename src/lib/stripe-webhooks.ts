@@ -0,0 +1,457 @@
+// ==========================================
+// WEBHOOKS STRIPE
+// Journal des événements reçus, déduplication, ordre réel des événements et rejeu
+// ==========================================
+
+import type Stripe from "stripe";
+import { db } from "../db";
+import { agences, evenementsStripe, type Agence, type EvenementStripe } from "../schema";
+import { eq, and, or, lt, ne, inArray } from "drizzle-orm";
+import { stripe, idStripe } from "./stripe";
+import { isPlanPayant, type PlanPayant } from "./plans";
+import { planDepuisAbonnement } from "./catalogue";
+import { etatAbonnement, notifierOwners, valeursEtat } from "./abonnements";
+import { mirrorCharge, mirrorInvoice } from "./facturation";
+import { recordPromoCodeUse, releasePromoCode, rewardReferral } from "./promotions";
+
+export type StatutEvenementStripe =
+  | "recu"
+  | "en_cours" // Réservé par un traitement (webhook ou rejeu admin)
+  | "traite"
+  | "ignore" // Type d'événement non géré
+  | "obsolete" // Plus ancien que le dernier événement appliqué à l'agence
+  | "en_attente" // Agence pas encore liée à son customer Stripe
+  | "erreur";
+
+export const STATUTS_EVENEMENT_STRIPE: StatutEvenementStripe[] = [
+  "recu",
+  "en_cours",
+  "traite",
+  "ignore",
+  "obsolete",
+  "en_attente",
+  "erreur",
+];
+
+// Statuts retraités par une nouvelle livraison du même événement
+// (les autres sont définitifs, ou en cours de traitement par une livraison simultanée)
+const STATUTS_A_TRAITER: StatutEvenementStripe[] = ["recu", "erreur", "en_attente"];
+
+// Au-delà, un traitement resté "en_cours" est considéré interrompu (arrêt du serveur)
+const DELAI_TRAITEMENT_MS = 5 * 60 * 1000;
+
+type ObjetFacturation =
+  | Stripe.Checkout.Session
+  | Stripe.Subscription
+  | Stripe.Invoice
+  | Stripe.Charge;
+
+// Événements qui modifient l'abonnement de l'agence
+const TYPES_ABONNEMENT = [
+  "checkout.session.completed",
+  "customer.subscription.created",
+  "customer.subscription.updated",
+  "customer.subscription.trial_will_end",
+  "customer.subscription.deleted",
+  "invoice.payment_failed",
+  "invoice.payment_succeeded",
+];
+
+// Événements recopiés dans l'historique de facturation (factures et paiements)
+const TYPES_HISTORIQUE = [
+  "invoice.created",
+  "invoice.finalized",
+  "invoice.updated",
+  "invoice.paid",
+  "invoice.payment_failed",
+  "invoice.payment_succeeded",
+  "invoice.voided",
+  "invoice.marked_uncollectible",
+  "charge.succeeded",
+  "charge.failed",
+  "charge.refunded",
+];
+
+/**
+ * Agence indiquée dans les métadonnées posées à la création du checkout / de l'abonnement
+ */
+function agenceIdMetadata(type: string, objet: ObjetFacturation): string | null {
+  if (type.startsWith("invoice.")) {
+    return (objet as Stripe.Invoice).parent?.subscription_details?.metadata?.agenceId ?? null;
+  }
+  if (type.startsWith("charge.")) {
+    return null;
+  }
+  return (objet as Stripe.Checkout.Session | Stripe.Subscription).metadata?.agenceId ?? null;
+}
+
+/**
+ * Plan du catalogue souscrit: prix de l'abonnement, sinon métadonnées posées au checkout
+ * @returns null si l'objet ne permet pas de le déterminer
+ */
+function planSouscrit(type: string, objet: ObjetFacturation): PlanPayant | null {
+  if (type.startsWith("customer.subscription.")) {
+    const plan = planDepuisAbonnement(objet as Stripe.Subscription)?.plan;
+    if (plan) return plan;
+  }
+
+  const planId = type.startsWith("invoice.")
+    ? (objet as Stripe.Invoice).parent?.subscription_details?.metadata?.planId
+    : (objet as Stripe.Checkout.Session | Stripe.Subscription).metadata?.planId;
+  return planId && isPlanPayant(planId) ? planId : null;
+}
+
+/**
+ * Retrouve l'agence concernée: métadonnées de l'objet, sinon customer Stripe déjà lié
+ */
+async function resoudreAgence(
+  agenceId: string | null,
+  clientStripe: string | null,
+): Promise<Agence | null> {
+  if (agenceId) {
+    const [agence] = await db
+      .select()
+      .from(agences)
+      .where(eq(agences.id, agenceId))
+      .limit(1);
+    if (agence) return agence;
+  }
+
+  if (clientStripe) {
+    const [agence] = await db
+      .select()
+      .from(agences)
+      .where(eq(agences.idClientStripe, clientStripe))
+      .limit(1);
+    if (agence) return agence;
+  }
+
+  return null;
+}
+
+/**
+ * Réserve un événement pour le traiter: passage atomique en "en_cours"
+ * Deux livraisons simultanées (ou une livraison et un rejeu admin) ne le traitent qu'une fois
+ * @param rejeuAdmin - Rejeu manuel: tout statut sauf un traitement déjà en cours
+ * @returns L'événement réservé, null s'il est déjà traité ou en cours de traitement
+ */
+export async function claimStripeEvent(
+  id: string,
+  rejeuAdmin = false,
+): Promise<EvenementStripe | null> {
+  const maintenant = new Date();
+
+  const [resultat] = await db
+    .update(evenementsStripe)
+    .set({ statut: "en_cours", dateTraitement: maintenant })
+    .where(
+      and(
+        eq(evenementsStripe.id, id),
+        or(
+          rejeuAdmin
+            ? ne(evenementsStripe.statut, "en_cours")
+            : inArray(evenementsStripe.statut, STATUTS_A_TRAITER),
+          and(
+            eq(evenementsStripe.statut, "en_cours"),
+            lt(
+              evenementsStripe.dateTraitement,
+              new Date(maintenant.getTime() - DELAI_TRAITEMENT_MS),
+            ),
+          ),
+        ),
+      ),
+    );
+
+  if (resultat.affectedRows !== 1) {
+    return null;
+  }
+
+  const [evenement] = await db
+    .select()
+    .from(evenementsStripe)
+    .where(eq(evenementsStripe.id, id))
+    .limit(1);
+
+  return evenement ?? null;
+}
+
+/**
+ * Enregistre un événement reçu (vérifié) et le réserve pour traitement
+ * @returns L'événement réservé, null pour une nouvelle livraison déjà traitée ou en cours
+ */
+export async function storeStripeEvent(event: Stripe.Event): Promise<EvenementStripe | null> {
+  const objet = event.data.object as { customer?: string | { id: string } | null };
+
+  await db
+    .insert(evenementsStripe)
+    .values({
+      id: event.id,
+      type: event.type,
+      clientStripe: idStripe(objet.customer),
+      dateEvenement: new Date(event.created * 1000),
+      payload: event as unknown as Record<string, unknown>,
+      statut: "recu",
+      tentatives: 0,
+      dateReception: new Date(),
+    })
+    .onDuplicateKeyUpdate({ set: { id: event.id } });
+
+  return claimStripeEvent(event.id);
+}
+
+/**
+ * Applique un événement à l'agence concernée
+ * @returns Statut du traitement (une erreur est levée en cas d'échec)
+ */
+async function appliquerEvenement(
+  evenement: EvenementStripe,
+  ignorerOrdre: boolean,
+): Promise<{ statut: StatutEvenementStripe; agenceId: string | null }> {
+  const event = evenement.payload as unknown as Stripe.Event;
+  const objet = event.data.object as ObjetFacturation;
+
+  // Checkout abandonné: l'utilisation réservée du code promo est rendue
+  if (event.type === "checkout.session.expired") {
+    const session = objet as Stripe.Checkout.Session;
+    const agenceId = session.metadata?.agenceId ?? null;
+    const codePromoId = session.metadata?.codePromoId;
+
+    if (!agenceId || !codePromoId) {
+      return { statut: "ignore", agenceId };
+    }
+
+    await releasePromoCode(codePromoId, agenceId, session.id);
+    return { statut: "traite", agenceId };
+  }
+
+  if (!TYPES_ABONNEMENT.includes(event.type) && !TYPES_HISTORIQUE.includes(event.type)) {
+    return { statut: "ignore", agenceId: null };
+  }
+
+  const agence = await resoudreAgence(
+    agenceIdMetadata(event.type, objet),
+    evenement.clientStripe,
+  );
+
+  // Reçu avant le checkout qui lie le customer: rejoué quand le lien sera fait
+  if (!agence) {
+    return { statut: "en_attente", agenceId: null };
+  }
+
+  // Historique de facturation: l'ordre est suivi par facture / paiement, pas par agence
+  if (TYPES_HISTORIQUE.includes(event.type)) {
+    if (event.type.startsWith("invoice.")) {
+      const facture = objet as Stripe.Invoice;
+      await mirrorInvoice(facture, agence.id, evenement.dateEvenement);
+
+      // Premier paiement réel (hors essai gratuit) d'une agence parrainée
+      if (
+        (event.type === "invoice.paid" || event.type === "invoice.payment_succeeded") &&
+        facture.amount_paid > 0
+      ) {
+        await rewardReferral(agence.id, facture.id);
+      }
+    } else {
+      await mirrorCharge(objet as Stripe.Charge, agence.id, evenement.dateEvenement);
+    }
+
+    if (!TYPES_ABONNEMENT.includes(event.type)) {
+      return { statut: "traite", agenceId: agence.id };
+    }
+  }
+
+  // Événement plus ancien que l'état déjà appliqué (livraisons dans le désordre)
+  if (
+    !ignorerOrdre &&
+    agence.dateEvenementStripe &&
+    evenement.dateEvenement < agence.dateEvenementStripe
+  ) {
+    return { statut: "obsolete", agenceId: agence.id };
+  }
+
+  // Un rejeu forcé ne fait pas reculer la date du dernier événement appliqué
+  const dateEvenementStripe =
+    agence.dateEvenementStripe && agence.dateEvenementStripe > evenement.dateEvenement
+      ? agence.dateEvenementStripe
+      : evenement.dateEvenement;
+
+  // Anciens abonnements sans plan du catalogue: pro (même tarif que l'ancien premium)
+  const plan =
+    planSouscrit(event.type, objet) ?? (isPlanPayant(agence.plan) ? agence.plan : "pro");
+
+  switch (event.type) {
+    case "checkout.session.completed": {
+      // Activer le plan souscrit et lier le customer et l'abonnement créés par le checkout
+      const idAbonnement = idStripe((objet as Stripe.Checkout.Session).subscription);
+      const etat = idAbonnement
+        ? etatAbonnement(await stripe.subscriptions.retrieve(idAbonnement), plan)
+        : { plan, statutAbonnement: "actif" as const };
+
+      await db
+        .update(agences)
+        .set({
+          ...valeursEtat(etat),
+          idClientStripe: evenement.clientStripe,
+          dateEvenementStripe,
+        })
+        .where(eq(agences.id, agence.id));
+
+      const codePromoId = (objet as Stripe.Checkout.Session).metadata?.codePromoId;
+      if (codePromoId) {
+        await recordPromoCodeUse(codePromoId, agence.id);
+      }
+
+      console.log(`✅ Agence ${agence.id} passée en ${etat.plan}`);
+      await notifierOwners(agence.id, "abonnementActive");
+      break;
+    }
+
+    case "customer.subscription.created":
+    case "customer.subscription.updated": {
+      // Changement de plan, renouvellement, fin d'essai, impayé...: l'état local suit l'abonnement
+      const etat = etatAbonnement(objet as Stripe.Subscription, plan);
+
+      await db
+        .update(agences)
+        .set({ ...valeursEtat(etat), dateEvenementStripe })
+        .where(eq(agences.id, agence.id));
+
+      console.log(
+        `🔁 Agence ${agence.id} abonnement mis à jour (${etat.plan}, ${etat.statutAbonnement})`,
+      );
+      if (etat.statutAbonnement === "expire" && agence.statutAbonnement !== "expire") {
+        await notifierOwners(agence.id, "abonnementExpire");
+      }
+      break;
+    }
+
+    case "customer.subscription.trial_will_end": {
+      // Envoyé par Stripe quelques jours avant la fin de l'essai
+      const etat = etatAbonnement(objet as Stripe.Subscription, plan);
+
+      await db
+        .update(agences)
+        .set({ ...valeursEtat(etat), dateEvenementStripe })
+        .where(eq(agences.id, agence.id));
+
+      console.log(`⏳ Agence ${agence.id} fin d'essai le ${etat.dateFinEssai?.toISOString()}`);
+      if (etat.dateFinEssai) {
+        await notifierOwners(agence.id, "finEssai", { dateFin: etat.dateFinEssai });
+      }
+      break;
+    }
+
+    case "customer.subscription.deleted": {
+      // Abonnement terminé: repasser en gratuit (pas supprimer les données)
+      await db
+        .update(agences)
+        .set({
+          ...valeursEtat(etatAbonnement(objet as Stripe.Subscription, plan)),
+          dateEvenementStripe,
+        })
+        .where(eq(agences.id, agence.id));
+
+      console.log(`⚠️ Agence ${agence.id} abonnement annulé`);
+      await notifierOwners(agence.id, "abonnementAnnule");
+      break;
+    }
+
+    case "invoice.payment_failed": {
+      // Suspendre l'abonnement en attente de paiement (plan conservé pendant le délai de grâce)
+      await db
+        .update(agences)
+        .set({ ...valeursEtat({ statutAbonnement: "suspendu" as const }), dateEvenementStripe })
+        .where(eq(agences.id, agence.id));
+
+      console.log(`🔴 Agence ${agence.id} suspendue (paiement échoué)`);
+      await notifierOwners(agence.id, "paiementEchoue");
+      break;
+    }
+
+    case "invoice.payment_succeeded": {
+      // Réactiver l'abonnement et reporter l'échéance à la nouvelle période payée
+      const idAbonnement = idStripe(
+        (objet as Stripe.Invoice).parent?.subscription_details?.subscription,
+      );
+      const etat = idAbonnement
+        ? etatAbonnement(await stripe.subscriptions.retrieve(idAbonnement), plan)
+        : { plan, statutAbonnement: "actif" as const };
+
+      await db
+        .update(agences)
+        .set({ ...valeursEtat(etat), dateEvenementStripe })
+        .where(eq(agences.id, agence.id));
+
+      console.log(`✅ Agence ${agence.id} paiement reçu`);
+      break;
+    }
+  }
+
+  return { statut: "traite", agenceId: agence.id };
+}
+
+/**
+ * Traite un événement réservé (voir claimStripeEvent) et enregistre le résultat
+ * Après un checkout, les événements en attente du même customer sont rejoués
+ * @param ignorerOrdre - Rejeu admin: appliquer même si un événement plus récent l'a été
+ */
+export async function processStripeEvent(
+  evenement: EvenementStripe,
+  ignorerOrdre = false,
+): Promise<EvenementStripe> {
+  let resultat: { statut: StatutEvenementStripe; agenceId: string | null };
+  let erreur: string | null = null;
+
+  try {
+    resultat = await appliquerEvenement(evenement, ignorerOrdre);
+  } catch (error: any) {
+    resultat = { statut: "erreur", agenceId: evenement.agenceId };
+    erreur = error?.message || String(error);
+  }
+
+  const traite: EvenementStripe = {
+    ...evenement,
+    statut: resultat.statut,
+    agenceId: resultat.agenceId ?? evenement.agenceId,
+    erreur,
+    tentatives: evenement.tentatives + 1,
+    dateTraitement: new Date(),
+  };
+
+  await db
+    .update(evenementsStripe)
+    .set({
+      statut: traite.statut,
+      agenceId: traite.agenceId,
+      erreur: traite.erreur,
+      tentatives: traite.tentatives,
+      dateTraitement: traite.dateTraitement,
+    })
+    .where(eq(evenementsStripe.id, evenement.id));
+
+  if (
+    traite.statut === "traite" &&
+    traite.type === "checkout.session.completed" &&
+    traite.clientStripe
+  ) {
+    const enAttente = await db
+      .select()
+      .from(evenementsStripe)
+      .where(
+        and(
+          eq(evenementsStripe.clientStripe, traite.clientStripe),
+          eq(evenementsStripe.statut, "en_attente"),
+        ),
+      )
+      .orderBy(evenementsStripe.dateEvenement);
+
+    for (const suivant of enAttente) {
+      const reserve = await claimStripeEvent(suivant.id);
+      if (reserve) {
+        await processStripeEvent(reserve);
+      }
+    }
+  }
+
+  return traite;
+}
@@ -0,0 +1,21 @@
+// ==========================================
+// STRIPE
+// Client Stripe partagé (routes de paiement, webhooks)
+// ==========================================
+
+import Stripe from "stripe";
+
+export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+// Secret de signature des webhooks (tableau de bord Stripe > Webhooks)
+export const STRIPE_WEBHOOK_SECRET = process.env.STRIPE_WEBHOOK_SECRET;
+
+/**
+ * ID d'un objet Stripe référencé (étendu ou non)
+ */
+export function idStripe(
+  objet: string | { id: string } | null | undefined,
+): string | null {
+  if (!objet) return null;
+  return typeof objet === "string" ? objet : objet.id;
+}
@@ -0,0 +1,197 @@
+// ==========================================
+// DOUBLE AUTHENTIFICATION (TOTP - RFC 6238)
+// Génération/vérification des codes, chiffrement des secrets, codes de récupération
+// ==========================================
+
+import crypto from "crypto";
+
+// Paramètres standards compatibles Google Authenticator / Authy / 1Password
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Tolérance de décalage d'horloge (en nombre de périodes avant/après)
+const TOTP_WINDOW = 1;
+
+const ISSUER = "OnlyTrack";
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+// Clé de chiffrement des secrets TOTP en base (dérivée de TOTP_ENCRYPTION_KEY ou JWT_SECRET)
+const ENCRYPTION_KEY = crypto
+  .createHash("sha256")
+  .update(
+    process.env.TOTP_ENCRYPTION_KEY ||
+      process.env.JWT_SECRET ||
+      "secret-de-developpement-a-changer",
+  )
+  .digest();
+
+// ==========================================
+// BASE32
+// ==========================================
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/=+$/, "").replace(/\s/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("Secret TOTP invalide");
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+// ==========================================
+// TOTP
+// ==========================================
+
+/**
+ * Génère un nouveau secret TOTP (160 bits, encodé en base32)
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+/**
+ * Calcule le code TOTP pour un pas de temps donné
+ */
+function codeForCounter(secret: string, counter: number): string {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto
+    .createHmac("sha1", base32Decode(secret))
+    .update(buffer)
+    .digest();
+
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, "0");
+}
+
+/**
+ * Retrouve le pas de temps d'un code TOTP saisi par l'utilisateur
+ * @param secret - Secret base32 (en clair)
+ * @param code - Code à 6 chiffres
+ * @returns Pas de temps du code s'il est valide dans la fenêtre de tolérance, sinon null
+ */
+export function findTotpStep(secret: string, code: string): number | null {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(normalized)) {
+    return null;
+  }
+
+  const counter = Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+  for (let i = -TOTP_WINDOW; i <= TOTP_WINDOW; i++) {
+    const expected = codeForCounter(secret, counter + i);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return counter + i;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Vérifie un code TOTP saisi par l'utilisateur (sans protection contre le rejeu)
+ * @returns true si le code est valide dans la fenêtre de tolérance
+ */
+export function verifyTotp(secret: string, code: string): boolean {
+  return findTotpStep(secret, code) !== null;
+}
+
+/**
+ * Construit l'URI otpauth:// à encoder en QR code dans l'application
+ * @param secret - Secret base32
+ * @param label - Identifiant du compte (email)
+ */
+export function buildOtpauthUri(secret: string, label: string): string {
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${encodeURIComponent(`${ISSUER}:${label}`)}?${params.toString()}`;
+}
+
+// ==========================================
+// CHIFFREMENT DES SECRETS EN BASE
+// ==========================================
+
+/**
+ * Chiffre un secret TOTP avant stockage (AES-256-GCM)
+ * @returns Chaîne "iv:tag:données" en hexadécimal
+ */
+export function encryptTotpSecret(secret: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", ENCRYPTION_KEY, iv);
+  const data = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [iv, tag, data].map((part) => part.toString("hex")).join(":");
+}
+
+/**
+ * Déchiffre un secret TOTP stocké en base
+ */
+export function decryptTotpSecret(encrypted: string): string {
+  const [iv, tag, data] = encrypted.split(":").map((part) => Buffer.from(part, "hex"));
+  const decipher = crypto.createDecipheriv("aes-256-gcm", ENCRYPTION_KEY, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(data), decipher.final()]).toString("utf8");
+}
+
+// ==========================================
+// CODES DE RÉCUPÉRATION
+// ==========================================
+
+/**
+ * Génère des codes de récupération à usage unique
+ * Format: "xxxxx-xxxxx" (hexadécimal)
+ * @param count - Nombre de codes (défaut: 10)
+ */
+export function generateRecoveryCodes(count: number = 10): string[] {
+  return Array.from({ length: count }, () => {
+    const raw = crypto.randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+/**
+ * Normalise un code de récupération saisi (minuscules, sans espaces)
+ */
+export function normalizeRecoveryCode(code: string): string {
+  return code.trim().toLowerCase().replace(/\s/g, "");
+}
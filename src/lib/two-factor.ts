@@ -0,0 +1,153 @@
+// ==========================================
+// DOUBLE AUTHENTIFICATION - PERSISTANCE
+// Codes de récupération et vérification du second facteur
+// ==========================================
+
+import { db } from "../db";
+import { codesRecuperation, utilisateurs, superAdmins } from "../schema";
+import { eq, and, or, lt, isNull } from "drizzle-orm";
+import { hashToken } from "./auth";
+import {
+  findTotpStep,
+  decryptTotpSecret,
+  generateRecoveryCodes,
+  normalizeRecoveryCode,
+} from "./totp";
+
+export type TypeCompte = "utilisateur" | "admin";
+
+/**
+ * Remplace tous les codes de récupération d'un compte
+ * @returns Nouveaux codes en clair (affichés une seule fois)
+ */
+export async function replaceRecoveryCodes(
+  compteId: string,
+  typeCompte: TypeCompte,
+): Promise<string[]> {
+  const codes = generateRecoveryCodes();
+
+  await db
+    .delete(codesRecuperation)
+    .where(
+      and(
+        eq(codesRecuperation.compteId, compteId),
+        eq(codesRecuperation.typeCompte, typeCompte),
+      ),
+    );
+
+  await db.insert(codesRecuperation).values(
+    codes.map((code) => ({
+      id: crypto.randomUUID(),
+      compteId,
+      typeCompte,
+      codeHash: hashToken(normalizeRecoveryCode(code)),
+    })),
+  );
+
+  return codes;
+}
+
+/**
+ * Supprime les codes de récupération d'un compte (désactivation de la 2FA)
+ */
+export async function deleteRecoveryCodes(
+  compteId: string,
+  typeCompte: TypeCompte,
+): Promise<void> {
+  await db
+    .delete(codesRecuperation)
+    .where(
+      and(
+        eq(codesRecuperation.compteId, compteId),
+        eq(codesRecuperation.typeCompte, typeCompte),
+      ),
+    );
+}
+
+/**
+ * Consomme un code de récupération s'il est valide et inutilisé
+ * @returns true si le code a été accepté
+ */
+async function consumeRecoveryCode(
+  compteId: string,
+  typeCompte: TypeCompte,
+  code: string,
+): Promise<boolean> {
+  const [existing] = await db
+    .select()
+    .from(codesRecuperation)
+    .where(
+      and(
+        eq(codesRecuperation.compteId, compteId),
+        eq(codesRecuperation.typeCompte, typeCompte),
+        eq(codesRecuperation.codeHash, hashToken(normalizeRecoveryCode(code))),
+        isNull(codesRecuperation.dateUtilisation),
+      ),
+    )
+    .limit(1);
+
+  if (!existing) {
+    return false;
+  }
+
+  await db
+    .update(codesRecuperation)
+    .set({ dateUtilisation: new Date() })
+    .where(eq(codesRecuperation.id, existing.id));
+
+  return true;
+}
+
+/**
+ * Consomme un code TOTP: valide et d'un pas de temps postérieur au dernier code accepté
+ * Le pas est enregistré par une mise à jour conditionnelle, un code ne sert donc qu'une fois
+ * même soumis simultanément sur deux requêtes
+ * @param totpSecretChiffre - Secret TOTP chiffré stocké en base
+ * @returns true si le code a été accepté
+ */
+export async function consumeTotpCode(
+  compteId: string,
+  typeCompte: TypeCompte,
+  totpSecretChiffre: string | null,
+  code: string,
+): Promise<boolean> {
+  if (!totpSecretChiffre) {
+    return false;
+  }
+
+  const pas = findTotpStep(decryptTotpSecret(totpSecretChiffre), code);
+  if (pas === null) {
+    return false;
+  }
+
+  const table = typeCompte === "admin" ? superAdmins : utilisateurs;
+  const [resultat] = await db
+    .update(table)
+    .set({ totpDernierPas: pas })
+    .where(
+      and(
+        eq(table.id, compteId),
+        or(isNull(table.totpDernierPas), lt(table.totpDernierPas, pas)),
+      ),
+    );
+
+  return resultat.affectedRows === 1;
+}
+
+/**
+ * Vérifie le second facteur: code TOTP, sinon code de récupération
+ * @param totpSecretChiffre - Secret TOTP chiffré stocké en base
+ * @param code - Code TOTP (6 chiffres) ou code de récupération
+ */
+export async function verifySecondFactor(
+  compteId: string,
+  typeCompte: TypeCompte,
+  totpSecretChiffre: string | null,
+  code: string,
+): Promise<boolean> {
+  if (await consumeTotpCode(compteId, typeCompte, totpSecretChiffre, code)) {
+    return true;
+  }
+
+  return consumeRecoveryCode(compteId, typeCompte, code);
+}
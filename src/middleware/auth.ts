@@ -1,13 +1,32 @@
 // ==========================================
 // MIDDLEWARE D'AUTHENTIFICATION
-// Vérifie les JWT et charge les informations utilisateur
+// Vérifie les JWT et charge les informations utilisateur (agence active et rôle dans cette agence)
 // ==========================================
 
 import { Request, Response, NextFunction } from "express";
 import { verifyJWT, type JWTPayload } from "../lib/auth";
+import { findActiveSession } from "../lib/sessions";
+import { findMembership, isAgenceActive } from "../lib/memberships";
+import { findActiveImpersonation, logImpersonation } from "../lib/impersonation";
+import {
+  findActiveApiKey,
+  permissionRequise,
+  touchApiKey,
+} from "../lib/api-keys";
+import {
+  hasPermission,
+  getMemberPermissions,
+  type Ressource,
+} from "../lib/permissions";
 import { db } from "../db";
-import { utilisateurs, sessions, accesTemporaires } from "../schema";
-import { eq, and, gt } from "drizzle-orm";
+import {
+  utilisateurs,
+  accesTemporaires,
+  actionsDemoBloquees,
+  type Impersonation,
+  type SuperAdmin,
+} from "../schema";
+import { eq } from "drizzle-orm";
 import jwt from "jsonwebtoken";
 
 const JWT_SECRET = process.env.JWT_SECRET || "onlytrack-super-secret";
@@ -21,18 +40,162 @@ declare global {
         email: string;
         role: "owner" | "member" | "model";
         agenceId: string;
+        modeleId?: string | null; // Fiche modèle du compte (rôle "model")
         isDemo?: boolean;
         demoNom?: string;
       };
       agenceId?: string;
+      sessionId?: string; // Session (table sessions) liée au token présenté
+      cleApi?: { id: string; permissions: string[] }; // Clé API utilisée (Authorization: Bearer)
+      permissions?: string[]; // Permissions effectives dans l'agence active (chargées à la demande)
+      admin?: SuperAdmin; // Super-admin connecté (requireAdmin)
+      impersonation?: Pick<Impersonation, "id" | "adminId" | "modeEcriture" | "dateExpiration">; // Super-admin agissant en tant que req.user
     }
   }
 }
 
+// Méthodes sans effet de bord, seules autorisées en mode démo
+const METHODES_LECTURE = ["GET", "HEAD", "OPTIONS"];
+
+/**
+ * Enregistre une tentative de modification d'un visiteur démo (consultable par l'agence)
+ */
+async function enregistrerActionDemo(req: Request, agenceId: string, accesId: string) {
+  try {
+    await db.insert(actionsDemoBloquees).values({
+      id: crypto.randomUUID(),
+      agenceId,
+      accesId,
+      methode: req.method,
+      chemin: req.originalUrl.split("?")[0].slice(0, 500),
+      adresseIp: req.ip || null,
+      userAgent: req.get("user-agent") || null,
+      date: new Date(),
+    });
+  } catch (error) {
+    console.error("Erreur enregistrement action démo bloquée:", error);
+  }
+}
+
+// Routes de gestion du compte, jamais modifiables pendant une impersonation (même en mode écriture)
+const ROUTES_COMPTE = ["/api/auth", "/api/cles-api"];
+
+/**
+ * Requête d'un super-admin en impersonation: lecture seule sauf mode écriture activé,
+ * chaque requête est journalisée (y compris les modifications refusées)
+ */
+async function suivreImpersonation(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  impersonation: Impersonation,
+) {
+  req.impersonation = {
+    id: impersonation.id,
+    adminId: impersonation.adminId,
+    modeEcriture: impersonation.modeEcriture,
+    dateExpiration: impersonation.dateExpiration,
+  };
+
+  if (!METHODES_LECTURE.includes(req.method)) {
+    const routeCompte = ROUTES_COMPTE.some((route) => req.baseUrl.startsWith(route));
+
+    if (!impersonation.modeEcriture || routeCompte) {
+      await logImpersonation(impersonation, "requete_bloquee", req, { statutHttp: 403 });
+      return res.status(403).json({
+        error: routeCompte
+          ? "Modification du compte impossible pendant une impersonation"
+          : "Impersonation en lecture seule - Activez le mode écriture",
+        impersonation: true,
+        modeEcriture: impersonation.modeEcriture,
+      });
+    }
+  }
+
+  res.on("finish", () => {
+    void logImpersonation(impersonation, "requete", req, { statutHttp: res.statusCode });
+  });
+
+  next();
+}
+
+/**
+ * Authentification par clé API (Authorization: Bearer otk_...)
+ * Une clé personnelle agit au nom de son utilisateur, une clé d'agence comme un membre
+ */
+async function authenticateApiKey(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  cle: string,
+) {
+  const cleApi = await findActiveApiKey(cle);
+
+  if (!cleApi) {
+    return res
+      .status(401)
+      .json({ error: "Non authentifié - Clé API invalide ou expirée" });
+  }
+
+  const requise = permissionRequise(req);
+  if (!requise || !hasPermission(cleApi.permissions, requise)) {
+    return res.status(403).json({
+      error: "Accès refusé - Permission manquante pour cette clé API",
+      requiredPermission: requise,
+    });
+  }
+
+  // Une agence suspendue ou archivée bloque aussi ses clés API
+  if (!(await isAgenceActive(cleApi.agenceId))) {
+    return res.status(403).json({ error: "Accès refusé - Agence suspendue" });
+  }
+
+  if (cleApi.utilisateurId) {
+    const [user] = await db
+      .select()
+      .from(utilisateurs)
+      .where(eq(utilisateurs.id, cleApi.utilisateurId))
+      .limit(1);
+
+    const membre = user?.actif
+      ? await findMembership(user.id, cleApi.agenceId)
+      : null;
+
+    if (!user || !membre) {
+      return res
+        .status(401)
+        .json({ error: "Utilisateur inactif ou inexistant" });
+    }
+
+    req.user = {
+      id: user.id,
+      email: user.email,
+      role: membre.role as "owner" | "member" | "model",
+      agenceId: membre.agenceId,
+      modeleId: membre.modeleId,
+    };
+  } else {
+    // Clé d'agence: utilisateur virtuel sans privilèges owner
+    req.user = {
+      id: `api-${cleApi.id}`,
+      email: "api@onlytrack.io",
+      role: "member",
+      agenceId: cleApi.agenceId,
+    };
+  }
+
+  req.agenceId = cleApi.agenceId;
+  req.cleApi = { id: cleApi.id, permissions: cleApi.permissions };
+
+  await touchApiKey(cleApi.id, req.ip || null);
+
+  next();
+}
+
 /**
  * Middleware d'authentification
- * Vérifie le JWT dans le cookie et charge l'utilisateur
- * Supporte aussi les tokens démo pour l'accès temporaire
+ * Vérifie le JWT d'accès dans le cookie, sa session, et charge l'utilisateur
+ * Supporte aussi les tokens démo pour l'accès temporaire (lecture seule) et les clés API (Bearer)
  * Ajoute `req.user` et `req.agenceId` à la requête
  */
 export async function authenticate(
@@ -41,6 +204,17 @@ export async function authenticate(
   next: NextFunction,
 ) {
   try {
+    // Clé API: prioritaire, un script n'envoie pas de cookies
+    const authorization = req.get("authorization");
+    if (authorization?.startsWith("Bearer ")) {
+      return await authenticateApiKey(
+        req,
+        res,
+        next,
+        authorization.slice("Bearer ".length).trim(),
+      );
+    }
+
     // D'abord essayer le token démo
     const demoToken = req.cookies.demo_token;
     if (demoToken) {
@@ -54,8 +228,19 @@ export async function authenticate(
             .from(accesTemporaires)
             .where(eq(accesTemporaires.id, decoded.accesId))
             .limit(1);
+
+          // Vérifier que la session démo n'a pas été révoquée
+          const session = acces
+            ? await findActiveSession(decoded.sessionId, acces.id, "demo")
+            : null;
           
-          if (acces && acces.actif && (!acces.dateExpiration || new Date(acces.dateExpiration) > new Date())) {
+          if (
+            acces &&
+            session &&
+            acces.actif &&
+            (!acces.dateExpiration || new Date(acces.dateExpiration) > new Date()) &&
+            (await isAgenceActive(acces.agenceId))
+          ) {
             // Créer un utilisateur virtuel pour l'accès démo
             req.user = {
               id: `demo-${acces.id}`,
@@ -66,6 +251,19 @@ export async function authenticate(
               demoNom: acces.nom,
             };
             req.agenceId = acces.agenceId;
+            req.sessionId = session.id;
+
+            // Lecture seule: toute modification est refusée et journalisée pour l'agence
+            if (!METHODES_LECTURE.includes(req.method)) {
+              await enregistrerActionDemo(req, acces.agenceId, acces.id);
+              return res.status(403).json({
+                error: "Accès démo en lecture seule - Modification impossible",
+                lectureSeule: true,
+                methode: req.method,
+                chemin: req.originalUrl.split("?")[0],
+              });
+            }
+
             return next();
           }
         }
@@ -92,22 +290,29 @@ export async function authenticate(
         .json({ error: "Non authentifié - Token invalide" });
     }
 
-    // Vérifier que la session existe et est valide
-    const [session] = await db
-      .select()
-      .from(sessions)
-      .where(
-        and(
-          eq(sessions.utilisateurId, payload.userId),
-          gt(sessions.dateExpiration, new Date()),
-        ),
-      )
-      .limit(1);
+    // Vérifier que la session de CE token existe et est valide
+    // (une session révoquée cesse immédiatement de fonctionner)
+    const session = await findActiveSession(
+      payload.sessionId,
+      payload.userId,
+      payload.impersonationId ? "impersonation" : "utilisateur",
+    );
 
     if (!session) {
       return res.status(401).json({ error: "Session expirée" });
     }
 
+    // Token d'impersonation: l'impersonation doit être toujours en cours
+    const impersonation = payload.impersonationId
+      ? await findActiveImpersonation(payload.impersonationId, session.id)
+      : null;
+
+    if (payload.impersonationId && !impersonation) {
+      return res
+        .status(401)
+        .json({ error: "Impersonation terminée ou expirée" });
+    }
+
     // Charger l'utilisateur complet
     const [user] = await db
       .select()
@@ -121,14 +326,29 @@ export async function authenticate(
         .json({ error: "Utilisateur inactif ou inexistant" });
     }
 
+    // L'agence active vient du token, le rôle de l'appartenance (toujours à jour)
+    const membre = await findMembership(user.id, payload.agenceId);
+
+    if (!membre) {
+      return res
+        .status(403)
+        .json({ error: "Vous n'êtes plus membre de cette agence" });
+    }
+
     // Ajouter les infos utilisateur à la requête
     req.user = {
       id: user.id,
       email: user.email,
-      role: user.role as "owner" | "member" | "model",
-      agenceId: user.agenceId,
+      role: membre.role as "owner" | "member" | "model",
+      agenceId: membre.agenceId,
+      modeleId: membre.modeleId,
     };
-    req.agenceId = user.agenceId;
+    req.agenceId = membre.agenceId;
+    req.sessionId = session.id;
+
+    if (impersonation) {
+      return await suivreImpersonation(req, res, next, impersonation);
+    }
 
     next();
   } catch (error: any) {
@@ -162,6 +382,118 @@ export function requireRole(...roles: Array<"owner" | "member" | "model">) {
   };
 }
 
+/**
+ * Middleware de router pour les données propres à un créateur
+ * Un compte "model" doit être lié à sa fiche modèle pour y accéder
+ * À utiliser APRÈS le middleware authenticate
+ */
+export function requireModelLink(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  if (req.user?.role === "model" && !req.user.modeleId) {
+    return res.status(403).json({
+      error: "Accès refusé - Compte modèle non lié à une fiche modèle",
+    });
+  }
+
+  next();
+}
+
+/**
+ * Fiche modèle à laquelle les données de la requête sont restreintes
+ * @returns L'id du modèle pour un compte "model", undefined sinon (toute l'agence)
+ */
+export function modeleRestreint(req: Request): string | undefined {
+  return req.user?.role === "model" ? req.user.modeleId ?? undefined : undefined;
+}
+
+/**
+ * Indique si une ligne (par son modeleId) sort de la fiche d'un compte "model"
+ */
+export function horsFicheModele(req: Request, modeleId: string | null): boolean {
+  const modele = modeleRestreint(req);
+  return modele !== undefined && modeleId !== modele;
+}
+
+/**
+ * Charge (une fois par requête) les permissions effectives de l'utilisateur dans l'agence active
+ * - Visiteur démo: permissions de lecture du rôle membre
+ * - Clé API d'agence: permissions de la clé
+ * - Utilisateur (session ou clé personnelle): permissions de son rôle dans l'agence
+ */
+async function chargerPermissions(req: Request): Promise<string[]> {
+  if (req.permissions) {
+    return req.permissions;
+  }
+
+  let permissions: string[] = [];
+
+  if (req.user!.isDemo) {
+    const membre = await getMemberPermissions({
+      agenceId: req.agenceId!,
+      role: "member",
+      roleId: null,
+    });
+    permissions = membre.filter((p) => p.endsWith(":read"));
+  } else if (req.cleApi && req.user!.id === `api-${req.cleApi.id}`) {
+    permissions = req.cleApi.permissions;
+  } else {
+    const membre = await findMembership(req.user!.id, req.agenceId!);
+    permissions = membre ? await getMemberPermissions(membre) : [];
+  }
+
+  req.permissions = permissions;
+  return permissions;
+}
+
+/**
+ * Middleware pour vérifier des permissions (ex: "transactions:write")
+ * À utiliser APRÈS le middleware authenticate
+ * @param permissions - Permissions toutes requises
+ */
+export function requirePermission(...permissions: string[]) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Non authentifié" });
+    }
+
+    try {
+      const accordees = await chargerPermissions(req);
+      const manquantes = permissions.filter((p) => !hasPermission(accordees, p));
+
+      if (manquantes.length > 0) {
+        return res.status(403).json({
+          error: "Accès refusé - Permission insuffisante",
+          requiredPermissions: manquantes,
+        });
+      }
+
+      next();
+    } catch (error) {
+      console.error("Erreur vérification des permissions:", error);
+      return res
+        .status(500)
+        .json({ error: "Erreur serveur lors de la vérification des permissions" });
+    }
+  };
+}
+
+/**
+ * Middleware de router: lecture (GET/HEAD) ou écriture (autres méthodes) sur une ressource
+ * @param ressource - Ressource protégée (ex: "transactions")
+ */
+export function requireResourcePermission(ressource: Ressource) {
+  const lecture = requirePermission(`${ressource}:read`);
+  const ecriture = requirePermission(`${ressource}:write`);
+
+  return (req: Request, res: Response, next: NextFunction) =>
+    req.method === "GET" || req.method === "HEAD"
+      ? lecture(req, res, next)
+      : ecriture(req, res, next);
+}
+
 /**
  * Middleware optionnel qui charge l'utilisateur si authentifié
  * mais ne rejette pas si non authentifié
@@ -185,20 +517,35 @@ export async function authenticateOptional(
       return next();
     }
 
+    const session = await findActiveSession(
+      payload.sessionId,
+      payload.userId,
+      "utilisateur",
+    );
+
+    if (!session) {
+      return next();
+    }
+
     const [user] = await db
       .select()
       .from(utilisateurs)
       .where(eq(utilisateurs.id, payload.userId))
       .limit(1);
 
-    if (user && user.actif) {
+    const membre =
+      user && user.actif ? await findMembership(user.id, payload.agenceId) : null;
+
+    if (user && membre) {
       req.user = {
         id: user.id,
         email: user.email,
-        role: user.role as "owner" | "member" | "model",
-        agenceId: user.agenceId,
+        role: membre.role as "owner" | "member" | "model",
+        agenceId: membre.agenceId,
+        modeleId: membre.modeleId,
       };
-      req.agenceId = user.agenceId;
+      req.agenceId = membre.agenceId;
+      req.sessionId = session.id;
     }
 
     next();
@@ -5,18 +5,29 @@
 
 import { Router } from "express";
 import { db } from "../db";
-import { accesTemporaires, agences } from "../schema";
-import { eq, and } from "drizzle-orm";
-import { authenticate } from "../middleware/auth";
+import { accesTemporaires, actionsDemoBloquees, agences } from "../schema";
+import { eq, and, desc } from "drizzle-orm";
+import { authenticate, requirePermission } from "../middleware/auth";
+import {
+  bruteForceGuard,
+  recordFailedAttempt,
+  tokenPourJournal,
+} from "../lib/brute-force";
+import { requireActiveSubscription, requireQuota } from "../lib/plans";
+import { isAgenceActive } from "../lib/memberships";
 import crypto from "crypto";
 
 const router = Router();
 
+// Permissions de gestion des accès (rôle de l'utilisateur dans l'agence)
+const accesLecture = requirePermission("acces-temporaires:read");
+const accesEcriture = requirePermission("acces-temporaires:write");
+
 // ==========================================
 // GET /api/acces-temporaires
 // Lister les accès temporaires de l'agence
 // ==========================================
-router.get("/", authenticate, async (req, res) => {
+router.get("/", authenticate, accesLecture, async (req, res) => {
   try {
     const agenceId = req.agenceId!;
 
@@ -32,11 +43,48 @@ router.get("/", authenticate, async (req, res) => {
   }
 });
 
+// ==========================================
+// GET /api/acces-temporaires/actions-bloquees
+// Modifications tentées par les visiteurs démo (accès en lecture seule)
+// ==========================================
+router.get("/actions-bloquees", authenticate, accesLecture, async (req, res) => {
+  try {
+    const limite = Math.min(parseInt(String(req.query.limite || "100"), 10) || 100, 500);
+
+    const conditions = [eq(actionsDemoBloquees.agenceId, req.agenceId!)];
+    if (typeof req.query.accesId === "string" && req.query.accesId) {
+      conditions.push(eq(actionsDemoBloquees.accesId, req.query.accesId));
+    }
+
+    const actions = await db
+      .select({
+        id: actionsDemoBloquees.id,
+        accesId: actionsDemoBloquees.accesId,
+        accesNom: accesTemporaires.nom,
+        methode: actionsDemoBloquees.methode,
+        chemin: actionsDemoBloquees.chemin,
+        adresseIp: actionsDemoBloquees.adresseIp,
+        userAgent: actionsDemoBloquees.userAgent,
+        date: actionsDemoBloquees.date,
+      })
+      .from(actionsDemoBloquees)
+      .leftJoin(accesTemporaires, eq(actionsDemoBloquees.accesId, accesTemporaires.id))
+      .where(and(...conditions))
+      .orderBy(desc(actionsDemoBloquees.date))
+      .limit(limite);
+
+    res.json(actions);
+  } catch (error) {
+    console.error("Erreur liste actions démo bloquées:", error);
+    res.status(500).json({ error: "Erreur lors du chargement" });
+  }
+});
+
 // ==========================================
 // POST /api/acces-temporaires
 // Créer un nouvel accès temporaire
 // ==========================================
-router.post("/", authenticate, async (req, res) => {
+router.post("/", authenticate, accesEcriture, requireActiveSubscription, requireQuota("accesTemporaires"), async (req, res) => {
   try {
     const agenceId = req.agenceId!;
     const userId = req.user!.id;
@@ -90,7 +138,7 @@ router.post("/", authenticate, async (req, res) => {
 // DELETE /api/acces-temporaires/:id
 // Révoquer un accès temporaire
 // ==========================================
-router.delete("/:id", authenticate, async (req, res) => {
+router.delete("/:id", authenticate, accesEcriture, requireActiveSubscription, async (req, res) => {
   try {
     const agenceId = req.agenceId!;
     const { id } = req.params;
@@ -128,7 +176,7 @@ router.delete("/:id", authenticate, async (req, res) => {
 // GET /api/acces-temporaires/valider/:token
 // Valider un token d'accès (public)
 // ==========================================
-router.get("/valider/:token", async (req, res) => {
+router.get("/valider/:token", bruteForceGuard("acces"), async (req, res) => {
   try {
     const { token } = req.params;
 
@@ -139,6 +187,9 @@ router.get("/valider/:token", async (req, res) => {
       .limit(1);
 
     if (!acces) {
+      await recordFailedAttempt(req, "acces", tokenPourJournal(token), {
+        motif: "token_inconnu",
+      });
       return res.status(404).json({ 
         valid: false, 
         error: "Lien d'accès invalide" 
@@ -160,6 +211,13 @@ router.get("/valider/:token", async (req, res) => {
       });
     }
 
+    if (!(await isAgenceActive(acces.agenceId))) {
+      return res.status(403).json({
+        valid: false,
+        error: "Cette agence est suspendue",
+      });
+    }
+
     // Récupérer les infos de l'agence
     const [agence] = await db
       .select({ nom: agences.nom })
@@ -1,25 +1,177 @@
 // ==========================================
 // ROUTES AUTH ADMIN
-// Authentification séparée pour les admins
+// Authentification séparée pour les admins (2FA obligatoire)
 // ==========================================
 
-import { Router } from "express";
+import { Router, type Request, type Response, type NextFunction } from "express";
 import { db } from "../db";
-import { superAdmins } from "../schema";
+import { superAdmins, type SuperAdmin } from "../schema";
 import { eq } from "drizzle-orm";
 import bcrypt from "bcrypt";
 import jwt from "jsonwebtoken";
+import { z } from "zod";
+import { generateChallengeToken, verifyChallengeToken } from "../lib/auth";
+import {
+  generateTotpSecret,
+  buildOtpauthUri,
+  encryptTotpSecret,
+} from "../lib/totp";
+import {
+  replaceRecoveryCodes,
+  verifySecondFactor,
+  consumeTotpCode,
+} from "../lib/two-factor";
+import {
+  bruteForceGuard,
+  recordFailedAttempt,
+  resetAttempts,
+} from "../lib/brute-force";
+import {
+  createSession,
+  rotateSession,
+  findActiveSession,
+  revokeSessionByRefreshToken,
+  ACCESS_TOKEN_TTL_MS,
+} from "../lib/sessions";
+import {
+  adminHasPermission,
+  getAdminPermissions,
+  type PermissionAdmin,
+} from "../lib/admin-roles";
 
 const router = Router();
 
 const JWT_SECRET = process.env.JWT_SECRET || "onlytrack-super-secret";
 const SALT_ROUNDS = 10;
 
+// Schémas de validation 2FA
+const challengeSchema = z.object({
+  challengeToken: z.string().min(1, "Challenge requis"),
+});
+
+const challengeCodeSchema = challengeSchema.extend({
+  code: z.string().min(6, "Code requis"),
+});
+
+// Protection anti brute-force (compteurs par IP et par compte)
+const connexionGuard = bruteForceGuard("admin", (req) =>
+  typeof req.body?.email === "string" ? req.body.email : null,
+);
+// Codes 2FA: admin connecté, sinon celui du challenge de connexion
+const deuxFacteursGuard = bruteForceGuard(
+  "admin-2fa",
+  (req) =>
+    req.admin?.id ?? verifyChallengeToken(req.body?.challengeToken ?? "", "admin")?.sub,
+);
+
+/**
+ * Charge l'admin associé à un challenge 2FA valide pour l'étape attendue
+ */
+async function adminFromChallenge(
+  challengeToken: string,
+  etape: "2fa" | "2fa-setup",
+): Promise<SuperAdmin | null> {
+  const challenge = verifyChallengeToken(challengeToken, "admin");
+  if (!challenge || challenge.etape !== etape) {
+    return null;
+  }
+
+  const [admin] = await db
+    .select()
+    .from(superAdmins)
+    .where(eq(superAdmins.id, challenge.sub))
+    .limit(1);
+
+  return admin && admin.actif ? admin : null;
+}
+
+// Options communes des cookies admin
+const ADMIN_COOKIE_OPTIONS = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax" as const,
+};
+
+/**
+ * Émet le JWT d'accès admin (courte durée) et le refresh token associé
+ */
+function definirCookiesAdmin(
+  res: Response,
+  admin: SuperAdmin,
+  sessionId: string,
+  refreshToken: string,
+  dateExpiration: Date,
+) {
+  // Générer un token JWT admin
+  const token = jwt.sign(
+    {
+      id: admin.id,
+      email: admin.email,
+      type: "admin",
+      mfa: true,
+      sessionId,
+    },
+    JWT_SECRET,
+    { expiresIn: ACCESS_TOKEN_TTL_MS / 1000 }
+  );
+
+  res.cookie("admin_token", token, {
+    ...ADMIN_COOKIE_OPTIONS,
+    maxAge: ACCESS_TOKEN_TTL_MS,
+  });
+  res.cookie("admin_refresh_token", refreshToken, {
+    ...ADMIN_COOKIE_OPTIONS,
+    path: "/api/admin/auth",
+    maxAge: dateExpiration.getTime() - Date.now(),
+  });
+}
+
+/**
+ * Efface les cookies de session admin
+ */
+function effacerCookiesAdmin(res: Response) {
+  res.clearCookie("admin_token");
+  res.clearCookie("admin_refresh_token", { path: "/api/admin/auth" });
+}
+
+/**
+ * Ouvre la session admin après mot de passe + 2FA validés
+ * Le token porte mfa: true, exigé par requireAdmin
+ */
+async function ouvrirSessionAdmin(
+  req: Request,
+  res: Response,
+  admin: SuperAdmin,
+  extra: Record<string, unknown> = {},
+) {
+  // Mettre à jour la dernière connexion
+  await db
+    .update(superAdmins)
+    .set({ derniereConnexion: new Date() })
+    .where(eq(superAdmins.id, admin.id));
+
+  const { session, refreshToken } = await createSession(req, admin.id, "admin");
+  definirCookiesAdmin(res, admin, session.id, refreshToken, session.dateExpiration);
+
+  res.json({
+    message: "Connexion réussie",
+    admin: {
+      id: admin.id,
+      email: admin.email,
+      nom: admin.nom,
+      prenom: admin.prenom,
+      role: admin.role,
+      permissions: getAdminPermissions(admin.role),
+    },
+    ...extra,
+  });
+}
+
 // ==========================================
 // POST /api/admin/auth/connexion
 // Connexion admin
 // ==========================================
-router.post("/connexion", async (req, res) => {
+router.post("/connexion", connexionGuard, async (req, res) => {
   try {
     const { email, motDePasse } = req.body;
 
@@ -35,6 +187,7 @@ router.post("/connexion", async (req, res) => {
       .limit(1);
 
     if (!admin) {
+      await recordFailedAttempt(req, "admin", email, { motif: "email_inconnu" });
       return res.status(401).json({ error: "Email ou mot de passe incorrect" });
     }
 
@@ -45,45 +198,163 @@ router.post("/connexion", async (req, res) => {
     // Vérifier le mot de passe
     const motDePasseValide = await bcrypt.compare(motDePasse, admin.motDePasse);
     if (!motDePasseValide) {
+      await recordFailedAttempt(req, "admin", email, {
+        motif: "mot_de_passe_incorrect",
+      });
       return res.status(401).json({ error: "Email ou mot de passe incorrect" });
     }
 
-    // Mettre à jour la dernière connexion
-    await db
-      .update(superAdmins)
-      .set({ derniereConnexion: new Date() })
-      .where(eq(superAdmins.id, admin.id));
+    await resetAttempts("admin", email);
 
-    // Générer un token JWT admin
-    const token = jwt.sign(
-      {
-        id: admin.id,
-        email: admin.email,
-        type: "admin",
-      },
-      JWT_SECRET,
-      { expiresIn: "7d" }
+    // La 2FA est toujours obligatoire pour les admins:
+    // code TOTP si configurée, sinon configuration imposée avant toute session
+    res.json({
+      requiresTwoFactor: admin.totpActive,
+      requiresTwoFactorSetup: !admin.totpActive,
+      challengeToken: generateChallengeToken({
+        sub: admin.id,
+        compte: "admin",
+        etape: admin.totpActive ? "2fa" : "2fa-setup",
+      }),
+    });
+  } catch (error: any) {
+    console.error("Erreur connexion admin:", error);
+    res.status(500).json({ error: "Erreur serveur" });
+  }
+});
+
+// ==========================================
+// POST /api/admin/auth/2fa/verifier
+// Second étape de connexion admin: code TOTP ou code de récupération
+// ==========================================
+router.post("/2fa/verifier", deuxFacteursGuard, async (req, res) => {
+  try {
+    const { challengeToken, code } = challengeCodeSchema.parse(req.body);
+
+    const admin = await adminFromChallenge(challengeToken, "2fa");
+    if (!admin) {
+      return res.status(401).json({ error: "Challenge invalide ou expiré" });
+    }
+
+    const codeValide = await verifySecondFactor(
+      admin.id,
+      "admin",
+      admin.totpSecret,
+      code
     );
+    if (!codeValide) {
+      await recordFailedAttempt(req, "admin-2fa", admin.id, {
+        motif: "code_2fa_incorrect",
+      });
+      return res.status(401).json({ error: "Code de vérification incorrect" });
+    }
 
-    // Définir le cookie
-    res.cookie("admin_token", token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 jours
-    });
+    await resetAttempts("admin-2fa", admin.id);
+    await ouvrirSessionAdmin(req, res, admin);
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Données invalides", details: error.errors });
+    }
+    console.error("Erreur vérification 2FA admin:", error);
+    res.status(500).json({ error: "Erreur serveur" });
+  }
+});
+
+// ==========================================
+// POST /api/admin/auth/2fa/configurer
+// Générer le secret TOTP (première connexion d'un admin)
+// ==========================================
+router.post("/2fa/configurer", async (req, res) => {
+  try {
+    const { challengeToken } = challengeSchema.parse(req.body);
+
+    const admin = await adminFromChallenge(challengeToken, "2fa-setup");
+    if (!admin || admin.totpActive) {
+      return res.status(401).json({ error: "Challenge invalide ou expiré" });
+    }
+
+    const secret = generateTotpSecret();
+    await db
+      .update(superAdmins)
+      .set({ totpSecret: encryptTotpSecret(secret), totpDernierPas: null })
+      .where(eq(superAdmins.id, admin.id));
 
     res.json({
-      message: "Connexion réussie",
-      admin: {
-        id: admin.id,
-        email: admin.email,
-        nom: admin.nom,
-        prenom: admin.prenom,
-      },
+      secret,
+      otpauthUri: buildOtpauthUri(secret, admin.email),
     });
   } catch (error: any) {
-    console.error("Erreur connexion admin:", error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Données invalides", details: error.errors });
+    }
+    console.error("Erreur configuration 2FA admin:", error);
+    res.status(500).json({ error: "Erreur serveur" });
+  }
+});
+
+// ==========================================
+// POST /api/admin/auth/2fa/activer
+// Confirmer le secret TOTP et ouvrir la session
+// ==========================================
+router.post("/2fa/activer", deuxFacteursGuard, async (req, res) => {
+  try {
+    const { challengeToken, code } = challengeCodeSchema.parse(req.body);
+
+    const admin = await adminFromChallenge(challengeToken, "2fa-setup");
+    if (!admin || admin.totpActive || !admin.totpSecret) {
+      return res.status(400).json({ error: "Aucune configuration 2FA en attente" });
+    }
+
+    if (!(await consumeTotpCode(admin.id, "admin", admin.totpSecret, code))) {
+      await recordFailedAttempt(req, "admin-2fa", admin.id, {
+        motif: "code_2fa_incorrect",
+      });
+      return res.status(400).json({ error: "Code de vérification incorrect" });
+    }
+
+    await resetAttempts("admin-2fa", admin.id);
+    await db
+      .update(superAdmins)
+      .set({ totpActive: true })
+      .where(eq(superAdmins.id, admin.id));
+
+    const recoveryCodes = await replaceRecoveryCodes(admin.id, "admin");
+
+    await ouvrirSessionAdmin(req, res, admin, { recoveryCodes });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Données invalides", details: error.errors });
+    }
+    console.error("Erreur activation 2FA admin:", error);
+    res.status(500).json({ error: "Erreur serveur" });
+  }
+});
+
+// ==========================================
+// POST /api/admin/auth/2fa/codes-recuperation
+// Régénérer les codes de récupération de l'admin connecté
+// ==========================================
+router.post("/2fa/codes-recuperation", requireAdmin, deuxFacteursGuard, async (req, res) => {
+  try {
+    const admin = req.admin!;
+    const { code } = z.object({ code: z.string().min(6) }).parse(req.body);
+
+    if (!(await consumeTotpCode(admin.id, "admin", admin.totpSecret, code))) {
+      await recordFailedAttempt(req, "admin-2fa", admin.id, {
+        motif: "code_2fa_incorrect",
+      });
+      return res.status(401).json({ error: "Code de vérification incorrect" });
+    }
+
+    await resetAttempts("admin-2fa", admin.id);
+    const recoveryCodes = await replaceRecoveryCodes(admin.id, "admin");
+
+    res.json({ recoveryCodes });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Données invalides", details: error.errors });
+    }
+    console.error("Erreur codes de récupération admin:", error);
     res.status(500).json({ error: "Erreur serveur" });
   }
 });
@@ -92,11 +363,65 @@ router.post("/connexion", async (req, res) => {
 // POST /api/admin/auth/deconnexion
 // Déconnexion admin
 // ==========================================
-router.post("/deconnexion", (req, res) => {
-  res.clearCookie("admin_token");
+router.post("/deconnexion", async (req, res) => {
+  try {
+    const refreshToken = req.cookies.admin_refresh_token;
+    if (refreshToken) {
+      await revokeSessionByRefreshToken(refreshToken);
+    }
+  } catch (error) {
+    console.error("Erreur déconnexion admin:", error);
+  }
+
+  effacerCookiesAdmin(res);
   res.json({ message: "Déconnexion réussie" });
 });
 
+// ==========================================
+// POST /api/admin/auth/refresh
+// Renouveler le token admin (rotation du refresh token)
+// ==========================================
+router.post("/refresh", async (req, res) => {
+  try {
+    const refreshToken = req.cookies.admin_refresh_token;
+
+    if (!refreshToken) {
+      return res.status(401).json({ error: "Refresh token manquant" });
+    }
+
+    const rotation = await rotateSession(refreshToken, "admin");
+
+    if (rotation.statut !== "ok") {
+      effacerCookiesAdmin(res);
+      return res.status(401).json({ error: "Session expirée" });
+    }
+
+    const [admin] = await db
+      .select()
+      .from(superAdmins)
+      .where(eq(superAdmins.id, rotation.session.utilisateurId))
+      .limit(1);
+
+    if (!admin || !admin.actif) {
+      effacerCookiesAdmin(res);
+      return res.status(401).json({ error: "Compte non trouvé ou désactivé" });
+    }
+
+    definirCookiesAdmin(
+      res,
+      admin,
+      rotation.session.id,
+      rotation.refreshToken,
+      rotation.session.dateExpiration
+    );
+
+    res.json({ message: "Session renouvelée" });
+  } catch (error) {
+    console.error("Erreur refresh admin:", error);
+    res.status(500).json({ error: "Erreur serveur" });
+  }
+});
+
 // ==========================================
 // GET /api/admin/auth/moi
 // Récupérer les infos de l'admin connecté
@@ -111,16 +436,22 @@ router.get("/moi", async (req, res) => {
 
     const decoded = jwt.verify(token, JWT_SECRET) as any;
 
-    if (decoded.type !== "admin") {
+    if (decoded.type !== "admin" || !decoded.mfa) {
       return res.status(401).json({ error: "Token invalide" });
     }
 
+    const session = await findActiveSession(decoded.sessionId, decoded.id, "admin");
+    if (!session) {
+      return res.status(401).json({ error: "Session expirée" });
+    }
+
     const [admin] = await db
       .select({
         id: superAdmins.id,
         email: superAdmins.email,
         nom: superAdmins.nom,
         prenom: superAdmins.prenom,
+        role: superAdmins.role,
         actif: superAdmins.actif,
       })
       .from(superAdmins)
@@ -128,11 +459,11 @@ router.get("/moi", async (req, res) => {
       .limit(1);
 
     if (!admin || !admin.actif) {
-      res.clearCookie("admin_token");
+      effacerCookiesAdmin(res);
       return res.status(401).json({ error: "Compte non trouvé ou désactivé" });
     }
 
-    res.json(admin);
+    res.json({ ...admin, permissions: getAdminPermissions(admin.role) });
   } catch (error) {
     res.clearCookie("admin_token");
     res.status(401).json({ error: "Token invalide" });
@@ -152,10 +483,17 @@ export async function requireAdmin(req: any, res: any, next: any) {
 
     const decoded = jwt.verify(token, JWT_SECRET) as any;
 
-    if (decoded.type !== "admin") {
+    // Les tokens émis sans double authentification ne sont plus acceptés
+    if (decoded.type !== "admin" || !decoded.mfa) {
       return res.status(401).json({ error: "Accès non autorisé" });
     }
 
+    // Le token doit être lié à une session admin toujours active
+    const session = await findActiveSession(decoded.sessionId, decoded.id, "admin");
+    if (!session) {
+      return res.status(401).json({ error: "Session expirée" });
+    }
+
     const [admin] = await db
       .select()
       .from(superAdmins)
@@ -173,4 +511,29 @@ export async function requireAdmin(req: any, res: any, next: any) {
   }
 }
 
+/**
+ * Middleware: permissions admin requises par la route, selon le rôle de l'admin
+ * À utiliser APRÈS requireAdmin
+ * @param permissions - Permissions "<ressource>:read|write" (ex: "facturation:write")
+ */
+export function requireAdminPermission(...permissions: PermissionAdmin[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.admin) {
+      return res.status(401).json({ error: "Non authentifié" });
+    }
+
+    const manquantes = permissions.filter((p) => !adminHasPermission(req.admin!, p));
+
+    if (manquantes.length > 0) {
+      return res.status(403).json({
+        error: "Accès refusé - Rôle admin insuffisant",
+        requiredPermissions: manquantes,
+        yourRole: req.admin.role,
+      });
+    }
+
+    next();
+  };
+}
+
 export default router;
@@ -0,0 +1,348 @@
+// ==========================================
+// ROUTES IMPERSONATION ADMIN
+// Un super-admin ouvre une session limitée dans le temps en tant qu'utilisateur d'une agence
+// Lecture seule par défaut, passage explicite en écriture, tout est journalisé
+// ==========================================
+
+import { Router } from "express";
+import { db } from "../db";
+import {
+  impersonations,
+  journalImpersonations,
+  superAdmins,
+  utilisateurs,
+  type Impersonation,
+} from "../schema";
+import { eq, and, desc, isNull } from "drizzle-orm";
+import { z } from "zod";
+import { requireAdmin, requireAdminPermission } from "./admin-auth";
+import { COOKIE_OPTIONS } from "./auth";
+import { generateJWT } from "../lib/auth";
+import { createSession } from "../lib/sessions";
+import { findMembership, resolveDefaultMembership } from "../lib/memberships";
+import {
+  IMPERSONATION_DUREE_DEFAUT_MIN,
+  IMPERSONATION_DUREE_MAX_MIN,
+  endImpersonation,
+  logImpersonation,
+} from "../lib/impersonation";
+import { logAdminAction } from "../lib/audit-admin";
+
+const router = Router();
+
+// Toutes les routes nécessitent une session admin (2FA validée)
+router.use(requireAdmin);
+
+// Permissions du rôle admin (support et admin complet peuvent incarner)
+const impersonationLecture = requireAdminPermission("impersonation:read");
+const impersonationEcriture = requireAdminPermission("impersonation:write");
+
+// ==========================================
+// SCHÉMAS DE VALIDATION
+// ==========================================
+
+/**
+ * Schéma de validation pour démarrer une impersonation
+ * @property {string} utilisateurId - Utilisateur incarné
+ * @property {string} agenceId - Agence ouverte (agence par défaut de l'utilisateur sinon)
+ * @property {string} motif - Raison du support (obligatoire, journalisée)
+ * @property {number} dureeMinutes - Durée de la session (30 min par défaut, 60 max)
+ */
+const demarrerSchema = z.object({
+  utilisateurId: z.string().min(1, "Utilisateur requis"),
+  agenceId: z.string().optional(),
+  motif: z.string().min(5, "Le motif doit contenir au moins 5 caractères").max(1000),
+  dureeMinutes: z
+    .number()
+    .int()
+    .positive()
+    .max(IMPERSONATION_DUREE_MAX_MIN)
+    .default(IMPERSONATION_DUREE_DEFAUT_MIN),
+});
+
+const ecritureSchema = z.object({
+  motif: z.string().min(5, "Le motif doit contenir au moins 5 caractères").max(1000),
+});
+
+/**
+ * Impersonation en cours ouverte par l'admin connecté
+ */
+async function impersonationDeLAdmin(
+  id: string,
+  adminId: string,
+): Promise<Impersonation | null> {
+  const [impersonation] = await db
+    .select()
+    .from(impersonations)
+    .where(
+      and(
+        eq(impersonations.id, id),
+        eq(impersonations.adminId, adminId),
+        isNull(impersonations.dateFin),
+      ),
+    )
+    .limit(1);
+
+  return impersonation || null;
+}
+
+// ==========================================
+// GET /api/admin/impersonation
+// Historique des impersonations (toutes les équipes support)
+// ==========================================
+router.get("/", impersonationLecture, async (req, res) => {
+  try {
+    const limite = Math.min(parseInt(String(req.query.limite || "100"), 10) || 100, 500);
+
+    const liste = await db
+      .select({
+        id: impersonations.id,
+        adminId: impersonations.adminId,
+        adminEmail: superAdmins.email,
+        utilisateurId: impersonations.utilisateurId,
+        utilisateurEmail: utilisateurs.email,
+        agenceId: impersonations.agenceId,
+        motif: impersonations.motif,
+        modeEcriture: impersonations.modeEcriture,
+        dateDebut: impersonations.dateDebut,
+        dateEcriture: impersonations.dateEcriture,
+        dateExpiration: impersonations.dateExpiration,
+        dateFin: impersonations.dateFin,
+      })
+      .from(impersonations)
+      .leftJoin(superAdmins, eq(impersonations.adminId, superAdmins.id))
+      .leftJoin(utilisateurs, eq(impersonations.utilisateurId, utilisateurs.id))
+      .orderBy(desc(impersonations.dateDebut))
+      .limit(limite);
+
+    res.json(liste);
+  } catch (error) {
+    console.error("Erreur liste impersonations:", error);
+    res.status(500).json({ error: "Erreur lors du chargement" });
+  }
+});
+
+// ==========================================
+// POST /api/admin/impersonation
+// Démarrer une impersonation (lecture seule) et poser le cookie de session utilisateur
+// ==========================================
+router.post("/", impersonationEcriture, async (req, res) => {
+  try {
+    const admin = req.admin!;
+    const data = demarrerSchema.parse(req.body);
+
+    const [user] = await db
+      .select()
+      .from(utilisateurs)
+      .where(eq(utilisateurs.id, data.utilisateurId))
+      .limit(1);
+
+    if (!user || !user.actif) {
+      return res.status(404).json({ error: "Utilisateur non trouvé ou désactivé" });
+    }
+
+    const membre = data.agenceId
+      ? await findMembership(user.id, data.agenceId)
+      : await resolveDefaultMembership(user);
+
+    if (!membre) {
+      return res.status(400).json({
+        error: "Cet utilisateur n'est pas membre de cette agence",
+      });
+    }
+
+    // Une seule impersonation à la fois par admin (un seul cookie de session)
+    const enCours = await db
+      .select()
+      .from(impersonations)
+      .where(and(eq(impersonations.adminId, admin.id), isNull(impersonations.dateFin)));
+
+    for (const precedente of enCours) {
+      await endImpersonation(precedente);
+      await logImpersonation(precedente, "fin", req, {
+        details: "Remplacée par une nouvelle impersonation",
+      });
+    }
+
+    const dateExpiration = new Date(Date.now() + data.dureeMinutes * 60 * 1000);
+    const { session } = await createSession(
+      req,
+      user.id,
+      "impersonation",
+      dateExpiration,
+      membre.agenceId,
+    );
+
+    const impersonation: Impersonation = {
+      id: crypto.randomUUID(),
+      adminId: admin.id,
+      utilisateurId: user.id,
+      agenceId: membre.agenceId,
+      sessionId: session.id,
+      motif: data.motif,
+      modeEcriture: false,
+      dateDebut: new Date(),
+      dateEcriture: null,
+      dateExpiration,
+      dateFin: null,
+    };
+
+    await db.insert(impersonations).values(impersonation);
+    await logImpersonation(impersonation, "debut", req, { details: data.motif });
+    await logAdminAction(req, "impersonation.debut", "impersonation", impersonation.id, null, {
+      utilisateurId: user.id,
+      agenceId: membre.agenceId,
+      motif: data.motif,
+      modeEcriture: false,
+      dateExpiration,
+    });
+
+    // JWT valable pour toute la durée de l'impersonation (pas de refresh token)
+    const token = generateJWT(
+      {
+        userId: user.id,
+        agenceId: membre.agenceId,
+        role: membre.role as "owner" | "member" | "model",
+        sessionId: session.id,
+        impersonationId: impersonation.id,
+      },
+      data.dureeMinutes * 60,
+    );
+
+    res.clearCookie("demo_token"); // Le token démo serait prioritaire
+    res.clearCookie("demo_refresh_token");
+    res.cookie("auth_token", token, {
+      ...COOKIE_OPTIONS,
+      maxAge: data.dureeMinutes * 60 * 1000,
+    });
+
+    console.log(
+      `🕵️ Impersonation démarrée par ${admin.email}: ${user.email} (agence ${membre.agenceId})`,
+    );
+
+    res.status(201).json({
+      message: "Impersonation démarrée en lecture seule",
+      impersonation: {
+        id: impersonation.id,
+        utilisateurId: user.id,
+        email: user.email,
+        agenceId: membre.agenceId,
+        role: membre.role,
+        modeEcriture: false,
+        dateExpiration,
+      },
+    });
+  } catch (error: any) {
+    console.error("Erreur démarrage impersonation:", error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Données invalides",
+        details: error.errors,
+      });
+    }
+
+    res.status(500).json({ error: "Erreur lors du démarrage de l'impersonation" });
+  }
+});
+
+// ==========================================
+// POST /api/admin/impersonation/:id/ecriture
+// Passer une impersonation en cours en mode écriture (motif obligatoire)
+// ==========================================
+router.post("/:id/ecriture", impersonationEcriture, async (req, res) => {
+  try {
+    const { motif } = ecritureSchema.parse(req.body);
+    const impersonation = await impersonationDeLAdmin(req.params.id, req.admin!.id);
+
+    if (!impersonation || impersonation.dateExpiration < new Date()) {
+      return res.status(404).json({ error: "Impersonation en cours non trouvée" });
+    }
+
+    if (impersonation.modeEcriture) {
+      return res.status(400).json({ error: "Le mode écriture est déjà activé" });
+    }
+
+    await db
+      .update(impersonations)
+      .set({ modeEcriture: true, dateEcriture: new Date() })
+      .where(eq(impersonations.id, impersonation.id));
+
+    await logImpersonation(impersonation, "ecriture_activee", req, { details: motif });
+    await logAdminAction(
+      req,
+      "impersonation.ecriture",
+      "impersonation",
+      impersonation.id,
+      { modeEcriture: false },
+      { modeEcriture: true, motif },
+    );
+
+    res.json({ message: "Mode écriture activé", modeEcriture: true });
+  } catch (error: any) {
+    console.error("Erreur activation écriture impersonation:", error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Données invalides",
+        details: error.errors,
+      });
+    }
+
+    res.status(500).json({ error: "Erreur lors de l'activation du mode écriture" });
+  }
+});
+
+// ==========================================
+// POST /api/admin/impersonation/:id/arreter
+// Arrêter une impersonation (la session est révoquée immédiatement)
+// Toujours possible pour l'admin qui l'a ouverte, même si son rôle a changé depuis
+// ==========================================
+router.post("/:id/arreter", async (req, res) => {
+  try {
+    const impersonation = await impersonationDeLAdmin(req.params.id, req.admin!.id);
+
+    if (!impersonation) {
+      return res.status(404).json({ error: "Impersonation en cours non trouvée" });
+    }
+
+    await endImpersonation(impersonation);
+    await logImpersonation(impersonation, "fin", req);
+    await logAdminAction(
+      req,
+      "impersonation.fin",
+      "impersonation",
+      impersonation.id,
+      { dateFin: null },
+      { dateFin: new Date() },
+    );
+
+    res.clearCookie("auth_token", COOKIE_OPTIONS);
+
+    res.json({ message: "Impersonation arrêtée" });
+  } catch (error) {
+    console.error("Erreur arrêt impersonation:", error);
+    res.status(500).json({ error: "Erreur lors de l'arrêt de l'impersonation" });
+  }
+});
+
+// ==========================================
+// GET /api/admin/impersonation/:id/journal
+// Journal complet d'une impersonation (début, requêtes, passage en écriture, fin)
+// ==========================================
+router.get("/:id/journal", impersonationLecture, async (req, res) => {
+  try {
+    const journal = await db
+      .select()
+      .from(journalImpersonations)
+      .where(eq(journalImpersonations.impersonationId, req.params.id))
+      .orderBy(journalImpersonations.date);
+
+    res.json(journal);
+  } catch (error) {
+    console.error("Erreur journal impersonation:", error);
+    res.status(500).json({ error: "Erreur lors du chargement du journal" });
+  }
+});
+
+export default router;
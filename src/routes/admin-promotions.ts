@@ -0,0 +1,217 @@
+// ==========================================
+// ROUTES ADMIN PROMOTIONS
+// Codes promo (création, désactivation) et suivi des parrainages entre agences
+// ==========================================
+
+import { Router } from "express";
+import { db } from "../db";
+import { codesPromo, parrainages, agences } from "../schema";
+import { eq, desc } from "drizzle-orm";
+import { alias } from "drizzle-orm/mysql-core";
+import { z } from "zod";
+import { requireAdmin, requireAdminPermission } from "./admin-auth";
+import { PLANS_PAYANTS } from "../lib/plans";
+import { DUREES_REMISE, TYPES_REMISE, normaliserCode } from "../lib/promotions";
+import { logAdminAction } from "../lib/audit-admin";
+
+const router = Router();
+
+// Toutes les routes nécessitent une session admin (2FA validée)
+router.use(requireAdmin);
+
+// Permissions du rôle admin (facturation et admin complet gèrent les codes)
+const facturationLecture = requireAdminPermission("facturation:read");
+const facturationEcriture = requireAdminPermission("facturation:write");
+
+// ==========================================
+// SCHÉMAS DE VALIDATION
+// ==========================================
+
+/**
+ * Schéma de validation pour créer un code promo
+ * @property {string} code - Code saisi par le client (enregistré en majuscules)
+ * @property {string} typeRemise - "pourcentage" (valeur 1-100) ou "montant" (valeur en centimes)
+ * @property {string} duree - "unique" (première facture), "mois" (dureeMois factures) ou "permanente"
+ * @property {string[]} plansEligibles - Plans concernés (tous si absent)
+ * @property {number} utilisationsMax - Nombre d'agences maximum (illimité si absent)
+ */
+const creerCodeSchema = z
+  .object({
+    code: z
+      .string()
+      .trim()
+      .regex(/^[A-Za-z0-9_-]{3,50}$/, "Code invalide (3 à 50 lettres, chiffres, - ou _)"),
+    description: z.string().max(500).optional(),
+    typeRemise: z.enum(TYPES_REMISE),
+    valeur: z.number().int().positive(),
+    duree: z.enum(DUREES_REMISE),
+    dureeMois: z.number().int().positive().max(36).optional(),
+    plansEligibles: z.array(z.enum(PLANS_PAYANTS)).min(1).optional(),
+    utilisationsMax: z.number().int().positive().optional(),
+    dateExpiration: z.coerce.date().optional(),
+  })
+  .refine((data) => data.typeRemise !== "pourcentage" || data.valeur <= 100, {
+    message: "Un pourcentage ne peut pas dépasser 100",
+    path: ["valeur"],
+  })
+  .refine((data) => data.duree !== "mois" || data.dureeMois !== undefined, {
+    message: "Nombre de mois requis pour une remise sur plusieurs mois",
+    path: ["dureeMois"],
+  });
+
+/**
+ * Schéma de validation pour modifier un code promo
+ * La remise elle-même (type, valeur, durée) est figée dans le coupon Stripe et ne change pas
+ */
+const modifierCodeSchema = z.object({
+  description: z.string().max(500).nullable().optional(),
+  actif: z.boolean().optional(),
+  utilisationsMax: z.number().int().positive().nullable().optional(),
+  dateExpiration: z.coerce.date().nullable().optional(),
+});
+
+// ==========================================
+// GET /api/admin/promotions/codes
+// Lister les codes promo
+// ==========================================
+router.get("/codes", facturationLecture, async (req, res) => {
+  try {
+    const codes = await db.select().from(codesPromo).orderBy(desc(codesPromo.dateCreation));
+
+    res.json(codes);
+  } catch (error) {
+    console.error("Erreur liste codes promo:", error);
+    res.status(500).json({ error: "Erreur lors du chargement" });
+  }
+});
+
+// ==========================================
+// POST /api/admin/promotions/codes
+// Créer un code promo (le coupon Stripe est créé à sa première utilisation)
+// ==========================================
+router.post("/codes", facturationEcriture, async (req, res) => {
+  try {
+    const data = creerCodeSchema.parse(req.body);
+    const code = normaliserCode(data.code);
+
+    const [existant] = await db
+      .select({ id: codesPromo.id })
+      .from(codesPromo)
+      .where(eq(codesPromo.code, code))
+      .limit(1);
+
+    if (existant) {
+      return res.status(400).json({ error: "Ce code promo existe déjà" });
+    }
+
+    const id = crypto.randomUUID();
+    await db.insert(codesPromo).values({
+      id,
+      code,
+      description: data.description ?? null,
+      typeRemise: data.typeRemise,
+      valeur: data.valeur,
+      duree: data.duree,
+      dureeMois: data.duree === "mois" ? data.dureeMois! : null,
+      plansEligibles: data.plansEligibles ?? null,
+      utilisationsMax: data.utilisationsMax ?? null,
+      dateExpiration: data.dateExpiration ?? null,
+      actif: true,
+      creePar: req.admin!.id,
+      dateCreation: new Date(),
+    });
+
+    const [cree] = await db.select().from(codesPromo).where(eq(codesPromo.id, id)).limit(1);
+
+    await logAdminAction(req, "code_promo.creation", "code_promo", id, null, cree);
+
+    res.status(201).json(cree);
+  } catch (error) {
+    console.error("Erreur création code promo:", error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Données invalides",
+        details: error.errors,
+      });
+    }
+
+    res.status(500).json({ error: "Erreur lors de la création" });
+  }
+});
+
+// ==========================================
+// PATCH /api/admin/promotions/codes/:id
+// Activer / désactiver un code, changer sa limite d'utilisation ou son expiration
+// ==========================================
+router.patch("/codes/:id", facturationEcriture, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const data = modifierCodeSchema.parse(req.body);
+
+    if (Object.keys(data).length === 0) {
+      return res.status(400).json({ error: "Aucune modification fournie" });
+    }
+
+    const [avant] = await db.select().from(codesPromo).where(eq(codesPromo.id, id)).limit(1);
+
+    if (!avant) {
+      return res.status(404).json({ error: "Code promo non trouvé" });
+    }
+
+    await db.update(codesPromo).set(data).where(eq(codesPromo.id, id));
+
+    const [apres] = await db.select().from(codesPromo).where(eq(codesPromo.id, id)).limit(1);
+
+    await logAdminAction(req, "code_promo.modification", "code_promo", id, avant, apres);
+
+    res.json(apres);
+  } catch (error) {
+    console.error("Erreur modification code promo:", error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Données invalides",
+        details: error.errors,
+      });
+    }
+
+    res.status(500).json({ error: "Erreur lors de la modification" });
+  }
+});
+
+// ==========================================
+// GET /api/admin/promotions/parrainages
+// Parrainages entre agences (en attente du premier paiement ou récompensés)
+// ==========================================
+router.get("/parrainages", facturationLecture, async (req, res) => {
+  try {
+    const parrains = alias(agences, "parrains");
+    const filleuls = alias(agences, "filleuls");
+
+    const liste = await db
+      .select({
+        id: parrainages.id,
+        parrainId: parrainages.parrainId,
+        parrainNom: parrains.nom,
+        filleulId: parrainages.filleulId,
+        filleulNom: filleuls.nom,
+        statut: parrainages.statut,
+        montantCredit: parrainages.montantCredit,
+        factureId: parrainages.factureId,
+        dateCreation: parrainages.dateCreation,
+        dateRecompense: parrainages.dateRecompense,
+      })
+      .from(parrainages)
+      .leftJoin(parrains, eq(parrainages.parrainId, parrains.id))
+      .leftJoin(filleuls, eq(parrainages.filleulId, filleuls.id))
+      .orderBy(desc(parrainages.dateCreation));
+
+    res.json(liste);
+  } catch (error) {
+    console.error("Erreur liste parrainages:", error);
+    res.status(500).json({ error: "Erreur lors du chargement" });
+  }
+});
+
+export default router;
@@ -0,0 +1,210 @@
+// ==========================================
+// ROUTES ADMIN STRIPE
+// Consultation et rejeu des événements Stripe reçus par le webhook,
+// historique de facturation et rapport de revenus
+// ==========================================
+
+import { Router } from "express";
+import { db } from "../db";
+import { evenementsStripe, facturesStripe, paiementsStripe } from "../schema";
+import { eq, and, desc, type SQL } from "drizzle-orm";
+import { requireAdmin, requireAdminPermission } from "./admin-auth";
+import {
+  STATUTS_EVENEMENT_STRIPE,
+  claimStripeEvent,
+  processStripeEvent,
+  type StatutEvenementStripe,
+} from "../lib/stripe-webhooks";
+import { logAdminAction } from "../lib/audit-admin";
+import { rapportRevenus } from "../lib/facturation";
+
+const router = Router();
+
+// Toutes les routes nécessitent une session admin (2FA validée)
+router.use(requireAdmin);
+
+// Permissions du rôle admin (facturation et admin complet peuvent rejouer)
+const facturationLecture = requireAdminPermission("facturation:read");
+const facturationEcriture = requireAdminPermission("facturation:write");
+
+// ==========================================
+// GET /api/admin/stripe/evenements
+// Événements reçus (filtres: statut, type, agenceId)
+// ==========================================
+router.get("/evenements", facturationLecture, async (req, res) => {
+  try {
+    const { statut, type, agenceId } = req.query;
+    const limite = Math.min(parseInt(String(req.query.limite || "100"), 10) || 100, 500);
+
+    if (
+      typeof statut === "string" &&
+      !STATUTS_EVENEMENT_STRIPE.includes(statut as StatutEvenementStripe)
+    ) {
+      return res.status(400).json({
+        error: `Statut inconnu (statuts disponibles: ${STATUTS_EVENEMENT_STRIPE.join(", ")})`,
+      });
+    }
+
+    const conditions: SQL[] = [];
+    if (typeof statut === "string") conditions.push(eq(evenementsStripe.statut, statut));
+    if (typeof type === "string") conditions.push(eq(evenementsStripe.type, type));
+    if (typeof agenceId === "string") conditions.push(eq(evenementsStripe.agenceId, agenceId));
+
+    const evenements = await db
+      .select({
+        id: evenementsStripe.id,
+        type: evenementsStripe.type,
+        agenceId: evenementsStripe.agenceId,
+        clientStripe: evenementsStripe.clientStripe,
+        dateEvenement: evenementsStripe.dateEvenement,
+        statut: evenementsStripe.statut,
+        erreur: evenementsStripe.erreur,
+        tentatives: evenementsStripe.tentatives,
+        dateReception: evenementsStripe.dateReception,
+        dateTraitement: evenementsStripe.dateTraitement,
+      })
+      .from(evenementsStripe)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(evenementsStripe.dateEvenement))
+      .limit(limite);
+
+    res.json(evenements);
+  } catch (error) {
+    console.error("Erreur liste événements Stripe:", error);
+    res.status(500).json({ error: "Erreur lors du chargement" });
+  }
+});
+
+// ==========================================
+// GET /api/admin/stripe/evenements/:id
+// Détail d'un événement avec son payload
+// ==========================================
+router.get("/evenements/:id", facturationLecture, async (req, res) => {
+  try {
+    const [evenement] = await db
+      .select()
+      .from(evenementsStripe)
+      .where(eq(evenementsStripe.id, req.params.id))
+      .limit(1);
+
+    if (!evenement) {
+      return res.status(404).json({ error: "Événement non trouvé" });
+    }
+
+    res.json(evenement);
+  } catch (error) {
+    console.error("Erreur détail événement Stripe:", error);
+    res.status(500).json({ error: "Erreur lors du chargement" });
+  }
+});
+
+// ==========================================
+// POST /api/admin/stripe/evenements/:id/retraiter
+// Rejouer un événement stocké (ignorerOrdre: l'appliquer même si un événement plus récent l'a été)
+// ==========================================
+router.post("/evenements/:id/retraiter", facturationEcriture, async (req, res) => {
+  try {
+    const ignorerOrdre = req.body?.ignorerOrdre === true;
+
+    const [evenement] = await db
+      .select()
+      .from(evenementsStripe)
+      .where(eq(evenementsStripe.id, req.params.id))
+      .limit(1);
+
+    if (!evenement) {
+      return res.status(404).json({ error: "Événement non trouvé" });
+    }
+
+    const reserve = await claimStripeEvent(evenement.id, true);
+    if (!reserve) {
+      return res.status(409).json({ error: "Événement en cours de traitement" });
+    }
+
+    const traite = await processStripeEvent(reserve, ignorerOrdre);
+
+    await logAdminAction(
+      req,
+      "evenement_stripe.retraitement",
+      "evenement_stripe",
+      evenement.id,
+      { statut: evenement.statut, agenceId: evenement.agenceId },
+      { statut: traite.statut, agenceId: traite.agenceId, ignorerOrdre },
+    );
+
+    res.json({
+      id: traite.id,
+      type: traite.type,
+      agenceId: traite.agenceId,
+      statut: traite.statut,
+      erreur: traite.erreur,
+      tentatives: traite.tentatives,
+    });
+  } catch (error) {
+    console.error("Erreur retraitement événement Stripe:", error);
+    res.status(500).json({ error: "Erreur lors du retraitement" });
+  }
+});
+
+// ==========================================
+// GET /api/admin/stripe/factures
+// Factures et paiements d'une agence (filtres: agenceId, statut)
+// ==========================================
+router.get("/factures", facturationLecture, async (req, res) => {
+  try {
+    const { agenceId, statut } = req.query;
+    const limite = Math.min(parseInt(String(req.query.limite || "100"), 10) || 100, 500);
+
+    const conditions: SQL[] = [];
+    if (typeof agenceId === "string") conditions.push(eq(facturesStripe.agenceId, agenceId));
+    if (typeof statut === "string") conditions.push(eq(facturesStripe.statut, statut));
+
+    const factures = await db
+      .select()
+      .from(facturesStripe)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(facturesStripe.dateFacture))
+      .limit(limite);
+
+    // Paiements (et remboursements) seulement pour l'historique d'une agence
+    const paiements =
+      typeof agenceId === "string"
+        ? await db
+            .select()
+            .from(paiementsStripe)
+            .where(eq(paiementsStripe.agenceId, agenceId))
+            .orderBy(desc(paiementsStripe.datePaiement))
+            .limit(limite)
+        : undefined;
+
+    res.json({ factures, paiements });
+  } catch (error) {
+    console.error("Erreur liste factures:", error);
+    res.status(500).json({ error: "Erreur lors du chargement" });
+  }
+});
+
+// ==========================================
+// GET /api/admin/stripe/rapport
+// MRR/ARR, encaissements, churn et paiements échoués (dateDebut, dateFin: 30 derniers jours par défaut)
+// Montants en centimes, calculés depuis les factures et paiements reçus par webhook
+// ==========================================
+router.get("/rapport", facturationLecture, async (req, res) => {
+  try {
+    const fin = req.query.dateFin ? new Date(String(req.query.dateFin)) : new Date();
+    const debut = req.query.dateDebut
+      ? new Date(String(req.query.dateDebut))
+      : new Date(fin.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    if (isNaN(debut.getTime()) || isNaN(fin.getTime()) || debut >= fin) {
+      return res.status(400).json({ error: "Période invalide" });
+    }
+
+    res.json(await rapportRevenus(debut, fin));
+  } catch (error) {
+    console.error("Erreur rapport de revenus:", error);
+    res.status(500).json({ error: "Erreur lors du calcul du rapport" });
+  }
+});
+
+export default router;
@@ -3,31 +3,100 @@
 // Gestion des agences, utilisateurs et admins
 // ==========================================
 
-import { Router } from "express";
+import { Router, type Request, type Response } from "express";
 import { db } from "../db";
-import { agences, utilisateurs, superAdmins, accesTemporaires } from "../schema";
-import { eq, desc, ne } from "drizzle-orm";
-import { requireAdmin } from "./admin-auth";
+import {
+  agences,
+  utilisateurs,
+  membresAgence,
+  superAdmins,
+  accesTemporaires,
+  tentativesEchouees,
+  auditAdmin,
+  sessions,
+  impersonations,
+  modeles,
+  transactions,
+} from "../schema";
+import { eq, desc, ne, and, gte, lte, isNull, sql, type SQL } from "drizzle-orm";
+import { requireAdmin, requireAdminPermission } from "./admin-auth";
+import { PLANS, isPlanPayant } from "../lib/plans";
+import { STATUTS_ABONNEMENT } from "../lib/abonnements";
+import { syncSeats } from "../lib/catalogue";
+import { calculerMrr } from "../lib/facturation";
+import {
+  ROLES_ADMIN,
+  adminHasPermission,
+  countFullAdmins,
+  getAdminPermissions,
+  type PermissionAdmin,
+  type RoleAdmin,
+} from "../lib/admin-roles";
+import { endImpersonation } from "../lib/impersonation";
+import { planPurge, purgeAgence, setStatutAgence, type StatutAgence } from "../lib/agences";
+import { logAdminAction, TYPES_CIBLE_AUDIT, type TypeCibleAudit } from "../lib/audit-admin";
+import { findMembership, ROLES_AGENCE } from "../lib/memberships";
 import bcrypt from "bcrypt";
 
 const router = Router();
 
 // Toutes les routes admin nécessitent auth admin
+// Chaque route déclare ensuite les permissions de son rôle admin (requireAdminPermission)
 router.use(requireAdmin);
 
+// Permissions du rôle admin (support, facturation, admin)
+const agencesLecture = requireAdminPermission("agences:read");
+const agencesEcriture = requireAdminPermission("agences:write");
+const utilisateursLecture = requireAdminPermission("utilisateurs:read");
+const utilisateursEcriture = requireAdminPermission("utilisateurs:write");
+const adminsLecture = requireAdminPermission("admins:read");
+const adminsEcriture = requireAdminPermission("admins:write");
+const accesLecture = requireAdminPermission("acces-temporaires:read");
+const accesEcriture = requireAdminPermission("acces-temporaires:write");
+const securiteLecture = requireAdminPermission("securite:read");
+
+/**
+ * Arrête les impersonations en cours d'un admin
+ */
+async function arreterImpersonationsAdmin(adminId: string): Promise<void> {
+  const enCours = await db
+    .select()
+    .from(impersonations)
+    .where(and(eq(impersonations.adminId, adminId), isNull(impersonations.dateFin)));
+
+  for (const impersonation of enCours) {
+    await endImpersonation(impersonation);
+  }
+}
+
+/**
+ * Coupe immédiatement les accès d'un admin désactivé: sessions admin et impersonations en cours
+ */
+async function revoquerAccesAdmin(adminId: string): Promise<void> {
+  await db
+    .delete(sessions)
+    .where(and(eq(sessions.utilisateurId, adminId), eq(sessions.typeCompte, "admin")));
+
+  await arreterImpersonationsAdmin(adminId);
+}
+
 // ==========================================
 // GET /api/admin/check
 // Vérifier si l'utilisateur est admin
 // ==========================================
 router.get("/check", (req, res) => {
-  res.json({ isAdmin: true });
+  res.json({
+    isAdmin: true,
+    role: req.admin!.role,
+    permissions: getAdminPermissions(req.admin!.role),
+  });
 });
 
 // ==========================================
 // GET /api/admin/agences
 // Lister toutes les agences
 // ==========================================
-router.get("/agences", async (req, res) => {
+router.get("/agences", agencesLecture, async (req, res) => {
   try {
     const agencesList = await db
       .select({
@@ -36,8 +105,11 @@ router.get("/agences", async (req, res) => {
         plan: agences.plan,
         demo: agences.demo,
         statutAbonnement: agences.statutAbonnement,
+        statut: agences.statut,
         dateCreation: agences.dateCreation,
+        idClientStripe: agences.idClientStripe,
         idAbonnementStripe: agences.idAbonnementStripe,
+        dateExpirationAbonnement: agences.dateExpirationAbonnement,
       })
       .from(agences)
       .orderBy(desc(agences.dateCreation));
@@ -49,15 +121,125 @@ router.get("/agences", async (req, res) => {
   }
 });
 
+// ==========================================
+// GET /api/admin/agences/:id
+// Détail d'une agence: membres, modèles, revenus et dernière activité
+// ==========================================
+router.get("/agences/:id", agencesLecture, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const [agence] = await db
+      .select()
+      .from(agences)
+      .where(eq(agences.id, id))
+      .limit(1);
+
+    if (!agence) {
+      return res.status(404).json({ error: "Agence non trouvée" });
+    }
+
+    const membres = await db
+      .select({
+        id: utilisateurs.id,
+        prenom: utilisateurs.prenom,
+        nom: utilisateurs.nom,
+        email: utilisateurs.email,
+        role: membresAgence.role,
+        actif: membresAgence.actif,
+        dateAdhesion: membresAgence.dateCreation,
+        derniereConnexion: utilisateurs.derniereConnexion,
+      })
+      .from(membresAgence)
+      .innerJoin(utilisateurs, eq(membresAgence.utilisateurId, utilisateurs.id))
+      .where(eq(membresAgence.agenceId, id))
+      .orderBy(membresAgence.dateCreation);
+
+    const [{ nombreModeles }] = await db
+      .select({ nombreModeles: sql<number>`COUNT(*)` })
+      .from(modeles)
+      .where(eq(modeles.agenceId, id));
+
+    const [revenus] = await db
+      .select({
+        total: sql<number>`COALESCE(SUM(${transactions.montant}), 0)`,
+        paye: sql<number>`COALESCE(SUM(CASE WHEN ${transactions.payee} THEN ${transactions.montant} ELSE 0 END), 0)`,
+        nombreTransactions: sql<number>`COUNT(*)`,
+        derniereTransaction: sql<Date | null>`MAX(${transactions.date})`,
+      })
+      .from(transactions)
+      .where(eq(transactions.agenceId, id));
+
+    const [{ derniereSession }] = await db
+      .select({ derniereSession: sql<Date | null>`MAX(${sessions.dateCreation})` })
+      .from(sessions)
+      .where(eq(sessions.agenceId, id));
+
+    // Dernière activité: connexion d'un membre, ouverture de session ou transaction saisie
+    const dates = [
+      ...membres.map((m) => m.derniereConnexion),
+      derniereSession,
+      revenus.derniereTransaction,
+    ]
+      .filter((d): d is Date => d !== null)
+      .map((d) => new Date(d));
+
+    res.json({
+      ...agence,
+      membres,
+      nombreMembresActifs: membres.filter((m) => m.actif).length,
+      nombreModeles: Number(nombreModeles),
+      revenus: {
+        total: Number(revenus.total),
+        paye: Number(revenus.paye),
+        enAttente: Number(revenus.total) - Number(revenus.paye),
+        nombreTransactions: Number(revenus.nombreTransactions),
+      },
+      derniereActivite:
+        dates.length > 0 ? new Date(Math.max(...dates.map((d) => d.getTime()))) : null,
+    });
+  } catch (error) {
+    console.error("Erreur détail agence:", error);
+    res.status(500).json({ error: "Erreur lors du chargement de l'agence" });
+  }
+});
+
 // ==========================================
 // PATCH /api/admin/agences/:id
-// Modifier une agence
+// Modifier une agence (plan et abonnement: facturation:write, démo: agences:write)
 // ==========================================
 router.patch("/agences/:id", async (req, res) => {
   try {
     const { id } = req.params;
     const { plan, statutAbonnement, demo } = req.body;
 
+    const requises: PermissionAdmin[] = [];
+    if (plan !== undefined || statutAbonnement !== undefined) {
+      requises.push("facturation:write");
+    }
+    if (demo !== undefined) requises.push("agences:write");
+
+    const manquantes = requises.filter((p) => !adminHasPermission(req.admin!, p));
+    if (manquantes.length > 0) {
+      return res.status(403).json({
+        error: "Accès refusé - Rôle admin insuffisant",
+        requiredPermissions: manquantes,
+        yourRole: req.admin!.role,
+      });
+    }
+
+    if (plan !== undefined && !PLANS.includes(plan)) {
+      return res.status(400).json({
+        error: `Plan inconnu (plans disponibles: ${PLANS.join(", ")})`,
+      });
+    }
+
+    if (statutAbonnement !== undefined && !STATUTS_ABONNEMENT.includes(statutAbonnement)) {
+      return res.status(400).json({
+        error: `Statut d'abonnement inconnu (statuts disponibles: ${STATUTS_ABONNEMENT.join(", ")})`,
+      });
+    }
+
     const updates: any = {};
     if (plan !== undefined) updates.plan = plan;
     if (statutAbonnement !== undefined) updates.statutAbonnement = statutAbonnement;
@@ -67,6 +249,16 @@ router.patch("/agences/:id", async (req, res) => {
       return res.status(400).json({ error: "Aucune modification fournie" });
     }
 
+    const [agence] = await db
+      .select()
+      .from(agences)
+      .where(eq(agences.id, id))
+      .limit(1);
+
+    if (!agence) {
+      return res.status(404).json({ error: "Agence non trouvée" });
+    }
+
     await db.update(agences).set(updates).where(eq(agences.id, id));
 
     const [updated] = await db
@@ -75,6 +267,8 @@ router.patch("/agences/:id", async (req, res) => {
       .where(eq(agences.id, id))
       .limit(1);
 
+    await logAdminAction(req, "agence.modification", "agence", id, agence, updated);
+
     res.json(updated);
   } catch (error) {
     console.error("Erreur modification agence:", error);
@@ -82,11 +276,149 @@ router.patch("/agences/:id", async (req, res) => {
   }
 });
 
+/**
+ * Change le statut d'une agence et journalise l'action admin
+ */
+async function changerStatut(
+  req: Request,
+  res: Response,
+  statut: StatutAgence,
+  statutsAutorises: StatutAgence[],
+) {
+  const { motif } = req.body;
+
+  if (statut !== "active" && (typeof motif !== "string" || motif.trim().length < 5)) {
+    return res.status(400).json({ error: "Un motif d'au moins 5 caractères est requis" });
+  }
+
+  const [agence] = await db
+    .select()
+    .from(agences)
+    .where(eq(agences.id, req.params.id))
+    .limit(1);
+
+  if (!agence) {
+    return res.status(404).json({ error: "Agence non trouvée" });
+  }
+
+  if (!statutsAutorises.includes(agence.statut as StatutAgence)) {
+    return res.status(400).json({
+      error: `Action impossible pour une agence au statut "${agence.statut}"`,
+    });
+  }
+
+  await setStatutAgence(agence.id, statut, statut === "active" ? null : motif.trim());
+
+  const [updated] = await db
+    .select()
+    .from(agences)
+    .where(eq(agences.id, agence.id))
+    .limit(1);
+
+  await logAdminAction(req, `agence.${statut}`, "agence", agence.id, agence, updated);
+
+  res.json(updated);
+}
+
+// ==========================================
+// POST /api/admin/agences/:id/suspendre
+// Suspendre une agence: toutes ses connexions sont bloquées et ses sessions révoquées
+// ==========================================
+router.post("/agences/:id/suspendre", agencesEcriture, async (req, res) => {
+  try {
+    await changerStatut(req, res, "suspendue", ["active"]);
+  } catch (error) {
+    console.error("Erreur suspension agence:", error);
+    res.status(500).json({ error: "Erreur lors de la suspension" });
+  }
+});
+
+// ==========================================
+// POST /api/admin/agences/:id/archiver
+// Archiver une agence (fermée, préalable à la purge)
+// ==========================================
+router.post("/agences/:id/archiver", agencesEcriture, async (req, res) => {
+  try {
+    await changerStatut(req, res, "archivee", ["active", "suspendue"]);
+  } catch (error) {
+    console.error("Erreur archivage agence:", error);
+    res.status(500).json({ error: "Erreur lors de l'archivage" });
+  }
+});
+
+// ==========================================
+// POST /api/admin/agences/:id/reactiver
+// Réactiver une agence suspendue ou archivée
+// ==========================================
+router.post("/agences/:id/reactiver", agencesEcriture, async (req, res) => {
+  try {
+    await changerStatut(req, res, "active", ["suspendue", "archivee"]);
+  } catch (error) {
+    console.error("Erreur réactivation agence:", error);
+    res.status(500).json({ error: "Erreur lors de la réactivation" });
+  }
+});
+
+// ==========================================
+// POST /api/admin/agences/:id/purger
+// Supprimer définitivement une agence archivée et toutes ses données
+// dryRun (par défaut): rapport de ce qui serait supprimé, sans rien supprimer
+// ==========================================
+router.post("/agences/:id/purger", agencesEcriture, async (req, res) => {
+  try {
+    const { dryRun = true, confirmation } = req.body;
+
+    const [agence] = await db
+      .select()
+      .from(agences)
+      .where(eq(agences.id, req.params.id))
+      .limit(1);
+
+    if (!agence) {
+      return res.status(404).json({ error: "Agence non trouvée" });
+    }
+
+    if (dryRun !== false) {
+      return res.json({ dryRun: true, ...(await planPurge(agence)) });
+    }
+
+    if (agence.statut !== "archivee") {
+      return res.status(400).json({ error: "Seule une agence archivée peut être purgée" });
+    }
+
+    if (agence.idAbonnementStripe && agence.statutAbonnement === "actif") {
+      return res.status(400).json({
+        error: "L'agence a un abonnement Stripe actif - Annulez-le avant la purge",
+      });
+    }
+
+    // Le nom de l'agence doit être ressaisi pour confirmer
+    if (confirmation !== agence.nom) {
+      return res.status(400).json({
+        error: "Confirmation invalide - Saisissez le nom exact de l'agence",
+      });
+    }
+
+    const rapport = await purgeAgence(agence);
+
+    await logAdminAction(req, "agence.purge", "agence", agence.id, agence, null);
+
+    console.log(
+      `🗑️ Agence purgée par ${req.admin!.email}: ${agence.nom} (${rapport.total} lignes)`,
+    );
+
+    res.json({ dryRun: false, ...rapport });
+  } catch (error) {
+    console.error("Erreur purge agence:", error);
+    res.status(500).json({ error: "Erreur lors de la purge" });
+  }
+});
+
 // ==========================================
 // GET /api/admin/utilisateurs
 // Lister tous les utilisateurs
 // ==========================================
-router.get("/utilisateurs", async (req, res) => {
+router.get("/utilisateurs", utilisateursLecture, async (req, res) => {
   try {
     const usersList = await db
       .select({
@@ -115,11 +447,17 @@ router.get("/utilisateurs", async (req, res) => {
 // PATCH /api/admin/utilisateurs/:id
 // Modifier un utilisateur
 // ==========================================
-router.patch("/utilisateurs/:id", async (req, res) => {
+router.patch("/utilisateurs/:id", utilisateursEcriture, async (req, res) => {
   try {
     const { id } = req.params;
     const { role, actif, emailVerifie } = req.body;
 
+    if (role !== undefined && !ROLES_AGENCE.includes(role)) {
+      return res.status(400).json({
+        error: `Rôle inconnu (rôles disponibles: ${ROLES_AGENCE.join(", ")})`,
+      });
+    }
+
     const updates: any = {};
     if (role !== undefined) updates.role = role;
     if (actif !== undefined) updates.actif = actif;
@@ -129,14 +467,61 @@ router.patch("/utilisateurs/:id", async (req, res) => {
       return res.status(400).json({ error: "Aucune modification fournie" });
     }
 
+    const [user] = await db
+      .select()
+      .from(utilisateurs)
+      .where(eq(utilisateurs.id, id))
+      .limit(1);
+
+    if (!user) {
+      return res.status(404).json({ error: "Utilisateur non trouvé" });
+    }
+
+    // La propriété ne se donne ni ne se retire ici: transfert de propriété de l'agence
+    if (role !== undefined) {
+      const membre = await findMembership(id, user.agenceId);
+      if ((role === "owner" || membre?.role === "owner") && role !== membre?.role) {
+        return res.status(400).json({
+          error: "Le rôle owner ne change que par le transfert de propriété de l'agence",
+        });
+      }
+    }
+
     await db.update(utilisateurs).set(updates).where(eq(utilisateurs.id, id));
 
+    // Le rôle modifié est celui de l'agence par défaut de l'utilisateur
+    if (role !== undefined) {
+      await db
+        .update(membresAgence)
+        .set({ role })
+        .where(
+          and(
+            eq(membresAgence.utilisateurId, id),
+            eq(membresAgence.agenceId, user.agenceId),
+          ),
+        );
+    }
+
     const [updated] = await db
       .select()
       .from(utilisateurs)
       .where(eq(utilisateurs.id, id))
       .limit(1);
 
+    // Les sièges facturés suivent les comptes actifs de chacune de ses agences
+    if (actif !== undefined && actif !== user.actif) {
+      const appartenances = await db
+        .select({ agenceId: membresAgence.agenceId })
+        .from(membresAgence)
+        .where(eq(membresAgence.utilisateurId, id));
+
+      for (const { agenceId } of appartenances) {
+        await syncSeats(agenceId);
+      }
+    }
+
+    await logAdminAction(req, "utilisateur.modification", "utilisateur", id, user, updated);
+
     res.json(updated);
   } catch (error) {
     console.error("Erreur modification utilisateur:", error);
@@ -148,7 +533,7 @@ router.patch("/utilisateurs/:id", async (req, res) => {
 // GET /api/admin/admins
 // Lister tous les admins
 // ==========================================
-router.get("/admins", async (req, res) => {
+router.get("/admins", adminsLecture, async (req, res) => {
   try {
     const adminsList = await db
       .select({
@@ -156,6 +541,7 @@ router.get("/admins", async (req, res) => {
         email: superAdmins.email,
         nom: superAdmins.nom,
         prenom: superAdmins.prenom,
+        role: superAdmins.role,
         actif: superAdmins.actif,
         dateCreation: superAdmins.dateCreation,
         derniereConnexion: superAdmins.derniereConnexion,
@@ -172,16 +558,22 @@ router.get("/admins", async (req, res) => {
 
 // ==========================================
 // POST /api/admin/admins
-// Créer un nouvel admin
+// Créer un nouvel admin (rôle support par défaut)
 // ==========================================
-router.post("/admins", async (req, res) => {
+router.post("/admins", adminsEcriture, async (req, res) => {
   try {
-    const { email, motDePasse, nom, prenom } = req.body;
+    const { email, motDePasse, nom, prenom, role = "support" } = req.body;
 
     if (!email || !motDePasse || !nom || !prenom) {
       return res.status(400).json({ error: "Tous les champs sont requis" });
     }
 
+    if (!ROLES_ADMIN.includes(role)) {
+      return res.status(400).json({
+        error: `Rôle admin inconnu (rôles disponibles: ${ROLES_ADMIN.join(", ")})`,
+      });
+    }
+
     // Vérifier si l'email existe déjà
     const [existing] = await db
       .select()
@@ -203,6 +595,7 @@ router.post("/admins", async (req, res) => {
       motDePasse: motDePasseHash,
       nom,
       prenom,
+      role: role as RoleAdmin,
       actif: true,
     });
 
@@ -212,6 +605,7 @@ router.post("/admins", async (req, res) => {
         email: superAdmins.email,
         nom: superAdmins.nom,
         prenom: superAdmins.prenom,
+        role: superAdmins.role,
         actif: superAdmins.actif,
         dateCreation: superAdmins.dateCreation,
       })
@@ -219,6 +613,8 @@ router.post("/admins", async (req, res) => {
       .where(eq(superAdmins.id, id))
       .limit(1);
 
+    await logAdminAction(req, "admin.creation", "admin", id, null, created);
+
     res.status(201).json(created);
   } catch (error) {
     console.error("Erreur création admin:", error);
@@ -228,15 +624,22 @@ router.post("/admins", async (req, res) => {
 
 // ==========================================
 // PATCH /api/admin/admins/:id
-// Modifier un admin
+// Modifier un admin (au moins un admin complet actif doit subsister)
 // ==========================================
-router.patch("/admins/:id", async (req, res) => {
+router.patch("/admins/:id", adminsEcriture, async (req, res) => {
   try {
     const { id } = req.params;
-    const { actif, motDePasse } = req.body;
+    const { actif, motDePasse, role } = req.body;
+
+    if (role !== undefined && !ROLES_ADMIN.includes(role)) {
+      return res.status(400).json({
+        error: `Rôle admin inconnu (rôles disponibles: ${ROLES_ADMIN.join(", ")})`,
+      });
+    }
 
     const updates: any = {};
     if (actif !== undefined) updates.actif = actif;
+    if (role !== undefined) updates.role = role;
     if (motDePasse) {
       updates.motDePasse = await bcrypt.hash(motDePasse, 10);
     }
@@ -245,8 +648,41 @@ router.patch("/admins/:id", async (req, res) => {
       return res.status(400).json({ error: "Aucune modification fournie" });
     }
 
+    const [admin] = await db
+      .select()
+      .from(superAdmins)
+      .where(eq(superAdmins.id, id))
+      .limit(1);
+
+    if (!admin) {
+      return res.status(404).json({ error: "Admin non trouvé" });
+    }
+
+    const perdAccesComplet =
+      admin.actif &&
+      admin.role === "admin" &&
+      (actif === false || (role !== undefined && role !== "admin"));
+
+    if (perdAccesComplet && (await countFullAdmins()) <= 1) {
+      return res.status(400).json({
+        error: "Au moins un administrateur complet actif doit subsister",
+      });
+    }
+
     await db.update(superAdmins).set(updates).where(eq(superAdmins.id, id));
 
+    if (admin.actif && actif === false) {
+      await revoquerAccesAdmin(id);
+    } else if (role !== undefined && !adminHasPermission({ role }, "impersonation:write")) {
+      // Le nouveau rôle ne permet plus d'incarner un utilisateur
+      await arreterImpersonationsAdmin(id);
+    }
+
+    await logAdminAction(req, "admin.modification", "admin", id, admin, {
+      ...admin,
+      ...updates,
+    });
+
     res.json({ message: "Admin mis à jour" });
   } catch (error) {
     console.error("Erreur modification admin:", error);
@@ -254,11 +690,43 @@ router.patch("/admins/:id", async (req, res) => {
   }
 });
 
+// ==========================================
+// POST /api/admin/admins/moi/desactiver
+// Désactiver son propre compte admin (quel que soit son rôle)
+// ==========================================
+router.post("/admins/moi/desactiver", async (req, res) => {
+  try {
+    const admin = req.admin!;
+
+    if (admin.role === "admin" && (await countFullAdmins()) <= 1) {
+      return res.status(400).json({
+        error: "Au moins un administrateur complet actif doit subsister",
+      });
+    }
+
+    await db.update(superAdmins).set({ actif: false }).where(eq(superAdmins.id, admin.id));
+    await revoquerAccesAdmin(admin.id);
+
+    await logAdminAction(req, "admin.desactivation", "admin", admin.id, admin, {
+      ...admin,
+      actif: false,
+    });
+
+    res.clearCookie("admin_token");
+    res.clearCookie("admin_refresh_token", { path: "/api/admin/auth" });
+
+    res.json({ message: "Compte admin désactivé" });
+  } catch (error) {
+    console.error("Erreur désactivation admin:", error);
+    res.status(500).json({ error: "Erreur lors de la désactivation" });
+  }
+});
+
 // ==========================================
 // GET /api/admin/stats
 // Statistiques globales (exclut les agences de démo)
 // ==========================================
-router.get("/stats", async (req, res) => {
+router.get("/stats", agencesLecture, async (req, res) => {
   try {
     // Filtrer par le champ demo de la base de données
     const allAgences = await db.select().from(agences);
@@ -271,13 +739,16 @@ router.get("/stats", async (req, res) => {
     const stats = {
       // Stats principales (sans démo)
       totalAgences: realAgences.length,
-      agencesPremium: realAgences.filter(a => a.plan === "premium").length,
+      agencesPremium: realAgences.filter(a => isPlanPayant(a.plan)).length,
       agencesFree: realAgences.filter(a => a.plan === "free").length,
+      agencesParPlan: Object.fromEntries(
+        PLANS.map((plan) => [plan, realAgences.filter(a => a.plan === plan).length]),
+      ),
       totalUtilisateurs: allUsers.length,
       utilisateursActifs: allUsers.filter(u => u.actif).length,
       totalAdmins: allAdmins.length,
-      // Revenus estimés
-      revenuMensuel: realAgences.filter(a => a.plan === "premium").length * 49,
+      // MRR réel en euros (factures payées, sièges inclus; détail: /api/admin/stripe/rapport)
+      revenuMensuel: (await calculerMrr()) / 100,
       // Stats avec démo (pour info)
       agencesDemo: demoAgences.length,
     };
@@ -293,7 +764,7 @@ router.get("/stats", async (req, res) => {
 // GET /api/admin/acces-temporaires
 // Lister tous les accès temporaires
 // ==========================================
-router.get("/acces-temporaires", async (req, res) => {
+router.get("/acces-temporaires", accesLecture, async (req, res) => {
   try {
     const acces = await db
       .select()
@@ -311,7 +782,7 @@ router.get("/acces-temporaires", async (req, res) => {
 // POST /api/admin/acces-temporaires
 // Créer un accès temporaire
 // ==========================================
-router.post("/acces-temporaires", async (req, res) => {
+router.post("/acces-temporaires", accesEcriture, async (req, res) => {
   try {
     const { agenceId, nom, email, dureeJours } = req.body;
 
@@ -327,7 +798,7 @@ router.post("/acces-temporaires", async (req, res) => {
     const id = crypto.randomUUID();
     const adminId = (req as any).admin?.id || "admin";
 
-    await db.insert(accesTemporaires).values({
+    const acces = {
       id,
       agenceId,
       nom,
@@ -336,7 +807,10 @@ router.post("/acces-temporaires", async (req, res) => {
       dateExpiration,
       actif: true,
       creePar: adminId,
-    });
+    };
+    await db.insert(accesTemporaires).values(acces);
+
+    await logAdminAction(req, "acces_temporaire.creation", "acces_temporaire", id, null, acces);
 
     res.status(201).json({ 
       id, 
@@ -353,15 +827,30 @@ router.post("/acces-temporaires", async (req, res) => {
 // DELETE /api/admin/acces-temporaires/:id
 // Révoquer un accès temporaire
 // ==========================================
-router.delete("/acces-temporaires/:id", async (req, res) => {
+router.delete("/acces-temporaires/:id", accesEcriture, async (req, res) => {
   try {
     const { id } = req.params;
 
+    const [acces] = await db
+      .select()
+      .from(accesTemporaires)
+      .where(eq(accesTemporaires.id, id))
+      .limit(1);
+
+    if (!acces) {
+      return res.status(404).json({ error: "Accès non trouvé" });
+    }
+
     await db
       .update(accesTemporaires)
       .set({ actif: false })
       .where(eq(accesTemporaires.id, id));
 
+    await logAdminAction(req, "acces_temporaire.revocation", "acces_temporaire", id, acces, {
+      ...acces,
+      actif: false,
+    });
+
     res.json({ message: "Accès révoqué" });
   } catch (error) {
     console.error("Erreur révocation accès:", error);
@@ -369,4 +858,90 @@ router.delete("/acces-temporaires/:id", async (req, res) => {
   }
 });
 
+// ==========================================
+// GET /api/admin/tentatives-echouees
+// Journal global des tentatives échouées (filtres: portee, ip, agenceId, depuis)
+// ==========================================
+router.get("/tentatives-echouees", securiteLecture, async (req, res) => {
+  try {
+    const { portee, ip, agenceId, depuis } = req.query;
+    const limite = Math.min(parseInt(String(req.query.limite || "200"), 10) || 200, 1000);
+
+    const conditions: SQL[] = [];
+    if (typeof portee === "string") conditions.push(eq(tentativesEchouees.portee, portee));
+    if (typeof ip === "string") conditions.push(eq(tentativesEchouees.adresseIp, ip));
+    if (typeof agenceId === "string") conditions.push(eq(tentativesEchouees.agenceId, agenceId));
+    if (typeof depuis === "string") conditions.push(gte(tentativesEchouees.date, new Date(depuis)));
+
+    const tentatives = await db
+      .select()
+      .from(tentativesEchouees)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(tentativesEchouees.date))
+      .limit(limite);
+
+    res.json(tentatives);
+  } catch (error) {
+    console.error("Erreur liste tentatives échouées:", error);
+    res.status(500).json({ error: "Erreur lors du chargement" });
+  }
+});
+
+// ==========================================
+// GET /api/admin/audit
+// Journal d'audit des actions admin (filtres: adminId, typeCible, cibleId, dateDebut, dateFin)
+// ==========================================
+router.get("/audit", securiteLecture, async (req, res) => {
+  try {
+    const { adminId, typeCible, cibleId, dateDebut, dateFin } = req.query;
+    const limite = Math.min(parseInt(String(req.query.limite || "200"), 10) || 200, 1000);
+
+    if (
+      typeof typeCible === "string" &&
+      !TYPES_CIBLE_AUDIT.includes(typeCible as TypeCibleAudit)
+    ) {
+      return res.status(400).json({
+        error: `Type de cible inconnu (types disponibles: ${TYPES_CIBLE_AUDIT.join(", ")})`,
+      });
+    }
+
+    const debut = typeof dateDebut === "string" ? new Date(dateDebut) : null;
+    const fin = typeof dateFin === "string" ? new Date(dateFin) : null;
+    if ((debut && isNaN(debut.getTime())) || (fin && isNaN(fin.getTime()))) {
+      return res.status(400).json({ error: "Date invalide" });
+    }
+
+    const conditions: SQL[] = [];
+    if (typeof adminId === "string") conditions.push(eq(auditAdmin.adminId, adminId));
+    if (typeof typeCible === "string") conditions.push(eq(auditAdmin.typeCible, typeCible));
+    if (typeof cibleId === "string") conditions.push(eq(auditAdmin.cibleId, cibleId));
+    if (debut) conditions.push(gte(auditAdmin.date, debut));
+    if (fin) conditions.push(lte(auditAdmin.date, fin));
+
+    const entrees = await db
+      .select({
+        id: auditAdmin.id,
+        adminId: auditAdmin.adminId,
+        adminEmail: superAdmins.email,
+        action: auditAdmin.action,
+        typeCible: auditAdmin.typeCible,
+        cibleId: auditAdmin.cibleId,
+        avant: auditAdmin.avant,
+        apres: auditAdmin.apres,
+        adresseIp: auditAdmin.adresseIp,
+        date: auditAdmin.date,
+      })
+      .from(auditAdmin)
+      .leftJoin(superAdmins, eq(auditAdmin.adminId, superAdmins.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditAdmin.date))
+      .limit(limite);
+
+    res.json(entrees);
+  } catch (error) {
+    console.error("Erreur journal d'audit admin:", error);
+    res.status(500).json({ error: "Erreur lors du chargement" });
+  }
+});
+
 export default router;
@@ -7,13 +7,28 @@ import { Router } from "express";
 import { db } from "../db";
 import { analytics } from "../schema";
 import { eq, and, gte, lte } from "drizzle-orm";
-import { authenticate } from "../middleware/auth";
+import {
+  authenticate,
+  requireResourcePermission,
+  requireModelLink,
+  modeleRestreint,
+} from "../middleware/auth";
+import { requireActiveSubscription } from "../lib/plans";
 
 const router = Router();
 
 // Toutes les routes requièrent l'authentification
 router.use(authenticate);
 
+// Agence suspendue pour impayé (délai de grâce écoulé): lecture seule
+router.use(requireActiveSubscription);
+
+// Lecture / écriture selon les permissions du rôle
+router.use(requireResourcePermission("analytics"));
+
+// Un compte modèle n'accède qu'aux données de sa fiche
+router.use(requireModelLink);
+
 // ====================================================================================================
 /**
  * GET /api/analytics
@@ -35,27 +50,30 @@ router.get("/", async (req, res) => {
     const agenceId = req.agenceId!;
     const { modelId, plateforme, dateDebut, dateFin } = req.query;
 
-    let query = db
-      .select()
-      .from(analytics)
-      .where(eq(analytics.agenceId, agenceId))
-      .$dynamic();
+    const conditions = [eq(analytics.agenceId, agenceId)];
+
+    // Un compte modèle ne voit que sa fiche, quel que soit le filtre demandé
+    const filtreModele = modeleRestreint(req) ?? modelId;
 
     // Filtres optionnels
-    if (modelId && typeof modelId === "string") {
-      query = query.where(eq(analytics.modeleId, modelId));
+    if (filtreModele && typeof filtreModele === "string") {
+      conditions.push(eq(analytics.modeleId, filtreModele));
     }
     if (plateforme && typeof plateforme === "string") {
-      query = query.where(eq(analytics.plateforme, plateforme));
+      conditions.push(eq(analytics.plateforme, plateforme));
     }
     if (dateDebut && typeof dateDebut === "string") {
-      query = query.where(gte(analytics.date, new Date(dateDebut)));
+      conditions.push(gte(analytics.date, new Date(dateDebut)));
     }
     if (dateFin && typeof dateFin === "string") {
-      query = query.where(lte(analytics.date, new Date(dateFin)));
+      conditions.push(lte(analytics.date, new Date(dateFin)));
     }
 
-    const analyticsList = await query.orderBy(analytics.date);
+    const analyticsList = await db
+      .select()
+      .from(analytics)
+      .where(and(...conditions))
+      .orderBy(analytics.date);
 
     res.json(analyticsList);
   } catch (error) {
@@ -1,21 +1,77 @@
 // ==========================================
 // ROUTES D'AUTHENTIFICATION
-// Inscription, connexion, déconnexion, vérification email
+// Inscription, connexion (avec 2FA), déconnexion, sessions, vérification email, mot de passe oublié, invitations,
+// changement d'email et de mot de passe
 // ==========================================
 
-import { Router } from "express";
+import { Router, type Request, type Response, type NextFunction } from "express";
 import { db } from "../db";
-import { agences, utilisateurs, sessions, invitations } from "../schema";
+import {
+  agences,
+  utilisateurs,
+  sessions,
+  invitations,
+  membresAgence,
+  parrainages,
+  type Utilisateur,
+  type MembreAgence,
+} from "../schema";
 import {
   hashPassword,
   verifyPassword,
   generateJWT,
   generateToken,
+  generateChallengeToken,
+  verifyChallengeToken,
   validatePassword,
   hashToken,
+  verifyJWT,
 } from "../lib/auth";
-import { eq, and } from "drizzle-orm";
+import {
+  createSession,
+  rotateSession,
+  revokeSessionByRefreshToken,
+  setSessionAgence,
+  ACCESS_TOKEN_TTL_MS,
+} from "../lib/sessions";
+import {
+  addMembership,
+  findMembership,
+  listMemberships,
+  resolveDefaultMembership,
+  setDefaultAgence,
+} from "../lib/memberships";
+import {
+  generateTotpSecret,
+  buildOtpauthUri,
+  encryptTotpSecret,
+} from "../lib/totp";
+import {
+  replaceRecoveryCodes,
+  deleteRecoveryCodes,
+  verifySecondFactor,
+  consumeTotpCode,
+} from "../lib/two-factor";
+import { eq, and, gt, ne, desc } from "drizzle-orm";
 import { authenticate } from "../middleware/auth";
+import {
+  sendVerificationEmail,
+  sendPasswordResetEmail,
+  sendEmailChangeConfirmation,
+  sendSecurityNotice,
+  isDevMode,
+  type Langue,
+} from "../lib/mail";
+import {
+  bruteForceGuard,
+  recordFailedAttempt,
+  resetAttempts,
+  tokenPourJournal,
+} from "../lib/brute-force";
+import { findPendingInvitation } from "../lib/invitations";
+import { seedDefaultRoles, getMemberPermissions } from "../lib/permissions";
+import { syncSeats } from "../lib/catalogue";
+import { findReferrer, genererCodeParrainage } from "../lib/promotions";
 import { z } from "zod";
 
 const router = Router();
@@ -36,6 +92,8 @@ const inscriptionSchema = z
     nomAgence: z
       .string()
       .min(2, "Le nom de l'agence doit contenir au moins 2 caractères"),
+    langue: z.enum(["fr", "en"]).optional().default("fr"),
+    codeParrainage: z.string().trim().min(1).optional(), // Code de l'agence qui parraine
   })
   .refine((data) => data.password === data.confirmPassword, {
     message: "Les mots de passe ne correspondent pas",
@@ -47,6 +105,111 @@ const connexionSchema = z.object({
   password: z.string(),
 });
 
+const motDePasseOublieSchema = z.object({
+  email: z.string().email("Email invalide"),
+});
+
+const reinitialiserSchema = z
+  .object({
+    token: z.string().min(1, "Token requis"),
+    password: z
+      .string()
+      .min(8, "Le mot de passe doit contenir au moins 8 caractères"),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Les mots de passe ne correspondent pas",
+    path: ["confirmPassword"],
+  });
+
+const accepterInvitationSchema = z
+  .object({
+    token: z.string().min(1, "Token requis"),
+    prenom: z
+      .string()
+      .min(2, "Le prénom doit contenir au moins 2 caractères")
+      .optional(),
+    nom: z.string().min(2, "Le nom doit contenir au moins 2 caractères").optional(),
+    password: z
+      .string()
+      .min(8, "Le mot de passe doit contenir au moins 8 caractères"),
+    confirmPassword: z.string(),
+    langue: z.enum(["fr", "en"]).optional().default("fr"),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Les mots de passe ne correspondent pas",
+    path: ["confirmPassword"],
+  });
+
+const changerMotDePasseSchema = z
+  .object({
+    motDePasseActuel: z.string().min(1, "Mot de passe actuel requis"),
+    password: z
+      .string()
+      .min(8, "Le mot de passe doit contenir au moins 8 caractères"),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Les mots de passe ne correspondent pas",
+    path: ["confirmPassword"],
+  });
+
+const changerEmailSchema = z.object({
+  nouvelEmail: z.string().email("Email invalide"),
+  password: z.string().min(1, "Mot de passe requis"),
+});
+
+const codeDeuxFacteursSchema = z.object({
+  code: z.string().min(6, "Code requis"),
+  challengeToken: z.string().optional(),
+});
+
+const verifierDeuxFacteursSchema = z.object({
+  challengeToken: z.string().min(1, "Challenge requis"),
+  code: z.string().min(6, "Code requis"),
+});
+
+const desactiverDeuxFacteursSchema = z.object({
+  password: z.string(),
+  code: z.string().min(6, "Code requis"),
+});
+
+const changerAgenceSchema = z.object({
+  agenceId: z.string().min(1, "Agence requise"),
+});
+
+// Protection anti brute-force (compteurs par IP et par compte)
+const connexionGuard = bruteForceGuard("connexion", (req) => req.body?.email);
+// Invitations: compte invité désigné par le token (mot de passe confirmé par un compte existant)
+const invitationGuard = bruteForceGuard("invitation", async (req) => {
+  const token = req.params.token ?? req.body?.token;
+  return typeof token === "string"
+    ? (await findPendingInvitation(token))?.email
+    : null;
+});
+// Demandes de réinitialisation: chaque demande compte (inbox inondée, token en attente écrasé)
+const reinitialisationGuard = bruteForceGuard(
+  "reinitialisation",
+  (req) => req.body?.email
+);
+const reauthentificationGuard = bruteForceGuard(
+  "reauthentification",
+  (req) => req.user?.id
+);
+// Codes 2FA: compte de la session, sinon celui du challenge de connexion
+const deuxFacteursGuard = bruteForceGuard(
+  "2fa",
+  (req) =>
+    req.user?.id ??
+    verifyChallengeToken(req.body?.challengeToken ?? "", "utilisateur")?.sub
+);
+
+// Durée de validité d'un lien de réinitialisation (1 heure)
+const RESET_PASSWORD_EXPIRATION_MS = 60 * 60 * 1000;
+
+// Durée de validité d'un lien de confirmation de changement d'email (24 heures)
+const CHANGEMENT_EMAIL_EXPIRATION_MS = 24 * 60 * 60 * 1000;
+
 // ==========================================
 // POST /api/auth/inscription
 // Créer un nouveau compte owner avec son agence
@@ -73,14 +236,34 @@ router.post("/inscription", async (req, res) => {
       return res.status(400).json({ error: "Cet email est déjà utilisé" });
     }
 
-    // Créer l'agence
+    // Vérifier le code de parrainage
+    const parrain = data.codeParrainage ? await findReferrer(data.codeParrainage) : null;
+    if (data.codeParrainage && !parrain) {
+      return res.status(400).json({ error: "Code de parrainage invalide" });
+    }
+
+    // Créer l'agence et ses rôles par défaut
     const agenceId = crypto.randomUUID();
     await db.insert(agences).values({
       id: agenceId,
       nom: data.nomAgence,
       plan: "free",
       dateCreation: new Date(),
+      codeParrainage: genererCodeParrainage(),
+      parrainId: parrain?.id ?? null,
     });
+    await seedDefaultRoles(agenceId);
+
+    // Le parrain sera récompensé au premier paiement de l'agence
+    if (parrain) {
+      await db.insert(parrainages).values({
+        id: crypto.randomUUID(),
+        parrainId: parrain.id,
+        filleulId: agenceId,
+        statut: "en_attente",
+        dateCreation: new Date(),
+      });
+    }
 
     // Hash du mot de passe
     const motDePasseHash = await hashPassword(data.password);
@@ -98,25 +281,31 @@ router.post("/inscription", async (req, res) => {
       motDePasseHash,
       role: "owner",
       agenceId,
+      langue: data.langue,
       emailVerifie: false, // On pourrait mettre TRUE en dev pour simplifier les tests
       tokenVerification,
       dateCreation: new Date(),
       actif: true,
     });
 
-    // TODO: Envoyer l'email de vérification
-    // await sendVerificationEmail(data.email, tokenVerification);
+    await addMembership(userId, agenceId, "owner");
 
-    console.log(
-      `✉️  Email de vérification (DEV): http://localhost:5000/api/auth/verifier-email/${tokenVerification}`
+    // Envoyer l'email de vérification
+    await sendVerificationEmail(
+      data.email,
+      data.prenom,
+      tokenVerification,
+      data.langue
     );
 
     res.status(201).json({
       message: "Compte créé avec succès ! Vérifiez votre email.",
-      // En dev, on retourne le token pour faciliter les tests
-      dev: {
-        verificationUrl: `/api/auth/verifier-email/${tokenVerification}`,
-      },
+      // En dev uniquement, on retourne le lien pour faciliter les tests
+      ...(isDevMode && {
+        dev: {
+          verificationUrl: `/api/auth/verifier-email/${tokenVerification}`,
+        },
+      }),
     });
   } catch (error: any) {
     console.error("Erreur inscription:", error);
@@ -132,11 +321,140 @@ router.post("/inscription", async (req, res) => {
   }
 });
 
+// ==========================================
+// OUVERTURE DE SESSION
+// ==========================================
+
+// Options communes des cookies de session
+// sameSite: "none" + secure: true requis pour les cookies cross-domain (frontend/backend séparés)
+export const COOKIE_OPTIONS = {
+  httpOnly: true,
+  secure: true, // Obligatoire avec sameSite: "none"
+  sameSite: "none" as const, // Permet les cookies cross-origin
+};
+
+/**
+ * Définit les cookies auth_token (accès, court) et refresh_token (limité à /api/auth)
+ */
+function definirCookiesSession(
+  res: Response,
+  accessToken: string,
+  refreshToken: string,
+  dateExpiration: Date
+) {
+  res.cookie("auth_token", accessToken, {
+    ...COOKIE_OPTIONS,
+    maxAge: ACCESS_TOKEN_TTL_MS,
+  });
+  res.cookie("refresh_token", refreshToken, {
+    ...COOKIE_OPTIONS,
+    path: "/api/auth",
+    maxAge: dateExpiration.getTime() - Date.now(),
+  });
+}
+
+/**
+ * Efface les cookies de session utilisateur
+ */
+function effacerCookiesSession(res: Response) {
+  res.clearCookie("auth_token", COOKIE_OPTIONS);
+  res.clearCookie("refresh_token", { ...COOKIE_OPTIONS, path: "/api/auth" });
+}
+
+/**
+ * Génère le JWT d'accès d'une session pour l'agence active
+ */
+function jwtPourAgence(userId: string, membre: MembreAgence, sessionId: string) {
+  return generateJWT({
+    userId,
+    agenceId: membre.agenceId,
+    role: membre.role as "owner" | "member" | "model",
+    sessionId,
+  });
+}
+
+/**
+ * Indique si l'une des agences de l'utilisateur impose la double authentification
+ */
+async function deuxFacteursImpose(userId: string): Promise<boolean> {
+  const [agence] = await db
+    .select({ id: agences.id })
+    .from(membresAgence)
+    .innerJoin(agences, eq(membresAgence.agenceId, agences.id))
+    .where(
+      and(
+        eq(membresAgence.utilisateurId, userId),
+        eq(membresAgence.actif, true),
+        eq(agences.deuxFacteursObligatoire, true)
+      )
+    )
+    .limit(1);
+
+  return !!agence;
+}
+
+/**
+ * Crée la session en base, définit les cookies de session et renvoie l'utilisateur
+ * Appelé après validation complète des identifiants (mot de passe + 2FA)
+ * La session s'ouvre sur l'agence par défaut de l'utilisateur
+ * @param extra - Champs additionnels à inclure dans la réponse
+ */
+async function ouvrirSession(
+  req: Request,
+  res: Response,
+  user: Utilisateur,
+  extra: Record<string, unknown> = {}
+) {
+  const membre = await resolveDefaultMembership(user);
+
+  if (!membre) {
+    return res
+      .status(403)
+      .json({ error: "Votre compte n'est rattaché à aucune agence active" });
+  }
+
+  // Créer la session (famille de refresh tokens)
+  const { session, refreshToken } = await createSession(
+    req,
+    user.id,
+    "utilisateur",
+    null,
+    membre.agenceId
+  );
+
+  // Générer le JWT d'accès lié à la session
+  const token = jwtPourAgence(user.id, membre, session.id);
+
+  // Mettre à jour la dernière connexion
+  await db
+    .update(utilisateurs)
+    .set({ derniereConnexion: new Date() })
+    .where(eq(utilisateurs.id, user.id));
+
+  res.clearCookie("demo_token"); // Effacer le cookie démo s'il existe
+  res.clearCookie("demo_refresh_token");
+  definirCookiesSession(res, token, refreshToken, session.dateExpiration);
+
+  res.json({
+    message: "Connexion réussie",
+    user: {
+      id: user.id,
+      prenom: user.prenom,
+      nom: user.nom,
+      email: user.email,
+      role: membre.role,
+      agenceId: membre.agenceId,
+    },
+    agences: await listMemberships(user.id),
+    ...extra,
+  });
+}
+
 // ==========================================
 // POST /api/auth/connexion
 // Authentifier un utilisateur et créer une session
 // ==========================================
-router.post("/connexion", async (req, res) => {
+router.post("/connexion", connexionGuard, async (req, res) => {
   try {
     // Validation
     const { email, password } = connexionSchema.parse(req.body);
@@ -149,6 +467,9 @@ router.post("/connexion", async (req, res) => {
       .limit(1);
 
     if (!user) {
+      await recordFailedAttempt(req, "connexion", email, {
+        motif: "email_inconnu",
+      });
       return res.status(401).json({ error: "Email ou mot de passe incorrect" });
     }
 
@@ -156,9 +477,15 @@ router.post("/connexion", async (req, res) => {
     const isPasswordValid = await verifyPassword(password, user.motDePasseHash);
 
     if (!isPasswordValid) {
+      await recordFailedAttempt(req, "connexion", email, {
+        motif: "mot_de_passe_incorrect",
+        agenceId: user.agenceId,
+      });
       return res.status(401).json({ error: "Email ou mot de passe incorrect" });
     }
 
+    await resetAttempts("connexion", email);
+
     // Vérifier que l'email est vérifié
     if (!user.emailVerifie) {
       return res.status(403).json({
@@ -172,56 +499,31 @@ router.post("/connexion", async (req, res) => {
       return res.status(403).json({ error: "Compte désactivé" });
     }
 
-    // Générer le JWT
-    const token = generateJWT({
-      userId: user.id,
-      agenceId: user.agenceId,
-      role: user.role as "owner" | "member" | "model",
-    });
-
-    // Créer la session en base
-    const sessionId = crypto.randomUUID();
-    const tokenHash = hashToken(token);
-    const dateExpiration = new Date();
-    dateExpiration.setDate(dateExpiration.getDate() + 7); // 7 jours
-
-    await db.insert(sessions).values({
-      id: sessionId,
-      utilisateurId: user.id,
-      tokenHash,
-      dateCreation: new Date(),
-      dateExpiration,
-      adresseIp: req.ip || null,
-      userAgent: req.get("user-agent") || null,
-    });
-
-    // Mettre à jour la dernière connexion
-    await db
-      .update(utilisateurs)
-      .set({ derniereConnexion: new Date() })
-      .where(eq(utilisateurs.id, user.id));
+    // Double authentification: code TOTP requis avant d'ouvrir la session
+    if (user.totpActive) {
+      return res.json({
+        requiresTwoFactor: true,
+        challengeToken: generateChallengeToken({
+          sub: user.id,
+          compte: "utilisateur",
+          etape: "2fa",
+        }),
+      });
+    }
 
-    // Définir le cookie sécurisé
-    // sameSite: "none" + secure: true requis pour les cookies cross-domain (frontend/backend séparés)
-    res.clearCookie("demo_token"); // Effacer le cookie démo s'il existe
-    res.cookie("auth_token", token, {
-      httpOnly: true,
-      secure: true, // Obligatoire avec sameSite: "none"
-      sameSite: "none", // Permet les cookies cross-origin
-      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 jours en millisecondes
-    });
+    // 2FA imposée par l'une des agences mais pas encore configurée
+    if (await deuxFacteursImpose(user.id)) {
+      return res.json({
+        requiresTwoFactorSetup: true,
+        challengeToken: generateChallengeToken({
+          sub: user.id,
+          compte: "utilisateur",
+          etape: "2fa-setup",
+        }),
+      });
+    }
 
-    res.json({
-      message: "Connexion réussie",
-      user: {
-        id: user.id,
-        prenom: user.prenom,
-        nom: user.nom,
-        email: user.email,
-        role: user.role,
-        agenceId: user.agenceId,
-      },
-    });
+    await ouvrirSession(req, res, user);
   } catch (error: any) {
     console.error("Erreur connexion:", error);
 
@@ -237,167 +539,1336 @@ router.post("/connexion", async (req, res) => {
 });
 
 // ==========================================
-// POST /api/auth/deconnexion
-// Déconnecter l'utilisateur
+// DOUBLE AUTHENTIFICATION (2FA)
 // ==========================================
-router.post("/deconnexion", authenticate, async (req, res) => {
-  try {
-    const token = req.cookies.auth_token;
-
-    if (token) {
-      const tokenHash = hashToken(token);
 
-      // Supprimer la session de la base
-      await db.delete(sessions).where(eq(sessions.tokenHash, tokenHash));
-    }
+/**
+ * Accepte soit une session classique, soit un challenge "2fa-setup"
+ * (membre d'une agence imposant la 2FA qui doit la configurer avant sa première session)
+ */
+function authenticateOrSetupChallenge(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  const challengeToken = req.body?.challengeToken;
 
-    // Effacer le cookie
-    res.clearCookie("auth_token");
-    res.clearCookie("demo_token"); // Aussi effacer le cookie démo
+  if (!challengeToken) {
+    return authenticate(req, res, next);
+  }
 
-    res.json({ message: "Déconnexion réussie" });
-  } catch (error) {
-    console.error("Erreur déconnexion:", error);
-    res.status(500).json({ error: "Erreur lors de la déconnexion" });
+  const challenge = verifyChallengeToken(challengeToken, "utilisateur");
+  if (!challenge || challenge.etape !== "2fa-setup") {
+    return res.status(401).json({ error: "Challenge invalide ou expiré" });
   }
-});
+
+  res.locals.setupUserId = challenge.sub;
+  next();
+}
 
 // ==========================================
-// GET /api/auth/verifier-email/:token
-// Vérifier l'email d'un utilisateur
+// POST /api/auth/2fa/verifier
+// Second étape de connexion: code TOTP ou code de récupération
 // ==========================================
-router.get("/verifier-email/:token", async (req, res) => {
+router.post("/2fa/verifier", deuxFacteursGuard, async (req, res) => {
   try {
-    const { token } = req.params;
+    const { challengeToken, code } = verifierDeuxFacteursSchema.parse(req.body);
+
+    const challenge = verifyChallengeToken(challengeToken, "utilisateur");
+    if (!challenge || challenge.etape !== "2fa") {
+      return res.status(401).json({ error: "Challenge invalide ou expiré" });
+    }
 
-    // Trouver l'utilisateur avec ce token
     const [user] = await db
       .select()
       .from(utilisateurs)
-      .where(
-        and(
-          eq(utilisateurs.tokenVerification, token),
-          eq(utilisateurs.emailVerifie, false)
-        )
-      )
+      .where(eq(utilisateurs.id, challenge.sub))
       .limit(1);
 
-    if (!user) {
-      return res.status(400).json({
-        error: "Token de vérification invalide ou déjà utilisé",
+    if (!user || !user.actif || !user.totpActive) {
+      return res.status(401).json({ error: "Challenge invalide ou expiré" });
+    }
+
+    const isCodeValid = await verifySecondFactor(
+      user.id,
+      "utilisateur",
+      user.totpSecret,
+      code
+    );
+
+    if (!isCodeValid) {
+      await recordFailedAttempt(req, "2fa", user.id, {
+        motif: "code_2fa_incorrect",
+        agenceId: user.agenceId,
       });
+      return res.status(401).json({ error: "Code de vérification incorrect" });
     }
 
-    // Vérifier que le token n'est pas expiré (24h)
-    const tokenAge = Date.now() - new Date(user.dateCreation).getTime();
-    const maxAge = 24 * 60 * 60 * 1000; // 24 heures
+    await resetAttempts("2fa", user.id);
+    await ouvrirSession(req, res, user);
+  } catch (error: any) {
+    console.error("Erreur vérification 2FA:", error);
 
-    if (tokenAge > maxAge) {
+    if (error instanceof z.ZodError) {
       return res.status(400).json({
-        error: "Token de vérification expiré. Demandez un nouvel email.",
+        error: "Données invalides",
+        details: error.errors,
       });
     }
 
-    // Marquer l'email comme vérifié
-    await db
-      .update(utilisateurs)
-      .set({
-        emailVerifie: true,
-        tokenVerification: null,
-      })
-      .where(eq(utilisateurs.id, user.id));
-
-    res.json({
-      message:
-        "Email vérifié avec succès ! Vous pouvez maintenant vous connecter.",
-      success: true,
-    });
-  } catch (error) {
-    console.error("Erreur vérification email:", error);
-    res
-      .status(500)
-      .json({ error: "Erreur lors de la vérification de l'email" });
+    res.status(500).json({ error: "Erreur lors de la vérification" });
   }
 });
 
 // ==========================================
-// GET /api/auth/moi
-// Récupérer les informations de l'utilisateur connecté
+// POST /api/auth/2fa/configurer
+// Générer un secret TOTP et l'URI otpauth à afficher en QR code
 // ==========================================
-router.get("/moi", authenticate, async (req, res) => {
+router.post("/2fa/configurer", authenticateOrSetupChallenge, async (req, res) => {
   try {
-    // Si c'est un utilisateur démo, retourner les infos virtuelles
     if (req.user?.isDemo) {
-      return res.json({
-        id: req.user.id,
-        prenom: req.user.demoNom || "Visiteur",
-        nom: "Demo",
-        email: req.user.email,
-        role: req.user.role,
-        agenceId: req.user.agenceId,
-        emailVerifie: true,
-        dateCreation: new Date().toISOString(),
-        derniereConnexion: new Date().toISOString(),
-        isDemo: true,
-      });
+      return res.status(403).json({ error: "Action impossible en mode démo" });
     }
 
+    const userId: string = res.locals.setupUserId ?? req.user!.id;
+
     const [user] = await db
-      .select({
-        id: utilisateurs.id,
-        prenom: utilisateurs.prenom,
-        nom: utilisateurs.nom,
-        email: utilisateurs.email,
-        role: utilisateurs.role,
-        agenceId: utilisateurs.agenceId,
-        emailVerifie: utilisateurs.emailVerifie,
-        dateCreation: utilisateurs.dateCreation,
-        derniereConnexion: utilisateurs.derniereConnexion,
-      })
+      .select()
       .from(utilisateurs)
-      .where(eq(utilisateurs.id, req.user!.id))
+      .where(eq(utilisateurs.id, userId))
       .limit(1);
 
     if (!user) {
       return res.status(404).json({ error: "Utilisateur non trouvé" });
     }
 
-    res.json(user);
+    if (user.totpActive) {
+      return res
+        .status(400)
+        .json({ error: "La double authentification est déjà activée" });
+    }
+
+    // Le secret reste inactif tant qu'un premier code n'a pas été confirmé
+    const secret = generateTotpSecret();
+    await db
+      .update(utilisateurs)
+      .set({ totpSecret: encryptTotpSecret(secret), totpDernierPas: null })
+      .where(eq(utilisateurs.id, user.id));
+
+    res.json({
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email),
+    });
   } catch (error) {
-    console.error("Erreur récupération utilisateur:", error);
-    res.status(500).json({ error: "Erreur serveur" });
+    console.error("Erreur configuration 2FA:", error);
+    res.status(500).json({ error: "Erreur lors de la configuration" });
   }
 });
 
 // ==========================================
-// PUT /api/auth/profil
-// Mettre à jour le profil utilisateur
+// POST /api/auth/2fa/activer
+// Confirmer le secret avec un premier code et générer les codes de récupération
 // ==========================================
-router.put("/profil", authenticate, async (req, res) => {
+router.post("/2fa/activer", authenticateOrSetupChallenge, deuxFacteursGuard, async (req, res) => {
   try {
-    const { prenom, nom } = req.body;
+    const { code } = codeDeuxFacteursSchema.parse(req.body);
+    const viaChallenge = Boolean(res.locals.setupUserId);
+    const userId: string = res.locals.setupUserId ?? req.user!.id;
 
-    if (!prenom || !nom) {
-      return res.status(400).json({ error: "Prénom et nom requis" });
+    const [user] = await db
+      .select()
+      .from(utilisateurs)
+      .where(eq(utilisateurs.id, userId))
+      .limit(1);
+
+    if (!user || !user.actif) {
+      return res.status(404).json({ error: "Utilisateur non trouvé" });
     }
 
-    if (prenom.length < 2 || nom.length < 2) {
+    if (user.totpActive || !user.totpSecret) {
       return res
         .status(400)
-        .json({
-          error: "Le prénom et le nom doivent contenir au moins 2 caractères",
-        });
+        .json({ error: "Aucune configuration 2FA en attente" });
+    }
+
+    if (!(await consumeTotpCode(user.id, "utilisateur", user.totpSecret, code))) {
+      await recordFailedAttempt(req, "2fa", user.id, {
+        motif: "code_2fa_incorrect",
+        agenceId: user.agenceId,
+      });
+      return res.status(400).json({ error: "Code de vérification incorrect" });
     }
 
+    await resetAttempts("2fa", user.id);
     await db
       .update(utilisateurs)
-      .set({ prenom, nom })
-      .where(eq(utilisateurs.id, req.user!.id));
+      .set({ totpActive: true })
+      .where(eq(utilisateurs.id, user.id));
 
-    res.json({ message: "Profil mis à jour", prenom, nom });
-  } catch (error) {
-    console.error("Erreur mise à jour profil:", error);
-    res.status(500).json({ error: "Erreur lors de la mise à jour" });
+    const recoveryCodes = await replaceRecoveryCodes(user.id, "utilisateur");
+
+    // Configuration imposée à la connexion: on ouvre directement la session
+    if (viaChallenge) {
+      return await ouvrirSession(req, res, user, { recoveryCodes });
+    }
+
+    res.json({
+      message: "Double authentification activée",
+      recoveryCodes,
+    });
+  } catch (error: any) {
+    console.error("Erreur activation 2FA:", error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Données invalides",
+        details: error.errors,
+      });
+    }
+
+    res.status(500).json({ error: "Erreur lors de l'activation" });
+  }
+});
+
+// ==========================================
+// POST /api/auth/2fa/desactiver
+// Désactiver la 2FA (mot de passe + code requis, interdit si imposée par l'agence)
+// ==========================================
+router.post("/2fa/desactiver", authenticate, deuxFacteursGuard, async (req, res) => {
+  try {
+    const { password, code } = desactiverDeuxFacteursSchema.parse(req.body);
+
+    const [user] = await db
+      .select()
+      .from(utilisateurs)
+      .where(eq(utilisateurs.id, req.user!.id))
+      .limit(1);
+
+    if (!user || !user.totpActive) {
+      return res
+        .status(400)
+        .json({ error: "La double authentification n'est pas activée" });
+    }
+
+    if (await deuxFacteursImpose(user.id)) {
+      return res.status(403).json({
+        error: "La double authentification est obligatoire dans votre agence",
+      });
+    }
+
+    const isPasswordValid = await verifyPassword(password, user.motDePasseHash);
+    const isCodeValid =
+      isPasswordValid &&
+      (await verifySecondFactor(user.id, "utilisateur", user.totpSecret, code));
+
+    if (!isCodeValid) {
+      await recordFailedAttempt(req, "2fa", user.id, {
+        motif: isPasswordValid ? "code_2fa_incorrect" : "mot_de_passe_incorrect",
+        agenceId: user.agenceId,
+      });
+      return res
+        .status(401)
+        .json({ error: "Mot de passe ou code de vérification incorrect" });
+    }
+
+    await resetAttempts("2fa", user.id);
+    await db
+      .update(utilisateurs)
+      .set({ totpActive: false, totpSecret: null })
+      .where(eq(utilisateurs.id, user.id));
+
+    await deleteRecoveryCodes(user.id, "utilisateur");
+
+    res.json({ message: "Double authentification désactivée" });
+  } catch (error: any) {
+    console.error("Erreur désactivation 2FA:", error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Données invalides",
+        details: error.errors,
+      });
+    }
+
+    res.status(500).json({ error: "Erreur lors de la désactivation" });
+  }
+});
+
+// ==========================================
+// POST /api/auth/2fa/codes-recuperation
+// Régénérer les codes de récupération (invalide les anciens)
+// ==========================================
+router.post("/2fa/codes-recuperation", authenticate, deuxFacteursGuard, async (req, res) => {
+  try {
+    const { code } = codeDeuxFacteursSchema.parse(req.body);
+
+    const [user] = await db
+      .select()
+      .from(utilisateurs)
+      .where(eq(utilisateurs.id, req.user!.id))
+      .limit(1);
+
+    if (!user || !user.totpActive || !user.totpSecret) {
+      return res
+        .status(400)
+        .json({ error: "La double authentification n'est pas activée" });
+    }
+
+    if (!(await consumeTotpCode(user.id, "utilisateur", user.totpSecret, code))) {
+      await recordFailedAttempt(req, "2fa", user.id, {
+        motif: "code_2fa_incorrect",
+        agenceId: user.agenceId,
+      });
+      return res.status(401).json({ error: "Code de vérification incorrect" });
+    }
+
+    await resetAttempts("2fa", user.id);
+    const recoveryCodes = await replaceRecoveryCodes(user.id, "utilisateur");
+
+    res.json({ recoveryCodes });
+  } catch (error: any) {
+    console.error("Erreur régénération codes de récupération:", error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Données invalides",
+        details: error.errors,
+      });
+    }
+
+    res.status(500).json({ error: "Erreur lors de la régénération des codes" });
+  }
+});
+
+// ==========================================
+// POST /api/auth/deconnexion
+// Déconnecter l'utilisateur
+// ==========================================
+router.post("/deconnexion", async (req, res) => {
+  try {
+    const refreshToken = req.cookies.refresh_token;
+    const payload = req.cookies.auth_token
+      ? verifyJWT(req.cookies.auth_token)
+      : null;
+
+    // Supprimer la session de la base (via le refresh token ou l'access token)
+    if (refreshToken) {
+      await revokeSessionByRefreshToken(refreshToken);
+    }
+    if (payload?.sessionId) {
+      await db
+        .delete(sessions)
+        .where(
+          and(
+            eq(sessions.id, payload.sessionId),
+            eq(sessions.utilisateurId, payload.userId)
+          )
+        );
+    }
+
+    // Effacer les cookies
+    effacerCookiesSession(res);
+    res.clearCookie("demo_token"); // Aussi effacer le cookie démo
+    res.clearCookie("demo_refresh_token");
+
+    res.json({ message: "Déconnexion réussie" });
+  } catch (error) {
+    console.error("Erreur déconnexion:", error);
+    res.status(500).json({ error: "Erreur lors de la déconnexion" });
+  }
+});
+
+// ==========================================
+// POST /api/auth/refresh
+// Renouveler l'access token (rotation du refresh token)
+// ==========================================
+router.post("/refresh", async (req, res) => {
+  try {
+    const refreshToken = req.cookies.refresh_token;
+
+    if (!refreshToken) {
+      return res.status(401).json({ error: "Refresh token manquant" });
+    }
+
+    const rotation = await rotateSession(refreshToken, "utilisateur");
+
+    if (rotation.statut !== "ok") {
+      effacerCookiesSession(res);
+      return res.status(401).json({
+        error:
+          rotation.statut === "reutilise"
+            ? "Session révoquée pour raison de sécurité, veuillez vous reconnecter"
+            : "Session expirée",
+      });
+    }
+
+    const { session } = rotation;
+
+    // Recharger l'utilisateur (rôle et statut à jour)
+    const [user] = await db
+      .select()
+      .from(utilisateurs)
+      .where(eq(utilisateurs.id, session.utilisateurId))
+      .limit(1);
+
+    // Agence active de la session, ou agence par défaut si l'utilisateur en a été retiré
+    let membre =
+      user && user.actif && session.agenceId
+        ? await findMembership(user.id, session.agenceId)
+        : null;
+    if (user && user.actif && !membre) {
+      membre = await resolveDefaultMembership(user);
+      if (membre) {
+        await setSessionAgence(session.id, membre.agenceId);
+      }
+    }
+
+    if (!user || !membre) {
+      await db.delete(sessions).where(eq(sessions.id, session.id));
+      effacerCookiesSession(res);
+      return res
+        .status(401)
+        .json({ error: "Utilisateur inactif ou inexistant" });
+    }
+
+    const token = jwtPourAgence(user.id, membre, session.id);
+
+    definirCookiesSession(
+      res,
+      token,
+      rotation.refreshToken,
+      session.dateExpiration
+    );
+
+    res.json({ message: "Session renouvelée" });
+  } catch (error) {
+    console.error("Erreur refresh token:", error);
+    res.status(500).json({ error: "Erreur lors du renouvellement de la session" });
+  }
+});
+
+// ==========================================
+// GET /api/auth/sessions
+// Lister les sessions actives de l'utilisateur
+// ==========================================
+router.get("/sessions", authenticate, async (req, res) => {
+  try {
+    if (req.user?.isDemo) {
+      return res.json([]);
+    }
+
+    const sessionsList = await db
+      .select({
+        id: sessions.id,
+        adresseIp: sessions.adresseIp,
+        userAgent: sessions.userAgent,
+        dateCreation: sessions.dateCreation,
+        dateExpiration: sessions.dateExpiration,
+      })
+      .from(sessions)
+      .where(
+        and(
+          eq(sessions.utilisateurId, req.user!.id),
+          eq(sessions.typeCompte, "utilisateur"),
+          gt(sessions.dateExpiration, new Date())
+        )
+      )
+      .orderBy(desc(sessions.dateCreation));
+
+    res.json(
+      sessionsList.map((session) => ({
+        ...session,
+        courante: session.id === req.sessionId,
+      }))
+    );
+  } catch (error) {
+    console.error("Erreur liste sessions:", error);
+    res.status(500).json({ error: "Erreur lors du chargement des sessions" });
+  }
+});
+
+// ==========================================
+// POST /api/auth/sessions/revoquer-autres
+// Déconnecter toutes les autres sessions ("se déconnecter partout ailleurs")
+// ==========================================
+router.post("/sessions/revoquer-autres", authenticate, async (req, res) => {
+  try {
+    if (req.user?.isDemo || !req.sessionId) {
+      return res.status(403).json({ error: "Action impossible en mode démo" });
+    }
+
+    await db
+      .delete(sessions)
+      .where(
+        and(
+          eq(sessions.utilisateurId, req.user!.id),
+          ne(sessions.id, req.sessionId)
+        )
+      );
+
+    res.json({ message: "Toutes les autres sessions ont été déconnectées" });
+  } catch (error) {
+    console.error("Erreur révocation sessions:", error);
+    res.status(500).json({ error: "Erreur lors de la révocation des sessions" });
+  }
+});
+
+// ==========================================
+// DELETE /api/auth/sessions/:id
+// Révoquer une session précise
+// ==========================================
+router.delete("/sessions/:id", authenticate, async (req, res) => {
+  try {
+    if (req.user?.isDemo) {
+      return res.status(403).json({ error: "Action impossible en mode démo" });
+    }
+
+    const { id } = req.params;
+
+    // Vérifier que la session appartient à l'utilisateur
+    const [session] = await db
+      .select({ id: sessions.id })
+      .from(sessions)
+      .where(
+        and(eq(sessions.id, id), eq(sessions.utilisateurId, req.user!.id))
+      )
+      .limit(1);
+
+    if (!session) {
+      return res.status(404).json({ error: "Session non trouvée" });
+    }
+
+    await db.delete(sessions).where(eq(sessions.id, session.id));
+
+    // Révoquer sa propre session revient à se déconnecter
+    if (session.id === req.sessionId) {
+      effacerCookiesSession(res);
+    }
+
+    res.json({ message: "Session révoquée" });
+  } catch (error) {
+    console.error("Erreur révocation session:", error);
+    res.status(500).json({ error: "Erreur lors de la révocation de la session" });
+  }
+});
+
+// ==========================================
+// GET /api/auth/verifier-email/:token
+// Vérifier l'email d'un utilisateur
+// ==========================================
+router.get("/verifier-email/:token", async (req, res) => {
+  try {
+    const { token } = req.params;
+
+    // Trouver l'utilisateur avec ce token
+    const [user] = await db
+      .select()
+      .from(utilisateurs)
+      .where(
+        and(
+          eq(utilisateurs.tokenVerification, token),
+          eq(utilisateurs.emailVerifie, false)
+        )
+      )
+      .limit(1);
+
+    if (!user) {
+      return res.status(400).json({
+        error: "Token de vérification invalide ou déjà utilisé",
+      });
+    }
+
+    // Vérifier que le token n'est pas expiré (24h)
+    const tokenAge = Date.now() - new Date(user.dateCreation).getTime();
+    const maxAge = 24 * 60 * 60 * 1000; // 24 heures
+
+    if (tokenAge > maxAge) {
+      return res.status(400).json({
+        error: "Token de vérification expiré. Demandez un nouvel email.",
+      });
+    }
+
+    // Marquer l'email comme vérifié
+    await db
+      .update(utilisateurs)
+      .set({
+        emailVerifie: true,
+        tokenVerification: null,
+      })
+      .where(eq(utilisateurs.id, user.id));
+
+    res.json({
+      message:
+        "Email vérifié avec succès ! Vous pouvez maintenant vous connecter.",
+      success: true,
+    });
+  } catch (error) {
+    console.error("Erreur vérification email:", error);
+    res
+      .status(500)
+      .json({ error: "Erreur lors de la vérification de l'email" });
+  }
+});
+
+// ==========================================
+// POST /api/auth/mot-de-passe-oublie
+// Demander un lien de réinitialisation du mot de passe
+// ==========================================
+router.post("/mot-de-passe-oublie", reinitialisationGuard, async (req, res) => {
+  // Réponse identique que l'email existe ou non (pas d'énumération de comptes)
+  const reponse = {
+    message:
+      "Si un compte existe avec cet email, un lien de réinitialisation a été envoyé.",
+  };
+
+  try {
+    const { email } = motDePasseOublieSchema.parse(req.body);
+
+    // Comptée que le compte existe ou non (même limite pour tous les emails)
+    await recordFailedAttempt(req, "reinitialisation", email, {
+      motif: "demande_reinitialisation",
+    });
+
+    const [user] = await db
+      .select()
+      .from(utilisateurs)
+      .where(eq(utilisateurs.email, email))
+      .limit(1);
+
+    if (!user || !user.actif) {
+      return res.json(reponse);
+    }
+
+    // On ne stocke que le hash du token, le token en clair part par email
+    const token = generateToken();
+    const dateExpiration = new Date(Date.now() + RESET_PASSWORD_EXPIRATION_MS);
+
+    await db
+      .update(utilisateurs)
+      .set({
+        tokenResetPassword: hashToken(token),
+        dateExpirationResetPassword: dateExpiration,
+      })
+      .where(eq(utilisateurs.id, user.id));
+
+    await sendPasswordResetEmail(
+      user.email,
+      user.prenom,
+      token,
+      RESET_PASSWORD_EXPIRATION_MS / 60000,
+      user.langue as Langue
+    );
+
+    res.json(reponse);
+  } catch (error: any) {
+    console.error("Erreur mot de passe oublié:", error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Données invalides",
+        details: error.errors,
+      });
+    }
+
+    res.status(500).json({ error: "Erreur lors de la demande de réinitialisation" });
+  }
+});
+
+// ==========================================
+// POST /api/auth/reinitialiser
+// Définir un nouveau mot de passe à partir d'un token de réinitialisation
+// ==========================================
+router.post("/reinitialiser", async (req, res) => {
+  try {
+    const data = reinitialiserSchema.parse(req.body);
+
+    // Validation force du mot de passe
+    const passwordValidation = validatePassword(data.password);
+    if (!passwordValidation.isValid) {
+      return res.status(400).json({ error: passwordValidation.error });
+    }
+
+    // Trouver l'utilisateur avec ce token non expiré
+    const [user] = await db
+      .select()
+      .from(utilisateurs)
+      .where(
+        and(
+          eq(utilisateurs.tokenResetPassword, hashToken(data.token)),
+          gt(utilisateurs.dateExpirationResetPassword, new Date())
+        )
+      )
+      .limit(1);
+
+    if (!user) {
+      return res.status(400).json({
+        error: "Lien de réinitialisation invalide ou expiré",
+      });
+    }
+
+    const motDePasseHash = await hashPassword(data.password);
+
+    // Mettre à jour le mot de passe et consommer le token (usage unique): conditionné
+    // au token, deux réinitialisations simultanées ne peuvent pas réussir toutes les deux
+    const [resultat] = await db
+      .update(utilisateurs)
+      .set({
+        motDePasseHash,
+        tokenResetPassword: null,
+        dateExpirationResetPassword: null,
+      })
+      .where(
+        and(
+          eq(utilisateurs.id, user.id),
+          eq(utilisateurs.tokenResetPassword, hashToken(data.token))
+        )
+      );
+
+    if (resultat.affectedRows !== 1) {
+      return res.status(400).json({
+        error: "Lien de réinitialisation invalide ou expiré",
+      });
+    }
+
+    // Invalider toutes les sessions existantes de l'utilisateur
+    await db.delete(sessions).where(eq(sessions.utilisateurId, user.id));
+
+    effacerCookiesSession(res);
+
+    res.json({
+      message:
+        "Mot de passe réinitialisé avec succès ! Vous pouvez maintenant vous connecter.",
+      success: true,
+    });
+  } catch (error: any) {
+    console.error("Erreur réinitialisation mot de passe:", error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Données invalides",
+        details: error.errors,
+      });
+    }
+
+    res
+      .status(500)
+      .json({ error: "Erreur lors de la réinitialisation du mot de passe" });
+  }
+});
+
+// ==========================================
+// GET /api/auth/invitation/:token
+// Informations d'une invitation en attente (page d'acceptation)
+// ==========================================
+router.get("/invitation/:token", invitationGuard, async (req, res) => {
+  try {
+    const invitation = await findPendingInvitation(req.params.token);
+
+    if (!invitation) {
+      await recordFailedAttempt(req, "invitation", tokenPourJournal(req.params.token), {
+        motif: "token_inconnu",
+      });
+      return res.status(404).json({
+        error: "Invitation invalide, expirée ou révoquée",
+      });
+    }
+
+    const [agence] = await db
+      .select({ nom: agences.nom })
+      .from(agences)
+      .where(eq(agences.id, invitation.agenceId))
+      .limit(1);
+
+    // Compte existant (membre d'une autre agence): l'invité confirme avec son mot de passe actuel
+    const [existing] = await db
+      .select({ id: utilisateurs.id })
+      .from(utilisateurs)
+      .where(eq(utilisateurs.email, invitation.email))
+      .limit(1);
+
+    res.json({
+      email: invitation.email,
+      prenom: invitation.prenom,
+      nom: invitation.nom,
+      role: invitation.role,
+      agenceNom: agence?.nom || null,
+      dateExpiration: invitation.dateExpiration,
+      compteExistant: !!existing,
+    });
+  } catch (error) {
+    console.error("Erreur lecture invitation:", error);
+    res.status(500).json({ error: "Erreur serveur" });
+  }
+});
+
+// ==========================================
+// POST /api/auth/invitation/accepter
+// Accepter une invitation: l'invité définit son mot de passe et son compte est créé
+// (ou confirme avec son mot de passe actuel s'il a déjà un compte dans une autre agence)
+// ==========================================
+router.post("/invitation/accepter", invitationGuard, async (req, res) => {
+  try {
+    const data = accepterInvitationSchema.parse(req.body);
+
+    const invitation = await findPendingInvitation(data.token);
+
+    if (!invitation) {
+      await recordFailedAttempt(req, "invitation", tokenPourJournal(data.token), {
+        motif: "token_inconnu",
+      });
+      return res.status(400).json({
+        error: "Invitation invalide, expirée ou révoquée",
+      });
+    }
+
+    const [existing] = await db
+      .select()
+      .from(utilisateurs)
+      .where(eq(utilisateurs.email, invitation.email))
+      .limit(1);
+
+    // Compte existant: le mot de passe saisi est celui du compte, l'agence est ajoutée à ses appartenances
+    if (existing) {
+      const isPasswordValid = await verifyPassword(
+        data.password,
+        existing.motDePasseHash
+      );
+      if (!isPasswordValid || !existing.actif) {
+        await recordFailedAttempt(req, "invitation", existing.email, {
+          motif: "mot_de_passe_incorrect",
+          agenceId: existing.agenceId,
+        });
+        return res.status(401).json({ error: "Mot de passe incorrect" });
+      }
+
+      await addMembership(
+        existing.id,
+        invitation.agenceId,
+        invitation.role as "member" | "model",
+        invitation.modeleId
+      );
+      await syncSeats(invitation.agenceId);
+
+      await db
+        .update(invitations)
+        .set({ statut: "accepte", dateAcceptation: new Date() })
+        .where(eq(invitations.id, invitation.id));
+
+      console.log(`✅ Invitation acceptée (compte existant): ${existing.email}`);
+
+      return res.json({
+        message:
+          "Invitation acceptée ! Sélectionnez la nouvelle agence depuis votre compte.",
+        success: true,
+        agenceId: invitation.agenceId,
+      });
+    }
+
+    // Validation force du mot de passe
+    const passwordValidation = validatePassword(data.password);
+    if (!passwordValidation.isValid) {
+      return res.status(400).json({ error: passwordValidation.error });
+    }
+
+    const prenom = data.prenom || invitation.prenom;
+    const nom = data.nom || invitation.nom;
+    if (!prenom || !nom) {
+      return res.status(400).json({ error: "Prénom et nom requis" });
+    }
+
+    const motDePasseHash = await hashPassword(data.password);
+    const userId = crypto.randomUUID();
+
+    await db.insert(utilisateurs).values({
+      id: userId,
+      prenom,
+      nom,
+      email: invitation.email,
+      motDePasseHash,
+      role: invitation.role,
+      agenceId: invitation.agenceId,
+      emailVerifie: true, // Le lien reçu par email prouve la possession de l'adresse
+      langue: data.langue,
+      dateCreation: new Date(),
+      actif: true,
+    });
+
+    await addMembership(
+      userId,
+      invitation.agenceId,
+      invitation.role as "member" | "model",
+      invitation.modeleId
+    );
+    await syncSeats(invitation.agenceId);
+
+    await db
+      .update(invitations)
+      .set({ statut: "accepte", dateAcceptation: new Date() })
+      .where(eq(invitations.id, invitation.id));
+
+    console.log(`✅ Invitation acceptée: ${prenom} ${nom} (${invitation.email})`);
+
+    res.status(201).json({
+      message: "Compte créé avec succès ! Vous pouvez maintenant vous connecter.",
+      success: true,
+    });
+  } catch (error: any) {
+    console.error("Erreur acceptation invitation:", error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Données invalides",
+        details: error.errors,
+      });
+    }
+
+    if (error?.code === "ER_DUP_ENTRY") {
+      return res.status(400).json({
+        error: "Un compte existe déjà avec cet email",
+      });
+    }
+
+    res.status(500).json({ error: "Erreur lors de l'acceptation de l'invitation" });
+  }
+});
+
+// ==========================================
+// POST /api/auth/agence-active
+// Changer d'agence: réémet le JWT de la session courante avec l'agence choisie
+// ==========================================
+router.post("/agence-active", authenticate, async (req, res) => {
+  try {
+    if (req.user?.isDemo || !req.sessionId) {
+      return res.status(403).json({ error: "Action impossible en mode démo" });
+    }
+
+    const { agenceId } = changerAgenceSchema.parse(req.body);
+
+    const membre = await findMembership(req.user!.id, agenceId);
+    if (!membre) {
+      return res
+        .status(403)
+        .json({ error: "Vous n'êtes pas membre de cette agence" });
+    }
+
+    const [agence] = await db
+      .select({ nom: agences.nom })
+      .from(agences)
+      .where(eq(agences.id, agenceId))
+      .limit(1);
+
+    if (!agence) {
+      return res.status(404).json({ error: "Agence non trouvée" });
+    }
+
+    // L'agence choisie devient celle de la session et l'agence par défaut du compte
+    await setSessionAgence(req.sessionId, membre.agenceId);
+    await setDefaultAgence(req.user!.id, membre);
+
+    res.cookie("auth_token", jwtPourAgence(req.user!.id, membre, req.sessionId), {
+      ...COOKIE_OPTIONS,
+      maxAge: ACCESS_TOKEN_TTL_MS,
+    });
+
+    res.json({
+      message: `Agence active: ${agence.nom}`,
+      agenceId: membre.agenceId,
+      role: membre.role,
+    });
+  } catch (error: any) {
+    console.error("Erreur changement d'agence:", error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Données invalides",
+        details: error.errors,
+      });
+    }
+
+    res.status(500).json({ error: "Erreur lors du changement d'agence" });
+  }
+});
+
+// ==========================================
+// GET /api/auth/moi
+// Récupérer les informations de l'utilisateur connecté
+// ==========================================
+router.get("/moi", authenticate, async (req, res) => {
+  try {
+    // Si c'est un utilisateur démo, retourner les infos virtuelles
+    if (req.user?.isDemo) {
+      return res.json({
+        id: req.user.id,
+        prenom: req.user.demoNom || "Visiteur",
+        nom: "Demo",
+        email: req.user.email,
+        role: req.user.role,
+        agenceId: req.user.agenceId,
+        emailVerifie: true,
+        dateCreation: new Date().toISOString(),
+        derniereConnexion: new Date().toISOString(),
+        isDemo: true,
+      });
+    }
+
+    const [user] = await db
+      .select({
+        id: utilisateurs.id,
+        prenom: utilisateurs.prenom,
+        nom: utilisateurs.nom,
+        email: utilisateurs.email,
+        role: utilisateurs.role,
+        agenceId: utilisateurs.agenceId,
+        emailVerifie: utilisateurs.emailVerifie,
+        emailEnAttente: utilisateurs.emailEnAttente,
+        totpActive: utilisateurs.totpActive,
+        dateCreation: utilisateurs.dateCreation,
+        derniereConnexion: utilisateurs.derniereConnexion,
+      })
+      .from(utilisateurs)
+      .where(eq(utilisateurs.id, req.user!.id))
+      .limit(1);
+
+    if (!user) {
+      return res.status(404).json({ error: "Utilisateur non trouvé" });
+    }
+
+    const membre = await findMembership(user.id, req.agenceId!);
+
+    res.json({
+      ...user,
+      // Rôle, agence et permissions de la session courante (l'agence sélectionnée)
+      role: req.user!.role,
+      agenceId: req.agenceId,
+      modeleId: membre?.modeleId ?? null,
+      permissions: membre ? await getMemberPermissions(membre) : [],
+      agences: await listMemberships(user.id),
+      // Session ouverte par un super-admin (support): à signaler clairement dans l'interface
+      impersonation: req.impersonation
+        ? {
+            id: req.impersonation.id,
+            adminId: req.impersonation.adminId,
+            modeEcriture: req.impersonation.modeEcriture,
+            dateExpiration: req.impersonation.dateExpiration,
+          }
+        : null,
+    });
+  } catch (error) {
+    console.error("Erreur récupération utilisateur:", error);
+    res.status(500).json({ error: "Erreur serveur" });
+  }
+});
+
+// ==========================================
+// PUT /api/auth/profil
+// Mettre à jour le profil utilisateur
+// ==========================================
+router.put("/profil", authenticate, async (req, res) => {
+  try {
+    const { prenom, nom } = req.body;
+
+    if (!prenom || !nom) {
+      return res.status(400).json({ error: "Prénom et nom requis" });
+    }
+
+    if (prenom.length < 2 || nom.length < 2) {
+      return res
+        .status(400)
+        .json({
+          error: "Le prénom et le nom doivent contenir au moins 2 caractères",
+        });
+    }
+
+    await db
+      .update(utilisateurs)
+      .set({ prenom, nom })
+      .where(eq(utilisateurs.id, req.user!.id));
+
+    res.json({ message: "Profil mis à jour", prenom, nom });
+  } catch (error) {
+    console.error("Erreur mise à jour profil:", error);
+    res.status(500).json({ error: "Erreur lors de la mise à jour" });
+  }
+});
+
+// ==========================================
+// PUT /api/auth/mot-de-passe
+// Changer son mot de passe (mot de passe actuel requis, autres sessions révoquées)
+// ==========================================
+router.put("/mot-de-passe", authenticate, reauthentificationGuard, async (req, res) => {
+  try {
+    if (req.user?.isDemo || !req.sessionId) {
+      return res.status(403).json({ error: "Action impossible en mode démo" });
+    }
+
+    const data = changerMotDePasseSchema.parse(req.body);
+
+    const [user] = await db
+      .select()
+      .from(utilisateurs)
+      .where(eq(utilisateurs.id, req.user!.id))
+      .limit(1);
+
+    if (!user) {
+      return res.status(404).json({ error: "Utilisateur non trouvé" });
+    }
+
+    const isPasswordValid = await verifyPassword(
+      data.motDePasseActuel,
+      user.motDePasseHash
+    );
+    if (!isPasswordValid) {
+      await recordFailedAttempt(req, "reauthentification", user.id, {
+        motif: "mot_de_passe_incorrect",
+        agenceId: user.agenceId,
+      });
+      return res.status(401).json({ error: "Mot de passe actuel incorrect" });
+    }
+
+    // Validation force du mot de passe
+    const passwordValidation = validatePassword(data.password);
+    if (!passwordValidation.isValid) {
+      return res.status(400).json({ error: passwordValidation.error });
+    }
+
+    if (await verifyPassword(data.password, user.motDePasseHash)) {
+      return res.status(400).json({
+        error: "Le nouveau mot de passe doit être différent de l'actuel",
+      });
+    }
+
+    const motDePasseHash = await hashPassword(data.password);
+
+    // Un éventuel lien de réinitialisation en cours devient caduc
+    await db
+      .update(utilisateurs)
+      .set({
+        motDePasseHash,
+        tokenResetPassword: null,
+        dateExpirationResetPassword: null,
+      })
+      .where(eq(utilisateurs.id, user.id));
+
+    // Révoquer toutes les autres sessions, la session courante reste ouverte
+    await db
+      .delete(sessions)
+      .where(
+        and(
+          eq(sessions.utilisateurId, user.id),
+          ne(sessions.id, req.sessionId)
+        )
+      );
+
+    await resetAttempts("reauthentification", user.id);
+    await sendSecurityNotice(
+      user.email,
+      "motDePasseModifie",
+      { prenom: user.prenom },
+      user.langue as Langue
+    );
+
+    res.json({
+      message: "Mot de passe modifié. Vos autres sessions ont été déconnectées.",
+    });
+  } catch (error: any) {
+    console.error("Erreur changement mot de passe:", error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Données invalides",
+        details: error.errors,
+      });
+    }
+
+    res.status(500).json({ error: "Erreur lors du changement de mot de passe" });
+  }
+});
+
+// ==========================================
+// POST /api/auth/email
+// Demander un changement d'email: le nouvel email reste en attente jusqu'à confirmation
+// ==========================================
+router.post("/email", authenticate, reauthentificationGuard, async (req, res) => {
+  try {
+    if (req.user?.isDemo) {
+      return res.status(403).json({ error: "Action impossible en mode démo" });
+    }
+
+    const { nouvelEmail, password } = changerEmailSchema.parse(req.body);
+
+    const [user] = await db
+      .select()
+      .from(utilisateurs)
+      .where(eq(utilisateurs.id, req.user!.id))
+      .limit(1);
+
+    if (!user) {
+      return res.status(404).json({ error: "Utilisateur non trouvé" });
+    }
+
+    const isPasswordValid = await verifyPassword(password, user.motDePasseHash);
+    if (!isPasswordValid) {
+      await recordFailedAttempt(req, "reauthentification", user.id, {
+        motif: "mot_de_passe_incorrect",
+        agenceId: user.agenceId,
+      });
+      return res.status(401).json({ error: "Mot de passe incorrect" });
+    }
+
+    await resetAttempts("reauthentification", user.id);
+
+    if (nouvelEmail.toLowerCase() === user.email.toLowerCase()) {
+      return res.status(400).json({
+        error: "Le nouvel email est identique à l'email actuel",
+      });
+    }
+
+    const [existing] = await db
+      .select({ id: utilisateurs.id })
+      .from(utilisateurs)
+      .where(eq(utilisateurs.email, nouvelEmail))
+      .limit(1);
+
+    if (existing) {
+      return res.status(409).json({ error: "Cet email est déjà utilisé" });
+    }
+
+    // Une nouvelle demande remplace la précédente (l'ancien lien devient invalide)
+    const token = generateToken();
+    const dateExpiration = new Date(Date.now() + CHANGEMENT_EMAIL_EXPIRATION_MS);
+
+    await db
+      .update(utilisateurs)
+      .set({
+        emailEnAttente: nouvelEmail,
+        tokenChangementEmail: hashToken(token),
+        dateExpirationChangementEmail: dateExpiration,
+      })
+      .where(eq(utilisateurs.id, user.id));
+
+    await sendEmailChangeConfirmation(
+      nouvelEmail,
+      user.prenom,
+      token,
+      CHANGEMENT_EMAIL_EXPIRATION_MS / 3600000,
+      user.langue as Langue
+    );
+    await sendSecurityNotice(
+      user.email,
+      "alerteChangementEmail",
+      { prenom: user.prenom, nouvelEmail },
+      user.langue as Langue
+    );
+
+    res.json({
+      message: "Un email de confirmation a été envoyé à la nouvelle adresse",
+      emailEnAttente: nouvelEmail,
+      // En dev uniquement, on retourne le lien de confirmation
+      ...(isDevMode && {
+        dev: {
+          confirmationUrl: `/api/auth/confirmer-email/${token}`,
+        },
+      }),
+    });
+  } catch (error: any) {
+    console.error("Erreur demande changement email:", error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Données invalides",
+        details: error.errors,
+      });
+    }
+
+    res.status(500).json({ error: "Erreur lors de la demande de changement d'email" });
+  }
+});
+
+// ==========================================
+// DELETE /api/auth/email
+// Annuler un changement d'email en attente
+// ==========================================
+router.delete("/email", authenticate, async (req, res) => {
+  try {
+    if (req.user?.isDemo) {
+      return res.status(403).json({ error: "Action impossible en mode démo" });
+    }
+
+    await db
+      .update(utilisateurs)
+      .set({
+        emailEnAttente: null,
+        tokenChangementEmail: null,
+        dateExpirationChangementEmail: null,
+      })
+      .where(eq(utilisateurs.id, req.user!.id));
+
+    res.json({ message: "Changement d'email annulé" });
+  } catch (error) {
+    console.error("Erreur annulation changement email:", error);
+    res.status(500).json({ error: "Erreur lors de l'annulation" });
+  }
+});
+
+// ==========================================
+// GET /api/auth/confirmer-email/:token
+// Confirmer le nouvel email depuis le lien reçu sur la nouvelle adresse
+// ==========================================
+router.get("/confirmer-email/:token", async (req, res) => {
+  try {
+    const [user] = await db
+      .select()
+      .from(utilisateurs)
+      .where(
+        and(
+          eq(utilisateurs.tokenChangementEmail, hashToken(req.params.token)),
+          gt(utilisateurs.dateExpirationChangementEmail, new Date())
+        )
+      )
+      .limit(1);
+
+    if (!user || !user.emailEnAttente) {
+      return res.status(400).json({
+        error: "Lien de confirmation invalide ou expiré",
+      });
+    }
+
+    // Consommer le token dans tous les cas (usage unique)
+    const demandeConsommee = {
+      emailEnAttente: null,
+      tokenChangementEmail: null,
+      dateExpirationChangementEmail: null,
+    };
+
+    try {
+      await db
+        .update(utilisateurs)
+        .set({ email: user.emailEnAttente, ...demandeConsommee })
+        .where(eq(utilisateurs.id, user.id));
+    } catch (error: any) {
+      // L'adresse a été prise par un autre compte depuis la demande
+      if (error?.code === "ER_DUP_ENTRY") {
+        await db
+          .update(utilisateurs)
+          .set(demandeConsommee)
+          .where(eq(utilisateurs.id, user.id));
+
+        return res.status(409).json({
+          error: "Cet email est déjà utilisé par un autre compte",
+        });
+      }
+      throw error;
+    }
+
+    console.log(`✉️  Email modifié: ${user.email} -> ${user.emailEnAttente}`);
+
+    res.json({
+      message: "Adresse email confirmée ! Utilisez-la désormais pour vous connecter.",
+      success: true,
+    });
+  } catch (error) {
+    console.error("Erreur confirmation changement email:", error);
+    res.status(500).json({ error: "Erreur lors de la confirmation de l'email" });
   }
 });
 
@@ -429,14 +1900,15 @@ router.get("/compte", authenticate, async (req, res) => {
         nom: agences.nom,
         plan: agences.plan,
         statutAbonnement: agences.statutAbonnement,
+        deuxFacteursObligatoire: agences.deuxFacteursObligatoire,
         dateCreation: agences.dateCreation,
       })
       .from(agences)
-      .where(eq(agences.id, user.agenceId))
+      .where(eq(agences.id, req.agenceId!))
       .limit(1);
 
     res.json({
-      user,
+      user: { ...user, role: req.user!.role, agenceId: req.agenceId },
       agence: agence || null,
     });
   } catch (error) {
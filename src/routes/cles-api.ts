@@ -0,0 +1,203 @@
+// ==========================================
+// ROUTES CLÉS API
+// Création, liste et révocation des clés d'accès programmatique
+// Clés personnelles (tout utilisateur) et clés d'agence (Owner uniquement)
+// ==========================================
+
+import { Router } from "express";
+import { db } from "../db";
+import { clesApi, utilisateurs } from "../schema";
+import { eq, and, desc } from "drizzle-orm";
+import { authenticate } from "../middleware/auth";
+import {
+  generateApiKey,
+  PERMISSIONS_API,
+  RESSOURCES_API,
+  type PermissionApi,
+} from "../lib/api-keys";
+import { z } from "zod";
+
+const router = Router();
+
+// Toutes les routes requièrent une session (une clé API ne peut pas gérer les clés)
+router.use(authenticate);
+
+router.use((req, res, next) => {
+  if (req.user?.isDemo) {
+    return res.status(403).json({ error: "Action impossible en mode démo" });
+  }
+  next();
+});
+
+// ==========================================
+// SCHÉMAS DE VALIDATION
+// ==========================================
+
+/**
+ * Schéma de validation pour la création d'une clé API
+ * @property {string} nom - Libellé de la clé (ex: "Import transactions")
+ * @property {"personnelle" | "agence"} type - Clé liée à l'utilisateur ou à l'agence
+ * @property {string[]} permissions - Permissions "<ressource>:read|write"
+ * @property {number} joursValidite - Durée de validité optionnelle en jours
+ */
+const creerCleSchema = z.object({
+  nom: z.string().min(2, "Le nom doit contenir au moins 2 caractères").max(100),
+  type: z.enum(["personnelle", "agence"]).default("personnelle"),
+  permissions: z
+    .array(
+      z.string().refine((p) => PERMISSIONS_API.includes(p as PermissionApi), {
+        message: "Permission inconnue",
+      }),
+    )
+    .min(1, "Au moins une permission est requise"),
+  joursValidite: z.number().int().positive().max(365).optional(),
+});
+
+// Colonnes exposées (jamais le hash)
+const colonnesCle = {
+  id: clesApi.id,
+  nom: clesApi.nom,
+  prefixe: clesApi.prefixe,
+  utilisateurId: clesApi.utilisateurId,
+  permissions: clesApi.permissions,
+  creePar: clesApi.creePar,
+  dateCreation: clesApi.dateCreation,
+  dateExpiration: clesApi.dateExpiration,
+  derniereUtilisation: clesApi.derniereUtilisation,
+  derniereIp: clesApi.derniereIp,
+  dateRevocation: clesApi.dateRevocation,
+};
+
+// ==========================================
+// GET /api/cles-api/permissions
+// Liste des ressources et permissions attribuables
+// ==========================================
+router.get("/permissions", (_req, res) => {
+  res.json({ ressources: RESSOURCES_API, permissions: PERMISSIONS_API });
+});
+
+// ==========================================
+// GET /api/cles-api
+// Owner: toutes les clés de l'agence / autres rôles: leurs clés personnelles
+// ==========================================
+router.get("/", async (req, res) => {
+  try {
+    const conditions = [eq(clesApi.agenceId, req.agenceId!)];
+    if (req.user!.role !== "owner") {
+      conditions.push(eq(clesApi.utilisateurId, req.user!.id));
+    }
+
+    const cles = await db
+      .select({ ...colonnesCle, utilisateurEmail: utilisateurs.email })
+      .from(clesApi)
+      .leftJoin(utilisateurs, eq(clesApi.utilisateurId, utilisateurs.id))
+      .where(and(...conditions))
+      .orderBy(desc(clesApi.dateCreation));
+
+    res.json(cles);
+  } catch (error) {
+    console.error("Erreur liste clés API:", error);
+    res.status(500).json({ error: "Erreur lors du chargement" });
+  }
+});
+
+// ==========================================
+// POST /api/cles-api
+// Créer une clé API (la clé en clair n'est retournée qu'une seule fois)
+// ==========================================
+router.post("/", async (req, res) => {
+  try {
+    const data = creerCleSchema.parse(req.body);
+
+    if (data.type === "agence" && req.user!.role !== "owner") {
+      return res.status(403).json({
+        error: "Seul un owner peut créer une clé d'agence",
+      });
+    }
+
+    const { cle, prefixe, cleHash } = generateApiKey();
+
+    let dateExpiration: Date | null = null;
+    if (data.joursValidite) {
+      dateExpiration = new Date();
+      dateExpiration.setDate(dateExpiration.getDate() + data.joursValidite);
+    }
+
+    const id = crypto.randomUUID();
+    await db.insert(clesApi).values({
+      id,
+      agenceId: req.agenceId!,
+      utilisateurId: data.type === "personnelle" ? req.user!.id : null,
+      nom: data.nom,
+      prefixe,
+      cleHash,
+      permissions: [...new Set(data.permissions)],
+      creePar: req.user!.id,
+      dateCreation: new Date(),
+      dateExpiration,
+    });
+
+    const [created] = await db
+      .select(colonnesCle)
+      .from(clesApi)
+      .where(eq(clesApi.id, id))
+      .limit(1);
+
+    res.status(201).json({
+      ...created,
+      cle,
+      message: "Copiez cette clé maintenant, elle ne sera plus affichée",
+    });
+  } catch (error: any) {
+    console.error("Erreur création clé API:", error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Données invalides",
+        details: error.errors,
+      });
+    }
+
+    res.status(500).json({ error: "Erreur lors de la création" });
+  }
+});
+
+// ==========================================
+// DELETE /api/cles-api/:id
+// Révoquer une clé (Owner: toutes les clés de l'agence / autres: leurs clés personnelles)
+// ==========================================
+router.delete("/:id", async (req, res) => {
+  try {
+    const [cleApi] = await db
+      .select()
+      .from(clesApi)
+      .where(
+        and(eq(clesApi.id, req.params.id), eq(clesApi.agenceId, req.agenceId!)),
+      )
+      .limit(1);
+
+    if (
+      !cleApi ||
+      (req.user!.role !== "owner" && cleApi.utilisateurId !== req.user!.id)
+    ) {
+      return res.status(404).json({ error: "Clé API non trouvée" });
+    }
+
+    if (cleApi.dateRevocation) {
+      return res.status(400).json({ error: "Cette clé est déjà révoquée" });
+    }
+
+    // Révoquer plutôt que supprimer (pour garder l'historique d'utilisation)
+    await db
+      .update(clesApi)
+      .set({ dateRevocation: new Date() })
+      .where(eq(clesApi.id, cleApi.id));
+
+    res.json({ message: "Clé API révoquée avec succès" });
+  } catch (error) {
+    console.error("Erreur révocation clé API:", error);
+    res.status(500).json({ error: "Erreur lors de la révocation" });
+  }
+});
+
+export default router;
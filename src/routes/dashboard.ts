@@ -12,13 +12,16 @@ import {
   postsAnalytics,
 } from "../schema";
 import { eq, and, sql } from "drizzle-orm";
-import { authenticate } from "../middleware/auth";
+import { authenticate, requireResourcePermission } from "../middleware/auth";
 
 const router = Router();
 
 // Toutes les routes requièrent l'authentification
 router.use(authenticate);
 
+// Lecture / écriture selon les permissions du rôle
+router.use(requireResourcePermission("dashboard"));
+
 // ====================================================================================================
 /**
  * GET /api/dashboard/stats
@@ -3,21 +3,76 @@
 // Validation et accès via liens temporaires
 // ==========================================
 
-import { Router } from "express";
+import { Router, type Response } from "express";
 import { db } from "../db";
-import { accesTemporaires, agences } from "../schema";
+import { accesTemporaires, agences, type AccesTemporaire } from "../schema";
 import { eq, and } from "drizzle-orm";
 import jwt from "jsonwebtoken";
+import {
+  bruteForceGuard,
+  recordFailedAttempt,
+  tokenPourJournal,
+} from "../lib/brute-force";
+import {
+  createSession,
+  rotateSession,
+  ACCESS_TOKEN_TTL_MS,
+} from "../lib/sessions";
+import { isAgenceActive } from "../lib/memberships";
 
 const router = Router();
 
 const JWT_SECRET = process.env.JWT_SECRET || "onlytrack-super-secret";
 
+// Protection contre la devinette de tokens (compteur par IP)
+const tokenGuard = bruteForceGuard("demo");
+
+// Options communes des cookies démo
+const DEMO_COOKIE_OPTIONS = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax" as const,
+};
+
+/**
+ * Émet le JWT d'accès démo (courte durée) et le refresh token associé
+ */
+function definirCookiesDemo(
+  res: Response,
+  acces: AccesTemporaire,
+  sessionId: string,
+  refreshToken: string,
+  dateExpiration: Date
+) {
+  const demoToken = jwt.sign(
+    {
+      type: "demo",
+      accesId: acces.id,
+      agenceId: acces.agenceId,
+      nom: acces.nom,
+      sessionId,
+    },
+    JWT_SECRET,
+    { expiresIn: ACCESS_TOKEN_TTL_MS / 1000 }
+  );
+
+  res.cookie("demo_token", demoToken, {
+    ...DEMO_COOKIE_OPTIONS,
+    path: "/", // Important: cookie disponible sur toutes les routes
+    maxAge: ACCESS_TOKEN_TTL_MS,
+  });
+  res.cookie("demo_refresh_token", refreshToken, {
+    ...DEMO_COOKIE_OPTIONS,
+    path: "/api/demo",
+    maxAge: dateExpiration.getTime() - Date.now(),
+  });
+}
+
 // ==========================================
 // GET /api/demo/validate/:token
 // Valider un lien de démo
 // ==========================================
-router.get("/validate/:token", async (req, res) => {
+router.get("/validate/:token", tokenGuard, async (req, res) => {
   try {
     const { token } = req.params;
 
@@ -29,6 +84,9 @@ router.get("/validate/:token", async (req, res) => {
       .limit(1);
 
     if (!acces) {
+      await recordFailedAttempt(req, "demo", tokenPourJournal(token), {
+        motif: "token_inconnu",
+      });
       return res.status(404).json({ error: "Lien non trouvé" });
     }
 
@@ -40,6 +98,10 @@ router.get("/validate/:token", async (req, res) => {
       return res.status(403).json({ error: "Ce lien a expiré" });
     }
 
+    if (!(await isAgenceActive(acces.agenceId))) {
+      return res.status(403).json({ error: "Cette agence est suspendue" });
+    }
+
     // Récupérer le nom de l'agence
     const [agence] = await db
       .select({ nom: agences.nom })
@@ -62,7 +124,7 @@ router.get("/validate/:token", async (req, res) => {
 // POST /api/demo/access/:token
 // Accéder à l'app via le lien de démo
 // ==========================================
-router.post("/access/:token", async (req, res) => {
+router.post("/access/:token", tokenGuard, async (req, res) => {
   try {
     const { token } = req.params;
 
@@ -74,6 +136,9 @@ router.post("/access/:token", async (req, res) => {
       .limit(1);
 
     if (!acces) {
+      await recordFailedAttempt(req, "demo", tokenPourJournal(token), {
+        motif: "token_inconnu",
+      });
       return res.status(404).json({ error: "Lien non trouvé" });
     }
 
@@ -85,26 +150,25 @@ router.post("/access/:token", async (req, res) => {
       return res.status(403).json({ error: "Ce lien a expiré" });
     }
 
-    // Créer un JWT pour l'accès démo
-    const demoToken = jwt.sign(
-      {
-        type: "demo",
-        accesId: acces.id,
-        agenceId: acces.agenceId,
-        nom: acces.nom,
-      },
-      JWT_SECRET,
-      { expiresIn: "24h" }
+    if (!(await isAgenceActive(acces.agenceId))) {
+      return res.status(403).json({ error: "Cette agence est suspendue" });
+    }
+
+    // Créer la session démo (bornée par l'expiration du lien)
+    const { session, refreshToken } = await createSession(
+      req,
+      acces.id,
+      "demo",
+      acces.dateExpiration
     );
 
-    // Définir le cookie de session démo
-    res.cookie("demo_token", demoToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      path: "/", // Important: cookie disponible sur toutes les routes
-      maxAge: 24 * 60 * 60 * 1000, // 24 heures
-    });
+    definirCookiesDemo(
+      res,
+      acces,
+      session.id,
+      refreshToken,
+      session.dateExpiration
+    );
 
     res.json({ message: "Accès autorisé", agenceId: acces.agenceId });
   } catch (error) {
@@ -113,4 +177,56 @@ router.post("/access/:token", async (req, res) => {
   }
 });
 
+// ==========================================
+// POST /api/demo/refresh
+// Renouveler le token démo (rotation du refresh token)
+// ==========================================
+router.post("/refresh", async (req, res) => {
+  try {
+    const refreshToken = req.cookies.demo_refresh_token;
+
+    if (!refreshToken) {
+      return res.status(401).json({ error: "Refresh token manquant" });
+    }
+
+    const rotation = await rotateSession(refreshToken, "demo");
+
+    if (rotation.statut !== "ok") {
+      res.clearCookie("demo_token");
+      res.clearCookie("demo_refresh_token", { path: "/api/demo" });
+      return res.status(401).json({ error: "Session démo expirée" });
+    }
+
+    // Le lien doit toujours être actif
+    const [acces] = await db
+      .select()
+      .from(accesTemporaires)
+      .where(eq(accesTemporaires.id, rotation.session.utilisateurId))
+      .limit(1);
+
+    if (
+      !acces ||
+      !acces.actif ||
+      (acces.dateExpiration && new Date(acces.dateExpiration) < new Date())
+    ) {
+      res.clearCookie("demo_token");
+      res.clearCookie("demo_refresh_token", { path: "/api/demo" });
+      return res.status(403).json({ error: "Ce lien a expiré ou a été révoqué" });
+    }
+
+    definirCookiesDemo(
+      res,
+      acces,
+      rotation.session.id,
+      rotation.refreshToken,
+      rotation.session.dateExpiration
+    );
+
+    res.json({ message: "Session démo renouvelée" });
+  } catch (error) {
+    console.error("Erreur refresh démo:", error);
+    res.status(500).json({ error: "Erreur serveur" });
+  }
+});
+
 export default router;
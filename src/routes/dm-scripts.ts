@@ -7,13 +7,20 @@ import { Router } from "express";
 import { db } from "../db";
 import { scriptsDm } from "../schema";
 import { eq } from "drizzle-orm";
-import { authenticate } from "../middleware/auth";
+import { authenticate, requireResourcePermission } from "../middleware/auth";
+import { requireActiveSubscription } from "../lib/plans";
 
 const router = Router();
 
 // Toutes les routes requièrent l'authentification
 router.use(authenticate);
 
+// Agence suspendue pour impayé (délai de grâce écoulé): lecture seule
+router.use(requireActiveSubscription);
+
+// Lecture / écriture selon les permissions du rôle
+router.use(requireResourcePermission("dm-scripts"));
+
 // ====================================================================================================
 /**
  * GET /api/dm-scripts
@@ -5,14 +5,37 @@
 
 import { Router } from "express";
 import { db } from "../db";
-import { utilisateurs, invitations, agences } from "../schema";
 import {
-  hashPassword,
-  generateToken,
-  generateSecurePassword,
-} from "../lib/auth";
-import { authenticate, requireRole } from "../middleware/auth";
-import { eq, and } from "drizzle-orm";
+  utilisateurs,
+  invitations,
+  agences,
+  sessions,
+  membresAgence,
+  rolesAgence,
+  modeles,
+  taches,
+  tentativesEchouees,
+  type Invitation,
+} from "../schema";
+import { hashPassword, verifyPassword } from "../lib/auth";
+import { authenticate, requirePermission, requireRole } from "../middleware/auth";
+import { bruteForceGuard, recordFailedAttempt } from "../lib/brute-force";
+import { isDevMode } from "../lib/mail";
+import {
+  addMembership,
+  countOwners,
+  findMembership,
+  setDefaultAgence,
+} from "../lib/memberships";
+import {
+  INVITATION_EXPIRATION_MS,
+  generateInvitationToken,
+  invitationLink,
+  sendInvitation,
+} from "../lib/invitations";
+import { syncSeats } from "../lib/catalogue";
+import { requireActiveSubscription, requireQuota } from "../lib/plans";
+import { eq, and, inArray, desc } from "drizzle-orm";
 import { z } from "zod";
 
 const router = Router();
@@ -20,6 +43,35 @@ const router = Router();
 // Toutes les routes requièrent authentification
 router.use(authenticate);
 
+// Agence suspendue pour impayé (délai de grâce écoulé): lecture seule
+router.use(requireActiveSubscription);
+
+/**
+ * Vérifie la fiche modèle à lier à un compte de l'agence
+ * @returns Message d'erreur, ou null si la fiche peut être liée
+ */
+async function verifierModele(
+  modeleId: string | null | undefined,
+  role: string,
+  agenceId: string,
+): Promise<string | null> {
+  if (!modeleId) {
+    return null;
+  }
+
+  if (role !== "model") {
+    return 'Seul un compte "model" peut être lié à une fiche modèle';
+  }
+
+  const [modele] = await db
+    .select({ id: modeles.id })
+    .from(modeles)
+    .where(and(eq(modeles.id, modeleId), eq(modeles.agenceId, agenceId)))
+    .limit(1);
+
+  return modele ? null : "Modèle non trouvé";
+}
+
 // ==========================================
 // SCHÉMAS DE VALIDATION
 // ==========================================
@@ -30,6 +82,7 @@ router.use(authenticate);
  * @property {string} nom - Nom du membre (min 2 caractères)
  * @property {string} email - Email valide du membre
  * @property {"member" | "model"} role - Rôle du membre dans l'agence
+ * @property {string} modeleId - Fiche modèle du compte (rôle "model", optionnel)
  */
 const inviterMembreSchema = z.object({
   prenom: z.string().min(2, "Le prénom doit contenir au moins 2 caractères"),
@@ -38,13 +91,33 @@ const inviterMembreSchema = z.object({
   role: z.enum(["member", "model"], {
     errorMap: () => ({ message: 'Le rôle doit être "member" ou "model"' }),
   }),
+  modeleId: z.string().optional(),
 });
 
+/**
+ * Schéma de validation pour le transfert de propriété
+ * @property {string} nouveauOwnerId - Membre actif qui devient owner
+ * @property {string} motDePasse - Mot de passe de l'owner actuel (confirmation)
+ * @property {boolean} conserverOwner - L'owner actuel reste owner (copropriété)
+ */
+const transfertProprieteSchema = z.object({
+  nouveauOwnerId: z.string().min(1, "Nouveau owner requis"),
+  motDePasse: z.string().min(1, "Mot de passe requis"),
+  conserverOwner: z.boolean().default(false),
+});
+
+// Confirmation par mot de passe (compteurs par IP et par compte)
+const reauthentificationGuard = bruteForceGuard(
+  "reauthentification",
+  (req) => req.user?.id,
+);
+
 // ====================================================================================================
 /**
  * GET /api/equipe
  * 
- * Récupère la liste complète des membres de l'équipe de l'agence connectée.
+ * Récupère la liste complète des membres de l'équipe de l'agence connectée
+ * (membres désactivés inclus, avec actif = false).
  * Nécessite une authentification.
  * 
  * @route GET /api/equipe
@@ -52,7 +125,7 @@ const inviterMembreSchema = z.object({
  * @returns {Array} Liste des membres avec leurs informations (sans mot de passe)
  * @throws {500} Erreur serveur
  */
-router.get("/", async (req, res) => {
+router.get("/", requirePermission("equipe:read"), async (req, res) => {
   try {
     const membres = await db
       .select({
@@ -60,15 +133,21 @@ router.get("/", async (req, res) => {
         prenom: utilisateurs.prenom,
         nom: utilisateurs.nom,
         email: utilisateurs.email,
-        role: utilisateurs.role,
+        role: membresAgence.role,
+        roleId: membresAgence.roleId,
+        modeleId: membresAgence.modeleId,
         emailVerifie: utilisateurs.emailVerifie,
+        totpActive: utilisateurs.totpActive,
         dateCreation: utilisateurs.dateCreation,
+        dateAdhesion: membresAgence.dateCreation,
         derniereConnexion: utilisateurs.derniereConnexion,
-        actif: utilisateurs.actif,
+        actif: membresAgence.actif,
+        dateDesactivation: membresAgence.dateDesactivation,
       })
-      .from(utilisateurs)
-      .where(eq(utilisateurs.agenceId, req.agenceId!))
-      .orderBy(utilisateurs.dateCreation);
+      .from(membresAgence)
+      .innerJoin(utilisateurs, eq(membresAgence.utilisateurId, utilisateurs.id))
+      .where(eq(membresAgence.agenceId, req.agenceId!))
+      .orderBy(membresAgence.dateCreation);
 
     res.json(membres);
   } catch (error) {
@@ -80,99 +159,90 @@ router.get("/", async (req, res) => {
 // ==========================================
 // POST /api/equipe/inviter
 // Inviter un nouveau membre (Owner uniquement)
-// Génère un mot de passe et envoie par email
+// L'invitation reste en attente jusqu'à ce que l'invité définisse son mot de passe
+// Une invitation en attente occupe un siège du plan
 // ==========================================
-router.post("/inviter", requireRole("owner"), async (req, res) => {
+router.post("/inviter", requirePermission("equipe:write"), requireQuota("sieges"), async (req, res) => {
   try {
     // Validation
     const data = inviterMembreSchema.parse(req.body);
 
-    // Vérifier si l'email existe déjà dans cette agence
+    const erreurModele = await verifierModele(data.modeleId, data.role, req.agenceId!);
+    if (erreurModele) {
+      return res.status(400).json({ error: erreurModele });
+    }
+
+    // Un compte existant peut être invité s'il n'est pas déjà membre de cette agence
     const [existing] = await db
-      .select()
+      .select({ id: utilisateurs.id })
       .from(utilisateurs)
+      .where(eq(utilisateurs.email, data.email))
+      .limit(1);
+
+    if (existing && (await findMembership(existing.id, req.agenceId!))) {
+      return res.status(400).json({
+        error: "Un membre avec cet email existe déjà dans votre agence",
+      });
+    }
+
+    // Une seule invitation en attente par email et par agence
+    const [pending] = await db
+      .select({ id: invitations.id })
+      .from(invitations)
       .where(
         and(
-          eq(utilisateurs.email, data.email),
-          eq(utilisateurs.agenceId, req.agenceId!),
+          eq(invitations.email, data.email),
+          eq(invitations.agenceId, req.agenceId!),
+          eq(invitations.statut, "en_attente"),
         ),
       )
       .limit(1);
 
-    if (existing) {
+    if (pending) {
       return res.status(400).json({
-        error: "Un membre avec cet email existe déjà dans votre agence",
+        error:
+          "Une invitation est déjà en attente pour cet email, renvoyez-la plutôt",
       });
     }
 
-    // TODO: Vérifier les limites de plan (free = max 3 membres, premium = max 10)
-    // const membres = await db.select().from(utilisateurs).where(eq(utilisateurs.agenceId, req.agenceId!));
-    // if (plan === 'free' && membres.length >= 3) { ... }
-
-    // Générer un mot de passe sécurisé
-    const motDePasse = generateSecurePassword();
-    const motDePasseHash = await hashPassword(motDePasse);
-
-    // Créer le compte
-    const membreId = crypto.randomUUID();
-    await db.insert(utilisateurs).values({
-      id: membreId,
-      prenom: data.prenom,
-      nom: data.nom,
-      email: data.email,
-      motDePasseHash,
-      role: data.role,
-      agenceId: req.agenceId!,
-      emailVerifie: true, // Compte créé par l'owner = email vérifié
-      dateCreation: new Date(),
-      actif: true,
-    });
-
-    // Créer l'invitation pour traçabilité
-    const token = generateToken();
-    const dateExpiration = new Date();
-    dateExpiration.setDate(dateExpiration.getDate() + 2); // 48h
-
-    await db.insert(invitations).values({
+    const { token, tokenHash } = generateInvitationToken();
+    const invitation: Invitation = {
       id: crypto.randomUUID(),
       email: data.email,
+      prenom: data.prenom,
+      nom: data.nom,
       agenceId: req.agenceId!,
       role: data.role,
-      token,
-      statut: "accepte", // Déjà acceptée car compte créé
+      modeleId: data.modeleId || null,
+      token: tokenHash,
+      statut: "en_attente",
       invitePar: req.user!.id,
       dateCreation: new Date(),
-      dateExpiration,
-    });
-
-    // Récupérer le nom de l'agence pour l'email
-    const [agence] = await db
-      .select({ nom: agences.nom })
-      .from(agences)
-      .where(eq(agences.id, req.agenceId!))
-      .limit(1);
-
-    // TODO: Envoyer l'email avec les credentials
-    // await sendInvitationEmail(data.email, motDePasse, agence.nom);
+      dateExpiration: new Date(Date.now() + INVITATION_EXPIRATION_MS),
+      dateAcceptation: null,
+    };
 
-    console.log(`✉️  Invitation envoyée (DEV):`);
-    console.log(`   Email: ${data.email}`);
-    console.log(`   Mot de passe: ${motDePasse}`);
-    console.log(`   Agence: ${agence?.nom || "Unknown"}`);
+    await db.insert(invitations).values(invitation);
+    await sendInvitation(invitation, token);
 
     res.status(201).json({
-      message: "Membre invité avec succès",
-      membre: {
-        id: membreId,
+      message: "Invitation envoyée avec succès",
+      invitation: {
+        id: invitation.id,
         prenom: data.prenom,
         nom: data.nom,
         email: data.email,
         role: data.role,
+        modeleId: invitation.modeleId,
+        statut: invitation.statut,
+        dateExpiration: invitation.dateExpiration,
       },
-      // En dev, on retourne le mot de passe
-      dev: {
-        password: motDePasse,
-      },
+      // En dev uniquement, on retourne le lien d'acceptation
+      ...(isDevMode && {
+        dev: {
+          lien: invitationLink(token),
+        },
+      }),
     });
   } catch (error: any) {
     console.error("Erreur invitation membre:", error);
@@ -202,11 +272,12 @@ router.post("/inviter", requireRole("owner"), async (req, res) => {
  * @body {string} email - Email unique du membre
  * @body {string} motDePasse - Mot de passe (min 6 caractères)
  * @body {"member" | "model"} role - Rôle du membre
+ * @body {string} modeleId - Fiche modèle du compte (rôle "model", optionnel)
  * @returns {201} Informations du membre créé
  * @throws {400} Données invalides ou email déjà utilisé
  * @throws {500} Erreur serveur
  */
-router.post("/creer", requireRole("owner"), async (req, res) => {
+router.post("/creer", requirePermission("equipe:write"), requireQuota("sieges"), async (req, res) => {
   try {
     // Validation avec mot de passe
     const schema = z.object({
@@ -221,10 +292,16 @@ router.post("/creer", requireRole("owner"), async (req, res) => {
       role: z.enum(["member", "model"], {
         errorMap: () => ({ message: 'Le rôle doit être "member" ou "model"' }),
       }),
+      modeleId: z.string().optional(),
     });
 
     const data = schema.parse(req.body);
 
+    const erreurModele = await verifierModele(data.modeleId, data.role, req.agenceId!);
+    if (erreurModele) {
+      return res.status(400).json({ error: erreurModele });
+    }
+
     // Vérifier si l'email existe déjà
     const [existing] = await db
       .select()
@@ -234,7 +311,8 @@ router.post("/creer", requireRole("owner"), async (req, res) => {
 
     if (existing) {
       return res.status(400).json({
-        error: "Un utilisateur avec cet email existe déjà",
+        error:
+          "Un utilisateur avec cet email existe déjà, invitez-le pour l'ajouter à votre agence",
       });
     }
 
@@ -256,6 +334,9 @@ router.post("/creer", requireRole("owner"), async (req, res) => {
       actif: true,
     });
 
+    await addMembership(membreId, req.agenceId!, data.role, data.modeleId);
+    await syncSeats(req.agenceId!);
+
     console.log(`✅ Membre créé: ${data.prenom} ${data.nom} (${data.email})`);
 
     res.status(201).json({
@@ -266,6 +347,7 @@ router.post("/creer", requireRole("owner"), async (req, res) => {
         nom: data.nom,
         email: data.email,
         role: data.role,
+        modeleId: data.role === "model" ? data.modeleId || null : null,
       },
     });
   } catch (error: any) {
@@ -284,57 +366,268 @@ router.post("/creer", requireRole("owner"), async (req, res) => {
 
 // ==========================================
 // DELETE /api/equipe/:id
-// Supprimer un membre de l'équipe (Owner uniquement)
+// Désactiver un membre de l'équipe (Owner uniquement)
+// Le compte et son historique sont conservés: ses sessions sur l'agence sont révoquées
+// et ses tâches ouvertes réassignées (body optionnel: { reassignerA: id d'un membre actif })
 // ==========================================
-router.delete("/:id", requireRole("owner"), async (req, res) => {
+router.delete("/:id", requirePermission("equipe:write"), async (req, res) => {
   try {
     const { id } = req.params;
+    const { reassignerA = req.user!.id } = z
+      .object({ reassignerA: z.string().optional() })
+      .parse(req.body ?? {});
 
-    // Vérifier que l'utilisateur appartient à l'agence
+    // Vérifier que l'utilisateur est membre actif de l'agence
+    const membre = await findMembership(id, req.agenceId!);
+
+    if (!membre) {
+      return res.status(404).json({ error: "Membre non trouvé" });
+    }
+
+    // Empêcher de se désactiver soi-même
+    if (id === req.user!.id) {
+      return res.status(400).json({
+        error: "Vous ne pouvez pas désactiver votre propre compte",
+      });
+    }
+
+    // Seul un owner peut retirer un owner
+    if (membre.role === "owner" && req.user!.role !== "owner") {
+      return res.status(403).json({
+        error: "Seul un owner peut retirer un owner",
+      });
+    }
+
+    // Empêcher de retirer le dernier owner
+    if (membre.role === "owner" && (await countOwners(req.agenceId!)) <= 1) {
+      return res.status(400).json({
+        error: "Impossible de retirer le dernier propriétaire de l'agence",
+      });
+    }
+
+    // Les tâches ouvertes passent à un autre membre actif
+    if (reassignerA === id || !(await findMembership(reassignerA, req.agenceId!))) {
+      return res.status(400).json({
+        error: "Les tâches doivent être réassignées à un autre membre actif",
+      });
+    }
+
+    const [compte, repreneur] = await Promise.all(
+      [id, reassignerA].map(async (utilisateurId) => {
+        const [u] = await db
+          .select({
+            prenom: utilisateurs.prenom,
+            nom: utilisateurs.nom,
+            agenceId: utilisateurs.agenceId,
+          })
+          .from(utilisateurs)
+          .where(eq(utilisateurs.id, utilisateurId))
+          .limit(1);
+        return u;
+      }),
+    );
+
+    await db
+      .update(membresAgence)
+      .set({ actif: false, dateDesactivation: new Date() })
+      .where(eq(membresAgence.id, membre.id));
+    await syncSeats(req.agenceId!);
+
+    // Fermer ses sessions ouvertes sur cette agence (ses clés API personnelles cessent de fonctionner)
+    await db
+      .delete(sessions)
+      .where(
+        and(eq(sessions.utilisateurId, id), eq(sessions.agenceId, req.agenceId!)),
+      );
+
+    // assigneA contient le nom de la personne assignée (ou son id)
+    const [reassignation] = await db
+      .update(taches)
+      .set({ assigneA: `${repreneur.prenom} ${repreneur.nom}` })
+      .where(
+        and(
+          eq(taches.agenceId, req.agenceId!),
+          eq(taches.terminee, false),
+          inArray(taches.assigneA, [id, `${compte.prenom} ${compte.nom}`]),
+        ),
+      );
+
+    // Déplacer son agence par défaut s'il appartient à d'autres agences
+    if (compte.agenceId === req.agenceId) {
+      const [autreAppartenance] = await db
+        .select()
+        .from(membresAgence)
+        .where(
+          and(eq(membresAgence.utilisateurId, id), eq(membresAgence.actif, true)),
+        )
+        .orderBy(membresAgence.dateCreation)
+        .limit(1);
+
+      if (autreAppartenance) {
+        await setDefaultAgence(id, autreAppartenance);
+      }
+    }
+
+    res.json({
+      message: "Membre désactivé avec succès",
+      tachesReassignees: reassignation.affectedRows,
+    });
+  } catch (error: any) {
+    console.error("Erreur désactivation membre:", error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Données invalides",
+        details: error.errors,
+      });
+    }
+
+    res.status(500).json({ error: "Erreur lors de la désactivation" });
+  }
+});
+
+// ==========================================
+// POST /api/equipe/:id/reactiver
+// Réactiver un membre désactivé (Owner uniquement, occupe de nouveau un siège)
+// ==========================================
+router.post("/:id/reactiver", requirePermission("equipe:write"), requireQuota("sieges"), async (req, res) => {
+  try {
     const [membre] = await db
       .select()
-      .from(utilisateurs)
+      .from(membresAgence)
       .where(
-        and(eq(utilisateurs.id, id), eq(utilisateurs.agenceId, req.agenceId!)),
+        and(
+          eq(membresAgence.utilisateurId, req.params.id),
+          eq(membresAgence.agenceId, req.agenceId!),
+          eq(membresAgence.actif, false),
+        ),
       )
       .limit(1);
 
     if (!membre) {
+      return res.status(404).json({ error: "Membre désactivé non trouvé" });
+    }
+
+    // Un owner désactivé ne peut être réactivé que par un owner
+    if (membre.role === "owner" && req.user!.role !== "owner") {
+      return res.status(403).json({
+        error: "Seul un owner peut réactiver un owner",
+      });
+    }
+
+    await db
+      .update(membresAgence)
+      .set({ actif: true, dateDesactivation: null })
+      .where(eq(membresAgence.id, membre.id));
+    await syncSeats(req.agenceId!);
+
+    res.json({ message: "Membre réactivé avec succès" });
+  } catch (error) {
+    console.error("Erreur réactivation membre:", error);
+    res.status(500).json({ error: "Erreur lors de la réactivation" });
+  }
+});
+
+// ==========================================
+// POST /api/equipe/transfert-propriete
+// Transférer la propriété de l'agence à un autre membre (Owner uniquement)
+// Confirmation par le mot de passe de l'owner actuel, qui devient membre sauf conserverOwner
+// ==========================================
+router.post("/transfert-propriete", requireRole("owner"), reauthentificationGuard, async (req, res) => {
+  try {
+    if (!req.sessionId) {
+      return res.status(403).json({ error: "Confirmation par session requise" });
+    }
+
+    const data = transfertProprieteSchema.parse(req.body);
+
+    if (data.nouveauOwnerId === req.user!.id) {
+      return res.status(400).json({ error: "Vous êtes déjà owner de cette agence" });
+    }
+
+    const [owner] = await db
+      .select()
+      .from(utilisateurs)
+      .where(eq(utilisateurs.id, req.user!.id))
+      .limit(1);
+
+    if (!owner || !(await verifyPassword(data.motDePasse, owner.motDePasseHash))) {
+      await recordFailedAttempt(req, "reauthentification", req.user!.id, {
+        motif: "mot_de_passe_incorrect",
+        agenceId: req.agenceId,
+      });
+      return res.status(401).json({ error: "Mot de passe incorrect" });
+    }
+
+    const nouveau = await findMembership(data.nouveauOwnerId, req.agenceId!);
+
+    if (!nouveau) {
       return res.status(404).json({ error: "Membre non trouvé" });
     }
 
-    // Empêcher de supprimer le dernier owner
-    if (membre.role === "owner") {
-      const [owners] = await db
-        .select({ count: utilisateurs.id })
-        .from(utilisateurs)
+    const [compte] = await db
+      .select({ actif: utilisateurs.actif })
+      .from(utilisateurs)
+      .where(eq(utilisateurs.id, data.nouveauOwnerId))
+      .limit(1);
+
+    if (!compte?.actif) {
+      return res.status(400).json({ error: "Ce compte est désactivé" });
+    }
+
+    // Nouveau owner: accès complet, sans rôle personnalisé ni fiche modèle
+    await db
+      .update(membresAgence)
+      .set({ role: "owner", roleId: null, modeleId: null })
+      .where(eq(membresAgence.id, nouveau.id));
+    await db
+      .update(utilisateurs)
+      .set({ role: "owner" })
+      .where(
+        and(
+          eq(utilisateurs.id, data.nouveauOwnerId),
+          eq(utilisateurs.agenceId, req.agenceId!),
+        ),
+      );
+
+    if (!data.conserverOwner) {
+      await db
+        .update(membresAgence)
+        .set({ role: "member", roleId: null })
         .where(
           and(
-            eq(utilisateurs.agenceId, req.agenceId!),
-            eq(utilisateurs.role, "owner"),
+            eq(membresAgence.utilisateurId, req.user!.id),
+            eq(membresAgence.agenceId, req.agenceId!),
           ),
         );
-
-      // Note: Drizzle retourne un array même pour count, vérifier la structure
-      return res.status(400).json({
-        error: "Impossible de supprimer le dernier propriétaire de l'agence",
-      });
+      await db
+        .update(utilisateurs)
+        .set({ role: "member" })
+        .where(
+          and(eq(utilisateurs.id, req.user!.id), eq(utilisateurs.agenceId, req.agenceId!)),
+        );
     }
 
-    // Empêcher de se supprimer soi-même
-    if (id === req.user!.id) {
+    console.log(
+      `🔑 Propriété de l'agence ${req.agenceId} transférée de ${req.user!.id} à ${data.nouveauOwnerId}`,
+    );
+
+    res.json({
+      message: "Propriété transférée avec succès",
+      nouveauOwnerId: data.nouveauOwnerId,
+      votreRole: data.conserverOwner ? "owner" : "member",
+    });
+  } catch (error: any) {
+    console.error("Erreur transfert de propriété:", error);
+
+    if (error instanceof z.ZodError) {
       return res.status(400).json({
-        error: "Vous ne pouvez pas supprimer votre propre compte",
+        error: "Données invalides",
+        details: error.errors,
       });
     }
 
-    // Supprimer le membre (CASCADE supprimera aussi ses sessions)
-    await db.delete(utilisateurs).where(eq(utilisateurs.id, id));
-
-    res.json({ message: "Membre supprimé avec succès" });
-  } catch (error) {
-    console.error("Erreur suppression membre:", error);
-    res.status(500).json({ error: "Erreur lors de la suppression" });
+    res.status(500).json({ error: "Erreur lors du transfert de propriété" });
   }
 });
 
@@ -342,23 +635,19 @@ router.delete("/:id", requireRole("owner"), async (req, res) => {
 // PATCH /api/equipe/:id/role
 // Modifier le rôle d'un membre (Owner uniquement)
 // ==========================================
-router.patch("/:id/role", requireRole("owner"), async (req, res) => {
+router.patch("/:id/role", requirePermission("equipe:write"), async (req, res) => {
   try {
     const { id } = req.params;
-    const { role } = z
+    // roleId: rôle personnalisé de l'agence (null = permissions du rôle par défaut)
+    const { role, roleId = null } = z
       .object({
         role: z.enum(["owner", "member", "model"]),
+        roleId: z.string().nullable().optional(),
       })
       .parse(req.body);
 
     // Vérifier que l'utilisateur appartient à l'agence
-    const [membre] = await db
-      .select()
-      .from(utilisateurs)
-      .where(
-        and(eq(utilisateurs.id, id), eq(utilisateurs.agenceId, req.agenceId!)),
-      )
-      .limit(1);
+    const membre = await findMembership(id, req.agenceId!);
 
     if (!membre) {
       return res.status(404).json({ error: "Membre non trouvé" });
@@ -371,8 +660,52 @@ router.patch("/:id/role", requireRole("owner"), async (req, res) => {
       });
     }
 
-    // Mettre à jour le rôle
-    await db.update(utilisateurs).set({ role }).where(eq(utilisateurs.id, id));
+    // La propriété ne se donne que par le transfert (confirmé par mot de passe)
+    if (role === "owner" && membre.role !== "owner") {
+      return res.status(400).json({
+        error: "Utilisez le transfert de propriété pour nommer un owner",
+      });
+    }
+
+    // Seul un owner peut rétrograder un owner (jamais le dernier: on ne peut pas se rétrograder soi-même)
+    if (membre.role === "owner" && role !== "owner" && req.user!.role !== "owner") {
+      return res.status(403).json({
+        error: "Seul un owner peut modifier le rôle owner",
+      });
+    }
+
+    if (roleId) {
+      if (role === "owner") {
+        return res.status(400).json({
+          error: "Un owner a toujours toutes les permissions",
+        });
+      }
+
+      const [rolePersonnalise] = await db
+        .select({ id: rolesAgence.id })
+        .from(rolesAgence)
+        .where(
+          and(eq(rolesAgence.id, roleId), eq(rolesAgence.agenceId, req.agenceId!)),
+        )
+        .limit(1);
+
+      if (!rolePersonnalise) {
+        return res.status(404).json({ error: "Rôle non trouvé" });
+      }
+    }
+
+    // Mettre à jour le rôle dans cette agence (et le rôle par défaut si c'est son agence par défaut)
+    // Le lien vers la fiche modèle ne concerne que le rôle "model"
+    await db
+      .update(membresAgence)
+      .set({ role, roleId, modeleId: role === "model" ? membre.modeleId : null })
+      .where(eq(membresAgence.id, membre.id));
+    await db
+      .update(utilisateurs)
+      .set({ role })
+      .where(
+        and(eq(utilisateurs.id, id), eq(utilisateurs.agenceId, req.agenceId!)),
+      );
 
     res.json({ message: "Rôle mis à jour avec succès" });
   } catch (error: any) {
@@ -389,26 +722,316 @@ router.patch("/:id/role", requireRole("owner"), async (req, res) => {
   }
 });
 
+// ==========================================
+// PATCH /api/equipe/:id/modele
+// Lier un compte "model" à sa fiche modèle (null = retirer le lien)
+// Le compte ne voit que les données de cette fiche
+// ==========================================
+router.patch("/:id/modele", requirePermission("equipe:write"), async (req, res) => {
+  try {
+    const { modeleId } = z
+      .object({ modeleId: z.string().nullable() })
+      .parse(req.body);
+
+    const membre = await findMembership(req.params.id, req.agenceId!);
+
+    if (!membre) {
+      return res.status(404).json({ error: "Membre non trouvé" });
+    }
+
+    if (membre.role !== "model") {
+      return res.status(400).json({
+        error: 'Seul un compte "model" peut être lié à une fiche modèle',
+      });
+    }
+
+    const erreurModele = await verifierModele(modeleId, membre.role, req.agenceId!);
+    if (erreurModele) {
+      return res.status(404).json({ error: erreurModele });
+    }
+
+    await db
+      .update(membresAgence)
+      .set({ modeleId })
+      .where(eq(membresAgence.id, membre.id));
+
+    res.json({ message: "Fiche modèle mise à jour avec succès", modeleId });
+  } catch (error: any) {
+    console.error("Erreur liaison fiche modèle:", error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Données invalides",
+        details: error.errors,
+      });
+    }
+
+    res.status(500).json({ error: "Erreur lors de la liaison de la fiche modèle" });
+  }
+});
+
+// ==========================================
+// PATCH /api/equipe/securite
+// Imposer (ou non) la double authentification à tous les membres (Owner uniquement)
+// ==========================================
+router.patch("/securite", requireRole("owner"), async (req, res) => {
+  try {
+    const { deuxFacteursObligatoire } = z
+      .object({ deuxFacteursObligatoire: z.boolean() })
+      .parse(req.body);
+
+    if (deuxFacteursObligatoire) {
+      // L'owner doit lui-même avoir activé la 2FA avant de l'imposer
+      const [owner] = await db
+        .select({ totpActive: utilisateurs.totpActive })
+        .from(utilisateurs)
+        .where(eq(utilisateurs.id, req.user!.id))
+        .limit(1);
+
+      if (!owner?.totpActive) {
+        return res.status(400).json({
+          error:
+            "Activez d'abord la double authentification sur votre propre compte",
+        });
+      }
+    }
+
+    await db
+      .update(agences)
+      .set({ deuxFacteursObligatoire })
+      .where(eq(agences.id, req.agenceId!));
+
+    // Révoquer les sessions de l'agence des membres actifs sans 2FA: ils devront la configurer
+    // à la prochaine connexion (leurs sessions sur d'autres agences ne sont pas concernées)
+    if (deuxFacteursObligatoire) {
+      const membresSans2fa = await db
+        .select({ id: utilisateurs.id })
+        .from(membresAgence)
+        .innerJoin(utilisateurs, eq(membresAgence.utilisateurId, utilisateurs.id))
+        .where(
+          and(
+            eq(membresAgence.agenceId, req.agenceId!),
+            eq(membresAgence.actif, true),
+            eq(utilisateurs.totpActive, false),
+          ),
+        );
+
+      if (membresSans2fa.length > 0) {
+        await db.delete(sessions).where(
+          and(
+            eq(sessions.agenceId, req.agenceId!),
+            inArray(
+              sessions.utilisateurId,
+              membresSans2fa.map((m) => m.id),
+            ),
+          ),
+        );
+      }
+    }
+
+    res.json({
+      message: "Paramètres de sécurité mis à jour",
+      deuxFacteursObligatoire,
+    });
+  } catch (error: any) {
+    console.error("Erreur paramètres sécurité:", error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Données invalides",
+        details: error.errors,
+      });
+    }
+
+    res.status(500).json({ error: "Erreur lors de la mise à jour" });
+  }
+});
+
 // ==========================================
 // GET /api/equipe/invitations
-// Récupérer les invitations en attente (Owner uniquement)
+// Récupérer les invitations de l'agence (Owner uniquement)
+// Par défaut les invitations en attente, ?statut=accepte|expire|revoque|tous
 // ==========================================
-router.get("/invitations", requireRole("owner"), async (req, res) => {
+router.get("/invitations", requirePermission("equipe:write"), async (req, res) => {
   try {
+    const { statut } = z
+      .object({
+        statut: z
+          .enum(["en_attente", "accepte", "expire", "revoque", "tous"])
+          .default("en_attente"),
+      })
+      .parse(req.query);
+
+    const conditions = [eq(invitations.agenceId, req.agenceId!)];
+    if (statut !== "tous") {
+      conditions.push(eq(invitations.statut, statut));
+    }
+
     const invitationsList = await db
+      .select({
+        id: invitations.id,
+        email: invitations.email,
+        prenom: invitations.prenom,
+        nom: invitations.nom,
+        role: invitations.role,
+        modeleId: invitations.modeleId,
+        statut: invitations.statut,
+        invitePar: invitations.invitePar,
+        dateCreation: invitations.dateCreation,
+        dateExpiration: invitations.dateExpiration,
+        dateAcceptation: invitations.dateAcceptation,
+      })
+      .from(invitations)
+      .where(and(...conditions))
+      .orderBy(invitations.dateCreation);
+
+    res.json(invitationsList);
+  } catch (error: any) {
+    console.error("Erreur récupération invitations:", error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Données invalides",
+        details: error.errors,
+      });
+    }
+
+    res.status(500).json({ error: "Erreur serveur" });
+  }
+});
+
+// ==========================================
+// POST /api/equipe/invitations/:id/renvoyer
+// Renvoyer une invitation en attente ou expirée avec un nouveau lien (Owner uniquement)
+// ==========================================
+router.post("/invitations/:id/renvoyer", requirePermission("equipe:write"), async (req, res) => {
+  try {
+    const [invitation] = await db
       .select()
       .from(invitations)
       .where(
         and(
+          eq(invitations.id, req.params.id),
           eq(invitations.agenceId, req.agenceId!),
-          eq(invitations.statut, "en_attente"),
         ),
       )
-      .orderBy(invitations.dateCreation);
+      .limit(1);
 
-    res.json(invitationsList);
+    if (!invitation) {
+      return res.status(404).json({ error: "Invitation non trouvée" });
+    }
+
+    if (invitation.statut !== "en_attente" && invitation.statut !== "expire") {
+      return res.status(400).json({
+        error: "Seules les invitations en attente ou expirées peuvent être renvoyées",
+      });
+    }
+
+    // L'invité a pu rejoindre l'agence entre-temps
+    const [existing] = await db
+      .select({ id: utilisateurs.id })
+      .from(utilisateurs)
+      .where(eq(utilisateurs.email, invitation.email))
+      .limit(1);
+
+    if (existing && (await findMembership(existing.id, req.agenceId!))) {
+      return res.status(400).json({
+        error: "Un membre avec cet email existe déjà dans votre agence",
+      });
+    }
+
+    // Nouveau token: l'ancien lien devient invalide
+    const { token, tokenHash } = generateInvitationToken();
+    const dateExpiration = new Date(Date.now() + INVITATION_EXPIRATION_MS);
+
+    await db
+      .update(invitations)
+      .set({ token: tokenHash, statut: "en_attente", dateExpiration })
+      .where(eq(invitations.id, invitation.id));
+
+    await sendInvitation(invitation, token);
+
+    res.json({
+      message: "Invitation renvoyée",
+      dateExpiration,
+      ...(isDevMode && {
+        dev: {
+          lien: invitationLink(token),
+        },
+      }),
+    });
   } catch (error) {
-    console.error("Erreur récupération invitations:", error);
+    console.error("Erreur renvoi invitation:", error);
+    res.status(500).json({ error: "Erreur lors du renvoi de l'invitation" });
+  }
+});
+
+// ==========================================
+// DELETE /api/equipe/invitations/:id
+// Révoquer une invitation en attente (Owner uniquement)
+// ==========================================
+router.delete("/invitations/:id", requirePermission("equipe:write"), async (req, res) => {
+  try {
+    const [invitation] = await db
+      .select({ id: invitations.id, statut: invitations.statut })
+      .from(invitations)
+      .where(
+        and(
+          eq(invitations.id, req.params.id),
+          eq(invitations.agenceId, req.agenceId!),
+        ),
+      )
+      .limit(1);
+
+    if (!invitation) {
+      return res.status(404).json({ error: "Invitation non trouvée" });
+    }
+
+    if (invitation.statut !== "en_attente") {
+      return res.status(400).json({
+        error: "Seules les invitations en attente peuvent être révoquées",
+      });
+    }
+
+    await db
+      .update(invitations)
+      .set({ statut: "revoque" })
+      .where(eq(invitations.id, invitation.id));
+
+    res.json({ message: "Invitation révoquée" });
+  } catch (error) {
+    console.error("Erreur révocation invitation:", error);
+    res.status(500).json({ error: "Erreur lors de la révocation de l'invitation" });
+  }
+});
+
+// ==========================================
+// GET /api/equipe/tentatives-echouees
+// Journal des tentatives de connexion échouées sur les comptes de l'agence (Owner uniquement)
+// ==========================================
+router.get("/tentatives-echouees", requirePermission("equipe:write"), async (req, res) => {
+  try {
+    const limite = Math.min(parseInt(String(req.query.limite || "100"), 10) || 100, 500);
+
+    const tentatives = await db
+      .select({
+        id: tentativesEchouees.id,
+        portee: tentativesEchouees.portee,
+        identifiant: tentativesEchouees.identifiant,
+        adresseIp: tentativesEchouees.adresseIp,
+        userAgent: tentativesEchouees.userAgent,
+        motif: tentativesEchouees.motif,
+        verrouille: tentativesEchouees.verrouille,
+        date: tentativesEchouees.date,
+      })
+      .from(tentativesEchouees)
+      .where(eq(tentativesEchouees.agenceId, req.agenceId!))
+      .orderBy(desc(tentativesEchouees.date))
+      .limit(limite);
+
+    res.json(tentatives);
+  } catch (error) {
+    console.error("Erreur récupération tentatives échouées:", error);
     res.status(500).json({ error: "Erreur serveur" });
   }
 });
@@ -18,7 +18,12 @@ import stripeRoutes from "./stripe";
 import adminRoutes from "./admin";
 import accesTemporairesRoutes from "./acces-temporaires";
 import adminAuthRoutes from "./admin-auth";
+import adminImpersonationRoutes from "./admin-impersonation";
+import adminStripeRoutes from "./admin-stripe";
+import adminPromotionsRoutes from "./admin-promotions";
 import demoRoutes from "./demo";
+import clesApiRoutes from "./cles-api";
+import rolesRoutes from "./roles";
 
 
 
@@ -29,6 +34,15 @@ export function registerRoutes(app: Express): Server {
   // Routes d'authentification admin (séparées)
   app.use("/api/admin/auth", adminAuthRoutes);
 
+  // Routes d'impersonation admin (support)
+  app.use("/api/admin/impersonation", adminImpersonationRoutes);
+
+  // Routes admin Stripe (événements webhook)
+  app.use("/api/admin/stripe", adminStripeRoutes);
+
+  // Routes admin promotions (codes promo, parrainages)
+  app.use("/api/admin/promotions", adminPromotionsRoutes);
+
   // Routes démo (publiques - liens temporaires)
   app.use("/api/demo", demoRoutes);
 
@@ -44,6 +58,12 @@ export function registerRoutes(app: Express): Server {
   // Routes de gestion d'équipe (protégées)
   app.use("/api/equipe", equipeRoutes);
 
+  // Routes clés API (accès programmatique)
+  app.use("/api/cles-api", clesApiRoutes);
+
+  // Routes rôles et permissions
+  app.use("/api/roles", rolesRoutes);
+
   // Routes dashboard
   app.use("/api/dashboard", dashboardRoutes);
 
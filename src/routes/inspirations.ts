@@ -6,14 +6,30 @@
 import { Router } from "express";
 import { db } from "../db";
 import { inspirations } from "../schema";
-import { eq } from "drizzle-orm";
-import { authenticate } from "../middleware/auth";
+import { eq, and } from "drizzle-orm";
+import {
+  authenticate,
+  requireResourcePermission,
+  requireModelLink,
+  modeleRestreint,
+  horsFicheModele,
+} from "../middleware/auth";
+import { requireActiveSubscription } from "../lib/plans";
 
 const router = Router();
 
 // Toutes les routes requièrent l'authentification
 router.use(authenticate);
 
+// Agence suspendue pour impayé (délai de grâce écoulé): lecture seule
+router.use(requireActiveSubscription);
+
+// Lecture / écriture selon les permissions du rôle
+router.use(requireResourcePermission("inspirations"));
+
+// Un compte modèle n'accède qu'aux données de sa fiche
+router.use(requireModelLink);
+
 // ====================================================================================================
 /**
  * GET /api/inspirations
@@ -33,21 +49,24 @@ router.get("/", async (req, res) => {
     const agenceId = req.agenceId!;
     const { modelId, plateforme } = req.query;
 
-    let query = db
-      .select()
-      .from(inspirations)
-      .where(eq(inspirations.agenceId, agenceId))
-      .$dynamic();
+    const conditions = [eq(inspirations.agenceId, agenceId)];
+
+    // Un compte modèle ne voit que sa fiche, quel que soit le filtre demandé
+    const filtreModele = modeleRestreint(req) ?? modelId;
 
     // Filtres optionnels
-    if (modelId && typeof modelId === "string") {
-      query = query.where(eq(inspirations.modeleId, modelId));
+    if (filtreModele && typeof filtreModele === "string") {
+      conditions.push(eq(inspirations.modeleId, filtreModele));
     }
     if (plateforme && typeof plateforme === "string") {
-      query = query.where(eq(inspirations.plateforme, plateforme));
+      conditions.push(eq(inspirations.plateforme, plateforme));
     }
 
-    const inspirationsList = await query.orderBy(inspirations.dateCreation);
+    const inspirationsList = await db
+      .select()
+      .from(inspirations)
+      .where(and(...conditions))
+      .orderBy(inspirations.dateCreation);
 
     res.json(inspirationsList);
   } catch (error) {
@@ -72,7 +91,8 @@ router.get("/", async (req, res) => {
 router.post("/", async (req, res) => {
   try {
     const agenceId = req.agenceId!;
-    const { modeleId, plateforme, url, notes, vues, likes, commentaires } = req.body;
+    const { plateforme, url, notes, vues, likes, commentaires } = req.body;
+    const modeleId = modeleRestreint(req) ?? req.body.modeleId;
 
     if (!plateforme || !url) {
       return res.status(400).json({ error: "Plateforme et URL sont requis" });
@@ -132,10 +152,15 @@ router.patch("/:id", async (req, res) => {
       .where(eq(inspirations.id, id))
       .limit(1);
 
-    if (!existing || existing.agenceId !== agenceId) {
+    if (!existing || existing.agenceId !== agenceId || horsFicheModele(req, existing.modeleId)) {
       return res.status(404).json({ error: "Inspiration non trouvée" });
     }
 
+    // Un compte modèle ne peut pas déplacer la ligne vers une autre fiche
+    if (modeleRestreint(req)) {
+      delete updates.modeleId;
+    }
+
     // Mise à jour
     await db
       .update(inspirations)
@@ -181,7 +206,7 @@ router.delete("/:id", async (req, res) => {
       .where(eq(inspirations.id, id))
       .limit(1);
 
-    if (!existing || existing.agenceId !== agenceId) {
+    if (!existing || existing.agenceId !== agenceId || horsFicheModele(req, existing.modeleId)) {
       return res.status(404).json({ error: "Inspiration non trouvée" });
     }
 
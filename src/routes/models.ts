@@ -6,20 +6,37 @@
 import { Router } from "express";
 import { db } from "../db";
 import { modeles } from "../schema";
-import { eq } from "drizzle-orm";
-import { authenticate } from "../middleware/auth";
+import { eq, and } from "drizzle-orm";
+import {
+  authenticate,
+  requireResourcePermission,
+  requireModelLink,
+  modeleRestreint,
+  horsFicheModele,
+} from "../middleware/auth";
+import { requireActiveSubscription } from "../lib/plans";
 
 const router = Router();
 
 // Toutes les routes requièrent l'authentification
 router.use(authenticate);
 
+// Agence suspendue pour impayé (délai de grâce écoulé): lecture seule
+router.use(requireActiveSubscription);
+
+// Lecture / écriture selon les permissions du rôle
+router.use(requireResourcePermission("models"));
+
+// Un compte modèle n'accède qu'aux données de sa fiche
+router.use(requireModelLink);
+
 // ====================================================================================================
 /**
  * GET /api/models
  * 
  * Récupère la liste complète des modèles/influenceurs de l'agence.
  * Les modèles sont triés par date de création.
+ * Un compte "model" ne reçoit que sa propre fiche.
  * 
  * @route GET /api/models
  * @access Private - Tous les utilisateurs authentifiés
@@ -30,10 +47,17 @@ router.get("/", async (req, res) => {
   try {
     const agenceId = req.agenceId!;
 
+    // Un compte modèle ne voit que sa propre fiche
+    const conditions = [eq(modeles.agenceId, agenceId)];
+    const modele = modeleRestreint(req);
+    if (modele) {
+      conditions.push(eq(modeles.id, modele));
+    }
+
     const modelsList = await db
       .select()
       .from(modeles)
-      .where(eq(modeles.agenceId, agenceId))
+      .where(and(...conditions))
       .orderBy(modeles.dateCreation);
 
     res.json(modelsList);
@@ -68,7 +92,7 @@ router.get("/:id", async (req, res) => {
       .where(eq(modeles.id, id))
       .limit(1);
 
-    if (!model || model.agenceId !== agenceId) {
+    if (!model || model.agenceId !== agenceId || horsFicheModele(req, model.id)) {
       return res.status(404).json({ error: "Modèle non trouvé" });
     }
 
@@ -7,13 +7,29 @@ import { Router } from "express";
 import { db } from "../db";
 import { etapesOnboarding } from "../schema";
 import { eq, and } from "drizzle-orm";
-import { authenticate } from "../middleware/auth";
+import {
+  authenticate,
+  requireResourcePermission,
+  requireModelLink,
+  modeleRestreint,
+  horsFicheModele,
+} from "../middleware/auth";
+import { requireActiveSubscription } from "../lib/plans";
 
 const router = Router();
 
 // Toutes les routes requièrent l'authentification
 router.use(authenticate);
 
+// Agence suspendue pour impayé (délai de grâce écoulé): lecture seule
+router.use(requireActiveSubscription);
+
+// Lecture / écriture selon les permissions du rôle
+router.use(requireResourcePermission("onboarding-steps"));
+
+// Un compte modèle n'accède qu'aux données de sa fiche
+router.use(requireModelLink);
+
 // ====================================================================================================
 /**
  * GET /api/onboarding-steps
@@ -31,7 +47,8 @@ router.use(authenticate);
 router.get("/", async (req, res) => {
   try {
     const agenceId = req.agenceId!;
-    const { modelId } = req.query;
+    // Un compte modèle ne voit que les étapes de sa fiche
+    const modelId = modeleRestreint(req) ?? req.query.modelId;
 
     if (!modelId || typeof modelId !== "string") {
       return res.status(400).json({ error: "ModelId est requis" });
@@ -71,7 +88,8 @@ router.get("/", async (req, res) => {
 router.post("/", async (req, res) => {
   try {
     const agenceId = req.agenceId!;
-    const { modeleId, nomEtape, description, dateEcheance, ordre, terminee } = req.body;
+    const { nomEtape, description, dateEcheance, ordre, terminee } = req.body;
+    const modeleId = modeleRestreint(req) ?? req.body.modeleId;
 
     if (!modeleId || !nomEtape) {
       return res.status(400).json({ error: "ModeleId et nomEtape sont requis" });
@@ -131,10 +149,15 @@ router.patch("/:id", async (req, res) => {
       .where(eq(etapesOnboarding.id, id))
       .limit(1);
 
-    if (!existing || existing.agenceId !== agenceId) {
+    if (!existing || existing.agenceId !== agenceId || horsFicheModele(req, existing.modeleId)) {
       return res.status(404).json({ error: "Étape d'onboarding non trouvée" });
     }
 
+    // Un compte modèle ne peut pas déplacer la ligne vers une autre fiche
+    if (modeleRestreint(req)) {
+      delete updates.modeleId;
+    }
+
     // Mise à jour
     await db
       .update(etapesOnboarding)
@@ -183,7 +206,7 @@ router.delete("/:id", async (req, res) => {
       .where(eq(etapesOnboarding.id, id))
       .limit(1);
 
-    if (!existing || existing.agenceId !== agenceId) {
+    if (!existing || existing.agenceId !== agenceId || horsFicheModele(req, existing.modeleId)) {
       return res.status(404).json({ error: "Étape d'onboarding non trouvée" });
     }
 
@@ -6,14 +6,30 @@
 import { Router } from "express";
 import { db } from "../db";
 import { postsAnalytics } from "../schema";
-import { eq } from "drizzle-orm";
-import { authenticate } from "../middleware/auth";
+import { eq, and } from "drizzle-orm";
+import {
+  authenticate,
+  requireResourcePermission,
+  requireModelLink,
+  modeleRestreint,
+  horsFicheModele,
+} from "../middleware/auth";
+import { requireActiveSubscription } from "../lib/plans";
 
 const router = Router();
 
 // Toutes les routes requièrent l'authentification
 router.use(authenticate);
 
+// Agence suspendue pour impayé (délai de grâce écoulé): lecture seule
+router.use(requireActiveSubscription);
+
+// Lecture / écriture selon les permissions du rôle
+router.use(requireResourcePermission("posts-analytics"));
+
+// Un compte modèle n'accède qu'aux données de sa fiche
+router.use(requireModelLink);
+
 // ====================================================================================================
 /**
  * GET /api/posts-analytics
@@ -32,17 +48,19 @@ router.get("/", async (req, res) => {
     const agenceId = req.agenceId!;
     const { modelId } = req.query;
 
-    let query = db
-      .select()
-      .from(postsAnalytics)
-      .where(eq(postsAnalytics.agenceId, agenceId))
-      .$dynamic();
+    const conditions = [eq(postsAnalytics.agenceId, agenceId)];
 
-    if (modelId && typeof modelId === "string") {
-      query = query.where(eq(postsAnalytics.modeleId, modelId));
+    // Un compte modèle ne voit que sa fiche, quel que soit le filtre demandé
+    const filtreModele = modeleRestreint(req) ?? modelId;
+    if (filtreModele && typeof filtreModele === "string") {
+      conditions.push(eq(postsAnalytics.modeleId, filtreModele));
     }
 
-    const postsList = await query.orderBy(postsAnalytics.datePublication);
+    const postsList = await db
+      .select()
+      .from(postsAnalytics)
+      .where(and(...conditions))
+      .orderBy(postsAnalytics.datePublication);
 
     res.json(postsList);
   } catch (error) {
@@ -76,7 +94,7 @@ router.get("/:id", async (req, res) => {
       .where(eq(postsAnalytics.id, id))
       .limit(1);
 
-    if (!post || post.agenceId !== agenceId) {
+    if (!post || post.agenceId !== agenceId || horsFicheModele(req, post.modeleId)) {
       return res.status(404).json({ error: "Post analytics non trouvé" });
     }
 
@@ -104,7 +122,6 @@ router.post("/", async (req, res) => {
   try {
     const agenceId = req.agenceId!;
     const { 
-      modeleId, 
       urlPost, 
       urlMiniature, 
       likes, 
@@ -113,6 +130,8 @@ router.post("/", async (req, res) => {
       engagement, 
       datePublication 
     } = req.body;
+    // Un compte modèle publie toujours sur sa propre fiche
+    const modeleId = modeleRestreint(req) ?? req.body.modeleId;
 
     if (!modeleId || !urlPost || !datePublication) {
       return res.status(400).json({ 
@@ -175,10 +194,15 @@ router.patch("/:id", async (req, res) => {
       .where(eq(postsAnalytics.id, id))
       .limit(1);
 
-    if (!existing || existing.agenceId !== agenceId) {
+    if (!existing || existing.agenceId !== agenceId || horsFicheModele(req, existing.modeleId)) {
       return res.status(404).json({ error: "Post analytics non trouvé" });
     }
 
+    // Un compte modèle ne peut pas déplacer la ligne vers une autre fiche
+    if (modeleRestreint(req)) {
+      delete updates.modeleId;
+    }
+
     // Mise à jour
     await db
       .update(postsAnalytics)
@@ -229,7 +253,7 @@ router.delete("/:id", async (req, res) => {
       .where(eq(postsAnalytics.id, id))
       .limit(1);
 
-    if (!existing || existing.agenceId !== agenceId) {
+    if (!existing || existing.agenceId !== agenceId || horsFicheModele(req, existing.modeleId)) {
       return res.status(404).json({ error: "Post analytics non trouvé" });
     }
 
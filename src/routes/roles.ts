@@ -0,0 +1,238 @@
+// ==========================================
+// ROUTES RÔLES ET PERMISSIONS
+// Rôles personnalisés de l'agence (ensembles de permissions "<ressource>:read|write")
+// ==========================================
+
+import { Router } from "express";
+import { db } from "../db";
+import { rolesAgence, membresAgence } from "../schema";
+import { eq, and, sql } from "drizzle-orm";
+import { authenticate, requirePermission } from "../middleware/auth";
+import { requireActiveSubscription } from "../lib/plans";
+import {
+  PERMISSIONS,
+  RESSOURCES_DONNEES,
+  RESSOURCES_GESTION,
+  type Permission,
+} from "../lib/permissions";
+import { z } from "zod";
+
+const router = Router();
+
+// Toutes les routes requièrent l'authentification
+router.use(authenticate);
+
+// Agence suspendue pour impayé (délai de grâce écoulé): lecture seule
+router.use(requireActiveSubscription);
+
+// ==========================================
+// SCHÉMAS DE VALIDATION
+// ==========================================
+
+const permissionsSchema = z.array(
+  z.string().refine((p) => PERMISSIONS.includes(p as Permission), {
+    message: "Permission inconnue",
+  }),
+);
+
+/**
+ * Schéma de validation pour la création d'un rôle personnalisé
+ * @property {string} nom - Nom du rôle, unique dans l'agence
+ * @property {string} description - Description optionnelle
+ * @property {string[]} permissions - Permissions "<ressource>:read|write"
+ */
+const creerRoleSchema = z.object({
+  nom: z.string().min(2, "Le nom doit contenir au moins 2 caractères").max(100),
+  description: z.string().max(500).optional(),
+  permissions: permissionsSchema,
+});
+
+const modifierRoleSchema = creerRoleSchema.partial();
+
+// ==========================================
+// GET /api/roles/permissions
+// Catalogue des ressources et permissions attribuables
+// ==========================================
+router.get("/permissions", (_req, res) => {
+  res.json({
+    ressources: [...RESSOURCES_DONNEES, ...RESSOURCES_GESTION],
+    permissions: PERMISSIONS,
+  });
+});
+
+// ==========================================
+// GET /api/roles
+// Lister les rôles de l'agence avec leur nombre de membres
+// ==========================================
+router.get("/", requirePermission("equipe:read"), async (req, res) => {
+  try {
+    const roles = await db
+      .select({
+        id: rolesAgence.id,
+        code: rolesAgence.code,
+        nom: rolesAgence.nom,
+        description: rolesAgence.description,
+        permissions: rolesAgence.permissions,
+        dateCreation: rolesAgence.dateCreation,
+        membres: sql<number>`(
+          SELECT COUNT(*) FROM membres_agence m
+          WHERE m.agence_id = ${rolesAgence.agenceId}
+            AND (m.role_id = ${rolesAgence.id} OR (m.role_id IS NULL AND m.role = ${rolesAgence.code}))
+        )`,
+      })
+      .from(rolesAgence)
+      .where(eq(rolesAgence.agenceId, req.agenceId!))
+      .orderBy(rolesAgence.dateCreation);
+
+    res.json(roles);
+  } catch (error) {
+    console.error("Erreur liste rôles:", error);
+    res.status(500).json({ error: "Erreur lors du chargement des rôles" });
+  }
+});
+
+// ==========================================
+// POST /api/roles
+// Créer un rôle personnalisé
+// ==========================================
+router.post("/", requirePermission("equipe:write"), async (req, res) => {
+  try {
+    const data = creerRoleSchema.parse(req.body);
+
+    const id = crypto.randomUUID();
+    await db.insert(rolesAgence).values({
+      id,
+      agenceId: req.agenceId!,
+      code: null,
+      nom: data.nom,
+      description: data.description || null,
+      permissions: [...new Set(data.permissions)],
+      dateCreation: new Date(),
+    });
+
+    const [created] = await db
+      .select()
+      .from(rolesAgence)
+      .where(eq(rolesAgence.id, id))
+      .limit(1);
+
+    res.status(201).json(created);
+  } catch (error: any) {
+    console.error("Erreur création rôle:", error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Données invalides",
+        details: error.errors,
+      });
+    }
+
+    if (error?.code === "ER_DUP_ENTRY") {
+      return res.status(400).json({ error: "Un rôle porte déjà ce nom" });
+    }
+
+    res.status(500).json({ error: "Erreur lors de la création du rôle" });
+  }
+});
+
+// ==========================================
+// PATCH /api/roles/:id
+// Modifier un rôle (les permissions du rôle owner ne sont pas modifiables)
+// ==========================================
+router.patch("/:id", requirePermission("equipe:write"), async (req, res) => {
+  try {
+    const data = modifierRoleSchema.parse(req.body);
+
+    const [role] = await db
+      .select()
+      .from(rolesAgence)
+      .where(
+        and(eq(rolesAgence.id, req.params.id), eq(rolesAgence.agenceId, req.agenceId!)),
+      )
+      .limit(1);
+
+    if (!role) {
+      return res.status(404).json({ error: "Rôle non trouvé" });
+    }
+
+    if (role.code === "owner") {
+      return res.status(400).json({
+        error: "Le rôle owner a toujours toutes les permissions",
+      });
+    }
+
+    const updates: Partial<typeof rolesAgence.$inferInsert> = {};
+    if (data.nom !== undefined) updates.nom = data.nom;
+    if (data.description !== undefined) updates.description = data.description;
+    if (data.permissions !== undefined) updates.permissions = [...new Set(data.permissions)];
+
+    if (Object.keys(updates).length === 0) {
+      return res.status(400).json({ error: "Aucune modification fournie" });
+    }
+
+    await db.update(rolesAgence).set(updates).where(eq(rolesAgence.id, role.id));
+
+    const [updated] = await db
+      .select()
+      .from(rolesAgence)
+      .where(eq(rolesAgence.id, role.id))
+      .limit(1);
+
+    res.json(updated);
+  } catch (error: any) {
+    console.error("Erreur modification rôle:", error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Données invalides",
+        details: error.errors,
+      });
+    }
+
+    if (error?.code === "ER_DUP_ENTRY") {
+      return res.status(400).json({ error: "Un rôle porte déjà ce nom" });
+    }
+
+    res.status(500).json({ error: "Erreur lors de la modification du rôle" });
+  }
+});
+
+// ==========================================
+// DELETE /api/roles/:id
+// Supprimer un rôle personnalisé (ses membres reviennent au rôle par défaut)
+// ==========================================
+router.delete("/:id", requirePermission("equipe:write"), async (req, res) => {
+  try {
+    const [role] = await db
+      .select()
+      .from(rolesAgence)
+      .where(
+        and(eq(rolesAgence.id, req.params.id), eq(rolesAgence.agenceId, req.agenceId!)),
+      )
+      .limit(1);
+
+    if (!role) {
+      return res.status(404).json({ error: "Rôle non trouvé" });
+    }
+
+    if (role.code) {
+      return res.status(400).json({
+        error: "Les rôles par défaut ne peuvent pas être supprimés",
+      });
+    }
+
+    await db
+      .update(membresAgence)
+      .set({ roleId: null })
+      .where(eq(membresAgence.roleId, role.id));
+
+    await db.delete(rolesAgence).where(eq(rolesAgence.id, role.id));
+
+    res.json({ message: "Rôle supprimé avec succès" });
+  } catch (error) {
+    console.error("Erreur suppression rôle:", error);
+    res.status(500).json({ error: "Erreur lors de la suppression du rôle" });
+  }
+});
+
+export default router;
@@ -4,16 +4,72 @@
 // ==========================================
 
 import { Router } from "express";
-import Stripe from "stripe";
+import type Stripe from "stripe";
 import { db } from "../db";
-import { agences, utilisateurs } from "../schema";
-import { eq } from "drizzle-orm";
-import { authenticate } from "../middleware/auth";
+import { agences, utilisateurs, facturesStripe, parrainages } from "../schema";
+import { eq, and, ne, desc } from "drizzle-orm";
+import { authenticate, requirePermission } from "../middleware/auth";
+import { stripe, STRIPE_WEBHOOK_SECRET } from "../lib/stripe";
+import { processStripeEvent, storeStripeEvent } from "../lib/stripe-webhooks";
+import { reconcileSubscription } from "../lib/abonnements";
+import {
+  getStripeCoupon,
+  validatePromoCode,
+  reservePromoCode,
+  attachPromoReservation,
+  releasePromoCode,
+  DUREE_RESERVATION_CODE_PROMO_MS,
+} from "../lib/promotions";
+import {
+  PLANS_PAYANTS,
+  getEntitlements,
+  getUsage,
+  finDelaiGrace,
+  isLectureSeule,
+  planEffectif,
+  type Quota,
+} from "../lib/plans";
+import {
+  JOURS_ESSAI,
+  PERIODICITES,
+  countActiveSeats,
+  findActiveSubscription,
+  hasSubscriptionHistory,
+  getCatalogue,
+  getStripePrice,
+  lignesAbonnement,
+  planDepuisAbonnement,
+  siegesSupplementaires,
+} from "../lib/catalogue";
+import { z } from "zod";
 
 const router = Router();
 
-// Initialiser Stripe
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+// Permissions de facturation (rôle de l'utilisateur dans l'agence)
+const facturationLecture = requirePermission("facturation:read");
+const facturationEcriture = requirePermission("facturation:write");
+
+// ==========================================
+// SCHÉMAS DE VALIDATION
+// ==========================================
+
+/**
+ * Schéma de validation du choix d'un plan du catalogue
+ * @property {string} planId - Plan payant ("starter", "pro", "agency")
+ * @property {string} periodicite - "mensuel" (par défaut) ou "annuel"
+ */
+const choixPlanSchema = z.object({
+  planId: z.enum(PLANS_PAYANTS),
+  periodicite: z.enum(PERIODICITES).default("mensuel"),
+});
+
+/**
+ * Schéma de validation de la souscription (choix du plan et code promo optionnel)
+ * @property {string} codePromo - Code promo saisi par le client
+ */
+const checkoutSchema = choixPlanSchema.extend({
+  codePromo: z.string().trim().min(1).optional(),
+});
 
 // ==========================================
 // GET /api/stripe/config
@@ -25,12 +81,21 @@ router.get("/config", (req, res) => {
   });
 });
 
+// ==========================================
+// GET /api/stripe/plans
+// Catalogue des plans payants (prix mensuels et annuels, sièges inclus, limites)
+// ==========================================
+router.get("/plans", (req, res) => {
+  res.json({ devise: "eur", joursEssai: JOURS_ESSAI, plans: getCatalogue() });
+});
+
 // ==========================================
 // POST /api/stripe/create-checkout
-// Créer une session de paiement Stripe
+// Créer une session de paiement Stripe pour un plan du catalogue
 // ==========================================
-router.post("/create-checkout", authenticate, async (req, res) => {
+router.post("/create-checkout", authenticate, facturationEcriture, async (req, res) => {
   try {
+    const { planId, periodicite, codePromo } = checkoutSchema.parse(req.body);
     const userId = req.user!.id;
     const agenceId = req.agenceId!;
 
@@ -51,8 +116,21 @@ router.post("/create-checkout", authenticate, async (req, res) => {
       return res.status(404).json({ error: "Utilisateur ou agence non trouvé" });
     }
 
+    // Un abonnement en cours se modifie (prorata), il ne se souscrit pas une seconde fois
+    if (agence.idClientStripe && (await findActiveSubscription(agence.idClientStripe))) {
+      return res.status(400).json({
+        error: "Un abonnement est déjà en cours - Utilisez le changement de plan",
+      });
+    }
+
+    // Code promo validé localement, appliqué via son coupon Stripe
+    const promo = codePromo ? await validatePromoCode(codePromo, agenceId, planId) : null;
+    if (promo && "erreur" in promo) {
+      return res.status(400).json({ error: promo.erreur });
+    }
+
     // Créer ou récupérer le customer Stripe
-    let customerId = agence.idAbonnementStripe;
+    let customerId = agence.idClientStripe;
     
     if (!customerId) {
       const customer = await stripe.customers.create({
@@ -64,166 +142,210 @@ router.post("/create-checkout", authenticate, async (req, res) => {
         },
       });
       customerId = customer.id;
+
+      // Lié tout de suite: un checkout abandonné réutilise le même customer
+      await db
+        .update(agences)
+        .set({ idClientStripe: customerId })
+        .where(eq(agences.id, agenceId));
     }
 
-    // Créer la session de checkout avec trial de 3 jours
-    const session = await stripe.checkout.sessions.create({
-      customer: customerId,
-      payment_method_types: ["card"],
-      line_items: [
-        {
-          price_data: {
-            currency: "eur",
-            product_data: {
-              name: "OnlyTrack",
-              description: "Abonnement mensuel",
-            },
-            unit_amount: 4900, // 49€ en cents
-            recurring: {
-              interval: "month",
-            },
+    // Plan + sièges supplémentaires au-delà de ceux inclus
+    const sieges = siegesSupplementaires(planId, await countActiveSeats(agenceId));
+    const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = [
+      { price: await getStripePrice(planId, periodicite, "base"), quantity: 1 },
+    ];
+    if (sieges > 0) {
+      lineItems.push({
+        price: await getStripePrice(planId, periodicite, "siege"),
+        quantity: sieges,
+      });
+    }
+
+    // Période d'essai réservée à la première souscription (pas à un réabonnement)
+    const essai =
+      !agence.idAbonnementStripe &&
+      !agence.dateFinEssai &&
+      !(await hasSubscriptionHistory(customerId));
+
+    // Utilisation du code promo réservée jusqu'à la fin (ou l'expiration) du checkout
+    const reservation = promo ? await reservePromoCode(promo.codePromo, agenceId) : null;
+    if (promo && !reservation) {
+      return res.status(400).json({ error: "Ce code promo n'est plus disponible" });
+    }
+
+    // Créer la session de checkout
+    let session: Stripe.Checkout.Session;
+    try {
+      session = await stripe.checkout.sessions.create({
+        customer: customerId,
+        payment_method_types: ["card"],
+        line_items: lineItems,
+        ...(promo
+          ? {
+              discounts: [{ coupon: await getStripeCoupon(promo.codePromo) }],
+              expires_at: Math.floor((Date.now() + DUREE_RESERVATION_CODE_PROMO_MS) / 1000),
+            }
+          : {}),
+        mode: "subscription",
+        subscription_data: {
+          ...(essai ? { trial_period_days: JOURS_ESSAI } : {}),
+          metadata: {
+            agenceId: agenceId,
+            planId,
+            periodicite,
           },
-          quantity: 1,
         },
-      ],
-      mode: "subscription",
-      subscription_data: {
-        trial_period_days: 3,
+        success_url: `${req.headers.origin || "http://localhost:5000"}/?success=true`,
+        cancel_url: `${req.headers.origin || "http://localhost:5000"}/pricing?canceled=true`,
         metadata: {
           agenceId: agenceId,
+          userId: userId,
+          planId,
+          periodicite,
+          ...(promo ? { codePromoId: promo.codePromo.id } : {}),
         },
-      },
-      success_url: `${req.headers.origin || "http://localhost:5000"}/?success=true`,
-      cancel_url: `${req.headers.origin || "http://localhost:5000"}/pricing?canceled=true`,
-      metadata: {
-        agenceId: agenceId,
-        userId: userId,
-      },
-    });
+      });
+    } catch (error) {
+      if (promo && reservation?.nouvelle) {
+        await releasePromoCode(promo.codePromo.id, agenceId);
+      }
+      throw error;
+    }
+
+    if (reservation) {
+      await attachPromoReservation(reservation.id, session.id);
+    }
 
     res.json({ url: session.url });
   } catch (error: any) {
     console.error("Erreur création checkout:", error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Données invalides",
+        details: error.errors,
+      });
+    }
+
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ==========================================
+// POST /api/stripe/changer-plan
+// Passer à un autre plan ou une autre périodicité (mise à jour de l'abonnement avec prorata)
+// ==========================================
+router.post("/changer-plan", authenticate, facturationEcriture, async (req, res) => {
+  try {
+    const agenceId = req.agenceId!;
+
+    const [agence] = await db
+      .select()
+      .from(agences)
+      .where(eq(agences.id, agenceId))
+      .limit(1);
+
+    if (!agence) {
+      return res.status(404).json({ error: "Agence non trouvée" });
+    }
+
+    const abonnement = agence.idClientStripe
+      ? await findActiveSubscription(agence.idClientStripe)
+      : null;
+
+    if (!abonnement) {
+      return res.status(400).json({
+        error: "Aucun abonnement en cours - Souscrivez d'abord un plan",
+      });
+    }
+
+    const actuel = planDepuisAbonnement(abonnement);
+    const { planId, periodicite } = choixPlanSchema.parse({
+      periodicite: actuel?.periodicite,
+      ...req.body,
+    });
+
+    if (actuel?.plan === planId && actuel.periodicite === periodicite) {
+      return res.status(400).json({ error: "Ce plan est déjà actif" });
+    }
+
+    await stripe.subscriptions.update(abonnement.id, {
+      items: await lignesAbonnement(
+        planId,
+        periodicite,
+        await countActiveSeats(agenceId),
+        abonnement,
+      ),
+      proration_behavior: "create_prorations",
+      metadata: { ...abonnement.metadata, agenceId, planId, periodicite },
+    });
+
+    await db.update(agences).set({ plan: planId }).where(eq(agences.id, agenceId));
+
+    console.log(
+      `🔁 Agence ${agenceId}: ${actuel?.plan ?? agence.plan} -> ${planId} (${periodicite})`,
+    );
+
+    res.json({ message: "Plan modifié", plan: planId, periodicite });
+  } catch (error: any) {
+    console.error("Erreur changement de plan:", error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Données invalides",
+        details: error.errors,
+      });
+    }
+
     res.status(500).json({ error: error.message });
   }
 });
 
 // ==========================================
 // POST /api/stripe/webhook
-// Recevoir les événements Stripe
+// Recevoir les événements Stripe (corps brut, signature vérifiée)
+// Chaque événement est stocké: une nouvelle livraison d'un événement déjà traité est ignorée
 // ==========================================
 router.post("/webhook", async (req, res) => {
-  const sig = req.headers["stripe-signature"] as string;
-  
-  // Note: En production, vérifier la signature avec STRIPE_WEBHOOK_SECRET
-  // Pour le dev, on accepte tous les événements
-  
+  if (!STRIPE_WEBHOOK_SECRET) {
+    console.error("STRIPE_WEBHOOK_SECRET non configuré - webhook refusé");
+    return res.status(500).json({ error: "Webhook Stripe non configuré" });
+  }
+
+  const signature = req.headers["stripe-signature"];
+  if (typeof signature !== "string" || !Buffer.isBuffer(req.body)) {
+    return res.status(400).json({ error: "Signature Stripe manquante" });
+  }
+
+  let event: Stripe.Event;
   try {
-    const event = req.body;
-
-    switch (event.type) {
-      case "checkout.session.completed": {
-        const session = event.data.object;
-        const agenceId = session.metadata?.agenceId;
-        
-        if (agenceId) {
-          // Activer l'abonnement premium
-          await db
-            .update(agences)
-            .set({
-              plan: "premium",
-              statutAbonnement: "actif",
-              idAbonnementStripe: session.customer,
-            })
-            .where(eq(agences.id, agenceId));
-          
-          console.log(`✅ Agence ${agenceId} passée en Premium`);
-        }
-        break;
-      }
+    event = stripe.webhooks.constructEvent(req.body, signature, STRIPE_WEBHOOK_SECRET);
+  } catch (error: any) {
+    console.warn("⚠️ Webhook Stripe rejeté (signature invalide):", error.message);
+    return res.status(400).json({ error: "Signature Stripe invalide" });
+  }
 
-      case "customer.subscription.deleted": {
-        const subscription = event.data.object;
-        const customerId = subscription.customer;
-        
-        // Trouver l'agence par customer ID
-        const [agence] = await db
-          .select()
-          .from(agences)
-          .where(eq(agences.idAbonnementStripe, customerId))
-          .limit(1);
-        
-        if (agence) {
-          // Suspendre l'abonnement (pas supprimer les données)
-          await db
-            .update(agences)
-            .set({
-              plan: "free",
-              statutAbonnement: "annule",
-            })
-            .where(eq(agences.id, agence.id));
-          
-          console.log(`⚠️ Agence ${agence.id} abonnement annulé`);
-        }
-        break;
-      }
+  try {
+    const evenement = await storeStripeEvent(event);
 
-      case "invoice.payment_failed": {
-        const invoice = event.data.object;
-        const customerId = invoice.customer;
-        
-        // Trouver l'agence par customer ID
-        const [agence] = await db
-          .select()
-          .from(agences)
-          .where(eq(agences.idAbonnementStripe, customerId))
-          .limit(1);
-        
-        if (agence) {
-          // Suspendre le compte en attente de paiement
-          await db
-            .update(agences)
-            .set({
-              statutAbonnement: "suspendu",
-            })
-            .where(eq(agences.id, agence.id));
-          
-          console.log(`🔴 Agence ${agence.id} suspendue (paiement échoué)`);
-        }
-        break;
-      }
+    // Déjà traité, ou en cours de traitement par une livraison simultanée
+    if (!evenement) {
+      return res.json({ received: true, doublon: true });
+    }
 
-      case "invoice.payment_succeeded": {
-        const invoice = event.data.object;
-        const customerId = invoice.customer;
-        
-        // Trouver l'agence par customer ID
-        const [agence] = await db
-          .select()
-          .from(agences)
-          .where(eq(agences.idAbonnementStripe, customerId))
-          .limit(1);
-        
-        if (agence) {
-          // Réactiver le compte
-          await db
-            .update(agences)
-            .set({
-              plan: "premium",
-              statutAbonnement: "actif",
-            })
-            .where(eq(agences.id, agence.id));
-          
-          console.log(`✅ Agence ${agence.id} paiement reçu`);
-        }
-        break;
-      }
+    const traite = await processStripeEvent(evenement);
+
+    // Erreur: Stripe relivrera l'événement, qui sera retraité
+    if (traite.statut === "erreur") {
+      console.error(`Erreur traitement événement Stripe ${event.id}:`, traite.erreur);
+      return res.status(500).json({ error: "Erreur lors du traitement de l'événement" });
     }
 
-    res.json({ received: true });
+    res.json({ received: true, statut: traite.statut });
   } catch (error: any) {
     console.error("Erreur webhook Stripe:", error);
-    res.status(400).json({ error: error.message });
+    res.status(500).json({ error: "Erreur lors de l'enregistrement de l'événement" });
   }
 });
 
@@ -231,7 +353,7 @@ router.post("/webhook", async (req, res) => {
 // POST /api/stripe/portal
 // Accès au portail client Stripe
 // ==========================================
-router.post("/portal", authenticate, async (req, res) => {
+router.post("/portal", authenticate, facturationEcriture, async (req, res) => {
   try {
     const agenceId = req.agenceId!;
 
@@ -241,12 +363,12 @@ router.post("/portal", authenticate, async (req, res) => {
       .where(eq(agences.id, agenceId))
       .limit(1);
 
-    if (!agence?.idAbonnementStripe) {
+    if (!agence?.idClientStripe) {
       return res.status(400).json({ error: "Aucun abonnement actif" });
     }
 
     const session = await stripe.billingPortal.sessions.create({
-      customer: agence.idAbonnementStripe,
+      customer: agence.idClientStripe,
       return_url: `${req.headers.origin || "http://localhost:5000"}/`,
     });
 
@@ -257,11 +379,87 @@ router.post("/portal", authenticate, async (req, res) => {
   }
 });
 
+// ==========================================
+// GET /api/stripe/invoices
+// Historique des factures de l'agence (liens vers la facture Stripe et son PDF)
+// ==========================================
+router.get("/invoices", authenticate, facturationLecture, async (req, res) => {
+  try {
+    const factures = await db
+      .select({
+        id: facturesStripe.id,
+        numero: facturesStripe.numero,
+        statut: facturesStripe.statut,
+        devise: facturesStripe.devise,
+        montantTotal: facturesStripe.montantTotal,
+        montantPaye: facturesStripe.montantPaye,
+        montantRembourse: facturesStripe.montantRembourse,
+        dateDebutPeriode: facturesStripe.dateDebutPeriode,
+        dateFinPeriode: facturesStripe.dateFinPeriode,
+        dateFacture: facturesStripe.dateFacture,
+        datePaiement: facturesStripe.datePaiement,
+        lienFacture: facturesStripe.lienFacture,
+        lienPdf: facturesStripe.lienPdf,
+      })
+      .from(facturesStripe)
+      .where(
+        and(
+          eq(facturesStripe.agenceId, req.agenceId!),
+          ne(facturesStripe.statut, "brouillon"),
+        ),
+      )
+      .orderBy(desc(facturesStripe.dateFacture));
+
+    res.json(factures);
+  } catch (error: any) {
+    console.error("Erreur historique factures:", error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ==========================================
+// GET /api/stripe/parrainage
+// Code de parrainage de l'agence et agences parrainées
+// ==========================================
+router.get("/parrainage", authenticate, facturationLecture, async (req, res) => {
+  try {
+    const [agence] = await db
+      .select({ codeParrainage: agences.codeParrainage })
+      .from(agences)
+      .where(eq(agences.id, req.agenceId!))
+      .limit(1);
+
+    if (!agence) {
+      return res.status(404).json({ error: "Agence non trouvée" });
+    }
+
+    const filleuls = await db
+      .select({
+        statut: parrainages.statut,
+        montantCredit: parrainages.montantCredit,
+        dateCreation: parrainages.dateCreation,
+        dateRecompense: parrainages.dateRecompense,
+      })
+      .from(parrainages)
+      .where(eq(parrainages.parrainId, req.agenceId!))
+      .orderBy(desc(parrainages.dateCreation));
+
+    res.json({
+      codeParrainage: agence.codeParrainage,
+      filleuls,
+      creditTotal: filleuls.reduce((total, f) => total + (f.montantCredit ?? 0), 0),
+    });
+  } catch (error: any) {
+    console.error("Erreur parrainage:", error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // ==========================================
 // GET /api/stripe/status
 // Vérifier le statut d'abonnement
 // ==========================================
-router.get("/status", authenticate, async (req, res) => {
+router.get("/status", authenticate, facturationLecture, async (req, res) => {
   try {
     const agenceId = req.agenceId!;
 
@@ -269,6 +467,9 @@ router.get("/status", authenticate, async (req, res) => {
       .select({
         plan: agences.plan,
         statutAbonnement: agences.statutAbonnement,
+        dateExpirationAbonnement: agences.dateExpirationAbonnement,
+        dateFinEssai: agences.dateFinEssai,
+        dateEchecPaiement: agences.dateEchecPaiement,
       })
       .from(agences)
       .where(eq(agences.id, agenceId))
@@ -279,16 +480,19 @@ router.get("/status", authenticate, async (req, res) => {
     }
 
     // Un compte est premium si:
-    // - Le plan est "premium" ET
-    // - Le statut n'est PAS "suspendu" ou "annule"
-    const isPremium = agence.plan === "premium" && 
-      agence.statutAbonnement !== "suspendu" && 
-      agence.statutAbonnement !== "annule";
+    // - Le plan est un plan payant du catalogue ET
+    // - Le statut n'est PAS "annule" ou "expire", ni "suspendu" au-delà du délai de grâce
+    const isPremium = planEffectif(agence) !== "free";
 
     res.json({
       plan: agence.plan,
       status: agence.statutAbonnement,
       isPremium,
+      enEssai: isPremium && !!agence.dateFinEssai && agence.dateFinEssai > new Date(),
+      dateFinEssai: agence.dateFinEssai,
+      dateExpiration: agence.dateExpirationAbonnement,
+      finDelaiGrace: finDelaiGrace(agence),
+      lectureSeule: isLectureSeule(agence),
     });
   } catch (error: any) {
     console.error("Erreur statut abonnement:", error);
@@ -296,14 +500,51 @@ router.get("/status", authenticate, async (req, res) => {
   }
 });
 
+// ==========================================
+// GET /api/stripe/entitlements
+// Limites du plan effectif et utilisation actuelle de l'agence
+// ==========================================
+router.get("/entitlements", authenticate, facturationLecture, async (req, res) => {
+  try {
+    const agenceId = req.agenceId!;
+    const entitlements = await getEntitlements(agenceId);
+
+    if (!entitlements) {
+      return res.status(404).json({ error: "Agence non trouvée" });
+    }
+
+    const quotas: Quota[] = ["sieges", "modeles", "accesTemporaires", "requetesIa"];
+    const utilisation: Record<string, { utilise: number; limite: number | null }> = {};
+    for (const quota of quotas) {
+      utilisation[quota] = {
+        utilise: await getUsage(agenceId, quota),
+        limite: entitlements.limites[quota],
+      };
+    }
+
+    res.json({
+      plan: entitlements.plan,
+      limites: entitlements.limites,
+      utilisation,
+      fonctionnalites: {
+        ia: entitlements.limites.ia,
+        exports: entitlements.limites.exports,
+        analyticsAvances: entitlements.limites.analyticsAvances,
+      },
+    });
+  } catch (error: any) {
+    console.error("Erreur droits du plan:", error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // ==========================================
 // POST /api/stripe/verify-payment
-// Vérifier et synchroniser le statut de paiement (pour dev sans webhooks)
+// Resynchroniser l'abonnement depuis Stripe (retour de checkout, webhooks absents en dev)
 // ==========================================
-router.post("/verify-payment", authenticate, async (req, res) => {
+router.post("/verify-payment", authenticate, facturationEcriture, async (req, res) => {
   try {
     const agenceId = req.agenceId!;
-    console.log(`🔍 Vérification paiement pour agence: ${agenceId}`);
 
     const [agence] = await db
       .select()
@@ -312,97 +553,30 @@ router.post("/verify-payment", authenticate, async (req, res) => {
       .limit(1);
 
     if (!agence) {
-      console.log(`❌ Agence non trouvée: ${agenceId}`);
       return res.status(404).json({ error: "Agence non trouvée" });
     }
 
-    console.log(`📊 État actuel: plan=${agence.plan}, statut=${agence.statutAbonnement}, stripeId=${agence.idAbonnementStripe}`);
-
-    // Si déjà premium, pas besoin de vérifier
-    if (agence.plan === "premium" && agence.statutAbonnement === "actif") {
-      console.log(`✅ Déjà premium`);
-      return res.json({ 
-        success: true, 
-        message: "Abonnement déjà actif",
-        plan: "premium",
-        status: "actif"
-      });
-    }
+    const etat = await reconcileSubscription(agence);
 
-    // Si on a un customer ID Stripe, vérifier les abonnements actifs
-    if (agence.idAbonnementStripe) {
-      console.log(`🔎 Vérification abonnement customer: ${agence.idAbonnementStripe}`);
-      const subscriptions = await stripe.subscriptions.list({
-        customer: agence.idAbonnementStripe,
-        limit: 5,
+    if (!etat) {
+      return res.json({
+        success: false,
+        message: "Aucun abonnement trouvé",
+        plan: agence.plan,
+        status: agence.statutAbonnement,
       });
-
-      console.log(`📋 Abonnements trouvés: ${subscriptions.data.length}`);
-      
-      for (const sub of subscriptions.data) {
-        console.log(`  - Sub ${sub.id}: status=${sub.status}`);
-        if (sub.status === "active" || sub.status === "trialing") {
-          // Mettre à jour le plan en premium
-          await db
-            .update(agences)
-            .set({
-              plan: "premium",
-              statutAbonnement: "actif",
-            })
-            .where(eq(agences.id, agenceId));
-
-          console.log(`✅ Agence ${agenceId} synchronisée - Premium activé`);
-          
-          return res.json({
-            success: true,
-            message: "Abonnement activé avec succès",
-            plan: "premium",
-            status: "actif"
-          });
-        }
-      }
     }
 
-    // Chercher les sessions de checkout récentes
-    console.log(`🔎 Recherche sessions checkout...`);
-    const sessions = await stripe.checkout.sessions.list({
-      limit: 20,
-    });
+    console.log(`🔍 Agence ${agenceId} synchronisée: ${etat.plan} (${etat.statutAbonnement})`);
 
-    console.log(`📋 Sessions trouvées: ${sessions.data.length}`);
-
-    for (const session of sessions.data) {
-      console.log(`  - Session ${session.id}: agenceId=${session.metadata?.agenceId}, status=${session.status}, payment=${session.payment_status}, customer=${session.customer}`);
-      
-      // Vérifier si c'est une session pour cette agence qui est complète
-      if (session.metadata?.agenceId === agenceId && session.status === "complete") {
-        // Mettre à jour avec le customer ID (pour trial, payment_status peut être "no_payment_required")
-        await db
-          .update(agences)
-          .set({
-            plan: "premium",
-            statutAbonnement: "actif",
-            idAbonnementStripe: session.customer as string,
-          })
-          .where(eq(agences.id, agenceId));
-
-        console.log(`✅ Agence ${agenceId} synchronisée via session ${session.id} - Premium activé`);
-        
-        return res.json({
-          success: true,
-          message: "Abonnement activé avec succès",
-          plan: "premium",
-          status: "actif"
-        });
-      }
-    }
-
-    console.log(`❌ Aucun paiement trouvé pour ${agenceId}`);
-    return res.json({ 
-      success: false, 
-      message: "Aucun paiement trouvé",
-      plan: agence.plan,
-      status: agence.statutAbonnement
+    const actif = planEffectif(etat) !== "free";
+    res.json({
+      success: actif,
+      message: actif ? "Abonnement actif" : "Abonnement inactif",
+      plan: etat.plan,
+      status: etat.statutAbonnement,
+      dateFinEssai: etat.dateFinEssai,
+      dateExpiration: etat.dateExpirationAbonnement,
     });
   } catch (error: any) {
     console.error("Erreur vérification paiement:", error);
@@ -7,7 +7,14 @@ import { Router } from "express";
 import { db } from "../db";
 import { taches } from "../schema";
 import { eq, and } from "drizzle-orm";
-import { authenticate } from "../middleware/auth";
+import {
+  authenticate,
+  requireResourcePermission,
+  requireModelLink,
+  modeleRestreint,
+  horsFicheModele,
+} from "../middleware/auth";
+import { requireActiveSubscription } from "../lib/plans";
 import { z } from "zod";
 
 const router = Router();
@@ -15,12 +22,22 @@ const router = Router();
 // Toutes les routes requièrent l'authentification
 router.use(authenticate);
 
+// Agence suspendue pour impayé (délai de grâce écoulé): lecture seule
+router.use(requireActiveSubscription);
+
+// Lecture / écriture selon les permissions du rôle
+router.use(requireResourcePermission("todos"));
+
+// Un compte modèle n'accède qu'aux données de sa fiche
+router.use(requireModelLink);
+
 // ====================================================================================================
 /**
  * GET /api/todos
  * 
  * Récupère toutes les tâches de l'agence.
  * Les tâches sont triées par date de création.
+ * Un compte "model" ne reçoit que les tâches liées à sa fiche.
  * 
  * @route GET /api/todos
  * @access Private - Tous les utilisateurs authentifiés
@@ -31,10 +48,17 @@ router.get("/", async (req, res) => {
   try {
     const agenceId = req.agenceId!;
 
+    // Un compte modèle ne voit que les tâches liées à sa fiche
+    const conditions = [eq(taches.agenceId, agenceId)];
+    const modele = modeleRestreint(req);
+    if (modele) {
+      conditions.push(eq(taches.modeleId, modele));
+    }
+
     const tachesList = await db
       .select()
       .from(taches)
-      .where(eq(taches.agenceId, agenceId))
+      .where(and(...conditions))
       .orderBy(taches.dateCreation);
 
     res.json(tachesList);
@@ -81,7 +105,7 @@ router.post("/", async (req, res) => {
       texte: data.texte,
       terminee: data.terminee,
       assigneA: data.assigneA || null,
-      modeleId: data.modeleId || null,
+      modeleId: modeleRestreint(req) ?? (data.modeleId || null),
       dateCreation: new Date(),
     });
 
@@ -140,7 +164,7 @@ router.patch("/:id", async (req, res) => {
       .where(and(eq(taches.id, id), eq(taches.agenceId, agenceId)))
       .limit(1);
 
-    if (!tache) {
+    if (!tache || horsFicheModele(req, tache.modeleId)) {
       return res.status(404).json({ error: "Tâche non trouvée" });
     }
 
@@ -198,7 +222,7 @@ router.delete("/:id", async (req, res) => {
       .where(and(eq(taches.id, id), eq(taches.agenceId, agenceId)))
       .limit(1);
 
-    if (!tache) {
+    if (!tache || horsFicheModele(req, tache.modeleId)) {
       return res.status(404).json({ error: "Tâche non trouvée" });
     }
 
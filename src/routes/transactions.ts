@@ -6,14 +6,29 @@
 import { Router } from "express";
 import { db } from "../db";
 import { transactions } from "../schema";
-import { eq, gte, lte } from "drizzle-orm";
-import { authenticate } from "../middleware/auth";
+import { eq, and, gte, lte } from "drizzle-orm";
+import {
+  authenticate,
+  requireResourcePermission,
+  requireModelLink,
+  modeleRestreint,
+} from "../middleware/auth";
+import { requireActiveSubscription } from "../lib/plans";
 
 const router = Router();
 
 // Toutes les routes requièrent l'authentification
 router.use(authenticate);
 
+// Agence suspendue pour impayé (délai de grâce écoulé): lecture seule
+router.use(requireActiveSubscription);
+
+// Lecture / écriture selon les permissions du rôle
+router.use(requireResourcePermission("transactions"));
+
+// Un compte modèle n'accède qu'aux données de sa fiche
+router.use(requireModelLink);
+
 // ====================================================================================================
 /**
  * GET /api/transactions
@@ -35,27 +50,30 @@ router.get("/", async (req, res) => {
     const agenceId = req.agenceId!;
     const { modelId, payee, dateDebut, dateFin } = req.query;
 
-    let query = db
-      .select()
-      .from(transactions)
-      .where(eq(transactions.agenceId, agenceId))
-      .$dynamic();
+    const conditions = [eq(transactions.agenceId, agenceId)];
+
+    // Un compte modèle ne voit que sa fiche, quel que soit le filtre demandé
+    const filtreModele = modeleRestreint(req) ?? modelId;
 
     // Filtres optionnels
-    if (modelId && typeof modelId === "string") {
-      query = query.where(eq(transactions.modeleId, modelId));
+    if (filtreModele && typeof filtreModele === "string") {
+      conditions.push(eq(transactions.modeleId, filtreModele));
     }
     if (payee !== undefined) {
-      query = query.where(eq(transactions.payee, payee === "true"));
+      conditions.push(eq(transactions.payee, payee === "true"));
     }
     if (dateDebut && typeof dateDebut === "string") {
-      query = query.where(gte(transactions.date, new Date(dateDebut)));
+      conditions.push(gte(transactions.date, new Date(dateDebut)));
     }
     if (dateFin && typeof dateFin === "string") {
-      query = query.where(lte(transactions.date, new Date(dateFin)));
+      conditions.push(lte(transactions.date, new Date(dateFin)));
     }
 
-    const transactionsList = await query.orderBy(transactions.date);
+    const transactionsList = await db
+      .select()
+      .from(transactions)
+      .where(and(...conditions))
+      .orderBy(transactions.date);
 
     res.json(transactionsList);
   } catch (error) {
@@ -7,6 +7,9 @@ import {
   timestamp,
   boolean,
   float,
+  json,
+  index,
+  uniqueIndex,
 } from "drizzle-orm/mysql-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -23,18 +26,30 @@ export const agences = mysqlTable("agences", {
   nom: varchar("nom", { length: 255 }).notNull(),
   plan: varchar("plan", { length: 20 })
     .$default(() => "free")
-    .notNull(), // "free" ou "premium"
+    .notNull(), // "free", "starter", "pro" ou "agency" (limites: voir lib/plans.ts, tarifs: lib/catalogue.ts)
   demo: boolean("demo")
     .$default(() => false)
     .notNull(), // true si agence de démonstration
   dateCreation: timestamp("date_creation")
     .$defaultFn(() => new Date())
     .notNull(),
-  dateExpirationAbonnement: timestamp("date_expiration_abonnement"),
+  dateExpirationAbonnement: timestamp("date_expiration_abonnement"), // Fin de la période en cours de l'abonnement Stripe
+  dateFinEssai: timestamp("date_fin_essai"), // Fin de la période d'essai (null sans essai)
   statutAbonnement: varchar("statut_abonnement", { length: 20 }).$default(
     () => "actif",
-  ), // "actif", "annule", "expire"
-  idAbonnementStripe: varchar("id_abonnement_stripe", { length: 255 }),
+  ), // "actif", "suspendu", "annule", "expire" (voir lib/abonnements.ts)
+  idClientStripe: varchar("id_client_stripe", { length: 255 }), // Customer Stripe (cus_...)
+  idAbonnementStripe: varchar("id_abonnement_stripe", { length: 255 }), // Abonnement Stripe (sub_...)
+  dateEchecPaiement: timestamp("date_echec_paiement"), // Premier échec de paiement non régularisé (début du délai de grâce)
+  dateEvenementStripe: timestamp("date_evenement_stripe"), // Date (côté Stripe) du dernier événement appliqué: les événements plus anciens sont ignorés
+  deuxFacteursObligatoire: boolean("deux_facteurs_obligatoire")
+    .$default(() => false)
+    .notNull(), // true si l'owner impose la 2FA à tous les membres
+  statut: varchar("statut", { length: 20 }).default("active").notNull(), // "active", "suspendue", "archivee" (hors "active": aucune connexion possible)
+  motifStatut: text("motif_statut"), // Raison de la suspension ou de l'archivage
+  dateStatut: timestamp("date_statut"), // Dernier changement de statut
+  codeParrainage: varchar("code_parrainage", { length: 20 }).unique(), // Code à partager pour parrainer une autre agence
+  parrainId: varchar("parrain_id", { length: 36 }), // Agence qui a parrainé celle-ci à l'inscription
 });
 
 // Utilisateurs - Comptes avec authentification (owners, members, models)
@@ -48,13 +63,25 @@ export const utilisateurs = mysqlTable("utilisateurs", {
   motDePasseHash: varchar("mot_de_passe_hash", { length: 255 }).notNull(),
   role: varchar("role", { length: 20 })
     .$default(() => "member")
-    .notNull(), // "owner", "member", "model"
-  agenceId: varchar("agence_id", { length: 36 }).notNull(),
+    .notNull(), // "owner", "member", "model" - rôle dans l'agence par défaut (voir membres_agence)
+  agenceId: varchar("agence_id", { length: 36 }).notNull(), // Agence par défaut (dernière agence sélectionnée)
+  langue: varchar("langue", { length: 5 })
+    .$default(() => "fr")
+    .notNull(), // "fr" ou "en" (langue des emails)
   emailVerifie: boolean("email_verifie")
     .$default(() => false)
     .notNull(),
   tokenVerification: varchar("token_verification", { length: 255 }),
-  tokenResetPassword: varchar("token_reset_password", { length: 255 }),
+  tokenResetPassword: varchar("token_reset_password", { length: 255 }), // Hash SHA256 du token
+  dateExpirationResetPassword: timestamp("date_expiration_reset_password"),
+  emailEnAttente: varchar("email_en_attente", { length: 255 }), // Nouvel email non encore confirmé
+  tokenChangementEmail: varchar("token_changement_email", { length: 255 }), // Hash SHA256 du token
+  dateExpirationChangementEmail: timestamp("date_expiration_changement_email"),
+  totpSecret: varchar("totp_secret", { length: 255 }), // Secret chiffré (AES-GCM)
+  totpActive: boolean("totp_active")
+    .$default(() => false)
+    .notNull(),
+  totpDernierPas: int("totp_dernier_pas"), // Pas de temps du dernier code TOTP accepté (anti-rejeu)
   dateCreation: timestamp("date_creation")
     .$defaultFn(() => new Date())
     .notNull(),
@@ -64,34 +91,94 @@ export const utilisateurs = mysqlTable("utilisateurs", {
     .notNull(),
 });
 
+// Appartenances - Un utilisateur peut être membre de plusieurs agences, avec un rôle par agence
+export const membresAgence = mysqlTable(
+  "membres_agence",
+  {
+    id: varchar("id", { length: 36 })
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    utilisateurId: varchar("utilisateur_id", { length: 36 }).notNull(),
+    agenceId: varchar("agence_id", { length: 36 }).notNull(),
+    role: varchar("role", { length: 20 })
+      .$default(() => "member")
+      .notNull(), // "owner", "member", "model"
+    roleId: varchar("role_id", { length: 36 }), // Rôle personnalisé (roles_agence), sinon rôle par défaut de "role"
+    modeleId: varchar("modele_id", { length: 36 }), // Fiche modèle du compte (rôle "model" uniquement)
+    actif: boolean("actif").default(true).notNull(), // false = membre désactivé (défaut SQL: les appartenances existantes restent actives)
+    dateDesactivation: timestamp("date_desactivation"),
+    dateCreation: timestamp("date_creation")
+      .$defaultFn(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex("membres_agence_utilisateur_agence").on(
+      table.utilisateurId,
+      table.agenceId,
+    ),
+  ],
+);
+
+// Rôles - Ensembles de permissions par agence (rôles par défaut + rôles personnalisés)
+export const rolesAgence = mysqlTable(
+  "roles_agence",
+  {
+    id: varchar("id", { length: 36 })
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    agenceId: varchar("agence_id", { length: 36 }).notNull(),
+    code: varchar("code", { length: 20 }), // "owner", "member", "model" pour les rôles par défaut, null sinon
+    nom: varchar("nom", { length: 100 }).notNull(),
+    description: text("description"),
+    permissions: json("permissions").$type<string[]>().notNull(), // Ex: ["transactions:write", "models:read"]
+    dateCreation: timestamp("date_creation")
+      .$defaultFn(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex("roles_agence_agence_code").on(table.agenceId, table.code),
+    uniqueIndex("roles_agence_agence_nom").on(table.agenceId, table.nom),
+  ],
+);
+
 // Invitations - Gestion des invitations d'équipe par email
 export const invitations = mysqlTable("invitations", {
   id: varchar("id", { length: 36 })
     .primaryKey()
     .$defaultFn(() => crypto.randomUUID()),
   email: varchar("email", { length: 255 }).notNull(),
+  prenom: varchar("prenom", { length: 100 }),
+  nom: varchar("nom", { length: 100 }),
   agenceId: varchar("agence_id", { length: 36 }).notNull(),
   role: varchar("role", { length: 20 })
     .$default(() => "member")
     .notNull(), // "member" ou "model"
-  token: varchar("token", { length: 255 }).notNull().unique(),
+  modeleId: varchar("modele_id", { length: 36 }), // Fiche modèle liée à l'acceptation (rôle "model")
+  token: varchar("token", { length: 255 }).notNull().unique(), // Hash SHA256 du token envoyé par email
   statut: varchar("statut", { length: 20 })
     .$default(() => "en_attente")
-    .notNull(), // "en_attente", "accepte", "expire"
+    .notNull(), // "en_attente", "accepte", "expire", "revoque"
   invitePar: varchar("invite_par", { length: 36 }).notNull(),
   dateCreation: timestamp("date_creation")
     .$defaultFn(() => new Date())
     .notNull(),
   dateExpiration: timestamp("date_expiration").notNull(),
+  dateAcceptation: timestamp("date_acceptation"),
 });
 
-// Sessions - Gestion des sessions JWT
+// Sessions - Une ligne par famille de refresh tokens (rotation à chaque refresh)
 export const sessions = mysqlTable("sessions", {
   id: varchar("id", { length: 36 })
     .primaryKey()
     .$defaultFn(() => crypto.randomUUID()),
-  utilisateurId: varchar("utilisateur_id", { length: 36 }).notNull(),
-  tokenHash: varchar("token_hash", { length: 255 }).notNull(),
+  utilisateurId: varchar("utilisateur_id", { length: 36 }).notNull(), // ID utilisateur, admin ou accès démo
+  typeCompte: varchar("type_compte", { length: 20 })
+    .$default(() => "utilisateur")
+    .notNull(), // "utilisateur", "admin", "demo", "impersonation"
+  tokenHash: varchar("token_hash", { length: 255 }).notNull(), // Hash SHA256 du refresh token courant
+  anciensTokensHash: json("anciens_tokens_hash").$type<string[]>(), // Hashes des refresh tokens déjà remplacés (détection de rejeu)
+  dateRotation: timestamp("date_rotation"), // Dernière rotation du refresh token (délai de grâce des requêtes simultanées)
+  agenceId: varchar("agence_id", { length: 36 }), // Agence active de la session (comptes utilisateurs)
   dateCreation: timestamp("date_creation")
     .$defaultFn(() => new Date())
     .notNull(),
@@ -109,15 +196,35 @@ export const superAdmins = mysqlTable("super_admins", {
   motDePasse: varchar("mot_de_passe", { length: 255 }).notNull(),
   nom: varchar("nom", { length: 255 }).notNull(),
   prenom: varchar("prenom", { length: 255 }).notNull(),
+  role: varchar("role", { length: 20 }).default("admin").notNull(), // "support", "facturation", "admin" (les admins existants restent complets)
   actif: boolean("actif")
     .$default(() => true)
     .notNull(),
+  totpSecret: varchar("totp_secret", { length: 255 }), // Secret chiffré (AES-GCM)
+  totpActive: boolean("totp_active")
+    .$default(() => false)
+    .notNull(), // Obligatoire pour se connecter
+  totpDernierPas: int("totp_dernier_pas"), // Pas de temps du dernier code TOTP accepté (anti-rejeu)
   dateCreation: timestamp("date_creation")
     .$defaultFn(() => new Date())
     .notNull(),
   derniereConnexion: timestamp("derniere_connexion"),
 });
 
+// Codes de récupération 2FA - Hashés, à usage unique (utilisateurs et admins)
+export const codesRecuperation = mysqlTable("codes_recuperation", {
+  id: varchar("id", { length: 36 })
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  compteId: varchar("compte_id", { length: 36 }).notNull(),
+  typeCompte: varchar("type_compte", { length: 20 }).notNull(), // "utilisateur" ou "admin"
+  codeHash: varchar("code_hash", { length: 255 }).notNull(),
+  dateCreation: timestamp("date_creation")
+    .$defaultFn(() => new Date())
+    .notNull(),
+  dateUtilisation: timestamp("date_utilisation"),
+});
+
 // Accès Temporaires - Liens d'accès pour clients/influenceurs
 export const accesTemporaires = mysqlTable("acces_temporaires", {
   id: varchar("id", { length: 36 })
@@ -137,6 +244,301 @@ export const accesTemporaires = mysqlTable("acces_temporaires", {
   creePar: varchar("cree_par", { length: 36 }).notNull(),
 });
 
+// Actions bloquées des visiteurs démo - Ce qu'un accès en lecture seule a tenté de modifier
+export const actionsDemoBloquees = mysqlTable("actions_demo_bloquees", {
+  id: varchar("id", { length: 36 })
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  agenceId: varchar("agence_id", { length: 36 }).notNull(),
+  accesId: varchar("acces_id", { length: 36 }).notNull(),
+  methode: varchar("methode", { length: 10 }).notNull(), // "POST", "PUT", "PATCH", "DELETE"
+  chemin: varchar("chemin", { length: 500 }).notNull(), // Ex: "/api/transactions/abc"
+  adresseIp: varchar("adresse_ip", { length: 45 }),
+  userAgent: text("user_agent"),
+  date: timestamp("date")
+    .$defaultFn(() => new Date())
+    .notNull(),
+});
+
+// Compteurs de tentatives - Store partagé anti brute-force (déploiements multi-instances)
+export const compteursTentatives = mysqlTable("compteurs_tentatives", {
+  cle: varchar("cle", { length: 255 }).primaryKey(), // "ip:<portee>:<ip>" ou "compte:<portee>:<identifiant>"
+  nombre: int("nombre")
+    .$default(() => 0)
+    .notNull(),
+  datePremiereTentative: timestamp("date_premiere_tentative").notNull(),
+  verrouilleJusqua: timestamp("verrouille_jusqua"),
+  dateExpiration: timestamp("date_expiration").notNull(),
+});
+
+// Compteurs d'utilisation mensuels - Quotas du plan qui ne se déduisent pas des données (requêtes IA)
+export const compteursUsage = mysqlTable(
+  "compteurs_usage",
+  {
+    id: varchar("id", { length: 36 })
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    agenceId: varchar("agence_id", { length: 36 }).notNull(),
+    quota: varchar("quota", { length: 30 }).notNull(), // "requetesIa"
+    periode: varchar("periode", { length: 7 }).notNull(), // Mois "AAAA-MM"
+    nombre: int("nombre")
+      .$default(() => 0)
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex("compteurs_usage_agence_quota_periode").on(
+      table.agenceId,
+      table.quota,
+      table.periode,
+    ),
+  ],
+);
+
+// Réservations de quotas comptés - Créations en cours de traitement (voir requireQuota dans lib/plans.ts)
+export const reservationsQuotas = mysqlTable(
+  "reservations_quotas",
+  {
+    id: varchar("id", { length: 36 })
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    agenceId: varchar("agence_id", { length: 36 }).notNull(),
+    quota: varchar("quota", { length: 30 }).notNull(), // "sieges", "modeles", "accesTemporaires"
+    dateReservation: timestamp("date_reservation")
+      .$defaultFn(() => new Date())
+      .notNull(), // Au-delà de la durée de réservation: abandonnée (requête interrompue), plus comptée
+  },
+  (table) => [index("reservations_quotas_agence_quota").on(table.agenceId, table.quota)],
+);
+
+// Tentatives échouées - Journal consultable par les owners (leur agence) et les admins
+export const tentativesEchouees = mysqlTable("tentatives_echouees", {
+  id: varchar("id", { length: 36 })
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  portee: varchar("portee", { length: 30 }).notNull(), // "connexion", "2fa", "admin", "admin-2fa", "demo", "acces", "invitation", "reauthentification", "reinitialisation"
+  identifiant: varchar("identifiant", { length: 255 }), // Email ou début du token tenté
+  agenceId: varchar("agence_id", { length: 36 }), // Agence concernée si le compte est connu
+  adresseIp: varchar("adresse_ip", { length: 45 }),
+  userAgent: text("user_agent"),
+  motif: varchar("motif", { length: 100 }).notNull(),
+  verrouille: boolean("verrouille")
+    .$default(() => false)
+    .notNull(), // true si cette tentative a déclenché un verrouillage
+  date: timestamp("date")
+    .$defaultFn(() => new Date())
+    .notNull(),
+});
+
+// Impersonations - Sessions ouvertes par un super-admin en tant qu'utilisateur d'une agence (support)
+export const impersonations = mysqlTable("impersonations", {
+  id: varchar("id", { length: 36 })
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  adminId: varchar("admin_id", { length: 36 }).notNull(),
+  utilisateurId: varchar("utilisateur_id", { length: 36 }).notNull(),
+  agenceId: varchar("agence_id", { length: 36 }).notNull(),
+  sessionId: varchar("session_id", { length: 36 }).notNull(), // Session "impersonation" portée par le cookie auth_token
+  motif: text("motif").notNull(), // Raison du support (ticket, bug signalé...)
+  modeEcriture: boolean("mode_ecriture")
+    .$default(() => false)
+    .notNull(), // false = lecture seule (par défaut)
+  dateDebut: timestamp("date_debut")
+    .$defaultFn(() => new Date())
+    .notNull(),
+  dateEcriture: timestamp("date_ecriture"), // Passage en mode écriture
+  dateExpiration: timestamp("date_expiration").notNull(),
+  dateFin: timestamp("date_fin"), // Arrêt explicite
+});
+
+// Journal des impersonations - Début, fin, passage en écriture et chaque requête effectuée
+export const journalImpersonations = mysqlTable("journal_impersonations", {
+  id: varchar("id", { length: 36 })
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  impersonationId: varchar("impersonation_id", { length: 36 }).notNull(),
+  adminId: varchar("admin_id", { length: 36 }).notNull(),
+  action: varchar("action", { length: 30 }).notNull(), // "debut", "ecriture_activee", "requete", "requete_bloquee", "fin"
+  methode: varchar("methode", { length: 10 }),
+  chemin: varchar("chemin", { length: 500 }),
+  statutHttp: int("statut_http"),
+  details: text("details"),
+  adresseIp: varchar("adresse_ip", { length: 45 }),
+  date: timestamp("date")
+    .$defaultFn(() => new Date())
+    .notNull(),
+});
+
+// Journal d'audit admin - Append-only: chaque modification faite depuis l'administration
+export const auditAdmin = mysqlTable("audit_admin", {
+  id: varchar("id", { length: 36 })
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  adminId: varchar("admin_id", { length: 36 }).notNull(),
+  action: varchar("action", { length: 50 }).notNull(), // Ex: "agence.modification", "admin.creation"
+  typeCible: varchar("type_cible", { length: 30 }).notNull(), // "agence", "utilisateur", "admin", "acces_temporaire", "impersonation", "evenement_stripe"
+  cibleId: varchar("cible_id", { length: 36 }).notNull(),
+  avant: json("avant").$type<Record<string, unknown>>(), // Valeurs des champs modifiés avant (null si création)
+  apres: json("apres").$type<Record<string, unknown>>(), // Valeurs des champs modifiés après
+  adresseIp: varchar("adresse_ip", { length: 45 }),
+  date: timestamp("date")
+    .$defaultFn(() => new Date())
+    .notNull(),
+});
+
+// Événements Stripe - Webhooks reçus (signature vérifiée), dédupliqués par leur ID Stripe et rejouables
+export const evenementsStripe = mysqlTable("evenements_stripe", {
+  id: varchar("id", { length: 255 }).primaryKey(), // ID de l'événement Stripe (evt_...)
+  type: varchar("type", { length: 100 }).notNull(),
+  agenceId: varchar("agence_id", { length: 36 }), // Agence résolue lors du traitement
+  clientStripe: varchar("client_stripe", { length: 255 }), // Customer Stripe de l'objet
+  dateEvenement: timestamp("date_evenement").notNull(), // Création de l'événement côté Stripe (ordre réel)
+  payload: json("payload").$type<Record<string, unknown>>().notNull(),
+  statut: varchar("statut", { length: 20 })
+    .$default(() => "recu")
+    .notNull(), // "recu", "en_cours", "traite", "ignore", "obsolete", "en_attente", "erreur"
+  erreur: text("erreur"),
+  tentatives: int("tentatives")
+    .$default(() => 0)
+    .notNull(),
+  dateReception: timestamp("date_reception")
+    .$defaultFn(() => new Date())
+    .notNull(),
+  dateTraitement: timestamp("date_traitement"),
+});
+
+// Factures Stripe - Miroir local des factures (historique des owners, rapport de revenus admin)
+export const facturesStripe = mysqlTable("factures_stripe", {
+  id: varchar("id", { length: 255 }).primaryKey(), // ID de la facture Stripe (in_...)
+  agenceId: varchar("agence_id", { length: 36 }).notNull(),
+  abonnementStripe: varchar("abonnement_stripe", { length: 255 }), // null pour une facture hors abonnement
+  idPaiementStripe: varchar("id_paiement_stripe", { length: 255 }), // PaymentIntent qui a réglé la facture
+  numero: varchar("numero", { length: 100 }),
+  statut: varchar("statut", { length: 20 }).notNull(), // "brouillon", "ouverte", "payee", "irrecouvrable", "annulee"
+  motif: varchar("motif", { length: 50 }), // billing_reason: "subscription_create", "subscription_cycle", "subscription_update"...
+  devise: varchar("devise", { length: 3 }).notNull(),
+  montantTotal: int("montant_total").notNull(), // En centimes
+  montantPaye: int("montant_paye")
+    .$default(() => 0)
+    .notNull(),
+  montantRembourse: int("montant_rembourse")
+    .$default(() => 0)
+    .notNull(),
+  tentativesPaiement: int("tentatives_paiement")
+    .$default(() => 0)
+    .notNull(),
+  dateDebutPeriode: timestamp("date_debut_periode"), // Période de service facturée (lignes de la facture)
+  dateFinPeriode: timestamp("date_fin_periode"),
+  dateFacture: timestamp("date_facture").notNull(),
+  datePaiement: timestamp("date_paiement"),
+  lienFacture: text("lien_facture"), // Page de facture hébergée par Stripe
+  lienPdf: text("lien_pdf"),
+  dateEvenementStripe: timestamp("date_evenement_stripe").notNull(), // Dernier événement appliqué (les plus anciens sont ignorés)
+});
+
+// Paiements Stripe - Miroir local des charges (réussies, échouées, remboursées)
+export const paiementsStripe = mysqlTable("paiements_stripe", {
+  id: varchar("id", { length: 255 }).primaryKey(), // ID de la charge Stripe (ch_...)
+  agenceId: varchar("agence_id", { length: 36 }).notNull(),
+  idPaiementStripe: varchar("id_paiement_stripe", { length: 255 }), // PaymentIntent de la charge
+  factureId: varchar("facture_id", { length: 255 }), // Facture réglée (si connue)
+  statut: varchar("statut", { length: 20 }).notNull(), // "en_attente", "reussi", "echoue", "rembourse", "rembourse_partiel"
+  devise: varchar("devise", { length: 3 }).notNull(),
+  montant: int("montant").notNull(), // En centimes
+  montantRembourse: int("montant_rembourse")
+    .$default(() => 0)
+    .notNull(),
+  motifEchec: text("motif_echec"),
+  lienRecu: text("lien_recu"),
+  datePaiement: timestamp("date_paiement").notNull(),
+  dateEvenementStripe: timestamp("date_evenement_stripe").notNull(),
+});
+
+// Codes promo - Remises saisies au checkout, appliquées via un coupon Stripe
+export const codesPromo = mysqlTable("codes_promo", {
+  id: varchar("id", { length: 36 })
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  code: varchar("code", { length: 50 }).notNull().unique(), // En majuscules
+  description: text("description"),
+  typeRemise: varchar("type_remise", { length: 20 }).notNull(), // "pourcentage" ou "montant"
+  valeur: int("valeur").notNull(), // Pourcentage (1-100) ou montant en centimes
+  duree: varchar("duree", { length: 20 }).notNull(), // "unique", "mois" (dureeMois factures) ou "permanente"
+  dureeMois: int("duree_mois"),
+  plansEligibles: json("plans_eligibles").$type<string[]>(), // null = tous les plans payants
+  utilisationsMax: int("utilisations_max"), // null = illimité
+  utilisations: int("utilisations")
+    .$default(() => 0)
+    .notNull(), // Utilisations confirmées + réservées par un checkout en cours
+  dateExpiration: timestamp("date_expiration"),
+  actif: boolean("actif")
+    .$default(() => true)
+    .notNull(),
+  couponStripe: varchar("coupon_stripe", { length: 255 }), // Coupon Stripe créé au premier usage
+  creePar: varchar("cree_par", { length: 36 }), // Super-admin
+  dateCreation: timestamp("date_creation")
+    .$defaultFn(() => new Date())
+    .notNull(),
+});
+
+// Utilisations des codes promo - Un code ne sert qu'une fois par agence
+export const utilisationsCodesPromo = mysqlTable(
+  "utilisations_codes_promo",
+  {
+    id: varchar("id", { length: 36 })
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    codePromoId: varchar("code_promo_id", { length: 36 }).notNull(),
+    agenceId: varchar("agence_id", { length: 36 }).notNull(),
+    statut: varchar("statut", { length: 20 }).default("utilisee").notNull(), // "reservee" (checkout en cours) ou "utilisee" (checkout terminé)
+    sessionCheckout: varchar("session_checkout", { length: 255 }), // Session Checkout Stripe de la réservation
+    date: timestamp("date")
+      .$defaultFn(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex("utilisations_codes_promo_code_agence").on(table.codePromoId, table.agenceId),
+  ],
+);
+
+// Parrainages - Agence parrainée à l'inscription, récompensée au premier paiement
+export const parrainages = mysqlTable("parrainages", {
+  id: varchar("id", { length: 36 })
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  parrainId: varchar("parrain_id", { length: 36 }).notNull(), // Agence qui parraine
+  filleulId: varchar("filleul_id", { length: 36 }).notNull().unique(), // Agence parrainée
+  statut: varchar("statut", { length: 20 })
+    .$default(() => "en_attente")
+    .notNull(), // "en_attente", "recompense"
+  montantCredit: int("montant_credit"), // Crédit accordé au parrain (centimes)
+  factureId: varchar("facture_id", { length: 255 }), // Première facture payée du filleul
+  dateCreation: timestamp("date_creation")
+    .$defaultFn(() => new Date())
+    .notNull(),
+  dateRecompense: timestamp("date_recompense"),
+});
+
+// Clés API - Accès programmatique (scripts, intégrations) via Authorization: Bearer
+export const clesApi = mysqlTable("cles_api", {
+  id: varchar("id", { length: 36 })
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  agenceId: varchar("agence_id", { length: 36 }).notNull(),
+  utilisateurId: varchar("utilisateur_id", { length: 36 }), // Clé personnelle: agit au nom de cet utilisateur (null = clé d'agence)
+  nom: varchar("nom", { length: 100 }).notNull(),
+  prefixe: varchar("prefixe", { length: 20 }).notNull(), // Début de la clé, affiché pour l'identifier
+  cleHash: varchar("cle_hash", { length: 255 }).notNull().unique(), // Hash SHA256 de la clé complète
+  permissions: json("permissions").$type<string[]>().notNull(), // Ex: ["transactions:write", "analytics:read"]
+  creePar: varchar("cree_par", { length: 36 }).notNull(),
+  dateCreation: timestamp("date_creation")
+    .$defaultFn(() => new Date())
+    .notNull(),
+  dateExpiration: timestamp("date_expiration"), // null = pas d'expiration
+  derniereUtilisation: timestamp("derniere_utilisation"),
+  derniereIp: varchar("derniere_ip", { length: 45 }),
+  dateRevocation: timestamp("date_revocation"),
+});
+
 // ==========================================
 // TABLES PRINCIPALES
 // ==========================================
@@ -368,6 +770,7 @@ export const equipe = mysqlTable("equipe", {
 // Relations des agences
 export const agencesRelations = relations(agences, ({ many }) => ({
   utilisateurs: many(utilisateurs),
+  membres: many(membresAgence),
   modeles: many(modeles),
   invitations: many(invitations),
 }));
@@ -382,9 +785,26 @@ export const utilisateursRelations = relations(
     }),
     sessions: many(sessions),
     invitationsEnvoyees: many(invitations),
+    appartenances: many(membresAgence),
   }),
 );
 
+// Relations des appartenances
+export const membresAgenceRelations = relations(membresAgence, ({ one }) => ({
+  utilisateur: one(utilisateurs, {
+    fields: [membresAgence.utilisateurId],
+    references: [utilisateurs.id],
+  }),
+  agence: one(agences, {
+    fields: [membresAgence.agenceId],
+    references: [agences.id],
+  }),
+  modele: one(modeles, {
+    fields: [membresAgence.modeleId],
+    references: [modeles.id],
+  }),
+}));
+
 // Relations des invitations
 export const invitationsRelations = relations(invitations, ({ one }) => ({
   agence: one(agences, {
@@ -507,10 +927,22 @@ export const insererPostAnalyticsSchema = createInsertSchema(
 // Types d'authentification
 export type Agence = typeof agences.$inferSelect;
 export type Utilisateur = typeof utilisateurs.$inferSelect;
+export type MembreAgence = typeof membresAgence.$inferSelect;
+export type Role = typeof rolesAgence.$inferSelect;
 export type Invitation = typeof invitations.$inferSelect;
 export type Session = typeof sessions.$inferSelect;
 export type SuperAdmin = typeof superAdmins.$inferSelect;
 export type AccesTemporaire = typeof accesTemporaires.$inferSelect;
+export type CodeRecuperation = typeof codesRecuperation.$inferSelect;
+export type TentativeEchouee = typeof tentativesEchouees.$inferSelect;
+export type CleApi = typeof clesApi.$inferSelect;
+export type Impersonation = typeof impersonations.$inferSelect;
+export type AuditAdmin = typeof auditAdmin.$inferSelect;
+export type EvenementStripe = typeof evenementsStripe.$inferSelect;
+export type FactureStripe = typeof facturesStripe.$inferSelect;
+export type PaiementStripe = typeof paiementsStripe.$inferSelect;
+export type CodePromo = typeof codesPromo.$inferSelect;
+export type Parrainage = typeof parrainages.$inferSelect;
 
 // Types existants
 export type Modele = typeof modeles.$inferSelect;
@@ -0,0 +1,94 @@
+// ==========================================
+// RÔLES ADMIN
+// Permissions de chaque rôle de super-admin, refus des routes hors du rôle
+// ==========================================
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { appelMiddleware, prevoir, resetStubDb } from "./helpers/stub-db";
+
+vi.mock("../src/db", async () => ({
+  db: (await import("./helpers/stub-db")).stubDb,
+  pool: {},
+}));
+
+const { adminHasPermission, countFullAdmins, getAdminPermissions, RESSOURCES_ADMIN } =
+  await import("../src/lib/admin-roles");
+const { requireAdminPermission } = await import("../src/routes/admin-auth");
+
+beforeEach(() => {
+  resetStubDb();
+});
+
+describe("adminHasPermission", () => {
+  it("donne tout au rôle admin", () => {
+    for (const ressource of RESSOURCES_ADMIN) {
+      expect(adminHasPermission({ role: "admin" }, `${ressource}:write`)).toBe(true);
+    }
+  });
+
+  it("limite le support à la consultation et à l'impersonation", () => {
+    const support = { role: "support" };
+    expect(adminHasPermission(support, "agences:read")).toBe(true);
+    expect(adminHasPermission(support, "impersonation:write")).toBe(true);
+    expect(adminHasPermission(support, "facturation:write")).toBe(false);
+    expect(adminHasPermission(support, "utilisateurs:write")).toBe(false);
+  });
+
+  it("limite la facturation à la consultation et aux plans", () => {
+    const facturation = { role: "facturation" };
+    expect(adminHasPermission(facturation, "facturation:write")).toBe(true);
+    expect(adminHasPermission(facturation, "impersonation:write")).toBe(false);
+    expect(adminHasPermission(facturation, "agences:write")).toBe(false);
+  });
+
+  it("réserve la liste des admins au rôle admin", () => {
+    expect(adminHasPermission({ role: "support" }, "admins:read")).toBe(false);
+    expect(adminHasPermission({ role: "facturation" }, "admins:read")).toBe(false);
+  });
+
+  it("n'accorde rien à un rôle inconnu", () => {
+    expect(getAdminPermissions("superadmin")).toEqual([]);
+    expect(adminHasPermission({ role: "superadmin" }, "agences:read")).toBe(false);
+  });
+});
+
+describe("requireAdminPermission", () => {
+  it("refuse (403) une permission absente du rôle", () => {
+    const { req, res, next } = appelMiddleware({ admin: { id: "ad1", role: "support" } });
+
+    requireAdminPermission("facturation:write", "agences:read")(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(403);
+    expect(res.corps).toMatchObject({
+      requiredPermissions: ["facturation:write"],
+      yourRole: "support",
+    });
+  });
+
+  it("laisse passer un rôle qui a toutes les permissions demandées", () => {
+    const { req, res, next } = appelMiddleware({ admin: { id: "ad1", role: "facturation" } });
+
+    requireAdminPermission("facturation:write", "agences:read")(req, res, next);
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("refuse (401) une requête sans admin connecté", () => {
+    const { req, res, next } = appelMiddleware();
+
+    requireAdminPermission("agences:read")(req, res, next);
+
+    expect(res.statusCode).toBe(401);
+  });
+});
+
+describe("countFullAdmins", () => {
+  it("convertit le COUNT(*) renvoyé par MySQL", async () => {
+    prevoir("select", [{ nombre: "2" }]);
+    expect(await countFullAdmins()).toBe(2);
+
+    prevoir("select", []);
+    expect(await countFullAdmins()).toBe(0);
+  });
+});
@@ -0,0 +1,75 @@
+// ==========================================
+// SESSIONS ACTIVES
+// Chaque access token est lié à sa ligne de session: une session révoquée cesse aussitôt de fonctionner
+// ==========================================
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { appelMiddleware, prevoir, resetStubDb, stubDb } from "./helpers/stub-db";
+
+vi.mock("../src/db", async () => ({
+  db: (await import("./helpers/stub-db")).stubDb,
+  pool: {},
+}));
+
+const { authenticate } = await import("../src/middleware/auth");
+const { generateJWT } = await import("../src/lib/auth");
+const { revokeSessionByRefreshToken } = await import("../src/lib/sessions");
+
+const UTILISATEUR = { id: "u1", email: "owner@agence.test", actif: true };
+const MEMBRE = { utilisateurId: "u1", agenceId: "a1", role: "owner", modeleId: null };
+
+function requete(sessionId = "s1") {
+  const token = generateJWT({ userId: "u1", agenceId: "a1", role: "owner", sessionId });
+  return appelMiddleware({ method: "GET", cookies: { auth_token: token } });
+}
+
+beforeEach(() => {
+  resetStubDb();
+});
+
+describe("authenticate", () => {
+  it("lie la requête à la session de son access token", async () => {
+    const { req, res, next } = requete("s1");
+    prevoir("select", [{ id: "s1" }], [UTILISATEUR], [MEMBRE]);
+
+    await authenticate(req, res, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(req.sessionId).toBe("s1");
+    expect(req.user).toMatchObject({ id: "u1", role: "owner", agenceId: "a1" });
+  });
+
+  it("refuse l'access token (encore valide) d'une session révoquée", async () => {
+    const { req, res, next } = requete("s-revoquee");
+    prevoir("select", []);
+
+    await authenticate(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+    expect(res.corps).toEqual({ error: "Session expirée" });
+    expect(stubDb.select).toHaveBeenCalledTimes(1); // L'utilisateur n'est pas chargé
+  });
+
+  it("refuse un token sans cookie ou mal signé sans consulter les sessions", async () => {
+    for (const cookies of [{}, { auth_token: "pas.un.jwt" }]) {
+      const { req, res, next } = appelMiddleware({ method: "GET", cookies });
+
+      await authenticate(req, res, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(401);
+    }
+    expect(stubDb.select).not.toHaveBeenCalled();
+  });
+});
+
+describe("revokeSessionByRefreshToken", () => {
+  it("ne supprime que la session désignée par un refresh token bien formé", async () => {
+    await revokeSessionByRefreshToken("sans-point");
+    expect(stubDb.delete).not.toHaveBeenCalled();
+
+    await revokeSessionByRefreshToken("s1.secret");
+    expect(stubDb.delete).toHaveBeenCalledTimes(1);
+  });
+});
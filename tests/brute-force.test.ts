@@ -0,0 +1,158 @@
+// ==========================================
+// PROTECTION ANTI BRUTE-FORCE
+// Verrouillage par compte et par IP, délai progressif, purge du store en mémoire
+// ==========================================
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { appelMiddleware, resetStubDb, stubDb } from "./helpers/stub-db";
+
+vi.mock("../src/db", async () => ({
+  db: (await import("./helpers/stub-db")).stubDb,
+  pool: {},
+}));
+
+const {
+  MemoryAttemptStore,
+  bruteForceGuard,
+  recordFailedAttempt,
+  resetAttempts,
+  setAttemptStore,
+} = await import("../src/lib/brute-force");
+
+const EMAIL = "Owner@Agence.test";
+
+let store: InstanceType<typeof MemoryAttemptStore>;
+
+beforeEach(() => {
+  resetStubDb();
+  vi.useFakeTimers();
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  store = new MemoryAttemptStore();
+  setAttemptStore(store);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+async function echecs(nombre: number, ip = "203.0.113.1", email = EMAIL) {
+  for (let i = 0; i < nombre; i++) {
+    const { req } = appelMiddleware({ ip });
+    await recordFailedAttempt(req, "connexion", email, { motif: "mot_de_passe_incorrect" });
+  }
+}
+
+/**
+ * Passe la requête dans le guard de connexion (délai progressif écoulé: 8 s au plus)
+ */
+async function garder(body: Record<string, unknown>, ip = "203.0.113.1") {
+  const appel = appelMiddleware({ ip, body });
+  const garde = bruteForceGuard("connexion", (req) => req.body?.email)(
+    appel.req,
+    appel.res,
+    appel.next,
+  );
+  await vi.advanceTimersByTimeAsync(8000);
+  await garde;
+  return appel;
+}
+
+describe("bruteForceGuard", () => {
+  it("verrouille le compte après 5 échecs, quelle que soit la casse de l'email", async () => {
+    await echecs(4);
+    expect((await garder({ email: EMAIL.toLowerCase() })).next).toHaveBeenCalled();
+
+    await echecs(1);
+    const { res, next } = await garder({ email: EMAIL.toUpperCase() }, "198.51.100.7");
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(429);
+    expect(Number(res.entetes["Retry-After"])).toBe(15 * 60);
+    expect(stubDb.insert).toHaveBeenCalledTimes(5); // Journal des tentatives
+  });
+
+  it("déverrouille le compte à l'expiration du verrouillage", async () => {
+    await echecs(5);
+    vi.advanceTimersByTime(15 * 60 * 1000 + 1);
+
+    expect((await garder({ email: EMAIL })).next).toHaveBeenCalled();
+  });
+
+  it("verrouille l'IP après 20 échecs sur des comptes différents", async () => {
+    for (let i = 0; i < 20; i++) {
+      await echecs(1, "203.0.113.9", `compte${i}@agence.test`);
+    }
+
+    const { res } = await garder({ email: "autre@agence.test" }, "203.0.113.9");
+    expect(res.statusCode).toBe(429);
+    expect((await garder({ email: "autre@agence.test" }, "203.0.113.10")).next).toHaveBeenCalled();
+  });
+
+  it("applique un délai progressif à partir du 3e échec", async () => {
+    await echecs(3);
+
+    const appel = appelMiddleware({ body: { email: EMAIL } });
+    const garde = bruteForceGuard("connexion", (req) => req.body?.email)(
+      appel.req,
+      appel.res,
+      appel.next,
+    );
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(appel.next).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    await garde;
+    expect(appel.next).toHaveBeenCalled();
+  });
+
+  it("remet le compteur du compte à zéro après un succès", async () => {
+    await echecs(4);
+    await resetAttempts("connexion", EMAIL);
+    await echecs(1);
+
+    expect(await store.get(`compte:connexion:${EMAIL.toLowerCase()}`)).toMatchObject({ nombre: 1 });
+    expect((await garder({ email: EMAIL })).next).toHaveBeenCalled();
+  });
+
+  it("sépare les compteurs par portée", async () => {
+    await echecs(5);
+
+    const appel = appelMiddleware({ ip: "198.51.100.7", body: { email: EMAIL } });
+    await bruteForceGuard("2fa", (req) => req.body?.email)(appel.req, appel.res, appel.next);
+
+    expect(appel.next).toHaveBeenCalled();
+  });
+
+  it("attend l'identifiant résolu de façon asynchrone (compte désigné par un token)", async () => {
+    await echecs(5);
+
+    const appel = appelMiddleware({ body: { token: "invitation" } });
+    await bruteForceGuard("connexion", async () => EMAIL)(appel.req, appel.res, appel.next);
+
+    expect(appel.res.statusCode).toBe(429);
+  });
+});
+
+describe("MemoryAttemptStore", () => {
+  const compteur = () => ({ nombre: 1, datePremiereTentative: new Date(), verrouilleJusqua: null });
+
+  it("purge les compteurs expirés", async () => {
+    await store.set("ip:connexion:203.0.113.1", compteur(), 1000);
+    await store.set("ip:connexion:203.0.113.2", compteur(), 60_000);
+
+    vi.advanceTimersByTime(1001);
+
+    expect(store.purger()).toBe(1);
+    expect(await store.get("ip:connexion:203.0.113.2")).not.toBeNull();
+  });
+
+  it("se purge périodiquement sans intervention", async () => {
+    await store.set("compte:connexion:aleatoire@x.test", compteur(), 1000);
+    const purger = vi.spyOn(store, "purger");
+
+    vi.advanceTimersByTime(5 * 60 * 1000);
+
+    expect(purger).toHaveBeenCalledTimes(1);
+    expect(purger.mock.results[0].value).toBe(1);
+  });
+});
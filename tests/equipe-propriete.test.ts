@@ -0,0 +1,178 @@
+// ==========================================
+// PROPRIÉTÉ DE L'AGENCE
+// Transfert confirmé par mot de passe, le rôle owner ne se donne pas hors transfert,
+// le dernier owner ne peut pas être retiré
+// ==========================================
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from "vitest";
+import express from "express";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import { prevoir, resetStubDb, stubDb } from "./helpers/stub-db";
+
+vi.mock("../src/db", async () => ({
+  db: (await import("./helpers/stub-db")).stubDb,
+  pool: {},
+}));
+
+// Owner connecté (u1) de l'agence a1: l'authentification et l'abonnement sont testés à part
+vi.mock("../src/middleware/auth", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/middleware/auth")>()),
+  authenticate: (req: any, _res: unknown, next: () => void) => {
+    req.user = { id: "u1", email: "owner@agence.test", role: "owner", agenceId: "a1" };
+    req.agenceId = "a1";
+    req.sessionId = req.get("x-sans-session") ? undefined : "s1";
+    req.permissions = ["*"];
+    next();
+  },
+}));
+
+vi.mock("../src/lib/plans", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/lib/plans")>()),
+  requireActiveSubscription: (_req: unknown, _res: unknown, next: () => void) => next(),
+}));
+
+vi.mock("../src/lib/memberships", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/lib/memberships")>()),
+  findMembership: vi.fn(),
+  countOwners: vi.fn(),
+}));
+
+const { hashPassword } = await import("../src/lib/auth");
+const { setAttemptStore, MemoryAttemptStore } = await import("../src/lib/brute-force");
+const { findMembership, countOwners } = await import("../src/lib/memberships");
+const { default: equipeRoutes } = await import("../src/routes/equipe");
+
+const MOT_DE_PASSE = "MotDePasse-Owner-1";
+
+let serveur: Server;
+let url: string;
+let owner: { id: string; motDePasseHash: string };
+
+function membre(utilisateurId: string, role: string) {
+  return { id: `m-${utilisateurId}`, utilisateurId, agenceId: "a1", role, roleId: null, modeleId: null };
+}
+
+async function appel(methode: string, chemin: string, corps?: unknown, entetes = {}) {
+  const reponse = await fetch(`${url}/api/equipe${chemin}`, {
+    method: methode,
+    headers: { "content-type": "application/json", ...entetes },
+    body: corps === undefined ? undefined : JSON.stringify(corps),
+  });
+  return { statut: reponse.status, corps: await reponse.json() };
+}
+
+beforeAll(async () => {
+  owner = { id: "u1", motDePasseHash: await hashPassword(MOT_DE_PASSE) };
+
+  const app = express();
+  app.use(express.json());
+  app.use("/api/equipe", equipeRoutes);
+
+  serveur = app.listen(0);
+  await new Promise((resolve) => serveur.once("listening", resolve));
+  url = `http://127.0.0.1:${(serveur.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => serveur.close(resolve));
+});
+
+beforeEach(() => {
+  resetStubDb();
+  setAttemptStore(new MemoryAttemptStore());
+  vi.mocked(findMembership).mockReset();
+  vi.mocked(countOwners).mockReset();
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+describe("POST /api/equipe/transfert-propriete", () => {
+  it("nomme le nouveau owner et rétrograde l'ancien", async () => {
+    prevoir("select", [owner], [{ actif: true }]);
+    vi.mocked(findMembership).mockResolvedValue(membre("u2", "member") as any);
+
+    const { statut, corps } = await appel("POST", "/transfert-propriete", {
+      nouveauOwnerId: "u2",
+      motDePasse: MOT_DE_PASSE,
+    });
+
+    expect(statut).toBe(200);
+    expect(corps).toMatchObject({ nouveauOwnerId: "u2", votreRole: "member" });
+    expect(stubDb.update).toHaveBeenCalledTimes(4); // Appartenance + rôle par défaut, pour chacun
+  });
+
+  it("garde l'ancien owner en copropriété sur demande", async () => {
+    prevoir("select", [owner], [{ actif: true }]);
+    vi.mocked(findMembership).mockResolvedValue(membre("u2", "member") as any);
+
+    const { corps } = await appel("POST", "/transfert-propriete", {
+      nouveauOwnerId: "u2",
+      motDePasse: MOT_DE_PASSE,
+      conserverOwner: true,
+    });
+
+    expect(corps).toMatchObject({ votreRole: "owner" });
+    expect(stubDb.update).toHaveBeenCalledTimes(2);
+  });
+
+  it("refuse un mot de passe incorrect et enregistre l'échec", async () => {
+    prevoir("select", [owner]);
+
+    const { statut } = await appel("POST", "/transfert-propriete", {
+      nouveauOwnerId: "u2",
+      motDePasse: "mauvais",
+    });
+
+    expect(statut).toBe(401);
+    expect(stubDb.insert).toHaveBeenCalledTimes(1); // Journal des tentatives
+    expect(stubDb.update).not.toHaveBeenCalled();
+  });
+
+  it("refuse un nouveau owner qui n'est pas membre actif de l'agence", async () => {
+    prevoir("select", [owner]);
+    vi.mocked(findMembership).mockResolvedValue(null);
+
+    const { statut } = await appel("POST", "/transfert-propriete", {
+      nouveauOwnerId: "u3",
+      motDePasse: MOT_DE_PASSE,
+    });
+
+    expect(statut).toBe(404);
+    expect(stubDb.update).not.toHaveBeenCalled();
+  });
+
+  it("exige une session (pas de transfert par clé API)", async () => {
+    const { statut } = await appel(
+      "POST",
+      "/transfert-propriete",
+      { nouveauOwnerId: "u2", motDePasse: MOT_DE_PASSE },
+      { "x-sans-session": "1" },
+    );
+
+    expect(statut).toBe(403);
+    expect(stubDb.select).not.toHaveBeenCalled();
+  });
+});
+
+describe("rôle owner hors transfert", () => {
+  it("refuse de nommer un owner par la modification de rôle", async () => {
+    vi.mocked(findMembership).mockResolvedValue(membre("u2", "member") as any);
+
+    const { statut } = await appel("PATCH", "/u2/role", { role: "owner" });
+
+    expect(statut).toBe(400);
+    expect(stubDb.update).not.toHaveBeenCalled();
+  });
+
+  it("refuse de retirer le dernier owner actif", async () => {
+    vi.mocked(findMembership).mockResolvedValue(membre("u2", "owner") as any);
+    vi.mocked(countOwners).mockResolvedValue(1);
+
+    const { statut, corps } = await appel("DELETE", "/u2");
+
+    expect(statut).toBe(400);
+    expect(corps.error).toMatch(/dernier propriétaire/);
+    expect(stubDb.update).not.toHaveBeenCalled();
+  });
+});
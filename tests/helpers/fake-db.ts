@@ -0,0 +1,292 @@
+// ==========================================
+// BASE DE DONNÉES EN MÉMOIRE (TESTS DES WEBHOOKS STRIPE)
+// Remplace le client drizzle de src/db.ts pour les seules requêtes des routes webhook:
+// conditions eq/ne/lt/gt/inArray/and/or, COALESCE(colonne, NOW()), insert avec
+// onDuplicateKeyUpdate, update conditionnel. Toute autre forme de requête lève une erreur
+// Les nombres de lignes reprennent ceux de mysql2 (CLIENT_FOUND_ROWS): un update compte
+// les lignes trouvées, un onDuplicateKeyUpdate compte 2 si la ligne existante change, 1 sinon
+// Ne remplace pas une vraie base: le verrouillage concurrent de MySQL n'est pas simulé
+// ==========================================
+
+import { Column, SQL, StringChunk, Param, getTableColumns, getTableName, is } from "drizzle-orm";
+import type { MySqlTable } from "drizzle-orm/mysql-core";
+
+type Ligne = Record<string, unknown>;
+
+const tables = new Map<string, Ligne[]>();
+
+function lignes(table: MySqlTable): Ligne[] {
+  const nom = getTableName(table);
+  if (!tables.has(nom)) tables.set(nom, []);
+  return tables.get(nom)!;
+}
+
+/**
+ * Vide toutes les tables
+ */
+export function resetFakeDb(): void {
+  tables.clear();
+}
+
+/**
+ * Lignes d'une table (lecture directe pour les assertions)
+ */
+export function rowsOf<T extends MySqlTable>(table: T): T["$inferSelect"][] {
+  return lignes(table) as T["$inferSelect"][];
+}
+
+/**
+ * Insère des lignes sans passer par le client (jeu de données initial)
+ */
+export function seed<T extends MySqlTable>(table: T, ...valeurs: T["$inferInsert"][]): void {
+  for (const v of valeurs) {
+    lignes(table).push(avecDefauts(table, v as Ligne));
+  }
+}
+
+function avecDefauts(table: MySqlTable, valeurs: Ligne): Ligne {
+  const ligne: Ligne = {};
+  for (const [propriete, colonne] of Object.entries(getTableColumns(table))) {
+    ligne[propriete] =
+      valeurs[propriete] !== undefined
+        ? valeurs[propriete]
+        : colonne.defaultFn
+          ? colonne.defaultFn()
+          : (colonne.default ?? null);
+  }
+  return ligne;
+}
+
+// ==========================================
+// CONDITIONS ET VALEURS
+// ==========================================
+
+function propriete(table: MySqlTable, colonne: Column): string {
+  const trouvee = Object.entries(getTableColumns(table)).find(([, c]) => c === colonne);
+  if (!trouvee) throw new Error(`Fake DB: colonne ${colonne.name} hors de la table`);
+  return trouvee[0];
+}
+
+function comparable(v: unknown): unknown {
+  return v instanceof Date ? v.getTime() : v;
+}
+
+/**
+ * Morceaux significatifs d'une expression drizzle (textes vides retirés)
+ */
+function morceaux(expression: SQL): unknown[] {
+  return expression.queryChunks.filter(
+    (c) => !(is(c, StringChunk) && c.value.join("").trim() === ""),
+  );
+}
+
+function texte(chunk: unknown): string | null {
+  return is(chunk, StringChunk) ? chunk.value.join("").trim().toLowerCase() : null;
+}
+
+function operande(chunk: unknown, ligne: Ligne, table: MySqlTable): unknown {
+  if (is(chunk, Column)) return ligne[propriete(table, chunk)];
+  if (is(chunk, Param)) return chunk.value;
+  if (Array.isArray(chunk)) return chunk.map((c) => operande(c, ligne, table));
+  if (is(chunk, SQL)) throw new Error("Fake DB: sous-expression non supportée");
+  return chunk;
+}
+
+/**
+ * Évalue une condition drizzle sur une ligne
+ */
+function verifie(condition: SQL, ligne: Ligne, table: MySqlTable): boolean {
+  const m = morceaux(condition);
+
+  // and(x) / or(x) avec une seule condition
+  if (m.length === 1 && is(m[0], SQL)) {
+    return verifie(m[0], ligne, table);
+  }
+
+  // and(...) / or(...): "(" [c1 " and " c2 ...] ")"
+  if (m.length === 3 && texte(m[0]) === "(" && is(m[1], SQL) && texte(m[2]) === ")") {
+    const liste = morceaux(m[1]);
+    const conditions = liste.filter((c): c is SQL => is(c, SQL));
+    const liaison = texte(liste[1]);
+    if (liaison === "and") return conditions.every((c) => verifie(c, ligne, table));
+    if (liaison === "or") return conditions.some((c) => verifie(c, ligne, table));
+  }
+
+  // Comparaison: colonne, opérateur, valeur
+  if (m.length === 3 && is(m[0], Column)) {
+    const g = comparable(operande(m[0], ligne, table));
+    const d = operande(m[2], ligne, table);
+    const op = texte(m[1]);
+
+    if (op === "in") return (d as unknown[]).some((v) => comparable(v) === g);
+    if (g === null || d === null) return false;
+
+    const v = comparable(d);
+    switch (op) {
+      case "=":
+        return g === v;
+      case "<>":
+        return g !== v;
+      case "<":
+        return (g as number) < (v as number);
+      case ">":
+        return (g as number) > (v as number);
+    }
+  }
+
+  throw new Error(`Fake DB: condition non supportée (${condition.queryChunks.length} morceaux)`);
+}
+
+/**
+ * Valeur écrite par un set: littérale, ou COALESCE(colonne, NOW())
+ */
+function valeurEcrite(valeur: unknown, ligne: Ligne, table: MySqlTable): unknown {
+  if (!is(valeur, SQL)) return valeur;
+
+  const m = morceaux(valeur);
+  if (texte(m[0]) === "coalesce(" && is(m[1], Column) && texte(m[2]) === ", now())") {
+    return ligne[propriete(table, m[1])] ?? new Date();
+  }
+
+  throw new Error("Fake DB: expression non supportée dans un set");
+}
+
+function filtrer(table: MySqlTable, condition: SQL | undefined): Ligne[] {
+  return lignes(table).filter((ligne) => !condition || verifie(condition, ligne, table));
+}
+
+// ==========================================
+// REQUÊTES
+// ==========================================
+
+/**
+ * Requête exécutée quand elle est attendue (comme les builders drizzle)
+ */
+abstract class Requete<T> implements PromiseLike<T> {
+  protected abstract executer(): T;
+
+  then<A = T, B = never>(
+    resolue?: ((valeur: T) => A | PromiseLike<A>) | null,
+    rejetee?: ((raison: unknown) => B | PromiseLike<B>) | null,
+  ): Promise<A | B> {
+    return new Promise<T>((resolve) => resolve(this.executer())).then(resolue, rejetee);
+  }
+}
+
+class Selection extends Requete<Ligne[]> {
+  private table!: MySqlTable;
+  private condition: SQL | undefined;
+  private tri: Column | undefined;
+  private nombre: number | undefined;
+
+  from(table: MySqlTable) {
+    this.table = table;
+    return this;
+  }
+
+  where(condition: SQL | undefined) {
+    this.condition = condition;
+    return this;
+  }
+
+  // Tri croissant sur une colonne (rejeu des événements en attente)
+  orderBy(colonne: Column) {
+    if (!is(colonne, Column)) throw new Error("Fake DB: tri non supporté");
+    this.tri = colonne;
+    return this;
+  }
+
+  limit(nombre: number) {
+    this.nombre = nombre;
+    return this;
+  }
+
+  protected executer(): Ligne[] {
+    const resultat = filtrer(this.table, this.condition).map((ligne) => structuredClone(ligne));
+
+    if (this.tri) {
+      const p = propriete(this.table, this.tri);
+      resultat.sort((x, y) => (comparable(x[p]) as number) - (comparable(y[p]) as number));
+    }
+
+    return this.nombre !== undefined ? resultat.slice(0, this.nombre) : resultat;
+  }
+}
+
+class Insertion extends Requete<[{ affectedRows: number }]> {
+  private valeurs: Ligne = {};
+  private miseAJour: Ligne | null = null;
+
+  constructor(private table: MySqlTable) {
+    super();
+  }
+
+  values(valeurs: Ligne) {
+    this.valeurs = valeurs;
+    return this;
+  }
+
+  onDuplicateKeyUpdate({ set }: { set: Ligne }) {
+    this.miseAJour = set;
+    return this;
+  }
+
+  protected executer(): [{ affectedRows: number }] {
+    const nouvelle = avecDefauts(this.table, this.valeurs);
+    const cle = Object.entries(getTableColumns(this.table)).find(([, c]) => c.primary)![0];
+    const existante = lignes(this.table).find((l) => l[cle] === nouvelle[cle]);
+
+    if (!existante) {
+      lignes(this.table).push(nouvelle);
+      return [{ affectedRows: 1 }];
+    }
+    if (!this.miseAJour) {
+      throw Object.assign(new Error("Duplicate entry"), { code: "ER_DUP_ENTRY" });
+    }
+
+    // MySQL: 2 si la ligne existante change, 1 si elle est laissée telle quelle
+    let modifiee = false;
+    for (const [p, valeur] of Object.entries(this.miseAJour)) {
+      if (comparable(existante[p]) !== comparable(valeur)) modifiee = true;
+      existante[p] = valeur;
+    }
+    return [{ affectedRows: modifiee ? 2 : 1 }];
+  }
+}
+
+class MiseAJour extends Requete<[{ affectedRows: number }]> {
+  private valeurs: Ligne = {};
+  private condition: SQL | undefined;
+
+  constructor(private table: MySqlTable) {
+    super();
+  }
+
+  set(valeurs: Ligne) {
+    this.valeurs = valeurs;
+    return this;
+  }
+
+  where(condition: SQL | undefined) {
+    this.condition = condition;
+    return this;
+  }
+
+  protected executer(): [{ affectedRows: number }] {
+    const cibles = filtrer(this.table, this.condition);
+    for (const ligne of cibles) {
+      const nouvelles: Ligne = {};
+      for (const [p, valeur] of Object.entries(this.valeurs)) {
+        if (valeur !== undefined) nouvelles[p] = valeurEcrite(valeur, ligne, this.table);
+      }
+      Object.assign(ligne, nouvelles);
+    }
+    return [{ affectedRows: cibles.length }];
+  }
+}
+
+export const fakeDb = {
+  select: () => new Selection(),
+  insert: (table: MySqlTable) => new Insertion(table),
+  update: (table: MySqlTable) => new MiseAJour(table),
+};
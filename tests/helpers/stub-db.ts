@@ -0,0 +1,97 @@
+// ==========================================
+// CLIENT DRIZZLE SCRIPTÉ (TESTS UNITAIRES)
+// Chaque requête renvoie, dans l'ordre des appels, le résultat prévu par le test:
+// le SQL n'est pas interprété, seuls les enchaînements de la logique appelante sont testés
+// ==========================================
+
+import { vi } from "vitest";
+
+type Operation = "select" | "insert" | "update" | "delete";
+
+// Résultat par défaut d'une requête non prévue
+const DEFAUTS: Record<Operation, unknown> = {
+  select: [],
+  insert: [{ affectedRows: 1 }],
+  update: [{ affectedRows: 0 }],
+  delete: [{ affectedRows: 0 }],
+};
+
+const prevus: Record<Operation, unknown[]> = { select: [], insert: [], update: [], delete: [] };
+
+/**
+ * Requête chaînable (from, where, set, values, limit...) qui se résout avec le résultat donné
+ */
+function requete(resultat: unknown): unknown {
+  const chaine: object = new Proxy(
+    {},
+    {
+      get(_, cle) {
+        if (cle === "then") {
+          return (ok: (v: unknown) => unknown, ko: (e: unknown) => unknown) =>
+            Promise.resolve(resultat).then(ok, ko);
+        }
+        return () => chaine;
+      },
+    },
+  );
+  return chaine;
+}
+
+function operation(nom: Operation) {
+  return vi.fn(() => requete(prevus[nom].length > 0 ? prevus[nom].shift() : DEFAUTS[nom]));
+}
+
+export const stubDb = {
+  select: operation("select"),
+  insert: operation("insert"),
+  update: operation("update"),
+  delete: operation("delete"),
+  transaction: vi.fn(async (fn: (tx: unknown) => unknown) => fn(stubDb)),
+};
+
+/**
+ * Prévoit les résultats des prochaines requêtes d'un type (dans l'ordre)
+ */
+export function prevoir(nom: Operation, ...resultats: unknown[]): void {
+  prevus[nom].push(...resultats);
+}
+
+/**
+ * Oublie les résultats prévus et les appels enregistrés
+ */
+export function resetStubDb(): void {
+  for (const nom of Object.keys(prevus) as Operation[]) {
+    prevus[nom] = [];
+    stubDb[nom].mockClear();
+  }
+  stubDb.transaction.mockClear();
+}
+
+/**
+ * Requête (req) et réponse (res) Express minimales pour appeler un middleware
+ */
+export function appelMiddleware(req: Record<string, unknown> = {}) {
+  const res = {
+    statusCode: 200,
+    corps: undefined as any,
+    entetes: {} as Record<string, string>,
+    set(nom: string, valeur: string) {
+      this.entetes[nom] = valeur;
+      return this;
+    },
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(corps: unknown) {
+      this.corps = corps;
+      return this;
+    },
+  };
+  const next = vi.fn();
+  return {
+    req: { method: "POST", ip: "203.0.113.1", get: () => undefined, ...req } as any,
+    res: res as typeof res & any,
+    next,
+  };
+}
@@ -0,0 +1,147 @@
+// ==========================================
+// PLANS: DÉLAI DE GRÂCE, LECTURE SEULE ET FONCTIONNALITÉS PREMIUM
+// ==========================================
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { appelMiddleware, prevoir, resetStubDb } from "./helpers/stub-db";
+
+vi.mock("../src/db", async () => ({
+  db: (await import("./helpers/stub-db")).stubDb,
+  pool: {},
+}));
+
+const {
+  DELAI_GRACE_JOURS,
+  finDelaiGrace,
+  isLectureSeule,
+  planEffectif,
+  requireActiveSubscription,
+  requirePremium,
+} = await import("../src/lib/plans");
+
+const MAINTENANT = new Date("2026-03-15T12:00:00Z");
+const JOUR_MS = 24 * 60 * 60 * 1000;
+
+// Abonnement suspendu depuis un premier échec de paiement il y a `ecoule` ms
+function suspendu(ecoule: number, plan = "pro") {
+  return {
+    plan,
+    statutAbonnement: "suspendu",
+    dateEchecPaiement: new Date(MAINTENANT.getTime() - ecoule),
+  };
+}
+
+beforeEach(() => {
+  resetStubDb();
+  vi.useFakeTimers();
+  vi.setSystemTime(MAINTENANT);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("délai de grâce", () => {
+  it("se termine DELAI_GRACE_JOURS après le premier échec de paiement", () => {
+    const agence = suspendu(JOUR_MS);
+    expect(finDelaiGrace(agence)).toEqual(
+      new Date(agence.dateEchecPaiement.getTime() + DELAI_GRACE_JOURS * JOUR_MS),
+    );
+    expect(finDelaiGrace({ plan: "pro", statutAbonnement: "actif" })).toBeNull();
+  });
+
+  it("garde le plan payant jusqu'à la dernière milliseconde du délai", () => {
+    const agence = suspendu(DELAI_GRACE_JOURS * JOUR_MS - 1);
+    expect(isLectureSeule(agence)).toBe(false);
+    expect(planEffectif(agence)).toBe("pro");
+  });
+
+  it("passe en lecture seule et aux limites gratuites à la fin du délai", () => {
+    const agence = suspendu(DELAI_GRACE_JOURS * JOUR_MS);
+    expect(isLectureSeule(agence)).toBe(true);
+    expect(planEffectif(agence)).toBe("free");
+  });
+
+  it("ne met en lecture seule qu'un abonnement suspendu", () => {
+    expect(isLectureSeule({ plan: "pro", statutAbonnement: "annule" })).toBe(false);
+    expect(planEffectif({ plan: "pro", statutAbonnement: "annule" })).toBe("free");
+    expect(planEffectif({ plan: "starter", statutAbonnement: "actif" })).toBe("starter");
+  });
+});
+
+describe("requireActiveSubscription", () => {
+  it("laisse passer les lectures sans consulter l'agence", async () => {
+    const { req, res, next } = appelMiddleware({ method: "GET", agenceId: "a" });
+    prevoir("select", [suspendu(30 * JOUR_MS)]);
+
+    await requireActiveSubscription(req, res, next);
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("refuse une écriture (403) une fois le délai de grâce écoulé", async () => {
+    const { req, res, next } = appelMiddleware({ agenceId: "a" });
+    prevoir("select", [suspendu(DELAI_GRACE_JOURS * JOUR_MS)]);
+
+    await requireActiveSubscription(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(403);
+    expect(res.corps).toMatchObject({ lectureSeule: true, paiementRequis: true });
+  });
+
+  it("accepte une écriture pendant le délai de grâce", async () => {
+    const { req, res, next } = appelMiddleware({ agenceId: "a" });
+    prevoir("select", [suspendu(DELAI_GRACE_JOURS * JOUR_MS - 1)]);
+
+    await requireActiveSubscription(req, res, next);
+
+    expect(next).toHaveBeenCalled();
+  });
+});
+
+describe("requirePremium", () => {
+  it("réserve la fonctionnalité aux plans payants", async () => {
+    const { req, res, next } = appelMiddleware({ agenceId: "a" });
+    prevoir("select", [{ plan: "free", statutAbonnement: "actif", dateEchecPaiement: null }]);
+
+    await requirePremium("exports")(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(403);
+    expect(res.corps).toMatchObject({ fonctionnalite: "exports", plan: "free", upgradeRequis: true });
+  });
+
+  it("demande le paiement d'un plan payant suspendu au-delà du délai de grâce", async () => {
+    const { req, res, next } = appelMiddleware({ agenceId: "a" });
+    prevoir("select", [suspendu(DELAI_GRACE_JOURS * JOUR_MS)]);
+
+    await requirePremium("ia")(req, res, next);
+
+    expect(res.statusCode).toBe(403);
+    expect(res.corps).toMatchObject({ fonctionnalite: "ia", paiementRequis: true });
+  });
+
+  it("accepte un plan payant en règle ou pendant le délai de grâce", async () => {
+    for (const agence of [
+      { plan: "starter", statutAbonnement: "actif", dateEchecPaiement: null },
+      suspendu(DELAI_GRACE_JOURS * JOUR_MS - 1),
+    ]) {
+      const { req, res, next } = appelMiddleware({ agenceId: "a" });
+      prevoir("select", [agence]);
+
+      await requirePremium("analyticsAvances")(req, res, next);
+
+      expect(next).toHaveBeenCalled();
+    }
+  });
+
+  it("répond 404 pour une agence inconnue", async () => {
+    const { req, res, next } = appelMiddleware({ agenceId: "inconnue" });
+    prevoir("select", []);
+
+    await requirePremium("exports")(req, res, next);
+
+    expect(res.statusCode).toBe(404);
+  });
+});
@@ -0,0 +1,110 @@
+// ==========================================
+// ROTATION DES REFRESH TOKENS
+// Rotation conditionnelle, rotations concurrentes, délai de grâce et rejeu d'un ancien token
+// ==========================================
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { prevoir, resetStubDb, stubDb } from "./helpers/stub-db";
+
+vi.mock("../src/db", async () => ({
+  db: (await import("./helpers/stub-db")).stubDb,
+  pool: {},
+}));
+
+const { rotateSession } = await import("../src/lib/sessions");
+const { hashToken } = await import("../src/lib/auth");
+
+const MAINTENANT = new Date("2026-03-15T12:00:00Z");
+
+const ANCIEN = "s1.ancien";
+const REMPLACE = "s1.remplace";
+const COURANT = "s1.courant";
+
+// Session dont COURANT a remplacé REMPLACE il y a `ecoule` ms, lui-même ayant remplacé ANCIEN
+function session(ecoule = 60 * 1000) {
+  return {
+    id: "s1",
+    utilisateurId: "u1",
+    typeCompte: "utilisateur",
+    tokenHash: hashToken(COURANT),
+    anciensTokensHash: [hashToken(ANCIEN), hashToken(REMPLACE)],
+    dateRotation: new Date(MAINTENANT.getTime() - ecoule),
+    agenceId: "a1",
+    dateCreation: new Date("2026-03-14T12:00:00Z"),
+    dateExpiration: new Date("2026-03-21T12:00:00Z"),
+    adresseIp: null,
+    userAgent: null,
+  };
+}
+
+beforeEach(() => {
+  resetStubDb();
+  vi.useFakeTimers();
+  vi.setSystemTime(MAINTENANT);
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("rotateSession", () => {
+  it("émet un nouveau refresh token de la même famille", async () => {
+    prevoir("select", [session()]);
+    prevoir("update", [{ affectedRows: 1 }]);
+
+    const resultat = await rotateSession(COURANT, "utilisateur");
+
+    expect(resultat.statut).toBe("ok");
+    if (resultat.statut !== "ok") return;
+    expect(resultat.refreshToken).toMatch(/^s1\./);
+    expect(resultat.refreshToken).not.toBe(COURANT);
+    expect(stubDb.delete).not.toHaveBeenCalled();
+  });
+
+  it("refuse la rotation perdue face à une requête simultanée sans révoquer la famille", async () => {
+    prevoir("select", [session()]);
+    prevoir("update", [{ affectedRows: 0 }]);
+
+    expect(await rotateSession(COURANT, "utilisateur")).toEqual({ statut: "invalide" });
+    expect(stubDb.delete).not.toHaveBeenCalled();
+  });
+
+  it("refuse sans révoquer le token remplacé à l'instant (délai de grâce)", async () => {
+    prevoir("select", [session(30 * 1000 - 1)]);
+
+    expect(await rotateSession(REMPLACE, "utilisateur")).toEqual({ statut: "invalide" });
+    expect(stubDb.delete).not.toHaveBeenCalled();
+  });
+
+  it("révoque la famille quand le token remplacé revient après le délai de grâce", async () => {
+    prevoir("select", [session(30 * 1000)]);
+
+    expect(await rotateSession(REMPLACE, "utilisateur")).toMatchObject({ statut: "reutilise" });
+    expect(stubDb.delete).toHaveBeenCalledTimes(1);
+  });
+
+  it("révoque la famille au rejeu d'un token plus ancien, même pendant le délai de grâce", async () => {
+    prevoir("select", [session(1000)]);
+
+    expect(await rotateSession(ANCIEN, "utilisateur")).toMatchObject({ statut: "reutilise" });
+    expect(stubDb.delete).toHaveBeenCalledTimes(1);
+    expect(console.warn).toHaveBeenCalled();
+  });
+
+  it("refuse un secret jamais émis sans révoquer la famille", async () => {
+    prevoir("select", [session()]);
+
+    expect(await rotateSession("s1.invente", "utilisateur")).toEqual({ statut: "invalide" });
+    expect(stubDb.delete).not.toHaveBeenCalled();
+  });
+
+  it("refuse un token mal formé ou d'une session inconnue", async () => {
+    expect(await rotateSession("sans-point", "utilisateur")).toEqual({ statut: "invalide" });
+    expect(stubDb.select).not.toHaveBeenCalled();
+
+    prevoir("select", []);
+    expect(await rotateSession(COURANT, "admin")).toEqual({ statut: "invalide" });
+    expect(stubDb.update).not.toHaveBeenCalled();
+  });
+});
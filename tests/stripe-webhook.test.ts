@@ -0,0 +1,254 @@
+// ==========================================
+// WEBHOOKS STRIPE
+// Événements de test signés localement (generateTestHeaderString), base en mémoire
+// ==========================================
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from "vitest";
+import express from "express";
+import cookieParser from "cookie-parser";
+import jwt from "jsonwebtoken";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import { readFileSync } from "node:fs";
+import { resetFakeDb, rowsOf, seed } from "./helpers/fake-db";
+
+vi.mock("../src/db", async () => ({
+  db: (await import("./helpers/fake-db")).fakeDb,
+  pool: {},
+}));
+
+// Notifications aux owners: comptées, pas envoyées
+vi.mock("../src/lib/abonnements", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/lib/abonnements")>()),
+  notifierOwners: vi.fn(),
+}));
+
+const { agences, auditAdmin, evenementsStripe, sessions, superAdmins } = await import("../src/schema");
+const { stripe } = await import("../src/lib/stripe");
+const { notifierOwners } = await import("../src/lib/abonnements");
+const { default: stripeRoutes } = await import("../src/routes/stripe");
+const { default: adminStripeRoutes } = await import("../src/routes/admin-stripe");
+
+const AGENCE_ID = "agence-test";
+const CLIENT_STRIPE = "cus_test_agence";
+
+function fixture(nom: string): string {
+  return readFileSync(new URL(`./fixtures/stripe/${nom}.json`, import.meta.url), "utf8");
+}
+
+const CHECKOUT = fixture("checkout.session.completed");
+const ABONNEMENT_ACTIF = fixture("customer.subscription.updated.active");
+const ABONNEMENT_IMPAYE = fixture("customer.subscription.updated.past_due");
+const ABONNEMENT_AVANT_CHECKOUT = fixture("customer.subscription.updated.before_checkout");
+
+let serveur: Server;
+let url: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(cookieParser());
+  app.use("/api/stripe/webhook", express.raw({ type: "application/json" }));
+  app.use(express.json());
+  app.use("/api/admin/stripe", adminStripeRoutes);
+  app.use("/api/stripe", stripeRoutes);
+
+  serveur = app.listen(0);
+  await new Promise((resolve) => serveur.once("listening", resolve));
+  url = `http://127.0.0.1:${(serveur.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => serveur.close(resolve));
+});
+
+beforeEach(() => {
+  resetFakeDb();
+  vi.mocked(notifierOwners).mockClear();
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+
+  seed(agences, { id: AGENCE_ID, nom: "Agence test" });
+});
+
+/**
+ * Livre un événement au webhook, signé comme par Stripe
+ * @param secret - Secret de signature (celui du serveur par défaut)
+ */
+async function livrer(payload: string, secret = process.env.STRIPE_WEBHOOK_SECRET!) {
+  const reponse = await fetch(`${url}/api/stripe/webhook`, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      "stripe-signature": stripe.webhooks.generateTestHeaderString({ payload, secret }),
+    },
+    body: payload,
+  });
+  return { status: reponse.status, body: await reponse.json() };
+}
+
+function agence() {
+  return rowsOf(agences).find((a) => a.id === AGENCE_ID)!;
+}
+
+function evenement(id: string) {
+  return rowsOf(evenementsStripe).find((e) => e.id === id);
+}
+
+describe("POST /api/stripe/webhook", () => {
+  it("refuse un événement mal signé sans l'enregistrer", async () => {
+    const { status, body } = await livrer(CHECKOUT, "whsec_autre_secret");
+
+    expect(status).toBe(400);
+    expect(body.error).toBe("Signature Stripe invalide");
+    expect(rowsOf(evenementsStripe)).toHaveLength(0);
+    expect(agence().plan).toBe("free");
+  });
+
+  it("active le plan au checkout et ignore une nouvelle livraison du même événement", async () => {
+    const premiere = await livrer(CHECKOUT);
+    expect(premiere).toEqual({ status: 200, body: { received: true, statut: "traite" } });
+    expect(agence()).toMatchObject({
+      plan: "pro",
+      statutAbonnement: "actif",
+      idClientStripe: CLIENT_STRIPE,
+    });
+
+    const doublon = await livrer(CHECKOUT);
+    expect(doublon).toEqual({ status: 200, body: { received: true, doublon: true } });
+
+    expect(evenement("evt_checkout_completed")).toMatchObject({ statut: "traite", tentatives: 1 });
+    expect(notifierOwners).toHaveBeenCalledTimes(1);
+  });
+
+  it("ignore un événement plus ancien que le dernier appliqué", async () => {
+    const recent = await livrer(ABONNEMENT_IMPAYE);
+    expect(recent.body.statut).toBe("traite");
+    expect(agence().statutAbonnement).toBe("suspendu");
+
+    const ancien = await livrer(ABONNEMENT_ACTIF);
+    expect(ancien).toEqual({ status: 200, body: { received: true, statut: "obsolete" } });
+
+    // L'état reste celui de l'événement le plus récent
+    expect(agence()).toMatchObject({
+      statutAbonnement: "suspendu",
+      dateEvenementStripe: new Date(1760003600 * 1000),
+    });
+    expect(agence().dateEchecPaiement).toBeInstanceOf(Date);
+  });
+
+  it("met en attente un événement reçu avant le checkout et le rejoue une fois le customer lié", async () => {
+    const avant = await livrer(ABONNEMENT_AVANT_CHECKOUT);
+    expect(avant).toEqual({ status: 200, body: { received: true, statut: "en_attente" } });
+    expect(evenement("evt_subscription_before_checkout")).toMatchObject({
+      statut: "en_attente",
+      agenceId: null,
+    });
+    expect(agence().idAbonnementStripe).toBeNull();
+
+    const checkout = await livrer(CHECKOUT);
+    expect(checkout.body.statut).toBe("traite");
+
+    expect(evenement("evt_subscription_before_checkout")).toMatchObject({
+      statut: "traite",
+      agenceId: AGENCE_ID,
+      tentatives: 2,
+    });
+    expect(agence()).toMatchObject({
+      plan: "pro",
+      idClientStripe: CLIENT_STRIPE,
+      idAbonnementStripe: "sub_test_agence",
+      dateEvenementStripe: new Date(1760000060 * 1000),
+    });
+  });
+});
+
+describe("POST /api/admin/stripe/evenements/:id/retraiter", () => {
+  const ADMIN_ID = "admin-test";
+  const SESSION_ID = "session-admin-test";
+
+  let cookie: string;
+
+  beforeEach(() => {
+    seed(superAdmins, {
+      id: ADMIN_ID,
+      email: "admin@onlytrack.test",
+      motDePasse: "-",
+      nom: "Test",
+      prenom: "Admin",
+      totpActive: true,
+    });
+    seed(sessions, {
+      id: SESSION_ID,
+      utilisateurId: ADMIN_ID,
+      typeCompte: "admin",
+      tokenHash: "-",
+      dateExpiration: new Date(Date.now() + 60 * 60 * 1000),
+    });
+
+    const token = jwt.sign(
+      { id: ADMIN_ID, email: "admin@onlytrack.test", type: "admin", mfa: true, sessionId: SESSION_ID },
+      process.env.JWT_SECRET!,
+    );
+    cookie = `admin_token=${token}`;
+  });
+
+  async function retraiter(id: string, corps: Record<string, unknown> = {}, cookieAdmin = cookie) {
+    const reponse = await fetch(`${url}/api/admin/stripe/evenements/${id}/retraiter`, {
+      method: "POST",
+      headers: { "content-type": "application/json", cookie: cookieAdmin },
+      body: JSON.stringify(corps),
+    });
+    return { status: reponse.status, body: await reponse.json() };
+  }
+
+  it("exige une session admin", async () => {
+    const { status } = await retraiter("evt_subscription_active", {}, "");
+    expect(status).toBe(401);
+  });
+
+  it("rejoue un événement obsolète en ignorant l'ordre et journalise le retraitement", async () => {
+    await livrer(ABONNEMENT_IMPAYE);
+    await livrer(ABONNEMENT_ACTIF);
+    expect(evenement("evt_subscription_active")?.statut).toBe("obsolete");
+
+    const sansForcer = await retraiter("evt_subscription_active");
+    expect(sansForcer.status).toBe(200);
+    expect(sansForcer.body).toMatchObject({ statut: "obsolete", tentatives: 2 });
+
+    const force = await retraiter("evt_subscription_active", { ignorerOrdre: true });
+    expect(force.status).toBe(200);
+    expect(force.body).toMatchObject({ statut: "traite", agenceId: AGENCE_ID, tentatives: 3 });
+
+    // Appliqué, sans faire reculer la date du dernier événement
+    expect(agence()).toMatchObject({
+      statutAbonnement: "actif",
+      dateEchecPaiement: null,
+      dateEvenementStripe: new Date(1760003600 * 1000),
+    });
+    expect(rowsOf(auditAdmin).map((a) => [a.adminId, a.action, a.cibleId])).toEqual([
+      [ADMIN_ID, "evenement_stripe.retraitement", "evt_subscription_active"],
+      [ADMIN_ID, "evenement_stripe.retraitement", "evt_subscription_active"],
+    ]);
+  });
+
+  it("refuse un événement en cours de traitement et un événement inconnu", async () => {
+    seed(evenementsStripe, {
+      id: "evt_en_cours",
+      type: "customer.subscription.updated",
+      clientStripe: CLIENT_STRIPE,
+      dateEvenement: new Date(1760001800 * 1000),
+      payload: JSON.parse(ABONNEMENT_ACTIF),
+      statut: "en_cours",
+      tentatives: 0,
+      dateReception: new Date(),
+      dateTraitement: new Date(),
+    });
+
+    const enCours = await retraiter("evt_en_cours");
+    expect(enCours.status).toBe(409);
+    expect(evenement("evt_en_cours")?.tentatives).toBe(0);
+
+    const inconnu = await retraiter("evt_inconnu");
+    expect(inconnu.status).toBe(404);
+  });
+});
@@ -0,0 +1,91 @@
+// ==========================================
+// DOUBLE AUTHENTIFICATION (TOTP)
+// Vecteurs de test de la RFC 6238 (SHA-1), anti-rejeu des codes
+// ==========================================
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { prevoir, resetStubDb, stubDb } from "./helpers/stub-db";
+
+vi.mock("../src/db", async () => ({
+  db: (await import("./helpers/stub-db")).stubDb,
+  pool: {},
+}));
+
+const { findTotpStep, verifyTotp, encryptTotpSecret, decryptTotpSecret } = await import(
+  "../src/lib/totp"
+);
+const { consumeTotpCode } = await import("../src/lib/two-factor");
+
+// Secret ASCII "12345678901234567890" de la RFC 6238, en base32
+const SECRET_RFC = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+beforeEach(() => {
+  resetStubDb();
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("findTotpStep", () => {
+  it("retrouve le pas de temps des codes de la RFC 6238", () => {
+    vi.setSystemTime(59 * 1000);
+    expect(findTotpStep(SECRET_RFC, "287082")).toBe(1);
+
+    vi.setSystemTime(1111111109 * 1000);
+    expect(findTotpStep(SECRET_RFC, "081804")).toBe(37037036);
+
+    vi.setSystemTime(1234567890 * 1000);
+    expect(findTotpStep(SECRET_RFC, "005924")).toBe(41152263);
+  });
+
+  it("tolère un pas de décalage d'horloge, pas deux", () => {
+    vi.setSystemTime((59 + 30) * 1000);
+    expect(findTotpStep(SECRET_RFC, "287082")).toBe(1);
+
+    vi.setSystemTime((59 + 60) * 1000);
+    expect(findTotpStep(SECRET_RFC, "287082")).toBeNull();
+  });
+
+  it("refuse un code mal formé", () => {
+    vi.setSystemTime(59 * 1000);
+    expect(findTotpStep(SECRET_RFC, "28708")).toBeNull();
+    expect(findTotpStep(SECRET_RFC, "28708a")).toBeNull();
+    expect(verifyTotp(SECRET_RFC, "287 082")).toBe(true);
+  });
+});
+
+describe("chiffrement des secrets", () => {
+  it("déchiffre le secret chiffré, avec un chiffré différent à chaque fois", () => {
+    const chiffre = encryptTotpSecret(SECRET_RFC);
+
+    expect(chiffre).not.toContain(SECRET_RFC);
+    expect(encryptTotpSecret(SECRET_RFC)).not.toBe(chiffre);
+    expect(decryptTotpSecret(chiffre)).toBe(SECRET_RFC);
+  });
+});
+
+describe("consumeTotpCode", () => {
+  it("accepte un code une seule fois: le pas n'est enregistré que s'il est nouveau", async () => {
+    vi.setSystemTime(59 * 1000);
+    const chiffre = encryptTotpSecret(SECRET_RFC);
+
+    // Premier usage: le pas est enregistré; rejeu: la mise à jour conditionnelle ne trouve rien
+    prevoir("update", [{ affectedRows: 1 }], [{ affectedRows: 0 }]);
+
+    expect(await consumeTotpCode("u1", "utilisateur", chiffre, "287082")).toBe(true);
+    expect(await consumeTotpCode("u1", "utilisateur", chiffre, "287082")).toBe(false);
+    expect(stubDb.update).toHaveBeenCalledTimes(2);
+  });
+
+  it("refuse un code invalide sans toucher au compte", async () => {
+    vi.setSystemTime(59 * 1000);
+
+    expect(await consumeTotpCode("u1", "admin", encryptTotpSecret(SECRET_RFC), "000000")).toBe(
+      false,
+    );
+    expect(await consumeTotpCode("u1", "admin", null, "287082")).toBe(false);
+    expect(stubDb.update).not.toHaveBeenCalled();
+  });
+});